@@ -0,0 +1,495 @@
+/**
+ * Accessibility Audit
+ * Checks generated or AI-edited portfolio HTML against the WCAG 2.1 AA rules
+ * we can verify statically, and scores the result. Publishing can be blocked
+ * on critical failures with `assertPublishable`.
+ */
+
+import { byTag, closest, describeElement, findAll, parseHtml, textContent, type HtmlElement } from '../html/parser';
+
+export type AccessibilitySeverity = 'critical' | 'serious' | 'moderate' | 'minor';
+
+export type AccessibilityRule =
+  | 'document-lang'
+  | 'valid-lang'
+  | 'document-title'
+  | 'image-alt'
+  | 'page-has-heading-one'
+  | 'heading-order'
+  | 'empty-heading'
+  | 'landmark-main'
+  | 'landmark-unique'
+  | 'link-name'
+  | 'link-text'
+  | 'form-label'
+  | 'button-name'
+  | 'color-contrast';
+
+export interface AccessibilityIssue {
+  rule: AccessibilityRule;
+  severity: AccessibilitySeverity;
+  // WCAG 2.1 success criterion, e.g. "1.1.1"
+  wcag: string;
+  message: string;
+  // How to fix it, shown in the editor
+  fix: string;
+  element?: string;
+  line?: number;
+}
+
+export interface AccessibilityReport {
+  // 0-100; 100 means no issues were found
+  score: number;
+  // False when any critical issue was found
+  passed: boolean;
+  issues: AccessibilityIssue[];
+  counts: Record<AccessibilitySeverity, number>;
+}
+
+export interface ThemeColors {
+  text: string;
+  muted: string;
+  accent: string;
+  background: string;
+  surface: string;
+}
+
+export interface AuditOptions {
+  // Stylesheet linked from the page; inline <style> blocks are read as well
+  css?: string;
+  // Overrides colours found in the CSS custom properties
+  theme?: Partial<ThemeColors>;
+}
+
+const SEVERITY_WEIGHTS: Record<AccessibilitySeverity, number> = {
+  critical: 20,
+  serious: 10,
+  moderate: 4,
+  minor: 1,
+};
+
+// Repeats of one rule stop lowering the score after this many
+const MAX_PENALISED_PER_RULE = 3;
+
+const SEVERITY_ORDER: AccessibilitySeverity[] = ['critical', 'serious', 'moderate', 'minor'];
+
+const DEFAULT_THEME: ThemeColors = {
+  text: '#000000',
+  muted: '#000000',
+  accent: '#0000ee',
+  background: '#ffffff',
+  surface: '#ffffff',
+};
+
+const GENERIC_LINK_TEXT = new Set(['click here', 'here', 'read more', 'more', 'link', 'this link', 'learn more', 'click']);
+
+const UNLABELLED_INPUT_TYPES = new Set(['hidden', 'submit', 'reset', 'button', 'image']);
+
+/**
+ * Audit an HTML document and return a scored report
+ */
+export function auditAccessibility(html: string, options: AuditOptions = {}): AccessibilityReport {
+  const document = parseHtml(html);
+  const issues: AccessibilityIssue[] = [
+    ...checkLanguage(document),
+    ...checkTitle(document),
+    ...checkImages(document),
+    ...checkHeadings(document),
+    ...checkLandmarks(document),
+    ...checkLinks(document),
+    ...checkForms(document),
+    ...checkContrast(document, options),
+  ];
+
+  issues.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || (a.line ?? 0) - (b.line ?? 0));
+
+  const counts = { critical: 0, serious: 0, moderate: 0, minor: 0 };
+  const perRule = new Map<AccessibilityRule, number>();
+  let penalty = 0;
+
+  for (const issue of issues) {
+    counts[issue.severity]++;
+    const seen = (perRule.get(issue.rule) ?? 0) + 1;
+    perRule.set(issue.rule, seen);
+    if (seen <= MAX_PENALISED_PER_RULE) penalty += SEVERITY_WEIGHTS[issue.severity];
+  }
+
+  return {
+    score: Math.max(0, 100 - penalty),
+    passed: counts.critical === 0,
+    issues,
+    counts,
+  };
+}
+
+/**
+ * Throw when the report has issues at or above `blockOn`
+ */
+export function assertPublishable(report: AccessibilityReport, blockOn: AccessibilitySeverity = 'critical'): void {
+  const blocking = report.issues.filter(issue => SEVERITY_ORDER.indexOf(issue.severity) <= SEVERITY_ORDER.indexOf(blockOn));
+  if (blocking.length > 0) {
+    const rules = [...new Set(blocking.map(issue => issue.rule))].join(', ');
+    throw new Error(`Publishing blocked by ${blocking.length} accessibility issue(s): ${rules}`);
+  }
+}
+
+/**
+ * WCAG contrast ratio between two colours (1-21), or null if either can't be parsed
+ */
+export function contrastRatio(foreground: string, background: string): number | null {
+  const fg = parseColor(foreground);
+  const bg = parseColor(background);
+  if (!fg || !bg) return null;
+
+  const [lighter, darker] = [luminance(fg), luminance(bg)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+function checkLanguage(document: HtmlElement): AccessibilityIssue[] {
+  const issues: AccessibilityIssue[] = [];
+  const [root] = byTag(document, 'html');
+
+  if (!root?.attrs.lang?.trim()) {
+    issues.push({
+      rule: 'document-lang',
+      severity: 'critical',
+      wcag: '3.1.1',
+      message: 'The page does not declare its language',
+      fix: 'Add a lang attribute to <html>, e.g. <html lang="en">',
+      ...at(root),
+    });
+  }
+
+  for (const element of findAll(document, el => 'lang' in el.attrs && el.attrs.lang.trim() !== '')) {
+    if (!/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(element.attrs.lang.trim())) {
+      issues.push({
+        rule: 'valid-lang',
+        severity: 'serious',
+        wcag: '3.1.2',
+        message: `"${element.attrs.lang}" is not a valid language tag`,
+        fix: 'Use a BCP 47 language tag such as "en", "de" or "pt-BR"',
+        ...at(element),
+      });
+    }
+  }
+
+  return issues;
+}
+
+function checkTitle(document: HtmlElement): AccessibilityIssue[] {
+  const [title] = byTag(document, 'title');
+  if (title && textContent(title)) return [];
+
+  return [{
+    rule: 'document-title',
+    severity: 'serious',
+    wcag: '2.4.2',
+    message: 'The page has no title',
+    fix: 'Add a descriptive <title> to <head>, e.g. "Jane Doe – Staff Engineer"',
+    ...at(title),
+  }];
+}
+
+function checkImages(document: HtmlElement): AccessibilityIssue[] {
+  const issues: AccessibilityIssue[] = [];
+
+  for (const image of findAll(document, el => el.tag === 'img' || (el.tag === 'input' && el.attrs.type?.toLowerCase() === 'image'))) {
+    if (isHidden(image)) continue;
+
+    if (!('alt' in image.attrs) && !hasAriaLabel(image)) {
+      issues.push({
+        rule: 'image-alt',
+        severity: 'critical',
+        wcag: '1.1.1',
+        message: 'Image has no alternative text',
+        fix: 'Describe the image in an alt attribute, or use alt="" if it is decorative',
+        ...at(image),
+      });
+    } else if (/\.(png|jpe?g|gif|webp|svg|avif)$/i.test(image.attrs.alt?.trim() ?? '')) {
+      issues.push({
+        rule: 'image-alt',
+        severity: 'serious',
+        wcag: '1.1.1',
+        message: 'Image alt text is a file name',
+        fix: 'Replace the file name with a short description of the image',
+        ...at(image),
+      });
+    }
+  }
+
+  for (const svg of findAll(document, el => el.tag === 'svg' && el.attrs.role === 'img')) {
+    if (!hasAriaLabel(svg) && !byTag(svg, 'title').some(title => textContent(title))) {
+      issues.push({
+        rule: 'image-alt',
+        severity: 'serious',
+        wcag: '1.1.1',
+        message: 'SVG image has no accessible name',
+        fix: 'Add aria-label or a <title> element to the SVG',
+        ...at(svg),
+      });
+    }
+  }
+
+  return issues;
+}
+
+function checkHeadings(document: HtmlElement): AccessibilityIssue[] {
+  const issues: AccessibilityIssue[] = [];
+  const headings = findAll(document, el => /^h[1-6]$/.test(el.tag) && !isHidden(el));
+  const ones = headings.filter(heading => heading.tag === 'h1');
+
+  if (ones.length === 0) {
+    issues.push({
+      rule: 'page-has-heading-one',
+      severity: 'serious',
+      wcag: '1.3.1',
+      message: 'The page has no level-one heading',
+      fix: 'Mark up the page title (usually the person\'s name) as <h1>',
+    });
+  } else if (ones.length > 1) {
+    issues.push({
+      rule: 'page-has-heading-one',
+      severity: 'moderate',
+      wcag: '1.3.1',
+      message: `The page has ${ones.length} level-one headings`,
+      fix: 'Keep a single <h1> and demote the others to <h2>',
+      ...at(ones[1]),
+    });
+  }
+
+  let previous = 0;
+  for (const heading of headings) {
+    const level = Number(heading.tag[1]);
+    if (!textContent(heading) && !hasAriaLabel(heading) && !byTag(heading, 'img').some(img => img.attrs.alt?.trim())) {
+      issues.push({
+        rule: 'empty-heading',
+        severity: 'serious',
+        wcag: '2.4.6',
+        message: 'Heading is empty',
+        fix: 'Give the heading text or remove it',
+        ...at(heading),
+      });
+    }
+    if (previous > 0 && level > previous + 1) {
+      issues.push({
+        rule: 'heading-order',
+        severity: 'moderate',
+        wcag: '1.3.1',
+        message: `Heading level jumps from h${previous} to h${level}`,
+        fix: `Use <h${previous + 1}> here, or restyle instead of skipping levels`,
+        ...at(heading),
+      });
+    }
+    previous = level;
+  }
+
+  return issues;
+}
+
+function checkLandmarks(document: HtmlElement): AccessibilityIssue[] {
+  const issues: AccessibilityIssue[] = [];
+  const mains = findAll(document, el => el.tag === 'main' || el.attrs.role === 'main');
+
+  if (mains.length === 0) {
+    issues.push({
+      rule: 'landmark-main',
+      severity: 'serious',
+      wcag: '1.3.1',
+      message: 'The page has no main landmark',
+      fix: 'Wrap the primary content in a <main> element',
+    });
+  } else if (mains.length > 1) {
+    issues.push({
+      rule: 'landmark-main',
+      severity: 'moderate',
+      wcag: '1.3.1',
+      message: `The page has ${mains.length} main landmarks`,
+      fix: 'Keep a single <main> element',
+      ...at(mains[1]),
+    });
+  }
+
+  const navs = findAll(document, el => el.tag === 'nav' || el.attrs.role === 'navigation');
+  if (navs.length > 1) {
+    const names = navs.map(nav => nav.attrs['aria-label'] ?? nav.attrs['aria-labelledby'] ?? '');
+    navs.forEach((nav, index) => {
+      if (!names[index] || names.indexOf(names[index]) !== index) {
+        issues.push({
+          rule: 'landmark-unique',
+          severity: 'minor',
+          wcag: '1.3.1',
+          message: 'Navigation regions are not distinguishable',
+          fix: 'Give each <nav> a distinct aria-label, e.g. "Sections" and "Social links"',
+          ...at(nav),
+        });
+      }
+    });
+  }
+
+  return issues;
+}
+
+function checkLinks(document: HtmlElement): AccessibilityIssue[] {
+  const issues: AccessibilityIssue[] = [];
+
+  for (const link of findAll(document, el => el.tag === 'a' && 'href' in el.attrs && !isHidden(el))) {
+    const name = accessibleName(link);
+    if (!name) {
+      issues.push({
+        rule: 'link-name',
+        severity: 'critical',
+        wcag: '2.4.4',
+        message: 'Link has no text',
+        fix: 'Add link text, an aria-label, or alt text on the linked image',
+        ...at(link),
+      });
+    } else if (GENERIC_LINK_TEXT.has(name.toLowerCase().replace(/[.…!:]+$/, ''))) {
+      issues.push({
+        rule: 'link-text',
+        severity: 'moderate',
+        wcag: '2.4.4',
+        message: `Link text "${name}" does not say where it goes`,
+        fix: 'Use text that makes sense on its own, e.g. "Read the Acme case study"',
+        ...at(link),
+      });
+    }
+  }
+
+  return issues;
+}
+
+function checkForms(document: HtmlElement): AccessibilityIssue[] {
+  const issues: AccessibilityIssue[] = [];
+  const labelled = new Set(byTag(document, 'label').map(label => label.attrs.for).filter(Boolean));
+
+  const fields = findAll(document, el =>
+    (el.tag === 'input' && !UNLABELLED_INPUT_TYPES.has((el.attrs.type ?? 'text').toLowerCase()))
+    || el.tag === 'select'
+    || el.tag === 'textarea');
+
+  for (const field of fields) {
+    if (isHidden(field)) continue;
+    const hasLabel = (field.attrs.id && labelled.has(field.attrs.id))
+      || closest(field, 'label')
+      || hasAriaLabel(field)
+      || field.attrs.title?.trim();
+    if (!hasLabel) {
+      issues.push({
+        rule: 'form-label',
+        severity: 'critical',
+        wcag: '1.3.1',
+        message: 'Form field has no label',
+        fix: 'Add a <label for="…"> matching the field\'s id, or an aria-label',
+        ...at(field),
+      });
+    }
+  }
+
+  for (const button of byTag(document, 'button')) {
+    if (!isHidden(button) && !accessibleName(button)) {
+      issues.push({
+        rule: 'button-name',
+        severity: 'critical',
+        wcag: '4.1.2',
+        message: 'Button has no text',
+        fix: 'Add button text or an aria-label',
+        ...at(button),
+      });
+    }
+  }
+
+  return issues;
+}
+
+function checkContrast(document: HtmlElement, options: AuditOptions): AccessibilityIssue[] {
+  const css = [options.css ?? '', ...byTag(document, 'style').map(textContent)].join('\n');
+  const theme: ThemeColors = { ...DEFAULT_THEME, ...themeFromCss(css), ...options.theme };
+
+  const pairs: [string, keyof ThemeColors, keyof ThemeColors][] = [
+    ['Body text', 'text', 'background'],
+    ['Secondary text', 'muted', 'background'],
+    ['Links', 'accent', 'background'],
+    ['Tags', 'text', 'surface'],
+  ];
+
+  const issues: AccessibilityIssue[] = [];
+  for (const [label, foreground, background] of pairs) {
+    const ratio = contrastRatio(theme[foreground], theme[background]);
+    if (ratio === null || ratio >= 4.5) continue;
+
+    issues.push({
+      rule: 'color-contrast',
+      severity: ratio < 3 ? 'critical' : 'serious',
+      wcag: '1.4.3',
+      message: `${label} (${theme[foreground]} on ${theme[background]}) have a contrast ratio of ${ratio.toFixed(2)}:1; 4.5:1 is required`,
+      fix: `Darken --color-${foreground} or lighten --color-${background} until the ratio reaches 4.5:1`,
+    });
+  }
+  return issues;
+}
+
+/**
+ * Read --color-* custom properties; later declarations win
+ */
+function themeFromCss(css: string): Partial<ThemeColors> {
+  const theme: Partial<ThemeColors> = {};
+  const declaration = /--color-(text|muted|accent|background|surface)\s*:\s*([^;}]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = declaration.exec(css))) {
+    theme[match[1] as keyof ThemeColors] = match[2].trim();
+  }
+  return theme;
+}
+
+function accessibleName(element: HtmlElement): string {
+  const label = element.attrs['aria-label']?.trim();
+  if (label) return label;
+  if (element.attrs['aria-labelledby']?.trim()) return element.attrs['aria-labelledby'];
+
+  const text = textContent(element);
+  if (text) return text;
+
+  const imageAlt = byTag(element, 'img').map(img => img.attrs.alt?.trim() ?? '').find(Boolean);
+  return imageAlt || element.attrs.title?.trim() || '';
+}
+
+function hasAriaLabel(element: HtmlElement): boolean {
+  return !!(element.attrs['aria-label']?.trim() || element.attrs['aria-labelledby']?.trim());
+}
+
+function isHidden(element: HtmlElement): boolean {
+  for (let node: HtmlElement | undefined = element; node; node = node.parent) {
+    if ('hidden' in node.attrs || node.attrs['aria-hidden'] === 'true') return true;
+  }
+  return false;
+}
+
+function at(element?: HtmlElement): Pick<AccessibilityIssue, 'element' | 'line'> {
+  return element ? { element: describeElement(element), line: element.line } : {};
+}
+
+function parseColor(value: string): [number, number, number] | null {
+  const color = value.trim().toLowerCase();
+
+  const hex = color.match(/^#([0-9a-f]{3,8})$/);
+  if (hex) {
+    const digits = hex[1].length <= 4 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+    if (digits.length !== 6 && digits.length !== 8) return null;
+    return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as [number, number, number];
+  }
+
+  const rgb = color.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/);
+  if (rgb) return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+
+  if (color === 'white') return [255, 255, 255];
+  if (color === 'black') return [0, 0, 0];
+  return null;
+}
+
+function luminance([r, g, b]: [number, number, number]): number {
+  const [lr, lg, lb] = [r, g, b].map(channel => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
@@ -0,0 +1,21 @@
+/**
+ * Model Output JSON
+ * Helpers for reading structured data out of model responses
+ */
+
+/**
+ * Pull the JSON object out of a model response, tolerating code fences
+ * and surrounding prose
+ */
+export function extractJSON(output: string): unknown {
+  const unfenced = output.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end <= start) return undefined;
+
+  try {
+    return JSON.parse(unfenced.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * AI Model Client
+ * Provider-agnostic completion interface used by the AI features, so they
+ * can run against any model or a scripted fake in tests
+ */
+
+import { generateText, type LanguageModel } from 'ai';
+
+export interface ModelRequest {
+  modelId: string;
+  prompt: string;
+  maxTokens?: number;
+}
+
+export interface ModelClient {
+  complete(request: ModelRequest): Promise<string>;
+}
+
+/**
+ * Model client backed by the Vercel AI SDK providers
+ */
+export function createAISDKModelClient(resolveModel: (modelId: string) => LanguageModel): ModelClient {
+  return {
+    async complete({ modelId, prompt, maxTokens }) {
+      const { text } = await generateText({ model: resolveModel(modelId), prompt, maxTokens });
+      return text;
+    },
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Request Authentication
+ * Resolves the signed-in user from the Supabase access token the browser
+ * sends as "Authorization: Bearer <token>"
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { json } from '@remix-run/cloudflare';
+
+export interface AuthenticatedUser {
+  id: string;
+  email?: string;
+  // Unset until the user confirms their email address
+  emailConfirmedAt?: string;
+}
+
+/** The request's user; throws a 401 response when there is none */
+export async function requireUser(request: Request, env: any): Promise<AuthenticatedUser> {
+  const token = request.headers.get('Authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) {
+    throw json({ error: 'Sign in required' }, { status: 401 });
+  }
+
+  const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) {
+    throw json({ error: 'Sign in required' }, { status: 401 });
+  }
+
+  const { id, email, email_confirmed_at: emailConfirmedAt } = data.user;
+  return { id, email, ...(emailConfirmedAt ? { emailConfirmedAt } : {}) };
+}
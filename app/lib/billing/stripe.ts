@@ -0,0 +1,407 @@
+/**
+ * Stripe Billing
+ * Checkout and the Customer Portal for subscription tiers, one-off Checkout
+ * for AI credit packs, and the webhook handler that keeps subscription_tier
+ * and subscription_status on user_profiles in step with Stripe.
+ */
+
+import Stripe from 'stripe';
+import { createClient } from '@supabase/supabase-js';
+import { CreditLedger, SupabaseCreditStore } from '../credits/ledger';
+import { CREDIT_PACKS } from '../credits/pricing';
+import { SUBSCRIPTION_TIERS } from '../paywall/service';
+
+export interface BillingConfig {
+  webhookSecret: string;
+  // Stripe price id per paid tier, e.g. { pro: 'price_1Q…' }
+  prices: Record<string, string | undefined>;
+  // Stripe price id per credit pack, e.g. { credits_100: 'price_1Q…' }
+  creditPrices: Record<string, string | undefined>;
+}
+
+export interface CheckoutUrls {
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface SubscriptionUpdate {
+  // Unchanged when not set (e.g. a failed payment only changes the status)
+  tier?: string;
+  status: string;
+  customerId?: string;
+  subscriptionId?: string;
+  // Subscription's billing cycle anchor; AI credits reset on this date each month
+  anchorAt?: string;
+  // When Stripe created the event; Stripe doesn't guarantee delivery order
+  eventAt: string;
+}
+
+export interface BillingStore {
+  getCustomerId(userId: string): Promise<string | undefined>;
+  saveCustomerId(userId: string, customerId: string): Promise<void>;
+  findUserByCustomer(customerId: string): Promise<string | undefined>;
+  // False when an event newer than `update.eventAt` has already been applied
+  updateSubscription(userId: string, update: SubscriptionUpdate): Promise<boolean>;
+  isEventProcessed(eventId: string): Promise<boolean>;
+  markEventProcessed(eventId: string, type: string): Promise<void>;
+}
+
+// The parts of the Stripe client billing uses
+export interface StripeApi {
+  customers: Pick<Stripe.CustomersResource, 'create'>;
+  checkout: { sessions: Pick<Stripe.Checkout.SessionsResource, 'create'> };
+  billingPortal: { sessions: Pick<Stripe.BillingPortal.SessionsResource, 'create'> };
+  webhooks: Pick<Stripe.Webhooks, 'constructEventAsync'>;
+}
+
+type CreditTopUps = Pick<CreditLedger, 'topUp'>;
+
+// Builds the result for the event being processed
+type ResultFor = (outcome: WebhookOutcome, extra?: Partial<WebhookResult>) => WebhookResult;
+
+export type WebhookOutcome = 'applied' | 'duplicate' | 'stale' | 'ignored';
+
+export interface WebhookResult {
+  eventId: string;
+  type: string;
+  outcome: WebhookOutcome;
+  userId?: string;
+  // Why an event was ignored
+  reason?: string;
+}
+
+// Stripe statuses that end a subscription; the user drops back to Free
+const ENDED_STATUSES = new Set(['canceled', 'incomplete_expired']);
+
+// Web Crypto works in Workers and in Node 20
+const cryptoProvider = Stripe.createSubtleCryptoProvider();
+
+export class SupabaseBillingStore implements BillingStore {
+  private supabase;
+
+  constructor(supabaseUrl: string, supabaseKey: string) {
+    this.supabase = createClient(supabaseUrl, supabaseKey);
+  }
+
+  async getCustomerId(userId: string): Promise<string | undefined> {
+    const { data, error } = await this.supabase
+      .from('user_profiles')
+      .select('stripe_customer_id')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.stripe_customer_id ?? undefined;
+  }
+
+  async saveCustomerId(userId: string, customerId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('user_profiles')
+      .update({ stripe_customer_id: customerId })
+      .eq('id', userId);
+
+    if (error) throw error;
+  }
+
+  async findUserByCustomer(customerId: string): Promise<string | undefined> {
+    const { data, error } = await this.supabase
+      .from('user_profiles')
+      .select('id')
+      .eq('stripe_customer_id', customerId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.id ?? undefined;
+  }
+
+  async updateSubscription(userId: string, update: SubscriptionUpdate): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('user_profiles')
+      .update({
+        ...(update.tier ? { subscription_tier: update.tier } : {}),
+        subscription_status: update.status,
+        ...(update.customerId ? { stripe_customer_id: update.customerId } : {}),
+        ...(update.subscriptionId ? { stripe_subscription_id: update.subscriptionId } : {}),
+        ...(update.anchorAt ? { billing_anchor_at: update.anchorAt } : {}),
+        billing_event_at: update.eventAt,
+      })
+      .eq('id', userId)
+      // Only move forward in time, in one statement so concurrent deliveries can't interleave
+      .or(`billing_event_at.is.null,billing_event_at.lte."${update.eventAt}"`)
+      .select('id');
+
+    if (error) throw error;
+    return (data ?? []).length > 0;
+  }
+
+  async isEventProcessed(eventId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('stripe_events')
+      .select('id')
+      .eq('id', eventId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return !!data;
+  }
+
+  async markEventProcessed(eventId: string, type: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('stripe_events')
+      .upsert({ id: eventId, type }, { onConflict: 'id', ignoreDuplicates: true });
+
+    if (error) throw error;
+  }
+}
+
+export class BillingService {
+  constructor(private stripe: StripeApi, private store: BillingStore, private credits: CreditTopUps, private config: BillingConfig) {}
+
+  /** Start Checkout for a paid tier; returns the Stripe-hosted page to redirect to */
+  async createCheckoutSession(userId: string, email: string | undefined, tierId: string, urls: CheckoutUrls): Promise<string> {
+    const tier = SUBSCRIPTION_TIERS.find(t => t.id === tierId);
+    if (!tier) {
+      throw new Error(`Unknown subscription tier: ${tierId}`);
+    }
+    if (tier.price === 0) {
+      throw new Error(`The ${tier.name} plan does not need a checkout`);
+    }
+    const price = this.config.prices[tier.id];
+    if (!price) {
+      throw new Error(`No Stripe price is configured for the ${tier.name} plan`);
+    }
+
+    const session = await this.stripe.checkout.sessions.create({
+      mode: 'subscription',
+      customer: await this.customerFor(userId, email),
+      client_reference_id: userId,
+      line_items: [{ price, quantity: 1 }],
+      success_url: urls.successUrl,
+      cancel_url: urls.cancelUrl,
+      allow_promotion_codes: true,
+      metadata: { userId, tier: tier.id },
+      subscription_data: { metadata: { userId, tier: tier.id } },
+    });
+
+    if (!session.url) {
+      throw new Error('Stripe did not return a checkout URL');
+    }
+    return session.url;
+  }
+
+  /** Start a one-off Checkout for an AI credit pack; the credits are added by the webhook */
+  async createCreditCheckoutSession(userId: string, email: string | undefined, packId: string, urls: CheckoutUrls): Promise<string> {
+    const pack = CREDIT_PACKS.find(p => p.id === packId);
+    if (!pack) {
+      throw new Error(`Unknown credit pack: ${packId}`);
+    }
+    const price = this.config.creditPrices[pack.id];
+    if (!price) {
+      throw new Error(`No Stripe price is configured for ${pack.name}`);
+    }
+
+    const session = await this.stripe.checkout.sessions.create({
+      mode: 'payment',
+      customer: await this.customerFor(userId, email),
+      client_reference_id: userId,
+      line_items: [{ price, quantity: 1 }],
+      success_url: urls.successUrl,
+      cancel_url: urls.cancelUrl,
+      metadata: { userId, pack: pack.id },
+    });
+
+    if (!session.url) {
+      throw new Error('Stripe did not return a checkout URL');
+    }
+    return session.url;
+  }
+
+  /** Open the Customer Portal, where users change plan, update cards and cancel */
+  async createPortalSession(userId: string, returnUrl: string): Promise<string> {
+    const customer = await this.store.getCustomerId(userId);
+    if (!customer) {
+      throw new Error('No billing account found; subscribe to a plan first');
+    }
+
+    const session = await this.stripe.billingPortal.sessions.create({ customer, return_url: returnUrl });
+    return session.url;
+  }
+
+  /**
+   * Check the Stripe-Signature header against the raw request body. Throws
+   * when the event did not come from Stripe.
+   */
+  async verifyWebhook(payload: string, signature: string | null): Promise<Stripe.Event> {
+    if (!signature) {
+      throw new Error('Missing Stripe-Signature header');
+    }
+    return this.stripe.webhooks.constructEventAsync(payload, signature, this.config.webhookSecret, undefined, cryptoProvider);
+  }
+
+  /**
+   * Apply a verified event. Redelivered events are recognised by id, and
+   * events older than the last one applied to the user change nothing.
+   * Throws on storage errors so Stripe retries.
+   */
+  async processEvent(event: Stripe.Event): Promise<WebhookResult> {
+    const result = (outcome: WebhookOutcome, extra: Partial<WebhookResult> = {}): WebhookResult =>
+      ({ eventId: event.id, type: event.type, outcome, ...extra });
+
+    if (await this.store.isEventProcessed(event.id)) {
+      return result('duplicate');
+    }
+
+    const outcome = isCreditPurchase(event)
+      ? await this.applyCreditPurchase(event, result)
+      : await this.applySubscriptionUpdate(event, result);
+
+    await this.store.markEventProcessed(event.id, event.type);
+    return outcome;
+  }
+
+  private async applySubscriptionUpdate(event: Stripe.Event, result: ResultFor): Promise<WebhookResult> {
+    const update = await this.subscriptionUpdate(event);
+    if ('reason' in update) {
+      return result('ignored', { reason: update.reason });
+    }
+
+    const applied = await this.store.updateSubscription(update.userId, update.changes);
+    return result(applied ? 'applied' : 'stale', { userId: update.userId });
+  }
+
+  private async applyCreditPurchase(event: CreditPurchaseEvent, result: ResultFor): Promise<WebhookResult> {
+    const session = event.data.object;
+    // Delayed payment methods complete later with checkout.session.async_payment_succeeded
+    if (session.payment_status !== 'paid') {
+      return result('ignored', { reason: 'Credit pack payment has not completed' });
+    }
+    const userId = session.client_reference_id ?? session.metadata?.userId ?? await this.userFor(idOf(session.customer));
+    const pack = session.metadata?.pack;
+    if (!userId) return result('ignored', { reason: 'No user for this checkout' });
+    if (!pack || !CREDIT_PACKS.some(p => p.id === pack)) return result('ignored', { reason: `Unknown credit pack in checkout: ${pack}` });
+
+    // Keyed by the checkout session, which both events share
+    const added = await this.credits.topUp(userId, pack, `stripe:${session.id}`, new Date(event.created * 1000));
+    return result(added ? 'applied' : 'duplicate', { userId });
+  }
+
+  private async subscriptionUpdate(event: Stripe.Event): Promise<{ userId: string; changes: SubscriptionUpdate } | { reason: string }> {
+    const eventAt = new Date(event.created * 1000).toISOString();
+
+    switch (event.type) {
+      case 'checkout.session.completed': {
+        const session = event.data.object;
+        if (session.mode !== 'subscription') {
+          return { reason: `Checkout mode ${session.mode} is not a subscription` };
+        }
+        const customerId = idOf(session.customer);
+        const userId = session.client_reference_id ?? session.metadata?.userId ?? await this.userFor(customerId);
+        const tier = session.metadata?.tier;
+        if (!userId) return { reason: 'No user for this checkout' };
+        if (!tier || !SUBSCRIPTION_TIERS.some(t => t.id === tier)) return { reason: `Unknown tier in checkout: ${tier}` };
+
+        return {
+          userId,
+          changes: {
+            tier,
+            status: session.payment_status === 'unpaid' ? 'incomplete' : 'active',
+            customerId,
+            subscriptionId: idOf(session.subscription),
+            eventAt,
+          },
+        };
+      }
+
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted': {
+        const subscription = event.data.object;
+        const customerId = idOf(subscription.customer);
+        const userId = subscription.metadata?.userId ?? await this.userFor(customerId);
+        if (!userId) return { reason: 'No user for this subscription' };
+
+        const ended = event.type === 'customer.subscription.deleted' || ENDED_STATUSES.has(subscription.status);
+        const tier = ended ? 'free' : this.tierForPrice(subscription.items.data[0]?.price.id) ?? subscription.metadata?.tier;
+        if (!tier) return { reason: 'Subscription price does not match a tier' };
+
+        return {
+          userId,
+          changes: {
+            tier,
+            status: ended ? 'canceled' : subscription.status,
+            customerId,
+            subscriptionId: subscription.id,
+            anchorAt: subscription.billing_cycle_anchor ? new Date(subscription.billing_cycle_anchor * 1000).toISOString() : undefined,
+            eventAt,
+          },
+        };
+      }
+
+      case 'invoice.payment_failed': {
+        const invoice = event.data.object;
+        const userId = await this.userFor(idOf(invoice.customer));
+        if (!userId) return { reason: 'No user for this invoice' };
+
+        return { userId, changes: { status: 'past_due', eventAt } };
+      }
+
+      default:
+        return { reason: `Unhandled event type: ${event.type}` };
+    }
+  }
+
+  private async customerFor(userId: string, email?: string): Promise<string> {
+    const existing = await this.store.getCustomerId(userId);
+    if (existing) return existing;
+
+    // One customer per user even if checkout is started twice at once
+    const customer = await this.stripe.customers.create(
+      { email, metadata: { userId } },
+      { idempotencyKey: `customer-${userId}` },
+    );
+    await this.store.saveCustomerId(userId, customer.id);
+    return customer.id;
+  }
+
+  private async userFor(customerId?: string): Promise<string | undefined> {
+    return customerId ? this.store.findUserByCustomer(customerId) : undefined;
+  }
+
+  private tierForPrice(priceId?: string): string | undefined {
+    if (!priceId) return undefined;
+    return Object.keys(this.config.prices).find(tier => this.config.prices[tier] === priceId);
+  }
+}
+
+type CreditPurchaseEvent = Stripe.CheckoutSessionCompletedEvent | Stripe.CheckoutSessionAsyncPaymentSucceededEvent;
+
+function isCreditPurchase(event: Stripe.Event): event is CreditPurchaseEvent {
+  return (event.type === 'checkout.session.completed' || event.type === 'checkout.session.async_payment_succeeded')
+    && event.data.object.mode === 'payment';
+}
+
+function idOf(value: string | { id: string } | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return typeof value === 'string' ? value : value.id;
+}
+
+// Export factory function
+export function createBillingService(env: any): BillingService {
+  return new BillingService(
+    new Stripe(env.STRIPE_SECRET_KEY, { httpClient: Stripe.createFetchHttpClient() }),
+    // Webhooks arrive without a user session, so the stores need the service role
+    new SupabaseBillingStore(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY),
+    new CreditLedger(new SupabaseCreditStore(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY)),
+    {
+      webhookSecret: env.STRIPE_WEBHOOK_SECRET,
+      prices: {
+        pro: env.STRIPE_PRICE_PRO,
+        enterprise: env.STRIPE_PRICE_ENTERPRISE,
+      },
+      creditPrices: {
+        credits_100: env.STRIPE_PRICE_CREDITS_100,
+        credits_500: env.STRIPE_PRICE_CREDITS_500,
+      },
+    },
+  );
+}
@@ -0,0 +1,251 @@
+/**
+ * AI Credit Ledger
+ * Every change to a user's AI credits is an entry: the monthly grant, each
+ * charge, the reset at the end of a billing period and purchased top-ups.
+ * Balances are the sum of the entries. The monthly allowance resets on the
+ * billing anchor date; purchased credits carry over until used. Charges are
+ * written by the usage meter when an AI reservation is committed.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { CREDIT_PACKS } from './pricing';
+
+export type CreditEntryKind = 'grant' | 'consume' | 'reset' | 'topup';
+
+// Monthly credits reset each period; purchased credits never expire
+export type CreditBucket = 'monthly' | 'purchased';
+
+export interface CreditEntry {
+  id: string;
+  kind: CreditEntryKind;
+  bucket: CreditBucket;
+  // Positive for grants and top-ups, negative for charges
+  amount: number;
+  reason: string;
+  createdAt: string;
+  // Billing period of grants and resets
+  periodStart?: string;
+  model?: string;
+  tokens?: number;
+  // Unique per user, so a period's grant or a payment is never applied twice
+  reference?: string;
+}
+
+export interface CreditAccount {
+  userId: string;
+  // Monthly allowance of the user's tier (-1 for unlimited)
+  allowance: number;
+  // Billing periods start on this date each month
+  anchorAt: string;
+}
+
+export interface CreditBalance {
+  unlimited: boolean;
+  monthly: number;
+  purchased: number;
+  // Credits that can still be spent (-1 for unlimited)
+  available: number;
+  allowance: number;
+  periodStart: string;
+  periodEnd: string;
+}
+
+export interface CreditHistoryOptions {
+  limit?: number;
+  // Entries created before this time, for paging
+  before?: string;
+}
+
+export interface CreditStore {
+  // Sum of entry amounts per bucket
+  balances(userId: string): Promise<Record<CreditBucket, number>>;
+  // Newest first
+  list(userId: string, options: { limit: number; before?: string }): Promise<CreditEntry[]>;
+  hasReference(userId: string, reference: string): Promise<boolean>;
+  // All entries or none; false when one of the references is already taken
+  append(userId: string, entries: CreditEntry[]): Promise<boolean>;
+}
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+export class SupabaseCreditStore implements CreditStore {
+  private supabase;
+
+  constructor(supabaseUrl: string, supabaseKey: string) {
+    this.supabase = createClient(supabaseUrl, supabaseKey);
+  }
+
+  async balances(userId: string): Promise<Record<CreditBucket, number>> {
+    const { data, error } = await this.supabase
+      .from('credit_balances')
+      .select('bucket, balance')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    const balances: Record<CreditBucket, number> = { monthly: 0, purchased: 0 };
+    for (const row of data ?? []) {
+      balances[row.bucket as CreditBucket] = Number(row.balance);
+    }
+    return balances;
+  }
+
+  async list(userId: string, options: { limit: number; before?: string }): Promise<CreditEntry[]> {
+    let query = this.supabase
+      .from('credit_ledger')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(options.limit);
+    if (options.before) {
+      query = query.lt('created_at', options.before);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data ?? []).map(toEntry);
+  }
+
+  async hasReference(userId: string, reference: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('credit_ledger')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('reference', reference)
+      .maybeSingle();
+
+    if (error) throw error;
+    return !!data;
+  }
+
+  async append(userId: string, entries: CreditEntry[]): Promise<boolean> {
+    // One insert statement, so the entries land together or not at all
+    const { error } = await this.supabase.from('credit_ledger').insert(entries.map(entry => ({
+      id: entry.id,
+      user_id: userId,
+      kind: entry.kind,
+      bucket: entry.bucket,
+      amount: entry.amount,
+      reason: entry.reason,
+      created_at: entry.createdAt,
+      period_start: entry.periodStart ?? null,
+      model: entry.model ?? null,
+      tokens: entry.tokens ?? null,
+      reference: entry.reference ?? null,
+    })));
+
+    if (error?.code === UNIQUE_VIOLATION) return false;
+    if (error) throw error;
+    return true;
+  }
+}
+
+export class CreditLedger {
+  constructor(private store: CreditStore) {}
+
+  /** Balance for the current billing period, granting the allowance first if the period just started */
+  async getBalance(account: CreditAccount, now = new Date()): Promise<CreditBalance> {
+    const period = billingPeriod(account.anchorAt, now);
+    await this.startPeriod(account, period.start, now);
+
+    const { monthly, purchased } = await this.store.balances(account.userId);
+    const unlimited = account.allowance === -1;
+    return {
+      unlimited,
+      monthly,
+      purchased,
+      available: unlimited ? -1 : Math.max(0, monthly) + Math.max(0, purchased),
+      allowance: account.allowance,
+      periodStart: period.start,
+      periodEnd: period.end,
+    };
+  }
+
+  /** Add a purchased credit pack; false when the payment was already applied */
+  async topUp(userId: string, packId: string, reference: string, now = new Date()): Promise<boolean> {
+    const pack = CREDIT_PACKS.find(p => p.id === packId);
+    if (!pack) {
+      throw new Error(`Unknown credit pack: ${packId}`);
+    }
+
+    return this.store.append(userId, [
+      entry({ kind: 'topup', bucket: 'purchased', amount: pack.credits, reason: `Purchased ${pack.name}`, reference }, now),
+    ]);
+  }
+
+  /** Newest first */
+  async history(userId: string, options: CreditHistoryOptions = {}): Promise<CreditEntry[]> {
+    return this.store.list(userId, { ...options, limit: options.limit ?? DEFAULT_HISTORY_LIMIT });
+  }
+
+  /**
+   * Zero what's left of the last period's monthly credits and grant the
+   * allowance, once per period. A new subscription moves the anchor, so
+   * upgrading starts a fresh period on the new tier.
+   */
+  private async startPeriod(account: CreditAccount, periodStart: string, now: Date): Promise<void> {
+    const reference = `grant:${periodStart}`;
+    if (account.allowance === -1 || await this.store.hasReference(account.userId, reference)) {
+      return;
+    }
+
+    const { monthly } = await this.store.balances(account.userId);
+    const entries: CreditEntry[] = [];
+    if (monthly !== 0) {
+      entries.push(entry({ kind: 'reset', bucket: 'monthly', amount: -monthly, reason: 'Monthly credits reset', periodStart, reference: `reset:${periodStart}` }, now));
+    }
+    entries.push(entry({ kind: 'grant', bucket: 'monthly', amount: account.allowance, reason: 'Monthly plan credits', periodStart, reference }, now));
+
+    // A concurrent request may have started the period first
+    await this.store.append(account.userId, entries);
+  }
+}
+
+/**
+ * The monthly billing period containing `now`. Anchors late in the month
+ * fall on the month's last day when it is shorter, as Stripe bills them.
+ */
+export function billingPeriod(anchorAt: string, now = new Date()): { start: string; end: string } {
+  const anchor = new Date(anchorAt);
+  let months = (now.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + now.getUTCMonth() - anchor.getUTCMonth();
+  if (addMonths(anchor, months).getTime() > now.getTime()) {
+    months -= 1;
+  }
+  return { start: addMonths(anchor, months).toISOString(), end: addMonths(anchor, months + 1).toISOString() };
+}
+
+function addMonths(anchor: Date, months: number): Date {
+  const year = anchor.getUTCFullYear();
+  const month = anchor.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(
+    year,
+    month,
+    Math.min(anchor.getUTCDate(), lastDay),
+    anchor.getUTCHours(),
+    anchor.getUTCMinutes(),
+    anchor.getUTCSeconds(),
+    anchor.getUTCMilliseconds(),
+  ));
+}
+
+function entry(fields: Omit<CreditEntry, 'id' | 'createdAt'>, now: Date): CreditEntry {
+  return { id: crypto.randomUUID(), ...fields, createdAt: now.toISOString() };
+}
+
+function toEntry(row: any): CreditEntry {
+  return {
+    id: row.id,
+    kind: row.kind,
+    bucket: row.bucket,
+    amount: row.amount,
+    reason: row.reason,
+    createdAt: row.created_at,
+    ...(row.period_start ? { periodStart: row.period_start } : {}),
+    ...(row.model ? { model: row.model } : {}),
+    ...(row.tokens ? { tokens: row.tokens } : {}),
+    ...(row.reference ? { reference: row.reference } : {}),
+  };
+}
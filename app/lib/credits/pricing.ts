@@ -0,0 +1,67 @@
+/**
+ * AI Credit Pricing
+ * What an AI request costs in credits, by model and tokens, and the credit
+ * packs users can buy on top of their plan's monthly allowance.
+ */
+
+export interface ModelPricing {
+  // Charged for every request
+  base: number;
+  perThousandTokens: number;
+}
+
+export interface AIUsage {
+  // Feature that made the request, e.g. 'linkedin_parser'
+  feature: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CreditPack {
+  id: string;
+  name: string;
+  credits: number;
+  // USD, one-off
+  price: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-3-haiku': { base: 1, perThousandTokens: 0.25 },
+  'claude-3-sonnet': { base: 1, perThousandTokens: 1 },
+  'gpt-4o': { base: 1, perThousandTokens: 1 },
+  'gpt-4': { base: 2, perThousandTokens: 3 },
+};
+
+// Models without their own entry
+const DEFAULT_PRICING: ModelPricing = { base: 1, perThousandTokens: 1 };
+
+export const CREDIT_PACKS: CreditPack[] = [
+  { id: 'credits_100', name: '100 AI credits', credits: 100, price: 9 },
+  { id: 'credits_500', name: '500 AI credits', credits: 500, price: 39 },
+];
+
+/** Whole credits for a request: the model's base charge plus its token rate */
+export function creditCost(usage: Pick<AIUsage, 'model' | 'inputTokens' | 'outputTokens'>): number {
+  const pricing = MODEL_PRICING[usage.model] ?? DEFAULT_PRICING;
+  const tokens = usage.inputTokens + usage.outputTokens;
+  return Math.ceil(pricing.base + (tokens / 1000) * pricing.perThousandTokens);
+}
+
+/** The ledger charge for a completed request */
+export function creditCharge(usage: AIUsage): { amount: number; reason: string; model: string; tokens: number } {
+  return {
+    amount: creditCost(usage),
+    reason: usage.feature,
+    model: usage.model,
+    tokens: usage.inputTokens + usage.outputTokens,
+  };
+}
+
+/**
+ * Rough token count (about four characters per token). ModelClient returns
+ * text only, so charges are based on the prompt and output sizes.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
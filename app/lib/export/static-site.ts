@@ -0,0 +1,445 @@
+/**
+ * Static Site Export
+ * Packages a rendered portfolio as a self-contained ZIP that works from any
+ * static host or straight from disk (file://). Every link is relative.
+ */
+
+import { strToU8, zipSync, type Zippable } from 'fflate';
+import { assertPublishable, auditAccessibility, type AccessibilityReport, type AccessibilitySeverity } from '../accessibility/audit';
+import { DEFAULT_LOCALE, normalizeLocale } from '../i18n/locales';
+import { untranslatedFields, type ProfileTranslation } from '../i18n/translation';
+import type { LinkedInProfile } from '../linkedin/import';
+import { createPaywallService, type PaywallService } from '../paywall/service';
+import { createTemplateRegistry, type TemplateRegistry } from '../templates/registry';
+import { createPortfolioRenderer } from '../templates/renderer';
+import type { ThemeTokens } from '../templates/theme';
+import type { PortfolioTemplate } from '../templates/types';
+
+export interface StaticExportOptions {
+  // Only honoured when the user's plan allows removing the AppVantix credit
+  removeBranding?: boolean;
+  // Where the site will be hosted, e.g. "https://janedoe.dev"; needed for absolute sitemap URLs
+  siteUrl?: string;
+  // Refuse to export when the accessibility audit finds issues this severe or worse
+  blockOn?: AccessibilitySeverity;
+  // Language of the main page; defaults to English
+  locale?: string;
+  // Wording per locale; each other locale is published as <locale>/index.html
+  translations?: Record<string, ProfileTranslation>;
+  // The user's saved design tokens; the template's defaults when not set
+  theme?: ThemeTokens;
+}
+
+export interface StaticSiteExport {
+  filename: string;
+  zip: Uint8Array;
+  // Paths inside the archive, sorted
+  files: string[];
+  branding: boolean;
+  // Report for the page with the lowest score when the site has several languages
+  accessibility: AccessibilityReport;
+  warnings: string[];
+}
+
+export interface RemoteImage {
+  data: Uint8Array;
+  contentType: string;
+}
+
+export type ImageFetcher = (url: string) => Promise<RemoteImage>;
+
+export interface BuildOptions {
+  branding: boolean;
+  siteUrl?: string;
+  fetchImage?: ImageFetcher;
+  locale?: string;
+  translations?: Record<string, ProfileTranslation>;
+  theme?: ThemeTokens;
+}
+
+// Largest profile image we will bundle
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const IMAGE_TIMEOUT_MS = 10 * 1000;
+const MAX_IMAGE_REDIRECTS = 3;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+// Fixed timestamp so the same site always produces the same archive
+const ZIP_MTIME = new Date('2000-01-01T00:00:00Z');
+
+export class StaticSiteExporter {
+  constructor(
+    private registry: Pick<TemplateRegistry, 'select'>,
+    private paywall: Pick<PaywallService, 'can'>,
+    private fetchImage: ImageFetcher = fetchRemoteImage,
+  ) {}
+
+  /**
+   * Export a user's portfolio, enforcing template access and branding entitlements
+   */
+  async export(userId: string, profile: LinkedInProfile, templateId: string, options: StaticExportOptions = {}): Promise<StaticSiteExport> {
+    const selection = await this.registry.select(userId, templateId);
+    if (!selection.allowed || !selection.template) {
+      throw new Error(selection.reason || `Template not available: ${templateId}`);
+    }
+
+    // Free plans keep the credit even when removal is requested
+    const branding = !options.removeBranding || !(await this.paywall.can(userId, 'remove_branding')).allowed;
+
+    const site = await buildStaticSite(profile, selection.template, {
+      branding,
+      siteUrl: options.siteUrl,
+      fetchImage: this.fetchImage,
+      locale: options.locale,
+      translations: options.translations,
+      theme: options.theme,
+    });
+
+    if (options.blockOn) {
+      assertPublishable(site.accessibility, options.blockOn);
+    }
+    return site;
+  }
+}
+
+/**
+ * Render a profile and bundle it with its assets; no access checks
+ */
+export async function buildStaticSite(profile: LinkedInProfile, template: PortfolioTemplate, options: BuildOptions): Promise<StaticSiteExport> {
+  const renderer = createPortfolioRenderer();
+  const warnings: string[] = [];
+  const baseUrl = options.siteUrl ? normalizeSiteUrl(options.siteUrl) : undefined;
+
+  const { css } = renderer.render(profile, template, { theme: options.theme });
+  const cssBytes = strToU8(css);
+  const stylesheet = `assets/styles.${await contentHash(cssBytes)}.css`;
+
+  const files: Zippable = { [stylesheet]: cssBytes };
+
+  let profileImage = '';
+  const image = await loadProfileImage(profile.personal.profileImage, options.fetchImage ?? fetchRemoteImage, warnings);
+  if (image) {
+    profileImage = `assets/profile.${await contentHash(image.data)}.${image.extension}`;
+    // Images are already compressed
+    files[profileImage] = [image.data, { level: 0 }];
+  }
+
+  // The main language sits at the root, every other one in its own folder
+  const mainLocale = normalizeLocale(options.locale ?? DEFAULT_LOCALE);
+  const translations = normalizeTranslations(options.translations ?? {});
+  const pages = [mainLocale, ...Object.keys(translations).filter(locale => locale !== mainLocale)]
+    .map((locale, index) => ({ locale, dir: index === 0 ? '' : `${locale}/` }));
+
+  const reports: AccessibilityReport[] = [];
+  for (const page of pages) {
+    // Nested pages reach the shared assets and the other languages through ../
+    const prefix = page.dir ? '../' : '';
+    const { html } = renderer.render(profile, template, {
+      stylesheet: `${prefix}${stylesheet}`,
+      profileImage: profileImage ? `${prefix}${profileImage}` : '',
+      branding: options.branding,
+      theme: options.theme,
+      locale: page.locale,
+      translation: translations[page.locale],
+      alternates: pages.map(other => ({ locale: other.locale, href: `${prefix}${other.dir}index.html` })),
+      // Canonical, hreflang and share-image URLs must be absolute, so they need the site URL
+      seo: baseUrl
+        ? {
+          url: `${baseUrl}${page.dir}`,
+          imageUrl: profileImage ? `${baseUrl}${profileImage}` : undefined,
+          alternates: pages.map(other => ({ locale: other.locale, url: `${baseUrl}${other.dir}` })),
+        }
+        : undefined,
+    });
+    files[`${page.dir}index.html`] = strToU8(html);
+    reports.push(auditAccessibility(html, { css }));
+
+    if (page.dir) {
+      const missing = untranslatedFields(profile, translations[page.locale]);
+      if (missing.length > 0) {
+        warnings.push(`Untranslated text on the ${page.locale} page: ${missing.join(', ')}`);
+      }
+    }
+  }
+
+  files['404.html'] = strToU8(notFoundPage(profile, template, stylesheet, options.branding));
+  files['robots.txt'] = strToU8(robotsTxt(baseUrl));
+  files['sitemap.xml'] = strToU8(sitemapXml(baseUrl, pages.map(page => page.dir)));
+
+  if (!baseUrl) {
+    warnings.push('No site URL given; sitemap.xml lists index.html relative to the site root');
+  }
+
+  return {
+    filename: `${slugify(profile.personal.name) || 'portfolio'}-site.zip`,
+    zip: zipSync(files, { mtime: ZIP_MTIME }),
+    files: Object.keys(files).sort(),
+    branding: options.branding,
+    accessibility: reports.reduce((worst, report) => (report.score < worst.score ? report : worst)),
+    warnings,
+  };
+}
+
+function normalizeTranslations(translations: Record<string, ProfileTranslation>): Record<string, ProfileTranslation> {
+  const normalized: Record<string, ProfileTranslation> = {};
+  for (const [locale, translation] of Object.entries(translations)) {
+    normalized[normalizeLocale(locale)] = translation;
+  }
+  return normalized;
+}
+
+async function loadProfileImage(
+  source: string | undefined,
+  fetchImage: ImageFetcher,
+  warnings: string[],
+): Promise<{ data: Uint8Array; extension: string } | null> {
+  const url = source?.trim();
+  if (!url) return null;
+
+  let image: RemoteImage;
+  try {
+    if (url.startsWith('data:')) {
+      image = decodeDataUrl(url);
+    } else if (/^https?:\/\//i.test(url)) {
+      image = await fetchImage(url);
+    } else {
+      warnings.push('Profile image left out: unsupported URL');
+      return null;
+    }
+  } catch (error) {
+    warnings.push(`Profile image left out: ${error instanceof Error ? error.message : 'download failed'}`);
+    return null;
+  }
+
+  const extension = IMAGE_EXTENSIONS[image.contentType.split(';')[0].trim().toLowerCase()];
+  if (!extension) {
+    warnings.push(`Profile image left out: unsupported type ${image.contentType || 'unknown'}`);
+    return null;
+  }
+  if (image.data.byteLength > MAX_IMAGE_BYTES) {
+    warnings.push('Profile image left out: larger than 5MB');
+    return null;
+  }
+
+  return { data: image.data, extension };
+}
+
+function decodeDataUrl(url: string): RemoteImage {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/s);
+  if (!match) {
+    throw new Error('only base64 data URLs are supported');
+  }
+
+  const binary = atob(match[2].replace(/\s/g, ''));
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    data[i] = binary.charCodeAt(i);
+  }
+  return { data, contentType: match[1] };
+}
+
+/**
+ * Download a profile image from a public https URL. Redirects are followed
+ * by hand so every hop gets the same checks, and the body is read with a
+ * byte cap instead of being buffered whole.
+ */
+export async function fetchRemoteImage(url: string): Promise<RemoteImage> {
+  const signal = AbortSignal.timeout(IMAGE_TIMEOUT_MS);
+  let target = url;
+
+  for (let redirects = 0; ; redirects++) {
+    assertPublicImageUrl(target);
+    const response = await fetch(target, { redirect: 'manual', signal });
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_IMAGE_REDIRECTS) throw new Error('too many redirects');
+      target = new URL(location, target).href;
+      continue;
+    }
+    if (!response.ok) {
+      throw new Error(`download failed with HTTP ${response.status}`);
+    }
+
+    const length = Number(response.headers.get('content-length'));
+    if (length > MAX_IMAGE_BYTES) {
+      await response.body?.cancel();
+      throw new Error('larger than 5MB');
+    }
+    return {
+      data: await readCapped(response, MAX_IMAGE_BYTES),
+      contentType: response.headers.get('content-type') ?? '',
+    };
+  }
+}
+
+function assertPublicImageUrl(url: string): void {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('invalid image URL');
+  }
+  if (parsed.protocol !== 'https:') {
+    throw new Error('only https image URLs are allowed');
+  }
+  if (!isPublicHost(parsed.hostname)) {
+    throw new Error('image host is not public');
+  }
+}
+
+/**
+ * False for names and address literals that point into private networks.
+ * Names are not resolved here; the platform's fetch does not reach private
+ * addresses.
+ */
+function isPublicHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (!host.includes('.') || /\.(localhost|local|internal|lan|home\.arpa)$/.test(host)) return false;
+
+  if (host.startsWith('[')) {
+    // Only mapped IPv4 addresses are checked further; other IPv6 literals are refused
+    const mapped = host.match(/^\[::ffff:(\d+\.\d+\.\d+\.\d+)\]$/);
+    return mapped ? isPublicHost(mapped[1]) : false;
+  }
+
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (!ipv4) return true;
+  const [a, b] = ipv4.slice(1).map(Number);
+  return !(
+    a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b < 128)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b < 32)
+    || (a === 192 && b === 168)
+  );
+}
+
+async function readCapped(response: Response, maxBytes: number): Promise<Uint8Array> {
+  if (!response.body) {
+    return new Uint8Array(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error('larger than 5MB');
+    }
+    chunks.push(value);
+  }
+
+  const data = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return data;
+}
+
+/**
+ * First 8 hex characters of the SHA-256 digest, for cache-busting file names
+ */
+async function contentHash(data: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest.slice(0, 4), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function notFoundPage(profile: LinkedInProfile, template: PortfolioTemplate, stylesheet: string, branding: boolean): string {
+  const name = escapeXml(profile.personal.name || 'Portfolio');
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    '<meta name="robots" content="noindex">',
+    `<title>Page not found – ${name}</title>`,
+    `<link rel="stylesheet" href="${stylesheet}">`,
+    '</head>',
+    `<body class="template-${escapeXml(template.id)}">`,
+    '<div class="page">',
+    '<main class="section">',
+    '<h1>Page not found</h1>',
+    '<p>The page you were looking for does not exist.</p>',
+    `<p><a href="index.html">Back to ${name}</a></p>`,
+    '</main>',
+    branding ? '<footer class="site-footer"><p class="branding">Built with <a href="https://appvantix.com" rel="noopener">AppVantix</a></p></footer>' : '',
+    '</div>',
+    '</body>',
+    '</html>',
+  ].filter(Boolean).join('\n') + '\n';
+}
+
+function robotsTxt(baseUrl?: string): string {
+  const lines = ['User-agent: *', 'Allow: /'];
+  if (baseUrl) {
+    lines.push('', `Sitemap: ${baseUrl}sitemap.xml`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function sitemapXml(baseUrl: string | undefined, dirs: string[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...dirs.map(dir => `  <url><loc>${escapeXml(baseUrl ? `${baseUrl}${dir}` : `${dir}index.html`)}</loc></url>`),
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * "janedoe.dev/" -> "https://janedoe.dev/"; always ends with a slash
+ */
+function normalizeSiteUrl(value: string): string {
+  const candidate = /^[a-z][a-z0-9+.-]*:/i.test(value.trim()) ? value.trim() : `https://${value.trim()}`;
+  let url: URL;
+  try {
+    url = new URL(candidate);
+  } catch {
+    throw new Error(`Invalid site URL: ${value}`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`Invalid site URL: ${value}`);
+  }
+  url.search = '';
+  url.hash = '';
+  return url.href.endsWith('/') ? url.href : `${url.href}/`;
+}
+
+function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Export factory function
+export function createStaticSiteExporter(env: any): StaticSiteExporter {
+  return new StaticSiteExporter(createTemplateRegistry(env), createPaywallService(env));
+}
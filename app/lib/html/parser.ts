@@ -0,0 +1,226 @@
+/**
+ * Minimal HTML Tree
+ * A tolerant parser for auditing and sanitising generated markup where no DOM
+ * is available (Cloudflare Workers). It keeps elements, attributes, text and
+ * line numbers; comments and doctypes are dropped, and it does not implement
+ * the full HTML5 tree-construction algorithm.
+ */
+
+export interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+  parent?: HtmlElement;
+  // 1-based line of the start tag in the source
+  line: number;
+}
+
+export type HtmlNode = HtmlElement | string;
+
+export const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// Content is kept as a single text node, never parsed as markup (in HTML content only)
+export const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+// Browsers parse the content of these as markup, raw text elements included
+const FOREIGN_ELEMENTS = new Set(['svg', 'math']);
+
+// Inside SVG or MathML, content of these is parsed as HTML again
+const INTEGRATION_POINTS = new Set(['foreignobject', 'desc', 'title', 'mi', 'mo', 'mn', 'ms', 'mtext', 'annotation-xml']);
+
+// HTML start tags that end SVG or MathML content, as browsers do ("<svg><p>" puts the p after the svg)
+const FOREIGN_BREAKOUT = new Set([
+  'b', 'big', 'blockquote', 'body', 'br', 'center', 'code', 'dd', 'div', 'dl', 'dt', 'em', 'embed',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'head', 'hr', 'i', 'img', 'li', 'listing', 'menu', 'meta', 'nobr',
+  'ol', 'p', 'pre', 'ruby', 's', 'small', 'span', 'strong', 'strike', 'sub', 'sup', 'table', 'tt', 'u', 'ul', 'var',
+]);
+
+// Opening one of these while the same element is open closes the open one
+const SELF_NESTING_CLOSES = new Set(['li', 'p', 'option', 'tr', 'td', 'th', 'dt', 'dd']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0', ndash: '–', mdash: '—', copy: '©', middot: '·',
+};
+
+const TOKEN = /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>/g;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+/**
+ * Parse an HTML document or fragment into a tree rooted at a '#document' element
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '#document', attrs: {}, children: [], line: 1 };
+  const stack: HtmlElement[] = [root];
+  let line = 1;
+  let cursor = 0;
+
+  const advance = (to: number) => {
+    for (let i = cursor; i < to; i++) {
+      if (html.charCodeAt(i) === 10) line++;
+    }
+    cursor = to;
+  };
+  const current = () => stack[stack.length - 1];
+  const appendText = (text: string) => {
+    if (text) current().children.push(decodeEntities(text));
+  };
+
+  TOKEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN.exec(html))) {
+    appendText(html.slice(cursor, match.index));
+    advance(match.index);
+
+    const [token, closing, opening, attributeSource, selfClosing] = match;
+
+    if (closing) {
+      const tag = closing.toLowerCase();
+      const index = stack.map(element => element.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+    } else if (opening) {
+      const tag = opening.toLowerCase();
+      const attrs = parseAttributes(attributeSource);
+      if (FOREIGN_BREAKOUT.has(tag) || (tag === 'font' && ('color' in attrs || 'face' in attrs || 'size' in attrs))) {
+        while (inForeignContent(stack)) stack.pop();
+      }
+      if (SELF_NESTING_CLOSES.has(tag) && current().tag === tag) stack.pop();
+
+      const element: HtmlElement = { tag, attrs, children: [], parent: current(), line };
+      current().children.push(element);
+
+      if (RAW_TEXT_ELEMENTS.has(tag) && !selfClosing && !inForeignContent(stack)) {
+        const end = html.toLowerCase().indexOf(`</${tag}`, match.index + token.length);
+        const stop = end === -1 ? html.length : end;
+        const content = html.slice(match.index + token.length, stop);
+        if (content) element.children.push(tag === 'script' || tag === 'style' ? content : decodeEntities(content));
+        advance(stop);
+        const close = html.indexOf('>', stop);
+        TOKEN.lastIndex = close === -1 ? html.length : close + 1;
+        advance(TOKEN.lastIndex);
+        continue;
+      }
+      if (!VOID_ELEMENTS.has(tag) && !selfClosing) stack.push(element);
+    }
+
+    advance(match.index + token.length);
+  }
+  appendText(html.slice(cursor));
+
+  return root;
+}
+
+/**
+ * Whether the innermost open element is SVG or MathML content rather than
+ * HTML (an integration point such as <foreignObject> switches back)
+ */
+function inForeignContent(stack: HtmlElement[]): boolean {
+  for (let i = stack.length - 1; i > 0; i--) {
+    const tag = stack[i].tag;
+    if (FOREIGN_ELEMENTS.has(tag)) return true;
+    if (INTEGRATION_POINTS.has(tag) && stack.slice(0, i).some(open => FOREIGN_ELEMENTS.has(open.tag))) return false;
+  }
+  return false;
+}
+
+/**
+ * Every element below `root` matching `predicate`, in document order
+ */
+export function findAll(root: HtmlElement, predicate: (element: HtmlElement) => boolean): HtmlElement[] {
+  const found: HtmlElement[] = [];
+  const visit = (element: HtmlElement) => {
+    for (const child of element.children) {
+      if (typeof child === 'string') continue;
+      if (predicate(child)) found.push(child);
+      visit(child);
+    }
+  };
+  visit(root);
+  return found;
+}
+
+export function byTag(root: HtmlElement, ...tags: string[]): HtmlElement[] {
+  return findAll(root, element => tags.includes(element.tag));
+}
+
+/**
+ * Text of an element and its descendants, whitespace collapsed
+ */
+export function textContent(element: HtmlElement): string {
+  const parts: string[] = [];
+  const visit = (node: HtmlNode) => {
+    if (typeof node === 'string') {
+      parts.push(node);
+    } else if (node.tag !== 'script' && node.tag !== 'style') {
+      node.children.forEach(visit);
+    }
+  };
+  element.children.forEach(visit);
+  return parts.join(' ').replace(/\s+/g, ' ').trim();
+}
+
+export function closest(element: HtmlElement, tag: string): HtmlElement | undefined {
+  let node = element.parent;
+  while (node && node.tag !== tag) node = node.parent;
+  return node;
+}
+
+/**
+ * The start tag as written, for pointing at an element in reports
+ */
+export function describeElement(element: HtmlElement, maxLength = 120): string {
+  const attrs = Object.entries(element.attrs)
+    .map(([name, value]) => (value === '' ? ` ${name}` : ` ${name}="${value}"`))
+    .join('');
+  const tag = `<${element.tag}${attrs}>`;
+  return tag.length <= maxLength ? tag : `${tag.slice(0, maxLength - 2)}…>`;
+}
+
+/**
+ * Serialise nodes back to HTML; text and attribute values are escaped,
+ * script and style content is written as is
+ */
+export function serializeHtml(nodes: HtmlNode[], parent?: HtmlElement): string {
+  return nodes.map(node => {
+    if (typeof node === 'string') {
+      return parent && (parent.tag === 'script' || parent.tag === 'style') ? node : escapeText(node);
+    }
+    const attrs = Object.entries(node.attrs)
+      .map(([name, value]) => (value === '' ? ` ${name}` : ` ${name}="${escapeAttribute(value)}"`))
+      .join('');
+    if (VOID_ELEMENTS.has(node.tag)) return `<${node.tag}${attrs}>`;
+    return `<${node.tag}${attrs}>${serializeHtml(node.children, node)}</${node.tag}>`;
+  }).join('');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  ATTRIBUTE.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE.exec(source))) {
+    const name = match[1].toLowerCase();
+    if (!(name in attrs)) {
+      attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+  }
+  return attrs;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
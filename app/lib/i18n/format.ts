@@ -0,0 +1,55 @@
+/**
+ * Locale Formatting
+ * Dates, date ranges and durations for portfolio pages, via Intl so every
+ * locale gets its own month names, digits and word order
+ */
+
+import { parsePartialDate, PRESENT, tenureInMonths } from '../linkedin/dates';
+import { resolveMessages } from './locales';
+
+/**
+ * "2020-01" -> "Jan 2020" (en) or "janv. 2020" (fr); unparseable values are shown as they are
+ */
+export function formatDate(value: string, locale: string): string {
+  const date = parsePartialDate(value);
+  if (date === PRESENT) return resolveMessages(locale).present;
+  if (!date) return value;
+
+  // UTC on both sides so the month never shifts with the server's time zone
+  const utc = new Date(Date.UTC(date.year, (date.month ?? 1) - 1, 1));
+  const options: Intl.DateTimeFormatOptions = date.month
+    ? { year: 'numeric', month: 'short', timeZone: 'UTC' }
+    : { year: 'numeric', timeZone: 'UTC' };
+  return new Intl.DateTimeFormat(locale, options).format(utc);
+}
+
+export function formatDateRange(locale: string, start?: string, end?: string, current = false): string {
+  const from = start ? formatDate(start, locale) : '';
+  const to = current ? resolveMessages(locale).present : end ? formatDate(end, locale) : '';
+  if (!from) return to;
+  return to && to !== from ? `${from} – ${to}` : from;
+}
+
+/**
+ * "2 years 3 months" in the locale's words
+ */
+export function formatDuration(months: number, locale: string): string {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  const unit = (value: number, name: 'year' | 'month') =>
+    new Intl.NumberFormat(locale, { style: 'unit', unit: name, unitDisplay: 'long' } as Intl.NumberFormatOptions).format(value);
+
+  return [years > 0 ? unit(years, 'year') : '', rest > 0 ? unit(rest, 'month') : ''].filter(Boolean).join(' ');
+}
+
+/**
+ * Length of a finished role. Running roles have none, so a page renders the
+ * same whenever it is built.
+ */
+export function entryDuration(entry: { startDate?: string; endDate?: string; current?: boolean }, locale: string): string {
+  const end = parsePartialDate(entry.endDate);
+  if (entry.current || !end || end === PRESENT) return '';
+
+  const months = tenureInMonths(entry);
+  return months && months > 0 ? formatDuration(months, locale) : '';
+}
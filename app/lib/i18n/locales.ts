@@ -0,0 +1,255 @@
+/**
+ * Portfolio Locales
+ * Translated labels for the text the renderer writes itself (section
+ * headings, proficiency levels, date words). Profile content is translated
+ * by the user; see translation.ts.
+ */
+
+import type { Language, LinkedInProfile } from '../linkedin/import';
+import type { PortfolioSection } from '../templates/types';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface PortfolioMessages {
+  // Language name in the language itself, shown in the language switcher
+  name: string;
+  // English and native names, matched against the profile's languages
+  languageNames: string[];
+  sections: Record<PortfolioSection, string>;
+  proficiency: Record<Language['proficiency'], string>;
+  present: string;
+  // Messages with {placeholders}
+  issued: string;
+  expires: string;
+  credentialId: string;
+  grade: string;
+  builtWith: string;
+  // aria-labels of the header navigation
+  sectionsNav: string;
+  languageNav: string;
+  // Heading used when the profile has no name
+  portfolio: string;
+}
+
+export const DEFAULT_LOCALE = 'en';
+
+// Languages written right to left, whether or not we have labels for them
+const RTL_LANGUAGES = new Set(['ar', 'dv', 'fa', 'he', 'ps', 'ur', 'yi']);
+
+const BCP47_LOCALE = /^([a-z]{2,3})(-[a-z]{4})?(-([a-z]{2}|\d{3}))?$/i;
+
+// Proficiency levels at which a user plausibly wants a portfolio in that language
+const FLUENT: Language['proficiency'][] = ['professional', 'full', 'native'];
+
+export const PORTFOLIO_LOCALES: Record<string, PortfolioMessages> = {
+  en: {
+    name: 'English',
+    languageNames: ['English'],
+    sections: {
+      about: 'About',
+      experience: 'Experience',
+      projects: 'Projects',
+      education: 'Education',
+      skills: 'Skills',
+      certifications: 'Certifications',
+      languages: 'Languages',
+      volunteer: 'Volunteering',
+      contact: 'Contact',
+    },
+    proficiency: {
+      elementary: 'Elementary proficiency',
+      limited: 'Limited working proficiency',
+      professional: 'Professional working proficiency',
+      full: 'Full professional proficiency',
+      native: 'Native or bilingual proficiency',
+    },
+    present: 'Present',
+    issued: 'Issued {date}',
+    expires: 'Expires {date}',
+    credentialId: 'Credential ID {id}',
+    grade: 'Grade: {grade}',
+    builtWith: 'Built with {link}',
+    sectionsNav: 'Sections',
+    languageNav: 'Language',
+    portfolio: 'Portfolio',
+  },
+  de: {
+    name: 'Deutsch',
+    languageNames: ['German', 'Deutsch'],
+    sections: {
+      about: 'Über mich',
+      experience: 'Berufserfahrung',
+      projects: 'Projekte',
+      education: 'Ausbildung',
+      skills: 'Kenntnisse',
+      certifications: 'Zertifizierungen',
+      languages: 'Sprachen',
+      volunteer: 'Ehrenamt',
+      contact: 'Kontakt',
+    },
+    proficiency: {
+      elementary: 'Grundkenntnisse',
+      limited: 'Begrenzte Berufskenntnisse',
+      professional: 'Gute Berufskenntnisse',
+      full: 'Verhandlungssicher',
+      native: 'Muttersprache oder zweisprachig',
+    },
+    present: 'heute',
+    issued: 'Ausgestellt {date}',
+    expires: 'Gültig bis {date}',
+    credentialId: 'Nachweis-ID {id}',
+    grade: 'Note: {grade}',
+    builtWith: 'Erstellt mit {link}',
+    sectionsNav: 'Abschnitte',
+    languageNav: 'Sprache',
+    portfolio: 'Portfolio',
+  },
+  fr: {
+    name: 'Français',
+    languageNames: ['French', 'Français', 'Francais'],
+    sections: {
+      about: 'À propos',
+      experience: 'Expérience',
+      projects: 'Projets',
+      education: 'Formation',
+      skills: 'Compétences',
+      certifications: 'Certifications',
+      languages: 'Langues',
+      volunteer: 'Bénévolat',
+      contact: 'Contact',
+    },
+    proficiency: {
+      elementary: 'Notions',
+      limited: 'Compétence professionnelle limitée',
+      professional: 'Compétence professionnelle',
+      full: 'Capacité professionnelle complète',
+      native: 'Bilingue ou langue natale',
+    },
+    present: 'aujourd’hui',
+    issued: 'Délivrée en {date}',
+    expires: 'Expire en {date}',
+    credentialId: 'ID de certification {id}',
+    grade: 'Mention {grade}',
+    builtWith: 'Créé avec {link}',
+    sectionsNav: 'Sections',
+    languageNav: 'Langue',
+    portfolio: 'Portfolio',
+  },
+  es: {
+    name: 'Español',
+    languageNames: ['Spanish', 'Español', 'Espanol', 'Castellano'],
+    sections: {
+      about: 'Sobre mí',
+      experience: 'Experiencia',
+      projects: 'Proyectos',
+      education: 'Educación',
+      skills: 'Aptitudes',
+      certifications: 'Certificaciones',
+      languages: 'Idiomas',
+      volunteer: 'Voluntariado',
+      contact: 'Contacto',
+    },
+    proficiency: {
+      elementary: 'Competencia básica',
+      limited: 'Competencia básica limitada',
+      professional: 'Competencia básica profesional',
+      full: 'Competencia profesional completa',
+      native: 'Competencia bilingüe o nativa',
+    },
+    present: 'actualidad',
+    issued: 'Expedición: {date}',
+    expires: 'Vencimiento: {date}',
+    credentialId: 'ID de la credencial {id}',
+    grade: 'Nota: {grade}',
+    builtWith: 'Creado con {link}',
+    sectionsNav: 'Secciones',
+    languageNav: 'Idioma',
+    portfolio: 'Portafolio',
+  },
+  ar: {
+    name: 'العربية',
+    languageNames: ['Arabic', 'العربية'],
+    sections: {
+      about: 'نبذة عني',
+      experience: 'الخبرة',
+      projects: 'المشاريع',
+      education: 'التعليم',
+      skills: 'المهارات',
+      certifications: 'الشهادات',
+      languages: 'اللغات',
+      volunteer: 'العمل التطوعي',
+      contact: 'التواصل',
+    },
+    proficiency: {
+      elementary: 'إلمام أساسي',
+      limited: 'كفاءة عمل محدودة',
+      professional: 'كفاءة عمل مهنية',
+      full: 'كفاءة مهنية كاملة',
+      native: 'اللغة الأم أو ثنائي اللغة',
+    },
+    present: 'حتى الآن',
+    issued: 'تاريخ الإصدار {date}',
+    expires: 'تاريخ الانتهاء {date}',
+    credentialId: 'معرّف الشهادة {id}',
+    grade: 'التقدير: {grade}',
+    builtWith: 'أُنشئ باستخدام {link}',
+    sectionsNav: 'الأقسام',
+    languageNav: 'اللغة',
+    portfolio: 'ملف الأعمال',
+  },
+};
+
+/**
+ * Canonical casing for a BCP 47 tag ("pt-br" -> "pt-BR"); throws on anything else
+ */
+export function normalizeLocale(locale: string): string {
+  const match = locale.trim().replace(/_/g, '-').match(BCP47_LOCALE);
+  if (!match) {
+    throw new Error(`Invalid locale: ${locale}`);
+  }
+  const [, language, script, , region] = match;
+  return [
+    language.toLowerCase(),
+    script ? `${script[1].toUpperCase()}${script.slice(2).toLowerCase()}` : '',
+    region ? region.toUpperCase() : '',
+  ].filter(Boolean).join('-');
+}
+
+export function primaryLanguage(locale: string): string {
+  return locale.split('-')[0].toLowerCase();
+}
+
+/**
+ * Labels for a locale: exact match, then its language, then English
+ */
+export function resolveMessages(locale: string): PortfolioMessages {
+  return PORTFOLIO_LOCALES[locale] ?? PORTFOLIO_LOCALES[primaryLanguage(locale)] ?? PORTFOLIO_LOCALES[DEFAULT_LOCALE];
+}
+
+export function textDirection(locale: string): TextDirection {
+  return RTL_LANGUAGES.has(primaryLanguage(locale)) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Fill {placeholders} in a message
+ */
+export function formatMessage(message: string, values: Record<string, string>): string {
+  return message.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+/**
+ * Supported locales for the languages the user speaks at a working level,
+ * in profile order
+ */
+export function suggestLocales(profile: LinkedInProfile): string[] {
+  const locales: string[] = [];
+  for (const language of profile.languages) {
+    if (!FLUENT.includes(language.proficiency)) continue;
+
+    const name = language.name.trim().toLowerCase();
+    const locale = Object.keys(PORTFOLIO_LOCALES).find(code =>
+      PORTFOLIO_LOCALES[code].languageNames.some(candidate => candidate.toLowerCase() === name));
+    if (locale && !locales.includes(locale)) locales.push(locale);
+  }
+  return locales;
+}
@@ -0,0 +1,98 @@
+/**
+ * Profile Translations
+ * Per-locale overrides of a profile's free text. Anything not translated
+ * falls back to the profile's own wording.
+ */
+
+import type { LinkedInProfile } from '../linkedin/import';
+
+export interface EntryTranslation {
+  // Experience title, project name or volunteer role
+  title?: string;
+  description?: string;
+  achievements?: string[];
+  degree?: string;
+  field?: string;
+  activities?: string[];
+}
+
+export interface ProfileTranslation {
+  headline?: string;
+  location?: string;
+  summary?: string;
+  // Keyed by entry id, e.g. { exp_a1b2c3: { title: 'Leitender Entwickler' } }
+  entries?: Record<string, EntryTranslation>;
+}
+
+/**
+ * Copy of the profile with the translated text swapped in
+ */
+export function localizeProfile(profile: LinkedInProfile, translation?: ProfileTranslation): LinkedInProfile {
+  if (!translation) return profile;
+
+  const entries = translation.entries ?? {};
+  const text = (value: string, override: string | undefined) => (override?.trim() ? override : value);
+  const list = (value: string[], override: string[] | undefined) => (override && override.length > 0 ? override : value);
+
+  return {
+    ...profile,
+    personal: {
+      ...profile.personal,
+      headline: text(profile.personal.headline, translation.headline),
+      location: text(profile.personal.location, translation.location),
+      summary: text(profile.personal.summary, translation.summary),
+    },
+    experience: profile.experience.map(exp => {
+      const t = entries[exp.id] ?? {};
+      return {
+        ...exp,
+        title: text(exp.title, t.title),
+        description: text(exp.description, t.description),
+        achievements: list(exp.achievements, t.achievements),
+      };
+    }),
+    education: profile.education.map(edu => {
+      const t = entries[edu.id] ?? {};
+      return {
+        ...edu,
+        degree: text(edu.degree, t.degree),
+        field: text(edu.field, t.field),
+        activities: list(edu.activities, t.activities),
+      };
+    }),
+    projects: profile.projects.map(proj => {
+      const t = entries[proj.id] ?? {};
+      return { ...proj, name: text(proj.name, t.title), description: text(proj.description, t.description) };
+    }),
+    volunteer: profile.volunteer.map(vol => {
+      const t = entries[vol.id] ?? {};
+      return { ...vol, role: text(vol.role, t.title), description: text(vol.description, t.description) };
+    }),
+  };
+}
+
+/**
+ * Paths of translatable text that a translation leaves in the original
+ * language, e.g. "summary" or "entries.exp_a.description"
+ */
+export function untranslatedFields(profile: LinkedInProfile, translation: ProfileTranslation = {}): string[] {
+  const missing: string[] = [];
+  const entries = translation.entries ?? {};
+  const check = (path: string, original: string | undefined, override: string | undefined) => {
+    if (original?.trim() && !override?.trim()) missing.push(path);
+  };
+
+  check('headline', profile.personal.headline, translation.headline);
+  check('summary', profile.personal.summary, translation.summary);
+  for (const exp of profile.experience) {
+    check(`entries.${exp.id}.title`, exp.title, entries[exp.id]?.title);
+    check(`entries.${exp.id}.description`, exp.description, entries[exp.id]?.description);
+  }
+  for (const proj of profile.projects) {
+    check(`entries.${proj.id}.description`, proj.description, entries[proj.id]?.description);
+  }
+  for (const vol of profile.volunteer) {
+    check(`entries.${vol.id}.description`, vol.description, entries[vol.id]?.description);
+  }
+  return missing;
+}
@@ -0,0 +1,278 @@
+/**
+ * AI Profile Parser
+ * Parses unstructured LinkedIn text with the protected LINKEDIN_PARSER prompt,
+ * falling back to the heuristic text parser when AI is unavailable
+ */
+
+import { extractJSON } from '../ai/json';
+import type { ModelClient } from '../ai/model-client';
+import { creditCharge, creditCost, estimateTokens } from '../credits/pricing';
+import { secureAIRequest } from '../security/llm-protection';
+import type { Reservation, ReserveResult } from '../paywall/metering';
+import type { PaywallService } from '../paywall/service';
+import { assignEntryIds } from './ids';
+import {
+  createLinkedInImportService,
+  type Language,
+  type LinkedInImportService,
+  type LinkedInProfile,
+} from './import';
+
+export interface AIParseResult {
+  profile: LinkedInProfile;
+  method: 'ai' | 'heuristic';
+  fallbackReason?: string;
+}
+
+export interface AIProfileParserOptions {
+  modelClient: ModelClient;
+  paywall: Pick<PaywallService, 'reserve' | 'commit' | 'release'>;
+  env: any;
+  modelId?: string;
+  importService?: LinkedInImportService;
+}
+
+// Passed as prompt context so the model returns the LinkedInProfile shape
+const OUTPUT_FORMAT = {
+  instructions: 'Respond with a single JSON object matching this shape. Omit ids. Use "" or [] when a value is not present. Dates as YYYY, YYYY-MM or YYYY-MM-DD.',
+  shape: {
+    personal: { name: 'string', headline: 'string', location: 'string', summary: 'string' },
+    experience: [{ company: 'string', title: 'string', location: 'string', startDate: 'string', endDate: 'string', current: 'boolean', description: 'string', achievements: ['string'], skills: ['string'] }],
+    education: [{ institution: 'string', degree: 'string', field: 'string', startDate: 'string', endDate: 'string', activities: ['string'] }],
+    skills: ['string'],
+    certifications: [{ name: 'string', issuer: 'string', issueDate: 'string', expiryDate: 'string', credentialId: 'string' }],
+    languages: [{ name: 'string', proficiency: 'elementary | limited | professional | full | native' }],
+    projects: [{ name: 'string', description: 'string', url: 'string', startDate: 'string', endDate: 'string', skills: ['string'] }],
+    volunteer: [{ organization: 'string', role: 'string', cause: 'string', startDate: 'string', endDate: 'string', description: 'string' }],
+  },
+};
+
+const PROFICIENCIES: Language['proficiency'][] = ['elementary', 'limited', 'professional', 'full', 'native'];
+
+export class AIProfileParser {
+  private modelClient: ModelClient;
+  private paywall: Pick<PaywallService, 'reserve' | 'commit' | 'release'>;
+  private env: any;
+  private modelId: string;
+  private importService: LinkedInImportService;
+
+  constructor(options: AIProfileParserOptions) {
+    this.modelClient = options.modelClient;
+    this.paywall = options.paywall;
+    this.env = options.env;
+    this.modelId = options.modelId || options.env?.LINKEDIN_PARSER_MODEL || 'claude-3-haiku';
+    this.importService = options.importService || createLinkedInImportService();
+  }
+
+  /**
+   * Parse profile text with the LLM, or the heuristic parser if the user has
+   * no AI credits, the request is rejected, or the model output is invalid
+   */
+  async parse(userId: string, text: string): Promise<AIParseResult> {
+    const heuristic = await this.importService.parseProfile(text, 'text');
+    const fallback = (reason: string): AIParseResult => ({ profile: heuristic, method: 'heuristic', fallbackReason: reason });
+
+    const request = await secureAIRequest(userId, 'LINKEDIN_PARSER', text, this.modelId, this.env, OUTPUT_FORMAT);
+    if (!request.secure) {
+      return fallback(request.error || 'AI request rejected');
+    }
+
+    // Hold the most the request can cost; only the actual cost is charged
+    const maxTokens = parseInt(this.env?.MAX_TOKENS_PER_REQUEST || '4000');
+    const inputTokens = estimateTokens(request.prompt!);
+    let held: ReserveResult;
+    try {
+      held = await this.paywall.reserve(userId, 'ai_credits', creditCost({ model: this.modelId, inputTokens, outputTokens: maxTokens }));
+    } catch (error) {
+      console.error('AI credit reservation error:', error);
+      return fallback(`AI credits could not be checked: ${(error as Error).message}`);
+    }
+    if (!held.allowed) {
+      return fallback(held.reason);
+    }
+
+    let output: string;
+    try {
+      output = await this.modelClient.complete({ modelId: this.modelId, prompt: request.prompt!, maxTokens });
+    } catch (error) {
+      await this.release(held.reservation);
+      return fallback(`Model request failed: ${(error as Error).message}`);
+    }
+
+    const { profile, errors } = validateProfileShape(extractJSON(output));
+    if (!profile) {
+      await this.release(held.reservation);
+      return fallback(`Invalid model output: ${errors.join('; ')}`);
+    }
+
+    try {
+      await this.paywall.commit(held.reservation, creditCharge({
+        feature: 'linkedin_parser',
+        model: this.modelId,
+        inputTokens,
+        outputTokens: estimateTokens(output),
+      }));
+    } catch (error) {
+      // The profile is already valid, so the user keeps it. The hold is kept too,
+      // so the charge can be retried or swept instead of the result being free.
+      console.error(`AI credit commit error for reservation ${held.reservation.id}:`, error);
+    }
+
+    return {
+      // The parser prompt tells the model to leave out contact details, so
+      // keep the ones found locally
+      profile: { ...profile, contact: heuristic.contact },
+      method: 'ai',
+    };
+  }
+
+  // Give back a hold; a failure only delays it until the reservation lapses
+  private async release(reservation: Reservation): Promise<void> {
+    try {
+      await this.paywall.release(reservation);
+    } catch (error) {
+      console.error('AI credit release error:', error);
+    }
+  }
+}
+
+/**
+ * Check model output against the LinkedInProfile shape and fill in ids.
+ * Missing sections default to empty; values of the wrong type are errors.
+ */
+export function validateProfileShape(data: unknown): { profile?: LinkedInProfile; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!isObject(data)) {
+    return { errors: ['Output is not a JSON object'] };
+  }
+
+  const str = (value: unknown, path: string, required = false): string => {
+    if (value === undefined || value === null) {
+      if (required) errors.push(`${path} is required`);
+      return '';
+    }
+    if (typeof value !== 'string') {
+      errors.push(`${path} must be a string`);
+      return '';
+    }
+    return value.trim();
+  };
+
+  const optional = (value: unknown, path: string): string | undefined => str(value, path) || undefined;
+
+  const strings = (value: unknown, path: string): string[] => {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+      errors.push(`${path} must be an array of strings`);
+      return [];
+    }
+    return value.map(item => item.trim()).filter(Boolean);
+  };
+
+  const list = <T>(value: unknown, path: string, map: (item: Record<string, unknown>, itemPath: string) => T): T[] => {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+      errors.push(`${path} must be an array`);
+      return [];
+    }
+    return value.flatMap((item, index) => {
+      if (!isObject(item)) {
+        errors.push(`${path}[${index}] must be an object`);
+        return [];
+      }
+      return [map(item, `${path}[${index}]`)];
+    });
+  };
+
+  const personal = isObject(data.personal) ? data.personal : {};
+  if (!isObject(data.personal)) errors.push('personal must be an object');
+
+  const profile: LinkedInProfile = {
+    personal: {
+      name: str(personal.name, 'personal.name', true),
+      headline: str(personal.headline, 'personal.headline'),
+      location: str(personal.location, 'personal.location'),
+      summary: str(personal.summary, 'personal.summary'),
+    },
+    contact: { linkedin: '' },
+    experience: list(data.experience, 'experience', (exp, path) => {
+      if (exp.current !== undefined && typeof exp.current !== 'boolean') {
+        errors.push(`${path}.current must be a boolean`);
+      }
+      return {
+        id: '',
+        company: str(exp.company, `${path}.company`, true),
+        title: str(exp.title, `${path}.title`, true),
+        location: str(exp.location, `${path}.location`),
+        startDate: str(exp.startDate, `${path}.startDate`),
+        endDate: str(exp.endDate, `${path}.endDate`),
+        current: exp.current === true,
+        description: str(exp.description, `${path}.description`),
+        achievements: strings(exp.achievements, `${path}.achievements`),
+        skills: strings(exp.skills, `${path}.skills`),
+      };
+    }),
+    education: list(data.education, 'education', (edu, path) => ({
+      id: '',
+      institution: str(edu.institution, `${path}.institution`, true),
+      degree: str(edu.degree, `${path}.degree`),
+      field: str(edu.field, `${path}.field`),
+      startDate: str(edu.startDate, `${path}.startDate`),
+      endDate: str(edu.endDate, `${path}.endDate`),
+      activities: strings(edu.activities, `${path}.activities`),
+    })),
+    skills: strings(data.skills, 'skills'),
+    certifications: list(data.certifications, 'certifications', (cert, path) => ({
+      id: '',
+      name: str(cert.name, `${path}.name`, true),
+      issuer: str(cert.issuer, `${path}.issuer`),
+      issueDate: str(cert.issueDate, `${path}.issueDate`),
+      expiryDate: optional(cert.expiryDate, `${path}.expiryDate`),
+      credentialId: optional(cert.credentialId, `${path}.credentialId`),
+    })),
+    languages: list(data.languages, 'languages', (lang, path) => {
+      const proficiency = str(lang.proficiency, `${path}.proficiency`) || 'professional';
+      if (!PROFICIENCIES.includes(proficiency as Language['proficiency'])) {
+        errors.push(`${path}.proficiency must be one of ${PROFICIENCIES.join(', ')}`);
+      }
+      return {
+        name: str(lang.name, `${path}.name`, true),
+        proficiency: proficiency as Language['proficiency'],
+      };
+    }),
+    projects: list(data.projects, 'projects', (proj, path) => ({
+      id: '',
+      name: str(proj.name, `${path}.name`, true),
+      description: str(proj.description, `${path}.description`),
+      url: optional(proj.url, `${path}.url`),
+      startDate: str(proj.startDate, `${path}.startDate`),
+      endDate: str(proj.endDate, `${path}.endDate`),
+      skills: strings(proj.skills, `${path}.skills`),
+    })),
+    volunteer: list(data.volunteer, 'volunteer', (vol, path) => ({
+      id: '',
+      organization: str(vol.organization, `${path}.organization`, true),
+      role: str(vol.role, `${path}.role`),
+      cause: str(vol.cause, `${path}.cause`),
+      startDate: str(vol.startDate, `${path}.startDate`),
+      endDate: str(vol.endDate, `${path}.endDate`),
+      description: str(vol.description, `${path}.description`),
+    })),
+  };
+
+  return errors.length === 0 ? { profile: assignEntryIds(profile), errors } : { errors };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Factory function
+export function createAIProfileParser(
+  env: any,
+  modelClient: ModelClient,
+  paywall: Pick<PaywallService, 'reserve' | 'commit' | 'release'>
+): AIProfileParser {
+  return new AIProfileParser({ modelClient, paywall, env });
+}
@@ -0,0 +1,88 @@
+/**
+ * CSV Reader
+ * RFC 4180 parsing for the CSV files inside LinkedIn data exports
+ */
+
+export type CSVRow = Record<string, string>;
+
+/**
+ * Parse CSV text into rows keyed by header name.
+ * Supports quoted fields with embedded commas, quotes and newlines,
+ * CRLF line endings, a leading BOM, and the "Notes:" preamble
+ * LinkedIn prepends to some export files.
+ */
+export function parseCSV(text: string): CSVRow[] {
+  const records = tokenizeCSV(text.replace(/^\uFEFF/, ''));
+
+  // LinkedIn adds free-text notes above the header in some files
+  let headerIndex = 0;
+  if (records[0]?.[0]?.trim().startsWith('Notes:')) {
+    headerIndex = records.findIndex((record, index) => index > 0 && isBlankRecord(record));
+    headerIndex = headerIndex === -1 ? records.length : headerIndex + 1;
+  }
+
+  const header = records[headerIndex]?.map(column => column.trim());
+  if (!header) return [];
+
+  return records
+    .slice(headerIndex + 1)
+    .filter(record => !isBlankRecord(record))
+    .map(record => {
+      const row: CSVRow = {};
+      header.forEach((column, index) => {
+        row[column] = (record[index] ?? '').trim();
+      });
+      return row;
+    });
+}
+
+function tokenizeCSV(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
+
+function isBlankRecord(record: string[]): boolean {
+  return record.every(field => !field.trim());
+}
@@ -0,0 +1,357 @@
+/**
+ * Partial Dates
+ * LinkedIn dates are often just a year or a month and year, and a role can
+ * run to "Present". This module parses them (in the languages LinkedIn is
+ * commonly used in), compares them and computes tenure.
+ */
+
+export interface PartialDate {
+  year: number;
+  month?: number;
+  day?: number;
+}
+
+// An end date that is still running
+export const PRESENT = 'present';
+
+export type DateBoundary = PartialDate | typeof PRESENT;
+
+// Full month names; abbreviations are matched as prefixes ("Sept", "janv.")
+const MONTH_NAMES: Record<string, string[]> = {
+  en: ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'],
+  de: ['januar', 'februar', 'marz', 'april', 'mai', 'juni', 'juli', 'august', 'september', 'oktober', 'november', 'dezember'],
+  fr: ['janvier', 'fevrier', 'mars', 'avril', 'mai', 'juin', 'juillet', 'aout', 'septembre', 'octobre', 'novembre', 'decembre'],
+  es: ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'],
+  it: ['gennaio', 'febbraio', 'marzo', 'aprile', 'maggio', 'giugno', 'luglio', 'agosto', 'settembre', 'ottobre', 'novembre', 'dicembre'],
+  pt: ['janeiro', 'fevereiro', 'marco', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'],
+  nl: ['januari', 'februari', 'maart', 'april', 'mei', 'juni', 'juli', 'augustus', 'september', 'oktober', 'november', 'december'],
+};
+
+// Abbreviations that are not a prefix of the full name
+const MONTH_ABBREVIATIONS: Record<string, number> = { mrt: 3, sept: 9 };
+
+const PRESENT_WORDS = [
+  'present', 'now', 'current', 'today', 'heute', 'bis heute', 'aktuell', "aujourd'hui",
+  'actualidad', 'actual', 'presente', 'o momento', 'momento', 'heden', 'nu', 'oggi', 'attuale',
+];
+
+const ISO_PARTIAL_DATE = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+// Words that sit between date parts: "ene. de 2020", "15th of March 2021"
+const FILLER_WORDS = ['de', 'del', 'of', 'the'];
+
+const YEAR_UNITS = ['yr', 'yrs', 'year', 'years', 'jahr', 'jahre', 'jahren', 'an', 'ans', 'ano', 'anos', 'anno', 'anni', 'jaar', 'jr'];
+const MONTH_UNITS = ['mo', 'mos', 'month', 'months', 'monat', 'monate', 'monaten', 'mois', 'mes', 'meses', 'mese', 'mesi', 'maand', 'maanden', 'mnd'];
+
+/**
+ * Parse a date in any of the forms LinkedIn and common exports use:
+ * "2020", "2020-03", "2020-03-15T00:00:00Z", "Mar 2020", "März 2020",
+ * "janv. 2020", "ene. de 2020", "Mar 15, 2021", "15 Mar 2021", "3/15/2021"
+ * and { year, month, day } objects. "Present" and its translations
+ * return PRESENT; anything else unrecognised, including a month or day
+ * out of range ("2020-13"), returns null.
+ */
+export function parsePartialDate(value: unknown): DateBoundary | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (typeof value === 'number') {
+    return isYear(value) ? { year: value } : null;
+  }
+
+  if (typeof value === 'object') {
+    const { year, month, day } = value as Record<string, unknown>;
+    return isYear(Number(year)) ? partialDate(Number(year), Number(month) || undefined, Number(day) || undefined) : null;
+  }
+
+  const text = normalizeText(String(value));
+  if (!text) return null;
+  if (isPresent(text)) return PRESENT;
+
+  // ISO: 2020, 2020-3, 2020-03-15, 2020-03-15T10:00:00Z
+  const iso = text.match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?(?:t[\d:.]+(?:z|[+-][\d:]+)?)?$/);
+  if (iso) {
+    return partialDate(Number(iso[1]), iso[2] ? Number(iso[2]) : undefined, iso[3] ? Number(iso[3]) : undefined);
+  }
+
+  // 3/15/2021 or 3/15/21 (US ordering, as used in LinkedIn exports)
+  const numeric = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})(?:,.*)?$/);
+  if (numeric) {
+    const year = numeric[3].length === 2 ? 2000 + Number(numeric[3]) : Number(numeric[3]);
+    return partialDate(year, Number(numeric[1]), Number(numeric[2]));
+  }
+
+  // Month name, year and optional day in any order
+  const tokens = text.replace(/[.,]/g, ' ').split(/\s+/).filter(token => token && !FILLER_WORDS.includes(token));
+  if (tokens.length < 2 || tokens.length > 3) return null;
+
+  let year: number | undefined;
+  let month: number | undefined;
+  let day: number | undefined;
+
+  for (const token of tokens) {
+    if (/^\d{4}$/.test(token) && year === undefined) {
+      year = Number(token);
+    } else if (/^\d{1,2}(st|nd|rd|th)?$/.test(token) && day === undefined) {
+      day = parseInt(token, 10);
+    } else if (month === undefined && monthFromName(token)) {
+      month = monthFromName(token);
+    } else {
+      return null;
+    }
+  }
+
+  return year !== undefined && month !== undefined ? partialDate(year, month, day) : null;
+}
+
+/**
+ * Format a partial date as ISO 8601 ("2020", "2020-03", "2020-03-15")
+ */
+export function formatPartialDate(date: PartialDate): string {
+  const parts = [String(date.year).padStart(4, '0')];
+  if (date.month) {
+    parts.push(String(date.month).padStart(2, '0'));
+    if (date.day) parts.push(String(date.day).padStart(2, '0'));
+  }
+  return parts.join('-');
+}
+
+/**
+ * Whether a stored value is a real ISO 8601 partial date: the right shape,
+ * and a month and day that exist ("2021-02-31" is not)
+ */
+export function isIsoPartialDate(value: string): boolean {
+  return ISO_PARTIAL_DATE.test(value) && parsePartialDate(value) !== null;
+}
+
+export function isPresent(value: string): boolean {
+  return PRESENT_WORDS.includes(normalizeText(value));
+}
+
+/**
+ * Order dates chronologically. Missing parts sort before known ones
+ * ("2020" < "2020-01") and PRESENT sorts after every date.
+ */
+export function comparePartialDates(a: DateBoundary, b: DateBoundary): number {
+  if (a === PRESENT || b === PRESENT) return (a === PRESENT ? 1 : 0) - (b === PRESENT ? 1 : 0);
+  return a.year - b.year || (a.month ?? 0) - (b.month ?? 0) || (a.day ?? 0) - (b.day ?? 0);
+}
+
+/**
+ * Parse a LinkedIn duration such as "3 yrs 2 mos", "(1 year 1 month)",
+ * "3 Jahre 2 Monate" or "11 mois" into months
+ */
+export function parseDuration(text: string): number | null {
+  const tokens = normalizeText(text).replace(/[()·,]/g, ' ').split(/\s+/).filter(Boolean);
+  if (tokens.length === 0 || tokens.length % 2 !== 0) return null;
+
+  let months = 0;
+  for (let i = 0; i < tokens.length; i += 2) {
+    const amount = Number(tokens[i]);
+    const unit = tokens[i + 1];
+    if (!Number.isInteger(amount)) return null;
+
+    if (YEAR_UNITS.includes(unit)) months += amount * 12;
+    else if (MONTH_UNITS.includes(unit)) months += amount;
+    else return null;
+  }
+  return months;
+}
+
+/**
+ * Format months the way LinkedIn does: "3 yrs 2 mos", "1 yr", "5 mos"
+ */
+export function formatDuration(months: number): string {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  const parts: string[] = [];
+
+  if (years > 0) parts.push(`${years} ${years === 1 ? 'yr' : 'yrs'}`);
+  if (rest > 0) parts.push(`${rest} ${rest === 1 ? 'mo' : 'mos'}`);
+  return parts.join(' ');
+}
+
+/**
+ * Months covered by a role, counting both the first and last month as
+ * LinkedIn does (Jan - Mar is 3 months). A year without a month runs from
+ * January (start) or to December (end). Returns null without a start date,
+ * or without an end date for a role that is not current.
+ */
+export function tenureInMonths(
+  entry: { startDate?: string; endDate?: string; current?: boolean },
+  now: Date = new Date()
+): number | null {
+  const span = monthSpan(entry, now);
+  return span ? span[1] - span[0] + 1 : null;
+}
+
+export interface CompanyTenure {
+  company: string;
+  months: number;
+  startDate: string;
+  endDate: string;
+  current: boolean;
+  roleIds: string[];
+}
+
+/**
+ * Total time at each company, in order of first appearance. Overlapping
+ * roles at the same company are only counted once.
+ */
+export function companyTenure(
+  experience: { id: string; company: string; startDate: string; endDate?: string; current: boolean }[],
+  now: Date = new Date()
+): CompanyTenure[] {
+  const companies = new Map<string, { tenure: CompanyTenure; spans: [number, number][] }>();
+
+  for (const role of experience) {
+    const key = role.company.toLowerCase().replace(/\s+/g, ' ').trim();
+    if (!key) continue;
+
+    let group = companies.get(key);
+    if (!group) {
+      group = { tenure: { company: role.company, months: 0, startDate: '', endDate: '', current: false, roleIds: [] }, spans: [] };
+      companies.set(key, group);
+    }
+
+    group.tenure.roleIds.push(role.id);
+    group.tenure.current ||= role.current;
+
+    const span = monthSpan(role, now);
+    if (span) group.spans.push(span);
+  }
+
+  return [...companies.values()].map(({ tenure, spans }) => {
+    if (spans.length === 0) return tenure;
+
+    const merged = mergeSpans(spans);
+    const first = merged[0][0];
+    const last = merged[merged.length - 1][1];
+
+    return {
+      ...tenure,
+      months: merged.reduce((total, [start, end]) => total + end - start + 1, 0),
+      startDate: formatPartialDate(fromMonthIndex(first)),
+      endDate: tenure.current ? '' : formatPartialDate(fromMonthIndex(last)),
+    };
+  });
+}
+
+/**
+ * Sort entries most recent first: by start date, then by end date (running
+ * entries first). Entries without a usable start date go last; ties keep
+ * their original order.
+ */
+export function sortByRecency<T extends { startDate?: string; endDate?: string; current?: boolean }>(entries: T[]): T[] {
+  const keyed = entries.map((entry, index) => ({
+    entry,
+    index,
+    start: asDate(parsePartialDate(entry.startDate)),
+    end: entry.current ? PRESENT : asBoundary(parsePartialDate(entry.endDate)),
+  }));
+
+  return keyed
+    .sort((a, b) => {
+      if (!a.start || !b.start) return (a.start ? 0 : 1) - (b.start ? 0 : 1) || a.index - b.index;
+      return comparePartialDates(b.start, a.start)
+        || compareOptional(b.end, a.end)
+        || a.index - b.index;
+    })
+    .map(({ entry }) => entry);
+}
+
+/**
+ * [first, last] month index of an entry, or null if it cannot be placed
+ */
+function monthSpan(entry: { startDate?: string; endDate?: string; current?: boolean }, now: Date): [number, number] | null {
+  const start = asDate(parsePartialDate(entry.startDate));
+  if (!start) return null;
+
+  const end = entry.current ? PRESENT : parsePartialDate(entry.endDate);
+  if (!end) return null;
+
+  const first = toMonthIndex(start.year, start.month ?? 1);
+  const last = end === PRESENT
+    ? toMonthIndex(now.getUTCFullYear(), now.getUTCMonth() + 1)
+    : toMonthIndex(end.year, end.month ?? 12);
+
+  return last >= first ? [first, last] : null;
+}
+
+function mergeSpans(spans: [number, number][]): [number, number][] {
+  const sorted = [...spans].sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [sorted[0]];
+
+  for (const [start, end] of sorted.slice(1)) {
+    const last = merged[merged.length - 1];
+    if (start <= last[1] + 1) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  return merged;
+}
+
+function compareOptional(a: DateBoundary | undefined, b: DateBoundary | undefined): number {
+  if (!a || !b) return (a ? 1 : 0) - (b ? 1 : 0);
+  return comparePartialDates(a, b);
+}
+
+function asDate(value: DateBoundary | null): PartialDate | undefined {
+  return value && value !== PRESENT ? value : undefined;
+}
+
+function asBoundary(value: DateBoundary | null): DateBoundary | undefined {
+  return value ?? undefined;
+}
+
+function toMonthIndex(year: number, month: number): number {
+  return year * 12 + month - 1;
+}
+
+function fromMonthIndex(index: number): PartialDate {
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+}
+
+function monthFromName(token: string): number | undefined {
+  if (MONTH_ABBREVIATIONS[token]) return MONTH_ABBREVIATIONS[token];
+  if (token.length < 3) return undefined;
+
+  // A prefix must point at a single month in every language ("jui" does not)
+  const matches = new Set<number>();
+  for (const names of Object.values(MONTH_NAMES)) {
+    names.forEach((name, index) => {
+      if (name.startsWith(token)) matches.add(index + 1);
+    });
+  }
+  return matches.size === 1 ? [...matches][0] : undefined;
+}
+
+// An out-of-range month or day makes the whole date invalid rather than less precise
+function partialDate(year: number, month?: number, day?: number): PartialDate | null {
+  if (!isYear(year)) return null;
+  if (month === undefined) return { year };
+  if (!Number.isInteger(month) || month < 1 || month > 12) return null;
+  if (day === undefined) return { year, month };
+  if (!Number.isInteger(day) || day < 1 || day > daysInMonth(year, month)) return null;
+  return { year, month, day };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function isYear(value: number): boolean {
+  return Number.isInteger(value) && value >= 1000 && value <= 9999;
+}
+
+/**
+ * Lower-case, strip accents and unify apostrophes so "Aujourd’hui" and
+ * "März" match the tables above
+ */
+function normalizeText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[’`]/g, "'")
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,234 @@
+/**
+ * LinkedIn Data Export Reader
+ * Reads the "Get a copy of your data" ZIP archive and maps its CSV files
+ * into the raw shape accepted by LinkedInImportService
+ */
+
+import { unzipSync, strFromU8 } from 'fflate';
+import { parseCSV, type CSVRow } from './csv';
+import { normalizeProficiency, parseLinkedInDate } from './normalize';
+import type { ParseReportBuilder } from './report';
+
+// Largest single CSV we are willing to inflate (guards against zip bombs)
+const MAX_CSV_BYTES = 10 * 1024 * 1024;
+
+const EXPORT_FILES = [
+  'profile.csv',
+  'positions.csv',
+  'education.csv',
+  'skills.csv',
+  'certifications.csv',
+  'languages.csv',
+  'projects.csv',
+  'volunteering.csv',
+  'email addresses.csv',
+  'phonenumbers.csv',
+] as const;
+
+type ExportFile = typeof EXPORT_FILES[number];
+
+// Files whose absence means most of the profile will be empty
+const REQUIRED_FILES: ExportFile[] = ['profile.csv', 'positions.csv'];
+
+// Display names as they appear in LinkedIn's archive
+const FILE_NAMES: Record<ExportFile, string> = {
+  'profile.csv': 'Profile.csv',
+  'positions.csv': 'Positions.csv',
+  'education.csv': 'Education.csv',
+  'skills.csv': 'Skills.csv',
+  'certifications.csv': 'Certifications.csv',
+  'languages.csv': 'Languages.csv',
+  'projects.csv': 'Projects.csv',
+  'volunteering.csv': 'Volunteering.csv',
+  'email addresses.csv': 'Email Addresses.csv',
+  'phonenumbers.csv': 'PhoneNumbers.csv',
+};
+
+// Profile fields and the Profile.csv columns they are read from
+const PROFILE_COLUMNS: [string, string[]][] = [
+  ['personal.name', ['First Name', 'Last Name']],
+  ['personal.headline', ['Headline']],
+  ['personal.location', ['Geo Location', 'Address']],
+  ['personal.summary', ['Summary']],
+  ['contact.website', ['Websites']],
+];
+
+// Profile sections and the files they are read from
+const SECTION_FILES: [string, ExportFile][] = [
+  ['contact.email', 'email addresses.csv'],
+  ['contact.phone', 'phonenumbers.csv'],
+  ['experience', 'positions.csv'],
+  ['education', 'education.csv'],
+  ['skills', 'skills.csv'],
+  ['certifications', 'certifications.csv'],
+  ['languages', 'languages.csv'],
+  ['projects', 'projects.csv'],
+  ['volunteer', 'volunteering.csv'],
+];
+
+/**
+ * Read a LinkedIn data export archive into raw profile data.
+ * Missing files produce empty sections; an archive with none of the
+ * known files is rejected.
+ */
+export function readLinkedInExport(archive: Uint8Array, report?: ParseReportBuilder): Record<string, any> {
+  const { files, ignored } = extractCSVFiles(archive);
+
+  if (Object.keys(files).length === 0) {
+    throw new Error('Archive does not contain any LinkedIn export files');
+  }
+
+  const rows = (file: ExportFile): CSVRow[] => files[file] ?? [];
+  const profile = rows('profile.csv')[0] ?? {};
+
+  if (report) {
+    recordProvenance(report, files, profile);
+
+    for (const file of REQUIRED_FILES) {
+      if (!files[file]) {
+        report.warn({ code: 'missing_file', message: `The export does not contain ${FILE_NAMES[file]}` });
+      }
+    }
+    if (ignored.length > 0) {
+      report.warn({ code: 'ignored_section', message: `These export files are not imported: ${ignored.join(', ')}` });
+    }
+  }
+
+  return {
+    name: [profile['First Name'], profile['Last Name']].filter(Boolean).join(' '),
+    headline: profile['Headline'] || '',
+    location: profile['Geo Location'] || profile['Address'] || '',
+    summary: profile['Summary'] || '',
+    email: mapEmail(rows('email addresses.csv')),
+    phone: rows('phonenumbers.csv').find(row => row['Number'])?.['Number'],
+    website: parseWebsites(profile['Websites'])[0],
+    experience: rows('positions.csv').map(row => ({
+      company: row['Company Name'],
+      title: row['Title'],
+      location: row['Location'],
+      startDate: parseLinkedInDate(row['Started On']),
+      endDate: parseLinkedInDate(row['Finished On']),
+      current: !row['Finished On'],
+      description: row['Description'],
+    })),
+    education: rows('education.csv').map(row => ({
+      institution: row['School Name'],
+      degree: row['Degree Name'],
+      startDate: parseLinkedInDate(row['Start Date']),
+      endDate: parseLinkedInDate(row['End Date']),
+      activities: splitList(row['Activities']),
+      description: row['Notes'],
+    })),
+    skills: rows('skills.csv').map(row => row['Name']).filter(Boolean),
+    certifications: rows('certifications.csv').map(row => ({
+      name: row['Name'],
+      issuer: row['Authority'],
+      issueDate: parseLinkedInDate(row['Started On']),
+      expiryDate: parseLinkedInDate(row['Finished On']) || undefined,
+      credentialId: row['License Number'] || undefined,
+      credentialUrl: row['Url'] || undefined,
+    })),
+    languages: rows('languages.csv')
+      .filter(row => row['Name'])
+      .map(row => ({
+        name: row['Name'],
+        proficiency: normalizeProficiency(row['Proficiency']),
+      })),
+    projects: rows('projects.csv').map(row => ({
+      name: row['Title'],
+      description: row['Description'],
+      url: row['Url'] || undefined,
+      startDate: parseLinkedInDate(row['Started On']),
+      endDate: parseLinkedInDate(row['Finished On']),
+    })),
+    volunteer: rows('volunteering.csv').map(row => ({
+      organization: row['Company Name'],
+      role: row['Role'],
+      cause: row['Cause'],
+      startDate: parseLinkedInDate(row['Started On']),
+      endDate: parseLinkedInDate(row['Finished On']),
+      description: row['Description'],
+    })),
+  };
+}
+
+function recordProvenance(report: ParseReportBuilder, files: Partial<Record<ExportFile, CSVRow[]>>, profile: CSVRow) {
+  for (const [path, columns] of PROFILE_COLUMNS) {
+    const used = columns.filter(column => profile[column]);
+    if (used.length > 0) {
+      report.field(path, { source: `Profile.csv:${used.join(' + ')}`, confidence: 'high' });
+    }
+  }
+
+  for (const [path, file] of SECTION_FILES) {
+    if (files[file]?.length) {
+      report.field(path, { source: FILE_NAMES[file], confidence: 'high' });
+    }
+  }
+}
+
+/**
+ * Inflate only the CSV files we understand, keyed by lower-cased base name
+ * (exports may nest files in a folder and vary in capitalisation)
+ */
+function extractCSVFiles(archive: Uint8Array): { files: Partial<Record<ExportFile, CSVRow[]>>; ignored: string[] } {
+  const ignored: string[] = [];
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(archive, {
+      filter: file => {
+        if (!isExportFile(baseName(file.name))) {
+          if (file.name.toLowerCase().endsWith('.csv')) ignored.push(file.name.split('/').pop()!);
+          return false;
+        }
+        if (file.originalSize > MAX_CSV_BYTES) {
+          throw new Error(`${baseName(file.name)} exceeds the ${MAX_CSV_BYTES / 1024 / 1024}MB limit`);
+        }
+        return true;
+      },
+    });
+  } catch (error) {
+    throw new Error(`Invalid LinkedIn export archive: ${(error as Error).message}`);
+  }
+
+  const files: Partial<Record<ExportFile, CSVRow[]>> = {};
+  for (const [path, content] of Object.entries(entries)) {
+    files[baseName(path) as ExportFile] = parseCSV(strFromU8(content));
+  }
+  return { files, ignored };
+}
+
+function baseName(path: string): string {
+  return path.split('/').pop()!.toLowerCase();
+}
+
+function isExportFile(name: string): name is ExportFile {
+  return (EXPORT_FILES as readonly string[]).includes(name);
+}
+
+function mapEmail(rows: CSVRow[]): string | undefined {
+  const primary = rows.find(row => row['Primary']?.toLowerCase() === 'yes') ?? rows[0];
+  return primary?.['Email Address'] || undefined;
+}
+
+/**
+ * Profile.csv stores websites as "[PERSONAL:https://a.dev,COMPANY:https://b.com]"
+ */
+function parseWebsites(value?: string): string[] {
+  if (!value) return [];
+
+  return value
+    .replace(/^\[|\]$/g, '')
+    .split(',')
+    .map(entry => entry.trim().replace(/^[A-Z_]+:(?!\/\/)/, ''))
+    .filter(Boolean);
+}
+
+function splitList(value?: string): string[] {
+  if (!value) return [];
+
+  return value
+    .split(/[;\n•]/)
+    .map(item => item.trim())
+    .filter(Boolean);
+}
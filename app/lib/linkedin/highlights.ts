@@ -0,0 +1,61 @@
+/**
+ * Profile Highlights
+ * Picks the most relevant part of a profile for a fixed amount of space.
+ * The portfolio and the résumé share the selection and differ in limits.
+ */
+
+import { sortByRecency } from './dates';
+import type { LinkedInProfile } from './import';
+
+export interface HighlightLimits {
+  // Most recent roles kept
+  experience: number;
+  // Skills kept, in profile order (LinkedIn lists top skills first)
+  skills: number;
+  // Projects kept, in profile order
+  projects: number;
+  // Optional caps for the remaining sections; unset keeps everything
+  education?: number;
+  certifications?: number;
+  volunteer?: number;
+}
+
+export const PORTFOLIO_LIMITS: HighlightLimits = {
+  experience: 10,
+  skills: 20,
+  projects: 6,
+};
+
+/**
+ * Trim a profile to the limits, most recent roles first
+ */
+export function selectHighlights(profile: LinkedInProfile, limits: HighlightLimits): LinkedInProfile {
+  return {
+    ...profile,
+    personal: {
+      ...profile.personal,
+      summary: tidySummary(profile.personal.summary),
+    },
+    experience: sortByRecency(profile.experience).slice(0, limits.experience),
+    skills: profile.skills.slice(0, limits.skills),
+    projects: profile.projects.slice(0, limits.projects),
+    education: recent(profile.education, limits.education),
+    certifications: limits.certifications === undefined ? profile.certifications : profile.certifications.slice(0, limits.certifications),
+    volunteer: recent(profile.volunteer, limits.volunteer),
+  };
+}
+
+function tidySummary(summary: string): string {
+  if (!summary) return '';
+
+  // Remove excessive whitespace and format for web display
+  return summary
+    .replace(/\s+/g, ' ')
+    .replace(/\n\s*\n/g, '\n\n')
+    .trim();
+}
+
+// Capped sections keep their most recent entries; uncapped ones keep profile order
+function recent<T extends { startDate?: string; endDate?: string; current?: boolean }>(entries: T[], limit?: number): T[] {
+  return limit === undefined ? entries : sortByRecency(entries).slice(0, limit);
+}
@@ -0,0 +1,124 @@
+/**
+ * Entry IDs
+ * Derives entry IDs from entry content so they survive re-imports and
+ * reordering, and migrates profiles that still carry index-based IDs
+ */
+
+import type { LinkedInProfile } from './import';
+
+export type IdentifiedSection = 'experience' | 'education' | 'certifications' | 'projects' | 'volunteer';
+
+type IdentifiedEntry = LinkedInProfile[IdentifiedSection][number];
+
+export const ID_PREFIXES: Record<IdentifiedSection, string> = {
+  experience: 'exp',
+  education: 'edu',
+  certifications: 'cert',
+  projects: 'proj',
+  volunteer: 'vol',
+};
+
+// Fields an ID is derived from: the ones that name the entry rather than
+// describe it, so editing a description keeps the ID
+const ID_FIELDS: Record<IdentifiedSection, string[]> = {
+  experience: ['company', 'title', 'startDate'],
+  education: ['institution', 'degree', 'field', 'startDate'],
+  certifications: ['name', 'issuer', 'issueDate'],
+  projects: ['name', 'startDate'],
+  volunteer: ['organization', 'role', 'startDate'],
+};
+
+const SECTIONS = Object.keys(ID_PREFIXES) as IdentifiedSection[];
+
+// IDs assigned by position before IDs were content-derived ("exp_0")
+const LEGACY_ID = /^(exp|edu|cert|proj|vol)_\d+$/;
+
+/**
+ * Derive the ID for an entry, e.g. "exp_1kx9z3f0qa2"
+ */
+export function entryId(section: IdentifiedSection, entry: IdentifiedEntry): string {
+  const record = entry as unknown as Record<string, unknown>;
+  const key = ID_FIELDS[section]
+    .map(field => String(record[field] ?? '').toLowerCase().replace(/\s+/g, ' ').trim())
+    .join('|');
+
+  return `${ID_PREFIXES[section]}_${hash(key)}`;
+}
+
+/**
+ * Return `id`, or `id-2`, `id-3`, ... if it is already taken
+ */
+export function uniqueId(id: string, used: Set<string>): string {
+  let unique = id;
+  for (let occurrence = 2; used.has(unique); occurrence++) {
+    unique = `${id}-${occurrence}`;
+  }
+  return unique;
+}
+
+/**
+ * Give every entry its content-derived ID. Entries with identical content
+ * are numbered in order of appearance.
+ */
+export function assignEntryIds(profile: LinkedInProfile): LinkedInProfile {
+  const result = { ...profile };
+
+  for (const section of SECTIONS) {
+    const used = new Set<string>();
+    (result as Record<IdentifiedSection, IdentifiedEntry[]>)[section] = profile[section].map(entry => {
+      const id = uniqueId(entryId(section, entry), used);
+      used.add(id);
+      return { ...entry, id };
+    });
+  }
+
+  return result;
+}
+
+export function isLegacyEntryId(id: string): boolean {
+  return LEGACY_ID.test(id);
+}
+
+/**
+ * Replace index-based IDs in a stored profile with content-derived ones.
+ * Other IDs are kept. The returned map (old ID -> new ID) lets callers
+ * rewrite anything that references an entry.
+ */
+export function migrateEntryIds(profile: LinkedInProfile): { profile: LinkedInProfile; idMap: Record<string, string> } {
+  const result = { ...profile };
+  const idMap: Record<string, string> = {};
+
+  for (const section of SECTIONS) {
+    const used = new Set(profile[section].map(entry => entry.id).filter(id => id && !isLegacyEntryId(id)));
+
+    (result as Record<IdentifiedSection, IdentifiedEntry[]>)[section] = profile[section].map(entry => {
+      if (entry.id && !isLegacyEntryId(entry.id)) return entry;
+
+      const id = uniqueId(entryId(section, entry), used);
+      used.add(id);
+      if (entry.id) idMap[entry.id] = id;
+      return { ...entry, id };
+    });
+  }
+
+  return { profile: result, idMap };
+}
+
+/**
+ * cyrb53: a fast 53-bit string hash, rendered in base 36 (up to 11 characters)
+ */
+function hash(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
@@ -3,6 +3,16 @@
  * Handles parsing and structuring LinkedIn data for portfolio generation
  */
 
+import { isPresent } from './dates';
+import { readLinkedInExport } from './export-archive';
+import { assignEntryIds } from './ids';
+import { PORTFOLIO_LIMITS, selectHighlights } from './highlights';
+import { fromJSONResume, toJSONResume, type JSONResume } from './json-resume';
+import { isDateToken, normalizeProficiency, parseDateRange, parseLinkedInDate } from './normalize';
+import { readLinkedInPDF } from './pdf';
+import { ParseReportBuilder, warnUnknownKeys, type Confidence, type ParseResult } from './report';
+import { validateLinkedInProfile, type ValidationIssue, type ValidationOptions } from './validation';
+
 export interface LinkedInProfile {
   personal: {
     name: string;
@@ -34,6 +44,7 @@ export interface WorkExperience {
   startDate: string;
   endDate?: string;
   current: boolean;
+  employmentType?: string;
   description: string;
   achievements: string[];
   skills: string[];
@@ -87,17 +98,112 @@ export interface VolunteerExperience {
   description: string;
 }
 
+const SECTION_HEADINGS: Record<string, string> = {
+  about: 'about',
+  summary: 'summary',
+  experience: 'experience',
+  'work experience': 'experience',
+  education: 'education',
+  skills: 'skills',
+  'top skills': 'skills',
+  'licenses & certifications': 'certifications',
+  'licenses and certifications': 'certifications',
+  certifications: 'certifications',
+  projects: 'projects',
+  volunteering: 'volunteer',
+  'volunteer experience': 'volunteer',
+  volunteer: 'volunteer',
+  languages: 'languages',
+  contact: 'contact',
+};
+
+// LinkedIn sections the importer has no place for; their content is skipped
+const IGNORED_HEADINGS = [
+  'activity', 'featured', 'recommendations', 'interests', 'honors & awards',
+  'honors and awards', 'publications', 'courses', 'patents', 'test scores',
+  'organizations', 'causes', 'services', 'people also viewed', 'people you may know',
+  'honors-awards',
+];
+
+// Top-level keys read by parseJSONProfile
+const JSON_PROFILE_KEYS = [
+  'name', 'fullName', 'headline', 'title', 'location', 'address', 'summary', 'about',
+  'profilePicture', 'image', 'avatar', 'email', 'phone', 'website', 'personalWebsite',
+  'linkedinUrl', 'profileUrl', 'experience', 'workExperience', 'education', 'skills',
+  'certifications', 'languages', 'projects', 'volunteer', 'volunteering',
+];
+
+const EMPLOYMENT_TYPES = [
+  'full-time', 'part-time', 'self-employed', 'freelance',
+  'contract', 'internship', 'apprenticeship', 'seasonal',
+];
+
+const VOLUNTEER_CAUSES = [
+  'animal welfare', 'arts and culture', 'children', 'civil rights and social action',
+  'disaster and humanitarian relief', 'economic empowerment', 'education', 'environment',
+  'health', 'human rights', 'politics', 'poverty alleviation', 'science and technology',
+  'social services', 'veteran support',
+];
+
+const WORKPLACE_TYPE = /^(remote|hybrid|on-site|onsite)$/i;
+
+const PROFICIENCY_LABEL = /native|bilingual|full|professional|limited|elementary/i;
+
+// Interface text LinkedIn includes when a profile page is copied
+const NOISE_LINE = /^(show all\b|show credential|show project|…?see more|\.\.\.see more|see less|endorsed by\b|\d+ endorsements?$|associated with\b)|\blogo$/i;
+
+export type ProfileImportFormat = 'text' | 'json' | 'jsonresume' | 'linkedin-export' | 'pdf';
+
 export class LinkedInImportService {
   /**
-   * Parse LinkedIn profile text or JSON data
+   * Parse LinkedIn profile text, JSON data, a JSON Resume document, a
+   * LinkedIn data export ZIP archive or a "Save to PDF" profile
    */
-  async parseProfile(profileData: string, format: 'text' | 'json' = 'text'): Promise<LinkedInProfile> {
+  async parseProfile(
+    profileData: string | Uint8Array | ArrayBuffer,
+    format: ProfileImportFormat = 'text'
+  ): Promise<LinkedInProfile> {
+    const { profile } = await this.parseProfileWithReport(profileData, format);
+    return profile;
+  }
+
+  /**
+   * Parse a profile and report where each value came from, how confident
+   * the parser is, and what it could not understand
+   */
+  async parseProfileWithReport(
+    profileData: string | Uint8Array | ArrayBuffer,
+    format: ProfileImportFormat = 'text'
+  ): Promise<ParseResult> {
+    const report = new ParseReportBuilder(format);
+
     try {
-      if (format === 'json') {
-        return this.parseJSONProfile(JSON.parse(profileData));
+      let profile: LinkedInProfile;
+
+      if (format === 'linkedin-export') {
+        if (typeof profileData === 'string') {
+          throw new Error('LinkedIn export must be provided as binary ZIP data');
+        }
+        profile = this.parseJSONProfile(readLinkedInExport(toBytes(profileData), report));
+      } else if (format === 'pdf') {
+        if (typeof profileData === 'string') {
+          throw new Error('PDF must be provided as binary data');
+        }
+        profile = await this.parseTextProfile(await readLinkedInPDF(toBytes(profileData)), report);
+      } else if (format === 'jsonresume') {
+        profile = fromJSONResume(JSON.parse(toText(profileData)), report);
+      } else if (format === 'json') {
+        const data = JSON.parse(toText(profileData));
+        warnUnknownKeys(report, data, JSON_PROFILE_KEYS);
+        profile = this.parseJSONProfile(data, report);
       } else {
-        return this.parseTextProfile(profileData);
+        profile = await this.parseTextProfile(toText(profileData), report);
       }
+
+      // Mappers leave IDs empty; they are derived from the finished entries
+      profile = assignEntryIds(profile);
+
+      return { profile, report: report.build(profile) };
     } catch (error) {
       throw new Error(`Failed to parse LinkedIn profile: ${(error as Error).message}`);
     }
@@ -106,41 +212,48 @@ export class LinkedInImportService {
   /**
    * Parse structured JSON LinkedIn data
    */
-  private parseJSONProfile(data: any): LinkedInProfile {
+  private parseJSONProfile(data: any, report?: ParseReportBuilder): LinkedInProfile {
+    const pick = (path: string, ...keys: string[]) => {
+      const key = keys.find(candidate => data[candidate]);
+      if (key === undefined) return undefined;
+      if (!Array.isArray(data[key]) || data[key].length > 0) {
+        report?.field(path, { source: `json:${key}`, confidence: 'high' });
+      }
+      return data[key];
+    };
+
     return {
       personal: {
-        name: data.name || data.fullName || '',
-        headline: data.headline || data.title || '',
-        location: data.location || data.address || '',
-        summary: data.summary || data.about || '',
-        profileImage: data.profilePicture || data.image || data.avatar,
+        name: pick('personal.name', 'name', 'fullName') || '',
+        headline: pick('personal.headline', 'headline', 'title') || '',
+        location: pick('personal.location', 'location', 'address') || '',
+        summary: pick('personal.summary', 'summary', 'about') || '',
+        profileImage: pick('personal.profileImage', 'profilePicture', 'image', 'avatar'),
       },
       contact: {
-        email: data.email,
-        phone: data.phone,
-        website: data.website || data.personalWebsite,
-        linkedin: data.linkedinUrl || data.profileUrl || '',
+        email: pick('contact.email', 'email'),
+        phone: pick('contact.phone', 'phone'),
+        website: pick('contact.website', 'website', 'personalWebsite'),
+        linkedin: pick('contact.linkedin', 'linkedinUrl', 'profileUrl') || '',
       },
-      experience: this.parseExperience(data.experience || data.workExperience || []),
-      education: this.parseEducation(data.education || []),
-      skills: this.parseSkills(data.skills || []),
-      certifications: this.parseCertifications(data.certifications || []),
-      languages: this.parseLanguages(data.languages || []),
-      projects: this.parseProjects(data.projects || []),
-      volunteer: this.parseVolunteer(data.volunteer || data.volunteering || []),
+      experience: this.parseExperience(pick('experience', 'experience', 'workExperience') || []),
+      education: this.parseEducation(pick('education', 'education') || []),
+      skills: this.parseSkills(pick('skills', 'skills') || []),
+      certifications: this.parseCertifications(pick('certifications', 'certifications') || []),
+      languages: this.parseLanguages(pick('languages', 'languages') || []),
+      projects: this.parseProjects(pick('projects', 'projects') || []),
+      volunteer: this.parseVolunteer(pick('volunteer', 'volunteer', 'volunteering') || []),
     };
   }
 
   /**
-   * Parse unstructured text LinkedIn data using AI
+   * Parse unstructured text LinkedIn data with heuristics
+   * (AIProfileParser provides the LLM-backed mode and falls back to this)
    */
-  private async parseTextProfile(text: string): Promise<LinkedInProfile> {
-    // This would typically use the LLM to parse unstructured text
-    // For now, we'll implement basic text parsing
+  private async parseTextProfile(text: string, report?: ParseReportBuilder): Promise<LinkedInProfile> {
+    const sections = this.splitIntoSections(text, report);
     
-    const sections = this.splitIntoSections(text);
-    
-    return {
+    const profile: LinkedInProfile = {
       personal: this.extractPersonalInfo(sections),
       contact: this.extractContactInfo(sections),
       experience: this.extractExperience(sections),
@@ -151,46 +264,107 @@ export class LinkedInImportService {
       projects: this.extractProjects(sections),
       volunteer: this.extractVolunteer(sections),
     };
+
+    if (report) {
+      this.recordTextProvenance(text, profile, report);
+    }
+
+    return profile;
+  }
+
+  /**
+   * Locate each extracted value in the source text and rate how reliable
+   * the heuristic that produced it is
+   */
+  private recordTextProvenance(text: string, profile: LinkedInProfile, report: ParseReportBuilder) {
+    const lines = text.split('\n');
+    const lineOf = (value: string | undefined, fromLine = 1): number | undefined => {
+      if (!value) return undefined;
+      const needle = value.split('\n')[0].trim();
+      const index = lines.findIndex((line, i) => i >= fromLine - 1 && line.includes(needle));
+      return index === -1 ? undefined : index + 1;
+    };
+    const record = (path: string, value: string | undefined, confidence: Confidence, fromLine?: number) => {
+      if (value) report.field(path, { source: 'text', line: lineOf(value, fromLine), confidence });
+    };
+
+    // Name and headline are simply the first two lines of the page
+    record('personal.name', profile.personal.name, 'medium');
+    record('personal.headline', profile.personal.headline, 'medium');
+    record('personal.location', profile.personal.location, 'medium');
+    record('personal.summary', profile.personal.summary, 'high', report.sectionLine('about') ?? report.sectionLine('summary'));
+    record('contact.email', profile.contact.email, 'high');
+    record('contact.phone', profile.contact.phone, 'medium');
+    // The first link on the page is not necessarily the user's own site
+    record('contact.website', profile.contact.website, 'low');
+    record('contact.linkedin', profile.contact.linkedin, 'high');
+
+    // Entries anchored on a date line are reliable; the rest are guesses
+    const entries: [string, { value: string; dated: boolean }[]][] = [
+      ['experience', profile.experience.map(exp => ({ value: exp.title, dated: !!exp.startDate }))],
+      ['education', profile.education.map(edu => ({ value: edu.institution, dated: !!edu.startDate }))],
+      ['certifications', profile.certifications.map(cert => ({ value: cert.name, dated: !!cert.issueDate }))],
+      ['projects', profile.projects.map(proj => ({ value: proj.name, dated: !!proj.startDate }))],
+      ['volunteer', profile.volunteer.map(vol => ({ value: vol.role, dated: !!vol.startDate }))],
+      ['languages', profile.languages.map(lang => ({ value: lang.name, dated: true }))],
+    ];
+
+    for (const [section, values] of entries) {
+      let fromLine = report.sectionLine(section);
+      values.forEach(({ value, dated }, index) => {
+        const line = lineOf(value, fromLine);
+        report.field(`${section}[${index}]`, { source: 'text', line, confidence: dated ? 'high' : 'low' });
+        fromLine = line ?? fromLine;
+      });
+    }
+
+    if (profile.skills.length > 0) {
+      report.field('skills', { source: 'text', line: report.sectionLine('skills'), confidence: 'high' });
+    }
   }
 
   /**
    * Split profile text into recognizable sections
    */
-  private splitIntoSections(text: string): Record<string, string> {
+  private splitIntoSections(text: string, report?: ParseReportBuilder): Record<string, string> {
     const sections: Record<string, string> = {};
-    const sectionHeaders = [
-      'experience', 'education', 'skills', 'certifications', 
-      'projects', 'volunteer', 'about', 'summary'
-    ];
+    const seen = new Set<string>(['header']);
 
     let currentSection = 'header';
     let currentContent = '';
 
     const lines = text.split('\n');
     
-    for (const line of lines) {
-      const lowerLine = line.toLowerCase().trim();
-      
-      // Check if this line is a section header
-      const foundSection = sectionHeaders.find(header => 
-        lowerLine.includes(header) && line.length < 50
-      );
-
-      if (foundSection) {
+    for (const [index, line] of lines.entries()) {
+      // Headings must stand alone on their line, otherwise role lines such as
+      // "Skills: TypeScript · Rust" would start a new section. A heading seen
+      // twice is content (e.g. the volunteering cause "Education").
+      const heading = line.toLowerCase().trim().replace(/[:\s]+$/, '');
+      const foundSection = SECTION_HEADINGS[heading]
+        ?? (IGNORED_HEADINGS.includes(heading) ? `ignored:${heading}` : undefined);
+
+      if (foundSection && !seen.has(foundSection)) {
         // Save previous section
-        if (currentContent.trim()) {
+        if (currentContent.trim() && !currentSection.startsWith('ignored:')) {
           sections[currentSection] = currentContent.trim();
         }
         
+        seen.add(foundSection);
         currentSection = foundSection;
         currentContent = '';
+
+        if (foundSection.startsWith('ignored:')) {
+          report?.warn({ code: 'ignored_section', line: index + 1, message: `The "${line.trim()}" section is not imported` });
+        } else {
+          report?.section(foundSection, index + 1);
+        }
       } else {
         currentContent += line + '\n';
       }
     }
 
     // Save last section
-    if (currentContent.trim()) {
+    if (currentContent.trim() && !currentSection.startsWith('ignored:')) {
       sections[currentSection] = currentContent.trim();
     }
 
@@ -209,10 +383,15 @@ export class LinkedInImportService {
     const name = lines[0]?.trim() || '';
     const headline = lines[1]?.trim() || '';
 
+    // Without a "Located in ..." phrase, a place line under the headline
+    // (as in LinkedIn's PDF) is the location
+    const location = this.extractLocation(header)
+      || (lines[2] && this.isLocationLine(lines[2].trim()) ? this.parseLocation(lines[2].trim()) : '');
+
     return {
       name,
       headline,
-      location: this.extractLocation(header),
+      location,
       summary: about,
     };
   }
@@ -235,14 +414,15 @@ export class LinkedInImportService {
    * Parse experience from various formats
    */
   private parseExperience(experienceData: any[]): WorkExperience[] {
-    return experienceData.map((exp, index) => ({
-      id: `exp_${index}`,
+    return experienceData.map(exp => ({
+      id: '',
       company: exp.company || exp.companyName || '',
       title: exp.title || exp.position || exp.role || '',
       location: exp.location || '',
-      startDate: this.normalizeDate(exp.startDate || exp.from),
-      endDate: this.normalizeDate(exp.endDate || exp.to),
-      current: exp.current || exp.isCurrent || false,
+      startDate: parseLinkedInDate(exp.startDate || exp.from),
+      endDate: parseLinkedInDate(exp.endDate || exp.to),
+      current: exp.current || exp.isCurrent || isPresent(String(exp.endDate || exp.to || '')),
+      employmentType: exp.employmentType || exp.employment_type,
       description: exp.description || exp.summary || '',
       achievements: this.extractAchievements(exp.description || ''),
       skills: exp.skills || [],
@@ -253,13 +433,13 @@ export class LinkedInImportService {
    * Parse education from various formats
    */
   private parseEducation(educationData: any[]): Education[] {
-    return educationData.map((edu, index) => ({
-      id: `edu_${index}`,
+    return educationData.map(edu => ({
+      id: '',
       institution: edu.institution || edu.school || edu.university || '',
       degree: edu.degree || edu.degreeType || '',
       field: edu.field || edu.fieldOfStudy || edu.major || '',
-      startDate: this.normalizeDate(edu.startDate || edu.from),
-      endDate: this.normalizeDate(edu.endDate || edu.to),
+      startDate: parseLinkedInDate(edu.startDate || edu.from),
+      endDate: parseLinkedInDate(edu.endDate || edu.to),
       gpa: edu.gpa || edu.grade,
       activities: edu.activities || [],
       description: edu.description || '',
@@ -282,12 +462,12 @@ export class LinkedInImportService {
    * Parse certifications
    */
   private parseCertifications(certData: any[]): Certification[] {
-    return certData.map((cert, index) => ({
-      id: `cert_${index}`,
+    return certData.map(cert => ({
+      id: '',
       name: cert.name || cert.title || '',
       issuer: cert.issuer || cert.organization || cert.company || '',
-      issueDate: this.normalizeDate(cert.issueDate || cert.date),
-      expiryDate: this.normalizeDate(cert.expiryDate),
+      issueDate: parseLinkedInDate(cert.issueDate || cert.date),
+      expiryDate: parseLinkedInDate(cert.expiryDate),
       credentialId: cert.credentialId || cert.id,
       credentialUrl: cert.credentialUrl || cert.url,
     }));
@@ -307,13 +487,13 @@ export class LinkedInImportService {
    * Parse projects
    */
   private parseProjects(projectData: any[]): Project[] {
-    return projectData.map((proj, index) => ({
-      id: `proj_${index}`,
+    return projectData.map(proj => ({
+      id: '',
       name: proj.name || proj.title || '',
       description: proj.description || proj.summary || '',
       url: proj.url || proj.link || proj.website,
-      startDate: this.normalizeDate(proj.startDate || proj.from),
-      endDate: this.normalizeDate(proj.endDate || proj.to),
+      startDate: parseLinkedInDate(proj.startDate || proj.from),
+      endDate: parseLinkedInDate(proj.endDate || proj.to),
       skills: proj.skills || proj.technologies || [],
       teamSize: proj.teamSize,
     }));
@@ -323,13 +503,13 @@ export class LinkedInImportService {
    * Parse volunteer experience
    */
   private parseVolunteer(volunteerData: any[]): VolunteerExperience[] {
-    return volunteerData.map((vol, index) => ({
-      id: `vol_${index}`,
+    return volunteerData.map(vol => ({
+      id: '',
       organization: vol.organization || vol.company || '',
       role: vol.role || vol.position || vol.title || '',
       cause: vol.cause || vol.area || '',
-      startDate: this.normalizeDate(vol.startDate || vol.from),
-      endDate: this.normalizeDate(vol.endDate || vol.to),
+      startDate: parseLinkedInDate(vol.startDate || vol.from),
+      endDate: parseLinkedInDate(vol.endDate || vol.to),
       description: vol.description || vol.summary || '',
     }));
   }
@@ -356,8 +536,9 @@ export class LinkedInImportService {
   }
 
   private extractWebsite(text: string): string | undefined {
-    const websitePattern = /https?:\/\/(www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b([-a-zA-Z0-9()@:%_\+.~#?&//=]*)/;
-    const match = text.match(websitePattern);
+    const websitePattern = /https?:\/\/(www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b([-a-zA-Z0-9()@:%_\+.~#?&//=]*)/g;
+    // The LinkedIn profile URL has its own field
+    const match = [...text.matchAll(websitePattern)].find(found => !/linkedin\.com\//i.test(found[0]));
     return match ? match[0] : undefined;
   }
 
@@ -371,52 +552,126 @@ export class LinkedInImportService {
     const experienceText = sections.experience || '';
     if (!experienceText) return [];
 
-    // Basic experience parsing - in production, use AI for better results
     const experiences: WorkExperience[] = [];
-    const jobBlocks = experienceText.split(/\n\s*\n/).filter(block => block.trim());
-
-    jobBlocks.forEach((block, index) => {
-      const lines = block.split('\n').map(line => line.trim());
-      if (lines.length >= 2) {
-        experiences.push({
-          id: `exp_${index}`,
-          title: lines[0],
-          company: lines[1],
-          location: '',
-          startDate: '',
-          endDate: '',
-          current: false,
-          description: lines.slice(2).join(' '),
-          achievements: [],
-          skills: [],
-        });
+    const isDateRange = (line: string) => parseDateRange(line) !== null;
+
+    for (const lines of this.splitIntoBlocks(experienceText)) {
+      if (!lines.some(isDateRange)) {
+        // No dates to anchor on: title, company, then description
+        if (lines.length >= 2) {
+          experiences.push(this.buildExperience(lines[0], lines[1], null, lines.slice(2)));
+        }
+        continue;
       }
-    });
+
+      // Several roles at one company: "Acme" / "Full-time · 5 yrs 3 mos" / roles...
+      if (lines.length > 2 && !isDateRange(lines[1]) && this.isTenureLine(lines[1])) {
+        const company = lines[0];
+        const groupType = lines[1].split(/\s+·\s+/).find(part => this.isEmploymentType(part));
+        const roleLines = lines.slice(2);
+        const groupLocation = roleLines[0] && this.isLocationLine(roleLines[0]) ? this.parseLocation(roleLines.shift()!) : '';
+
+        const roles = this.segmentEntries(roleLines, isDateRange, anchor =>
+          anchor >= 2 && this.isEmploymentType(roleLines[anchor - 1]) ? 2 : 1
+        );
+
+        for (const role of roles) {
+          const [title, employmentType] = role.header;
+          const entry = this.buildExperience(
+            title,
+            `${company} · ${employmentType || groupType || ''}`,
+            role.anchor,
+            role.body
+          );
+          entry.location = entry.location || groupLocation;
+          experiences.push(entry);
+        }
+        continue;
+      }
+
+      for (const entry of this.segmentEntries(lines, isDateRange, () => 2)) {
+        const [title, companyLine] = entry.header.length === 2 ? entry.header : [entry.header[0], ''];
+        experiences.push(this.buildExperience(title || '', companyLine, entry.anchor, entry.body));
+      }
+    }
 
     return experiences;
   }
 
+  /**
+   * Build a work experience entry from its title, "Company · Employment type"
+   * line, date range line and remaining lines
+   */
+  private buildExperience(
+    title: string,
+    companyLine: string,
+    dateLine: string | null,
+    body: string[]
+  ): WorkExperience {
+    const [company, ...details] = companyLine.split(/\s+·\s+/);
+    const range = dateLine ? parseDateRange(dateLine) : null;
+    const lines = [...body];
+
+    const location = lines[0] && this.isLocationLine(lines[0]) ? this.parseLocation(lines.shift()!) : '';
+    const skillsLine = lines.findIndex(line => /^skills:/i.test(line));
+    const skills = skillsLine === -1 ? [] : this.splitList(lines.splice(skillsLine, 1)[0].replace(/^skills:/i, ''));
+    const description = lines.join('\n');
+
+    return {
+      id: '',
+      title,
+      company: company.trim(),
+      location,
+      startDate: range?.startDate || '',
+      endDate: range?.endDate || '',
+      current: range?.current || false,
+      employmentType: details.find(detail => this.isEmploymentType(detail)),
+      description,
+      achievements: this.extractAchievements(description),
+      skills,
+    };
+  }
+
   private extractEducation(sections: Record<string, string>): Education[] {
     const educationText = sections.education || '';
     if (!educationText) return [];
 
     const education: Education[] = [];
-    const eduBlocks = educationText.split(/\n\s*\n/).filter(block => block.trim());
-
-    eduBlocks.forEach((block, index) => {
-      const lines = block.split('\n').map(line => line.trim());
-      if (lines.length >= 2) {
-        education.push({
-          id: `edu_${index}`,
-          institution: lines[0],
-          degree: lines[1],
-          field: '',
-          startDate: '',
-          endDate: '',
-          activities: [],
-        });
-      }
-    });
+
+    for (const block of this.splitIntoBlocks(educationText)) {
+      const [institution, ...lines] = block;
+      if (lines.length === 0) continue;
+
+      const dateIndex = lines.findIndex(line => parseDateRange(line) !== null || /^\d{4}$/.test(line));
+      const dateLine = dateIndex === -1 ? '' : lines.splice(dateIndex, 1)[0];
+      const range = parseDateRange(dateLine);
+
+      // "BSc, Computer Science" -> degree + field of study
+      const degreeLine = dateIndex === 0 ? '' : lines.shift() || '';
+      const commaIndex = degreeLine.indexOf(',');
+      const degree = commaIndex === -1 ? degreeLine : degreeLine.slice(0, commaIndex).trim();
+      const field = commaIndex === -1 ? '' : degreeLine.slice(commaIndex + 1).trim();
+
+      const gradeLine = lines.findIndex(line => /^grade:/i.test(line));
+      const gpa = gradeLine === -1 ? undefined : lines.splice(gradeLine, 1)[0].replace(/^grade:/i, '').trim();
+
+      const activitiesLine = lines.findIndex(line => /^activities and societies:/i.test(line));
+      const activities = activitiesLine === -1
+        ? []
+        : this.splitList(lines.splice(activitiesLine, 1)[0].replace(/^activities and societies:/i, ''));
+
+      education.push({
+        id: '',
+        institution,
+        degree,
+        field,
+        startDate: range?.startDate || (range ? '' : parseLinkedInDate(dateLine)),
+        endDate: range?.endDate || '',
+        gpa,
+        activities,
+        description: lines.join('\n'),
+      });
+    }
 
     return education;
   }
@@ -428,23 +683,216 @@ export class LinkedInImportService {
     return skillsText
       .split(/[,\n•·]/)
       .map(skill => skill.trim())
-      .filter(skill => skill.length > 0);
+      .filter(skill => skill.length > 0 && !NOISE_LINE.test(skill));
   }
 
   private extractCertifications(sections: Record<string, string>): Certification[] {
-    return []; // Implement as needed
+    const certificationText = sections.certifications || '';
+    if (!certificationText) return [];
+
+    const certifications: Certification[] = [];
+    const isIssuedLine = (line: string) => /^issued\b/i.test(line);
+
+    for (const lines of this.splitIntoBlocks(certificationText)) {
+      const entries = lines.some(isIssuedLine)
+        ? this.segmentEntries(lines, isIssuedLine, () => 2)
+        : [{ header: lines.slice(0, 2), anchor: '', body: lines.slice(2) }];
+
+      for (const entry of entries) {
+        const [name, issuer] = entry.header;
+        if (!name) continue;
+
+        // "Issued Nov 2021 · Expires Nov 2024" or "Issued Nov 2021 · No Expiration Date"
+        const parts = entry.anchor.split(/\s+·\s+/);
+        const issued = parts.find(part => /^issued\b/i.test(part))?.replace(/^issued\s*/i, '');
+        const expires = parts.find(part => /^expire[sd]\b/i.test(part))?.replace(/^expire[sd]\s*/i, '');
+        const credentialLine = entry.body.find(line => /^credential id\b/i.test(line));
+
+        certifications.push({
+          id: '',
+          name,
+          issuer: issuer || '',
+          issueDate: parseLinkedInDate(issued),
+          expiryDate: expires ? parseLinkedInDate(expires) : undefined,
+          credentialId: credentialLine?.replace(/^credential id\s*/i, '') || undefined,
+          credentialUrl: this.extractWebsite(entry.body.join('\n')),
+        });
+      }
+    }
+
+    return certifications;
   }
 
   private extractLanguages(sections: Record<string, string>): Language[] {
-    return []; // Implement as needed
+    const languagesText = sections.languages || '';
+    if (!languagesText) return [];
+
+    const languages: Language[] = [];
+
+    for (const line of languagesText.split('\n').map(line => line.trim())) {
+      if (!line || NOISE_LINE.test(line)) continue;
+
+      // Proficiency on its own line applies to the language above it
+      if (/proficiency/i.test(line) && languages.length > 0) {
+        languages[languages.length - 1].proficiency = normalizeProficiency(line);
+        continue;
+      }
+
+      // Inline forms: "German · Native or bilingual proficiency", "German (Native)"
+      const inline = line.match(/^(.+?)\s*(?:·|-|–|\()\s*([^)]+)\)?$/);
+      if (inline && PROFICIENCY_LABEL.test(inline[2])) {
+        languages.push({ name: inline[1].trim(), proficiency: normalizeProficiency(inline[2]) });
+      } else {
+        languages.push({ name: line, proficiency: 'professional' });
+      }
+    }
+
+    return languages;
   }
 
   private extractProjects(sections: Record<string, string>): Project[] {
-    return []; // Implement as needed
+    const projectsText = sections.projects || '';
+    if (!projectsText) return [];
+
+    const projects: Project[] = [];
+    const isDateLine = (line: string) => parseDateRange(line) !== null || isDateToken(line);
+
+    for (const lines of this.splitIntoBlocks(projectsText)) {
+      const entries = lines.some(isDateLine)
+        ? this.segmentEntries(lines, isDateLine, () => 1)
+        : [{ header: lines.slice(0, 1), anchor: '', body: lines.slice(1) }];
+
+      for (const entry of entries) {
+        const [name] = entry.header;
+        if (!name) continue;
+
+        const range = parseDateRange(entry.anchor);
+        const body = [...entry.body];
+        const skillsLine = body.findIndex(line => /^skills:/i.test(line));
+        const skills = skillsLine === -1 ? [] : this.splitList(body.splice(skillsLine, 1)[0].replace(/^skills:/i, ''));
+        const url = this.extractWebsite(body.join('\n'));
+
+        projects.push({
+          id: '',
+          name,
+          description: body.filter(line => line !== url).join('\n'),
+          url,
+          startDate: range?.startDate || parseLinkedInDate(entry.anchor),
+          endDate: range?.endDate || '',
+          skills,
+        });
+      }
+    }
+
+    return projects;
   }
 
   private extractVolunteer(sections: Record<string, string>): VolunteerExperience[] {
-    return []; // Implement as needed
+    const volunteerText = sections.volunteer || '';
+    if (!volunteerText) return [];
+
+    const volunteer: VolunteerExperience[] = [];
+    const isDateRange = (line: string) => parseDateRange(line) !== null;
+
+    for (const lines of this.splitIntoBlocks(volunteerText)) {
+      const entries = lines.some(isDateRange)
+        ? this.segmentEntries(lines, isDateRange, () => 2)
+        : [{ header: lines.slice(0, 2), anchor: '', body: lines.slice(2) }];
+
+      for (const entry of entries) {
+        const [role, organization] = entry.header;
+        if (!role) continue;
+
+        const range = parseDateRange(entry.anchor);
+        const body = [...entry.body];
+        const cause = body[0] && VOLUNTEER_CAUSES.includes(body[0].toLowerCase()) ? body.shift()! : '';
+
+        volunteer.push({
+          id: '',
+          organization: organization || '',
+          role,
+          cause,
+          startDate: range?.startDate || '',
+          endDate: range?.endDate || '',
+          description: body.join('\n'),
+        });
+      }
+    }
+
+    return volunteer;
+  }
+
+  /**
+   * Split a section into blocks of trimmed lines, dropping LinkedIn interface text
+   */
+  private splitIntoBlocks(text: string): string[][] {
+    return text
+      .split(/\n\s*\n/)
+      .map(block => block
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line && !NOISE_LINE.test(line)))
+      .filter(lines => lines.length > 0);
+  }
+
+  /**
+   * Group lines into entries anchored on a line (usually the date line).
+   * Each entry takes `headerLength(anchor)` lines before its anchor as its
+   * header and every following line up to the next entry's header as its body.
+   */
+  private segmentEntries(
+    lines: string[],
+    isAnchor: (line: string) => boolean,
+    headerLength: (anchor: number) => number
+  ): { header: string[]; anchor: string; body: string[] }[] {
+    const anchors = lines
+      .map((line, index) => (isAnchor(line) ? index : -1))
+      .filter(index => index >= 0);
+
+    const headerStarts = anchors.map((anchor, i) => {
+      const previous = i === 0 ? 0 : anchors[i - 1] + 1;
+      return Math.max(previous, anchor - headerLength(anchor));
+    });
+
+    return anchors.map((anchor, i) => ({
+      header: lines.slice(headerStarts[i], anchor),
+      anchor: lines[anchor],
+      body: lines.slice(anchor + 1, i + 1 < anchors.length ? headerStarts[i + 1] : lines.length),
+    }));
+  }
+
+  private isEmploymentType(value?: string): boolean {
+    return !!value && EMPLOYMENT_TYPES.includes(value.trim().toLowerCase());
+  }
+
+  /**
+   * "Full-time · 5 yrs 3 mos" or "5 yrs 3 mos" under a company with several roles
+   */
+  private isTenureLine(line: string): boolean {
+    return line
+      .split(/\s+·\s+/)
+      .every(part => this.isEmploymentType(part) || /^(\d+\s*(yrs?|years?|mos?|months?)\s*)+$/i.test(part.trim()));
+  }
+
+  private isLocationLine(line: string): boolean {
+    if (line.length > 60 || /[.!?:]$/.test(line) || parseDateRange(line)) return false;
+    return line.includes(',') || WORKPLACE_TYPE.test(line) || /\barea$/i.test(line);
+  }
+
+  /**
+   * "Berlin, Germany · Hybrid" -> "Berlin, Germany"; "Remote" stays as is
+   */
+  private parseLocation(line: string): string {
+    const parts = line.split(/\s+·\s+/);
+    const places = parts.filter(part => !WORKPLACE_TYPE.test(part));
+    return (places.length > 0 ? places : parts).join(', ');
+  }
+
+  private splitList(value: string): string[] {
+    return value
+      .split(/[,;·•]/)
+      .map(item => item.trim())
+      .filter(Boolean);
   }
 
   private extractAchievements(description: string): string[] {
@@ -468,48 +916,27 @@ export class LinkedInImportService {
     return achievements;
   }
 
-  private normalizeDate(dateStr: any): string {
-    if (!dateStr) return '';
-    
-    if (typeof dateStr === 'string') {
-      // Try to parse various date formats
-      const date = new Date(dateStr);
-      if (!isNaN(date.getTime())) {
-        return date.toISOString().split('T')[0]; // YYYY-MM-DD format
-      }
-    }
-
-    return String(dateStr);
+  /**
+   * Export profile data as a JSON Resume document
+   */
+  exportJSONResume(profile: LinkedInProfile): JSONResume {
+    return toJSONResume(profile);
   }
 
   /**
-   * Validate and sanitize imported profile data
+   * Validate imported profile data. `errors` lists error messages;
+   * `issues` carries every error and warning with its profile path.
    */
-  validateProfile(profile: LinkedInProfile): { valid: boolean; errors: string[] } {
-    const errors: string[] = [];
-
-    if (!profile.personal.name) {
-      errors.push('Name is required');
-    }
-
-    if (!profile.personal.headline) {
-      errors.push('Professional headline is required');
-    }
-
-    if (profile.experience.length === 0) {
-      errors.push('At least one work experience entry is required');
-    }
-
-    // Validate experience entries
-    profile.experience.forEach((exp, index) => {
-      if (!exp.company || !exp.title) {
-        errors.push(`Experience entry ${index + 1} is missing company or title`);
-      }
-    });
+  validateProfile(
+    profile: LinkedInProfile,
+    options?: ValidationOptions
+  ): { valid: boolean; errors: string[]; issues: ValidationIssue[] } {
+    const { valid, issues } = validateLinkedInProfile(profile, options);
 
     return {
-      valid: errors.length === 0,
-      errors,
+      valid,
+      errors: issues.filter(issue => issue.severity === 'error').map(issue => issue.message),
+      issues,
     };
   }
 
@@ -517,29 +944,16 @@ export class LinkedInImportService {
    * Clean and optimize profile data for portfolio generation
    */
   optimizeForPortfolio(profile: LinkedInProfile): LinkedInProfile {
-    return {
-      ...profile,
-      personal: {
-        ...profile.personal,
-        summary: this.optimizeSummary(profile.personal.summary),
-      },
-      experience: profile.experience
-        .sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime())
-        .slice(0, 10), // Limit to 10 most recent experiences
-      skills: profile.skills.slice(0, 20), // Limit to top 20 skills
-      projects: profile.projects.slice(0, 6), // Limit to 6 featured projects
-    };
+    return selectHighlights(profile, PORTFOLIO_LIMITS);
   }
+}
 
-  private optimizeSummary(summary: string): string {
-    if (!summary) return '';
-    
-    // Remove excessive whitespace and format for web display
-    return summary
-      .replace(/\s+/g, ' ')
-      .replace(/\n\s*\n/g, '\n\n')
-      .trim();
-  }
+function toBytes(data: Uint8Array | ArrayBuffer): Uint8Array {
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
+
+function toText(data: string | Uint8Array | ArrayBuffer): string {
+  return typeof data === 'string' ? data : new TextDecoder().decode(data);
 }
 
 // Export factory function
@@ -0,0 +1,387 @@
+/**
+ * JSON Resume Import & Export
+ * Maps between the open JSON Resume schema (jsonresume.org, v1.0.0)
+ * and LinkedInProfile
+ */
+
+import { assignEntryIds } from './ids';
+import type { Language, LinkedInProfile } from './import';
+import { normalizeProficiency, parseLinkedInDate } from './normalize';
+import { warnUnknownKeys, type ParseReportBuilder } from './report';
+
+export const JSON_RESUME_SCHEMA_URL = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+export interface JSONResumeLocation {
+  address?: string;
+  postalCode?: string;
+  city?: string;
+  countryCode?: string;
+  region?: string;
+}
+
+export interface JSONResumeProfile {
+  network?: string;
+  username?: string;
+  url?: string;
+}
+
+export interface JSONResume {
+  $schema?: string;
+  basics?: {
+    name?: string;
+    label?: string;
+    image?: string;
+    email?: string;
+    phone?: string;
+    url?: string;
+    summary?: string;
+    location?: JSONResumeLocation;
+    profiles?: JSONResumeProfile[];
+  };
+  work?: {
+    name?: string;
+    location?: string;
+    description?: string;
+    position?: string;
+    url?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+    highlights?: string[];
+  }[];
+  volunteer?: {
+    organization?: string;
+    position?: string;
+    url?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+    highlights?: string[];
+  }[];
+  education?: {
+    institution?: string;
+    url?: string;
+    area?: string;
+    studyType?: string;
+    startDate?: string;
+    endDate?: string;
+    score?: string;
+    courses?: string[];
+  }[];
+  certificates?: {
+    name?: string;
+    date?: string;
+    url?: string;
+    issuer?: string;
+  }[];
+  skills?: {
+    name?: string;
+    level?: string;
+    keywords?: string[];
+  }[];
+  languages?: {
+    language?: string;
+    fluency?: string;
+  }[];
+  projects?: {
+    name?: string;
+    description?: string;
+    highlights?: string[];
+    keywords?: string[];
+    startDate?: string;
+    endDate?: string;
+    url?: string;
+    roles?: string[];
+    entity?: string;
+    type?: string;
+  }[];
+  meta?: Record<string, unknown>;
+}
+
+// Labels LinkedIn uses, so exported fluency maps back to the same proficiency
+const FLUENCY_LABELS: Record<Language['proficiency'], string> = {
+  elementary: 'Elementary proficiency',
+  limited: 'Limited working proficiency',
+  professional: 'Professional working proficiency',
+  full: 'Full professional proficiency',
+  native: 'Native or bilingual proficiency',
+};
+
+const RESUME_SECTIONS = [
+  'basics', 'work', 'volunteer', 'education', 'certificates',
+  'skills', 'languages', 'projects',
+] as const;
+
+// Schema sections with no LinkedInProfile equivalent
+const UNSUPPORTED_SECTIONS = ['awards', 'publications', 'interests', 'references'];
+
+// basics fields and the profile fields they map to
+const BASICS_FIELDS: [keyof NonNullable<JSONResume['basics']>, string][] = [
+  ['name', 'personal.name'],
+  ['label', 'personal.headline'],
+  ['location', 'personal.location'],
+  ['summary', 'personal.summary'],
+  ['image', 'personal.profileImage'],
+  ['email', 'contact.email'],
+  ['phone', 'contact.phone'],
+  ['url', 'contact.website'],
+];
+
+// Resume sections and the profile sections they map to
+const SECTION_MAP: [keyof JSONResume, string][] = [
+  ['work', 'experience'],
+  ['education', 'education'],
+  ['skills', 'skills'],
+  ['certificates', 'certifications'],
+  ['languages', 'languages'],
+  ['projects', 'projects'],
+  ['volunteer', 'volunteer'],
+];
+
+const ISO_DATE = /^[1-2][0-9]{3}(-[0-1][0-9](-[0-3][0-9])?)?$/;
+
+/**
+ * Map a JSON Resume document into a LinkedInProfile
+ */
+export function fromJSONResume(resume: JSONResume, report?: ParseReportBuilder): LinkedInProfile {
+  if (!resume || typeof resume !== 'object' || !RESUME_SECTIONS.some(section => section in resume)) {
+    throw new Error('Not a JSON Resume document');
+  }
+
+  const basics = resume.basics ?? {};
+  const linkedinProfile = basics.profiles?.find(profile => profile.network?.toLowerCase() === 'linkedin');
+
+  if (report) {
+    recordProvenance(report, resume);
+    if (linkedinProfile) {
+      report.field('contact.linkedin', { source: 'jsonresume:basics.profiles', confidence: 'high' });
+    }
+  }
+
+  return assignEntryIds({
+    personal: {
+      name: basics.name || '',
+      headline: basics.label || '',
+      location: formatLocation(basics.location),
+      summary: basics.summary || '',
+      profileImage: basics.image || undefined,
+    },
+    contact: {
+      email: basics.email || undefined,
+      phone: basics.phone || undefined,
+      website: basics.url || undefined,
+      linkedin: linkedinProfile?.url
+        || (linkedinProfile?.username ? `https://www.linkedin.com/in/${linkedinProfile.username}` : ''),
+    },
+    experience: (resume.work ?? []).map(work => ({
+      id: '',
+      company: work.name || '',
+      title: work.position || '',
+      location: work.location || '',
+      startDate: parseLinkedInDate(work.startDate),
+      endDate: parseLinkedInDate(work.endDate),
+      current: !work.endDate,
+      description: work.summary || '',
+      achievements: work.highlights ?? [],
+      skills: [],
+    })),
+    education: (resume.education ?? []).map(education => ({
+      id: '',
+      institution: education.institution || '',
+      degree: education.studyType || '',
+      field: education.area || '',
+      startDate: parseLinkedInDate(education.startDate),
+      endDate: parseLinkedInDate(education.endDate),
+      gpa: education.score || undefined,
+      activities: [],
+    })),
+    skills: unique((resume.skills ?? []).flatMap(skill => [skill.name, ...(skill.keywords ?? [])])),
+    certifications: (resume.certificates ?? []).map(certificate => ({
+      id: '',
+      name: certificate.name || '',
+      issuer: certificate.issuer || '',
+      issueDate: parseLinkedInDate(certificate.date),
+      credentialUrl: certificate.url || undefined,
+    })),
+    languages: (resume.languages ?? [])
+      .filter(language => language.language)
+      .map(language => ({
+        name: language.language!,
+        proficiency: normalizeProficiency(language.fluency),
+      })),
+    projects: (resume.projects ?? []).map(project => ({
+      id: '',
+      name: project.name || '',
+      description: project.description || '',
+      url: project.url || undefined,
+      startDate: parseLinkedInDate(project.startDate),
+      endDate: parseLinkedInDate(project.endDate),
+      skills: project.keywords ?? [],
+    })),
+    volunteer: (resume.volunteer ?? []).map(volunteer => ({
+      id: '',
+      organization: volunteer.organization || '',
+      role: volunteer.position || '',
+      cause: '',
+      startDate: parseLinkedInDate(volunteer.startDate),
+      endDate: parseLinkedInDate(volunteer.endDate),
+      description: volunteer.summary || '',
+    })),
+  });
+}
+
+/**
+ * Export a LinkedInProfile as a JSON Resume document.
+ * Fields the schema has no place for (employment type, activities,
+ * credential IDs, volunteering causes, ...) are left out.
+ */
+export function toJSONResume(profile: LinkedInProfile): JSONResume {
+  const { personal, contact } = profile;
+
+  return compact({
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: {
+      name: personal.name,
+      label: personal.headline,
+      image: personal.profileImage,
+      email: contact.email,
+      phone: contact.phone,
+      url: contact.website,
+      summary: personal.summary,
+      location: parseLocation(personal.location),
+      profiles: contact.linkedin
+        ? [{ network: 'LinkedIn', username: linkedInUsername(contact.linkedin), url: contact.linkedin }]
+        : [],
+    },
+    work: profile.experience.map(experience => ({
+      name: experience.company,
+      position: experience.title,
+      location: experience.location,
+      startDate: toISODate(experience.startDate),
+      endDate: experience.current ? undefined : toISODate(experience.endDate),
+      summary: experience.description,
+      highlights: experience.achievements,
+    })),
+    volunteer: profile.volunteer.map(volunteer => ({
+      organization: volunteer.organization,
+      position: volunteer.role,
+      startDate: toISODate(volunteer.startDate),
+      endDate: toISODate(volunteer.endDate),
+      summary: volunteer.description,
+    })),
+    education: profile.education.map(education => ({
+      institution: education.institution,
+      area: education.field,
+      studyType: education.degree,
+      startDate: toISODate(education.startDate),
+      endDate: toISODate(education.endDate),
+      score: education.gpa,
+    })),
+    certificates: profile.certifications.map(certification => ({
+      name: certification.name,
+      date: toISODate(certification.issueDate),
+      url: certification.credentialUrl,
+      issuer: certification.issuer,
+    })),
+    skills: profile.skills.map(name => ({ name })),
+    languages: profile.languages.map(language => ({
+      language: language.name,
+      fluency: FLUENCY_LABELS[language.proficiency],
+    })),
+    projects: profile.projects.map(project => ({
+      name: project.name,
+      description: project.description,
+      keywords: project.skills,
+      startDate: toISODate(project.startDate),
+      endDate: toISODate(project.endDate),
+      url: project.url,
+    })),
+  });
+}
+
+function recordProvenance(report: ParseReportBuilder, resume: JSONResume) {
+  const basics = resume.basics ?? {};
+
+  for (const [field, path] of BASICS_FIELDS) {
+    if (basics[field]) {
+      report.field(path, { source: `jsonresume:basics.${field}`, confidence: 'high' });
+    }
+  }
+
+  for (const [section, path] of SECTION_MAP) {
+    if (Array.isArray(resume[section]) && (resume[section] as unknown[]).length > 0) {
+      report.field(path, { source: `jsonresume:${section}`, confidence: 'high' });
+    }
+  }
+
+  for (const section of UNSUPPORTED_SECTIONS) {
+    const value = (resume as Record<string, unknown>)[section];
+    if (Array.isArray(value) && value.length > 0) {
+      report.warn({ code: 'ignored_section', path: section, message: `The "${section}" section is not imported` });
+    }
+  }
+
+  warnUnknownKeys(report, resume, ['$schema', 'meta', ...RESUME_SECTIONS, ...UNSUPPORTED_SECTIONS]);
+}
+
+function formatLocation(location?: JSONResumeLocation): string {
+  if (!location) return '';
+  return [location.city, location.region, location.countryCode].filter(Boolean).join(', ');
+}
+
+/**
+ * "Berlin, Germany" -> { city: "Berlin", region: "Germany" }, the inverse of formatLocation
+ */
+function parseLocation(location: string): JSONResumeLocation | undefined {
+  if (!location) return undefined;
+
+  const commaIndex = location.indexOf(',');
+  if (commaIndex === -1) return { city: location.trim() };
+
+  return {
+    city: location.slice(0, commaIndex).trim(),
+    region: location.slice(commaIndex + 1).trim(),
+  };
+}
+
+function linkedInUsername(url: string): string | undefined {
+  return url.match(/linkedin\.com\/in\/([^/?#]+)/)?.[1];
+}
+
+function toISODate(date?: string): string | undefined {
+  const iso = parseLinkedInDate(date);
+  return ISO_DATE.test(iso) ? iso : undefined;
+}
+
+function unique(values: (string | undefined)[]): string[] {
+  return [...new Set(values.map(value => value?.trim()).filter((value): value is string => !!value))];
+}
+
+/**
+ * Drop empty strings, empty arrays and undefined values so the output only
+ * contains the fields the profile actually has
+ */
+function compact<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(compact).filter(item => !isEmpty(item)) as T;
+  }
+
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      const compacted = compact(entry);
+      if (!isEmpty(compacted)) result[key] = compacted;
+    }
+    return result as T;
+  }
+
+  return value;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined
+    || value === null
+    || value === ''
+    || (Array.isArray(value) && value.length === 0)
+    || (typeof value === 'object' && !Array.isArray(value) && Object.keys(value as object).length === 0);
+}
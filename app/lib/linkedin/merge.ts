@@ -0,0 +1,490 @@
+/**
+ * Profile Merge Service
+ * Diffs a stored profile against a fresh LinkedIn import and three-way merges
+ * them so hand edits made in the builder survive a re-import
+ */
+
+import { isLegacyEntryId, uniqueId } from './ids';
+import type { LinkedInProfile } from './import';
+
+export type EntrySection = 'experience' | 'education' | 'certifications' | 'projects' | 'volunteer' | 'languages';
+
+type SectionEntry = LinkedInProfile[EntrySection][number];
+
+export interface FieldChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface EntryChange<T> {
+  key: string;
+  before: T;
+  after: T;
+  fields: FieldChange[];
+}
+
+export interface SectionDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: EntryChange<T>[];
+}
+
+export interface ProfileDiff {
+  fields: FieldChange[];
+  skills: { added: string[]; removed: string[] };
+  experience: SectionDiff<LinkedInProfile['experience'][number]>;
+  education: SectionDiff<LinkedInProfile['education'][number]>;
+  certifications: SectionDiff<LinkedInProfile['certifications'][number]>;
+  projects: SectionDiff<LinkedInProfile['projects'][number]>;
+  volunteer: SectionDiff<LinkedInProfile['volunteer'][number]>;
+  languages: SectionDiff<LinkedInProfile['languages'][number]>;
+  hasChanges: boolean;
+}
+
+export interface MergeConflict {
+  id: string;
+  path: string;
+  // both-modified: user and LinkedIn changed the same field differently
+  // modified-deleted: user edited an entry that was removed on LinkedIn
+  // deleted-modified: user removed an entry that changed on LinkedIn
+  kind: 'both-modified' | 'modified-deleted' | 'deleted-modified';
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+  location: { section: 'personal' | 'contact' | EntrySection; index?: number; field?: string };
+}
+
+export interface MergeResult {
+  // Merged profile; conflicting fields keep the user's (local) value
+  profile: LinkedInProfile;
+  conflicts: MergeConflict[];
+  applied: FieldChange[];
+}
+
+export type ConflictResolution = 'local' | 'remote' | { value: unknown };
+
+export interface ThreeWayMergeInput {
+  // Profile as produced by the previous import
+  base: LinkedInProfile;
+  // Stored profile including the user's edits
+  local: LinkedInProfile;
+  // Fresh import
+  remote: LinkedInProfile;
+}
+
+const ENTRY_SECTIONS: EntrySection[] = ['experience', 'education', 'certifications', 'projects', 'volunteer', 'languages'];
+
+// Fields that identify the same entry across imports
+const ENTRY_KEYS: Record<EntrySection, string[]> = {
+  experience: ['company', 'title'],
+  education: ['institution', 'degree'],
+  certifications: ['name', 'issuer'],
+  projects: ['name'],
+  volunteer: ['organization', 'role'],
+  languages: ['name'],
+};
+
+export class ProfileMergeService {
+  /**
+   * Compute a structured diff between two versions of a profile
+   */
+  diff(before: LinkedInProfile, after: LinkedInProfile): ProfileDiff {
+    const fields = [
+      ...diffFields('personal', before.personal, after.personal),
+      ...diffFields('contact', before.contact, after.contact),
+    ];
+
+    const beforeSkills = new Set(before.skills.map(normalizeKey));
+    const afterSkills = new Set(after.skills.map(normalizeKey));
+
+    const diff = {
+      fields,
+      skills: {
+        added: after.skills.filter(skill => !beforeSkills.has(normalizeKey(skill))),
+        removed: before.skills.filter(skill => !afterSkills.has(normalizeKey(skill))),
+      },
+    } as ProfileDiff;
+
+    for (const section of ENTRY_SECTIONS) {
+      (diff as any)[section] = diffSection<SectionEntry>(section, before[section], after[section]);
+    }
+
+    diff.hasChanges = fields.length > 0
+      || diff.skills.added.length > 0
+      || diff.skills.removed.length > 0
+      || ENTRY_SECTIONS.some(section => {
+        const sectionDiff = diff[section];
+        return sectionDiff.added.length + sectionDiff.removed.length + sectionDiff.changed.length > 0;
+      });
+
+    return diff;
+  }
+
+  /**
+   * Three-way merge a fresh import into the stored profile.
+   * Changes made on only one side are applied automatically; fields changed
+   * on both sides are reported as conflicts and keep the user's value.
+   */
+  merge({ base, local, remote }: ThreeWayMergeInput): MergeResult {
+    const conflicts: MergeConflict[] = [];
+    const applied: FieldChange[] = [];
+
+    const profile: LinkedInProfile = {
+      personal: mergeFields('personal', base.personal, local.personal, remote.personal, conflicts, applied),
+      contact: mergeFields('contact', base.contact, local.contact, remote.contact, conflicts, applied),
+      skills: mergeSkills(base.skills, local.skills, remote.skills, applied),
+      experience: [],
+      education: [],
+      certifications: [],
+      projects: [],
+      volunteer: [],
+      languages: [],
+    };
+
+    for (const section of ENTRY_SECTIONS) {
+      (profile as any)[section] = mergeSection<SectionEntry>(section, base[section], local[section], remote[section], conflicts, applied);
+    }
+
+    return { profile, conflicts, applied };
+  }
+
+  /**
+   * Apply the user's choices for merge conflicts. Unresolved conflicts keep
+   * the local value.
+   */
+  resolve(result: MergeResult, resolutions: Record<string, ConflictResolution>): LinkedInProfile {
+    const profile = clone(result.profile);
+    const removals: { section: EntrySection; index: number }[] = [];
+    const additions: { section: EntrySection; entry: SectionEntry }[] = [];
+
+    for (const conflict of result.conflicts) {
+      const resolution = resolutions[conflict.id];
+      if (!resolution || resolution === 'local') continue;
+
+      const value = resolution === 'remote' ? conflict.remote : resolution.value;
+      const { section, index, field } = conflict.location;
+
+      if (conflict.kind === 'modified-deleted') {
+        if (resolution === 'remote') {
+          removals.push({ section: section as EntrySection, index: index! });
+        } else {
+          (profile[section as EntrySection] as SectionEntry[])[index!] = clone(value) as SectionEntry;
+        }
+      } else if (conflict.kind === 'deleted-modified') {
+        if (value) additions.push({ section: section as EntrySection, entry: clone(value) as SectionEntry });
+      } else if (section === 'personal' || section === 'contact') {
+        (profile[section] as Record<string, unknown>)[field!] = clone(value);
+      } else {
+        const entry = (profile[section] as SectionEntry[])[index!] as unknown as Record<string, unknown>;
+        entry[field!] = clone(value);
+      }
+    }
+
+    // Remove from the end so earlier indexes stay valid
+    removals
+      .sort((a, b) => b.index - a.index)
+      .forEach(({ section, index }) => (profile[section] as SectionEntry[]).splice(index, 1));
+
+    for (const { section, entry } of additions) {
+      const entries = profile[section] as SectionEntry[];
+      entries.push(withUniqueId(entry, entries));
+    }
+
+    return profile;
+  }
+}
+
+function diffFields(prefix: string, before: Record<string, any>, after: Record<string, any>): FieldChange[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: FieldChange[] = [];
+
+  for (const key of keys) {
+    if (key === 'id') continue;
+    if (!isEqual(before[key], after[key])) {
+      changes.push({ path: `${prefix}.${key}`, before: before[key], after: after[key] });
+    }
+  }
+
+  return changes;
+}
+
+function diffSection<T extends SectionEntry>(section: EntrySection, before: T[], after: T[]): SectionDiff<T> {
+  const [beforeByKey, afterByKey] = keySections(section, before, after);
+  const diff: SectionDiff<T> = { added: [], removed: [], changed: [] };
+
+  for (const [key, entry] of afterByKey) {
+    const previous = beforeByKey.get(key);
+    if (!previous) {
+      diff.added.push(entry);
+      continue;
+    }
+
+    const fields = diffFields(`${section}[${key}]`, previous, entry);
+    if (fields.length > 0) {
+      diff.changed.push({ key, before: previous, after: entry, fields });
+    }
+  }
+
+  for (const [key, entry] of beforeByKey) {
+    if (!afterByKey.has(key)) diff.removed.push(entry);
+  }
+
+  return diff;
+}
+
+function mergeFields<T extends Record<string, any>>(
+  prefix: 'personal' | 'contact' | EntrySection,
+  base: T,
+  local: T,
+  remote: T,
+  conflicts: MergeConflict[],
+  applied: FieldChange[],
+  pathPrefix: string = prefix,
+  index?: number
+): T {
+  const merged: Record<string, unknown> = { ...local };
+  const keys = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]);
+
+  for (const key of keys) {
+    if (key === 'id') continue;
+
+    const path = `${pathPrefix}.${key}`;
+    const localChanged = !isEqual(base[key], local[key]);
+    const remoteChanged = !isEqual(base[key], remote[key]);
+
+    if (!remoteChanged || isEqual(local[key], remote[key])) continue;
+
+    if (!localChanged) {
+      merged[key] = clone(remote[key]);
+      applied.push({ path, before: local[key], after: remote[key] });
+    } else {
+      conflicts.push({
+        id: path,
+        path,
+        kind: 'both-modified',
+        base: base[key],
+        local: local[key],
+        remote: remote[key],
+        location: { section: prefix, index, field: key },
+      });
+    }
+  }
+
+  return merged as T;
+}
+
+/**
+ * Skills merge as a set: keep the user's list and order, add skills new on
+ * LinkedIn and drop skills removed from LinkedIn
+ */
+function mergeSkills(base: string[], local: string[], remote: string[], applied: FieldChange[]): string[] {
+  const baseKeys = new Set(base.map(normalizeKey));
+  const remoteKeys = new Set(remote.map(normalizeKey));
+  const removed = new Set(base.map(normalizeKey).filter(skill => !remoteKeys.has(skill)));
+
+  const merged = local.filter(skill => !removed.has(normalizeKey(skill)));
+  const mergedKeys = new Set(merged.map(normalizeKey));
+
+  for (const skill of remote) {
+    const key = normalizeKey(skill);
+    if (!baseKeys.has(key) && !mergedKeys.has(key)) {
+      merged.push(skill);
+      mergedKeys.add(key);
+    }
+  }
+
+  if (!isEqual(merged, local)) {
+    applied.push({ path: 'skills', before: local, after: merged });
+  }
+
+  return merged;
+}
+
+function mergeSection<T extends SectionEntry>(
+  section: EntrySection,
+  base: T[],
+  local: T[],
+  remote: T[],
+  conflicts: MergeConflict[],
+  applied: FieldChange[]
+): T[] {
+  const [baseByKey, localByKey, remoteByKey] = keySections(section, base, local, remote);
+  const merged: T[] = [];
+
+  // Entries in LinkedIn order, then the user's own additions
+  for (const [key, remoteEntry] of remoteByKey) {
+    const baseEntry = baseByKey.get(key);
+    const localEntry = localByKey.get(key);
+    const path = `${section}[${key}]`;
+
+    if (!localEntry) {
+      if (!baseEntry) {
+        // New on LinkedIn
+        merged.push(withUniqueId(clone(remoteEntry), [...local, ...merged]));
+        applied.push({ path, before: undefined, after: remoteEntry });
+      } else if (!isEqual(withoutId(baseEntry), withoutId(remoteEntry))) {
+        // Removed by the user but changed on LinkedIn
+        conflicts.push({
+          id: path,
+          path,
+          kind: 'deleted-modified',
+          base: baseEntry,
+          local: undefined,
+          remote: remoteEntry,
+          location: { section },
+        });
+      }
+      continue;
+    }
+
+    // An entry added on both sides is merged with an empty base
+    const entryBase = baseEntry ?? ({} as T);
+    merged.push(mergeFields(section, entryBase as any, localEntry as any, remoteEntry as any, conflicts, applied, path, merged.length));
+  }
+
+  for (const [key, localEntry] of localByKey) {
+    if (remoteByKey.has(key)) continue;
+
+    const baseEntry = baseByKey.get(key);
+    const path = `${section}[${key}]`;
+
+    if (!baseEntry) {
+      // Added by the user
+      merged.push(localEntry);
+    } else if (!isEqual(withoutId(baseEntry), withoutId(localEntry))) {
+      // Removed on LinkedIn but edited by the user: keep it until resolved
+      conflicts.push({
+        id: path,
+        path,
+        kind: 'modified-deleted',
+        base: baseEntry,
+        local: localEntry,
+        remote: undefined,
+        location: { section, index: merged.length },
+      });
+      merged.push(localEntry);
+    } else {
+      applied.push({ path, before: localEntry, after: undefined });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Key each version of a section so the same entry gets the same key in all
+ * of them. An entry takes the key of an entry in an earlier version with the
+ * same id, so a retitled entry still lines up; entries without a matching id
+ * fall back to their identifying fields. New keys are the identifying
+ * fields, with "#2", "#3" for repeats.
+ */
+function keySections<T extends SectionEntry>(section: EntrySection, ...versions: T[][]): Map<string, T>[] {
+  const keysById = new Map<string, string>();
+  const keysByFields = new Map<string, string[]>();
+  const used = new Set<string>();
+
+  return versions.map(entries => {
+    const keys = new Map<T, string>();
+    const taken = new Set<string>();
+    const take = (entry: T, key: string) => {
+      keys.set(entry, key);
+      taken.add(key);
+    };
+
+    for (const entry of entries) {
+      const key = entryIdOf(entry) && keysById.get(entryIdOf(entry)!);
+      if (key && !taken.has(key)) take(entry, key);
+    }
+
+    for (const entry of entries) {
+      if (keys.has(entry)) continue;
+      const fields = naturalKey(section, entry);
+      const earlier = (keysByFields.get(fields) ?? []).find(key => !taken.has(key));
+      if (earlier) {
+        take(entry, earlier);
+        continue;
+      }
+
+      let unique = fields;
+      for (let occurrence = 2; used.has(unique) || taken.has(unique); occurrence++) {
+        unique = `${fields}#${occurrence}`;
+      }
+      take(entry, unique);
+    }
+
+    const keyed = new Map<string, T>();
+    for (const entry of entries) {
+      const key = keys.get(entry)!;
+      keyed.set(key, entry);
+      used.add(key);
+
+      const id = entryIdOf(entry);
+      if (id && !keysById.has(id)) keysById.set(id, key);
+      const fields = naturalKey(section, entry);
+      const known = keysByFields.get(fields) ?? [];
+      if (!known.includes(key)) keysByFields.set(fields, [...known, key]);
+    }
+    return keyed;
+  });
+}
+
+// The identifying fields of an entry, normalised and joined
+function naturalKey(section: EntrySection, entry: SectionEntry): string {
+  return ENTRY_KEYS[section]
+    .map(field => normalizeKey(String((entry as unknown as Record<string, unknown>)[field] ?? '')))
+    .join('|');
+}
+
+// Stable ids only: index-based ones ("exp_0") point at whatever is in that position
+function entryIdOf(entry: SectionEntry): string | undefined {
+  const id = (entry as { id?: string }).id;
+  return id && !isLegacyEntryId(id) ? id : undefined;
+}
+
+/**
+ * Give an entry coming from the import an id not already used by the user's entries
+ */
+function withUniqueId<T extends SectionEntry>(entry: T, existing: SectionEntry[]): T {
+  const id = (entry as { id?: string }).id;
+  if (!id) return entry;
+
+  const used = new Set(existing.map(item => (item as { id?: string }).id ?? ''));
+  return used.has(id) ? { ...entry, id: uniqueId(id, used) } : entry;
+}
+
+function withoutId(entry: SectionEntry): Record<string, unknown> {
+  const { id: _id, ...rest } = entry as unknown as Record<string, unknown>;
+  return rest;
+}
+
+function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalizeEmpty(a)) === JSON.stringify(normalizeEmpty(b));
+}
+
+// Treat undefined and '' alike so optional fields do not show as changes
+function normalizeEmpty(value: unknown): unknown {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(normalizeEmpty);
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, entry]) => entry !== undefined && entry !== '')
+        .sort(([a], [b]) => a.localeCompare(b))
+    );
+  }
+  return value;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// Factory function
+export function createProfileMergeService(): ProfileMergeService {
+  return new ProfileMergeService();
+}
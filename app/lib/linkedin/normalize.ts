@@ -0,0 +1,78 @@
+/**
+ * LinkedIn Field Normalization
+ * Shared helpers for turning LinkedIn's display strings into profile values
+ */
+
+import { formatPartialDate, isPresent, parseDuration, parsePartialDate, PRESENT } from './dates';
+import type { Language } from './import';
+
+/**
+ * Convert a LinkedIn date string ("Jan 2020", "März 2020", "2019",
+ * "Mar 15, 2021") into an ISO 8601 partial date ("2020-01", "2020-03",
+ * "2019", "2021-03-15"). "Present" becomes ''. Unrecognised values are
+ * returned trimmed so no data is lost.
+ */
+export function parseLinkedInDate(value: unknown): string {
+  const date = parsePartialDate(value);
+  if (date === PRESENT) return '';
+  if (date) return formatPartialDate(date);
+
+  return value === null || value === undefined || typeof value === 'object' ? '' : String(value).trim();
+}
+
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+  current: boolean;
+  // As shown by LinkedIn, e.g. "3 yrs 2 mos"
+  duration?: string;
+  durationMonths?: number;
+}
+
+/**
+ * Parse a LinkedIn date range line such as "Jan 2020 - Present · 3 yrs 2 mos",
+ * "January 2020 - Present (3 years 2 months)" or "2012 – 2016".
+ * Returns null when the line is not a date range.
+ */
+export function parseDateRange(line: string): DateRange | null {
+  const [dates, ...rest] = line.split(/\s+·\s+/);
+  // LinkedIn's PDF puts the duration in parentheses instead
+  const [, range, parenthesised] = dates.match(/^(.*?)\s*(?:\(([^)]*)\))?\s*$/)!;
+  if (parenthesised) rest.unshift(parenthesised);
+  const match = range.trim().match(/^(.+?)(?:\s+-\s+|\s*[–—]\s*)(.+)$/) ?? range.trim().match(/^(\d{4})-(\d{4})$/);
+  if (!match || !isDateToken(match[1]) || !isDateToken(match[2])) return null;
+
+  const current = isPresent(match[2]);
+  const duration = rest.join(' · ').trim();
+  const durationMonths = duration ? parseDuration(duration) : null;
+
+  return {
+    startDate: parseLinkedInDate(match[1]),
+    endDate: current ? '' : parseLinkedInDate(match[2]),
+    current,
+    ...(duration ? { duration } : {}),
+    ...(durationMonths !== null ? { durationMonths } : {}),
+  };
+}
+
+/**
+ * Check whether a string is a single date or "Present"
+ */
+export function isDateToken(value: string): boolean {
+  return parsePartialDate(value) !== null;
+}
+
+/**
+ * Map LinkedIn proficiency labels ("Native or bilingual proficiency") and
+ * common fluency words ("Fluent", "Beginner") to Language['proficiency']
+ */
+export function normalizeProficiency(value: unknown): Language['proficiency'] {
+  const text = String(value ?? '').toLowerCase();
+
+  if (text.includes('native') || text.includes('bilingual')) return 'native';
+  if (text.includes('full') || text.includes('fluent')) return 'full';
+  if (text.includes('limited') || text.includes('intermediate')) return 'limited';
+  if (text.includes('elementary') || text.includes('beginner') || text.includes('basic')) return 'elementary';
+
+  return 'professional';
+}
@@ -0,0 +1,251 @@
+/**
+ * LinkedIn PDF Reader
+ * Extracts the text of a LinkedIn "Save to PDF" profile in reading order and
+ * rearranges it into the layout the text parser understands
+ */
+
+import { getDocumentProxy } from 'unpdf';
+import { parseDateRange } from './normalize';
+
+// Largest PDF we are willing to parse; LinkedIn profiles are far smaller
+const MAX_PDF_BYTES = 5 * 1024 * 1024;
+const MAX_PDF_PAGES = 20;
+
+// Narrowest empty vertical strip treated as the gutter between the sidebar
+// and the main column
+const MIN_GUTTER_WIDTH = 12;
+
+// The sidebar never extends past this share of the page width
+const MAX_SIDEBAR_SHARE = 0.45;
+
+// Baseline gaps wider than this many font sizes separate entries
+const ENTRY_GAP = 1.6;
+
+const PAGE_FOOTER = /^page \d+ of \d+$/i;
+
+// Headings of the sidebar and main column in LinkedIn's PDF
+const PDF_HEADINGS = [
+  'contact', 'top skills', 'languages', 'certifications', 'honors-awards',
+  'publications', 'patents', 'summary', 'experience', 'education',
+];
+
+// "www.linkedin.com/in/jane (LinkedIn)", "jane.dev (Personal)"
+const CONTACT_LINK = /^(\S+\.\S+)\s+\((linkedin|personal|company|portfolio|blog|other|rss feed)\)$/i;
+
+// "Master of Science - MS, Computer Science · (2014 - 2016)"
+const INLINE_DATES = /^(.*?)\s*·\s*\((.+)\)$/;
+
+interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  size: number;
+}
+
+/**
+ * Extract profile text from a LinkedIn PDF. The main column comes first so
+ * the name and headline lead the text, followed by the sidebar sections.
+ */
+export async function readLinkedInPDF(data: Uint8Array): Promise<string> {
+  if (data.byteLength > MAX_PDF_BYTES) {
+    throw new Error(`PDF exceeds the ${MAX_PDF_BYTES / 1024 / 1024}MB limit`);
+  }
+  if (!latin1(data.subarray(0, 1024)).includes('%PDF-')) {
+    throw new Error('Not a PDF file');
+  }
+  if (isEncrypted(data)) {
+    throw new Error('Encrypted PDFs are not supported');
+  }
+
+  let pdf: Awaited<ReturnType<typeof getDocumentProxy>>;
+  try {
+    // pdf.js takes ownership of the buffer, so hand it a copy
+    pdf = await getDocumentProxy(data.slice());
+  } catch (error) {
+    if ((error as Error).name === 'PasswordException') {
+      throw new Error('Encrypted PDFs are not supported');
+    }
+    throw new Error(`Invalid PDF: ${(error as Error).message}`);
+  }
+
+  try {
+    if (pdf.numPages > MAX_PDF_PAGES) {
+      throw new Error(`PDF has ${pdf.numPages} pages; at most ${MAX_PDF_PAGES} are supported`);
+    }
+
+    const main: string[] = [];
+    const sidebar: string[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const { width } = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+
+      const items: PositionedText[] = [];
+      for (const item of content.items) {
+        if (!('str' in item) || !item.str.trim()) continue;
+        const [, , c, d, x, y] = item.transform;
+        items.push({ text: item.str, x, y, width: item.width, size: Math.hypot(c, d) || item.height });
+      }
+
+      const gutter = findGutter(items, width);
+      if (gutter === undefined) {
+        main.push(...toLines(items));
+      } else {
+        sidebar.push(...toLines(items.filter(item => item.x < gutter)));
+        main.push(...toLines(items.filter(item => item.x >= gutter)));
+      }
+    }
+
+    return [...rearrange(main), '', ...rearrange(sidebar)].join('\n').trim();
+  } finally {
+    await pdf.loadingTask.destroy();
+  }
+}
+
+/**
+ * Find the x position where the main column starts, if the page has a
+ * sidebar: the first empty vertical strip left of MAX_SIDEBAR_SHARE
+ */
+function findGutter(items: PositionedText[], pageWidth: number): number | undefined {
+  const spans = items
+    .map(item => ({ start: item.x, end: item.x + item.width }))
+    .sort((a, b) => a.start - b.start);
+
+  let reach = spans[0]?.end ?? 0;
+  for (let i = 1; i < spans.length; i++) {
+    const { start, end } = spans[i];
+    if (reach > pageWidth * MAX_SIDEBAR_SHARE) return undefined;
+    // A single stray item on the left is not a sidebar
+    if (start - reach >= MIN_GUTTER_WIDTH && i >= 2) return start;
+    reach = Math.max(reach, end);
+  }
+  return undefined;
+}
+
+/**
+ * Group items into lines top to bottom, inserting a blank line wherever the
+ * vertical gap marks the start of a new entry
+ */
+function toLines(items: PositionedText[]): string[] {
+  const rows: { items: PositionedText[]; y: number; size: number }[] = [];
+
+  for (const item of [...items].sort((a, b) => b.y - a.y || a.x - b.x)) {
+    const row = rows.find(candidate => Math.abs(candidate.y - item.y) <= Math.max(candidate.size, item.size) * 0.5);
+    if (row) {
+      row.items.push(item);
+      row.size = Math.max(row.size, item.size);
+    } else {
+      rows.push({ items: [item], y: item.y, size: item.size });
+    }
+  }
+
+  const lines: string[] = [];
+  let previous: (typeof rows)[number] | undefined;
+
+  for (const row of rows.sort((a, b) => b.y - a.y)) {
+    const text = joinRow(row.items);
+    if (!text || PAGE_FOOTER.test(text)) continue;
+
+    if (previous && previous.y - row.y > ENTRY_GAP * Math.max(previous.size, row.size)) {
+      lines.push('');
+    }
+    lines.push(text);
+    previous = row;
+  }
+
+  return lines;
+}
+
+function joinRow(items: PositionedText[]): string {
+  let text = '';
+  let end = -Infinity;
+
+  for (const item of items.sort((a, b) => a.x - b.x)) {
+    // pdf.js splits lines into runs; only real gaps become spaces
+    if (text && item.x - end > item.size * 0.15 && !text.endsWith(' ') && !item.text.startsWith(' ')) {
+      text += ' ';
+    }
+    text += item.text;
+    end = item.x + item.width;
+  }
+
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Rewrite the PDF layout into the one LinkedIn uses on the web page:
+ * title before company, dates on their own line, links as URLs
+ */
+function rearrange(lines: string[]): string[] {
+  const output: string[] = [];
+  let section = '';
+  let block: string[] = [];
+
+  const flush = () => {
+    if (block.length === 0) return;
+
+    if (section === 'experience') {
+      const dateIndex = block.findIndex(line => parseDateRange(line) !== null);
+      if (dateIndex === 1 && output.length > 0 && output[output.length - 1] === '') {
+        // Further role at the company above: keep it in the same block
+        output.pop();
+      } else if (dateIndex === 2 && !isTenureLine(block[1])) {
+        // "Company" / "Title" -> "Title" / "Company"
+        [block[0], block[1]] = [block[1], block[0]];
+      }
+    }
+
+    if (section === 'certifications') {
+      // The sidebar lists names only, one per line
+      output.push(...block.flatMap(line => [line, '']));
+    } else {
+      output.push(...block, '');
+    }
+    block = [];
+  };
+
+  for (const line of lines) {
+    const heading = line.toLowerCase();
+
+    if (!line) {
+      flush();
+    } else if (PDF_HEADINGS.includes(heading)) {
+      flush();
+      section = heading;
+      output.push(line);
+    } else if (section === 'contact' && CONTACT_LINK.test(line)) {
+      const [, url] = line.match(CONTACT_LINK)!;
+      block.push(/^https?:\/\//i.test(url) ? url : `https://${url}`);
+    } else if (section === 'education' && INLINE_DATES.test(line)) {
+      const [, degree, dates] = line.match(INLINE_DATES)!;
+      block.push(...[degree, dates].filter(Boolean));
+    } else {
+      block.push(line);
+    }
+  }
+  flush();
+
+  return output;
+}
+
+function isTenureLine(line: string): boolean {
+  return /^(\d+\s*(years?|yrs?|months?|mos?)\s*)+$/i.test(line);
+}
+
+/**
+ * Encrypted files declare an /Encrypt entry in their trailer or xref stream
+ * dictionary, which is never compressed
+ */
+function isEncrypted(data: Uint8Array): boolean {
+  return /\/Encrypt\s*\d+\s+\d+\s+R|\/Encrypt\s*<</.test(latin1(data));
+}
+
+function latin1(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+}
@@ -0,0 +1,127 @@
+/**
+ * Parse Report
+ * Records where each imported value came from, how confident the parser is
+ * about it, and anything the user should double-check
+ */
+
+import { isIsoPartialDate } from './dates';
+import type { LinkedInProfile, ProfileImportFormat } from './import';
+
+export type Confidence = 'high' | 'medium' | 'low';
+
+export interface FieldProvenance {
+  // Source field or location, e.g. "json:fullName", "Profile.csv:Headline", "text"
+  source: string;
+  // 1-based line in the source text, when known
+  line?: number;
+  confidence: Confidence;
+}
+
+export type ParseWarningCode =
+  | 'unparseable_date'
+  | 'ignored_section'
+  | 'unknown_key'
+  | 'missing_field'
+  | 'missing_file';
+
+export interface ParseWarning {
+  code: ParseWarningCode;
+  message: string;
+  path?: string;
+  line?: number;
+}
+
+export interface ParseReport {
+  format: ProfileImportFormat;
+  // Keyed by profile path, e.g. "personal.name" or "experience[0]"
+  fields: Record<string, FieldProvenance>;
+  warnings: ParseWarning[];
+  // Line of each recognised section heading (text formats only)
+  sections: Record<string, number>;
+}
+
+export interface ParseResult {
+  profile: LinkedInProfile;
+  report: ParseReport;
+}
+
+const DATE_FIELDS = ['startDate', 'endDate', 'issueDate', 'expiryDate'];
+
+const ENTRY_SECTIONS = ['experience', 'education', 'certifications', 'projects', 'volunteer'] as const;
+
+export class ParseReportBuilder {
+  private report: ParseReport;
+
+  constructor(format: ProfileImportFormat) {
+    this.report = { format, fields: {}, warnings: [], sections: {} };
+  }
+
+  /**
+   * Record where a value came from. The first (most specific) source wins.
+   */
+  field(path: string, provenance: FieldProvenance) {
+    if (!this.report.fields[path]) {
+      this.report.fields[path] = provenance;
+    }
+  }
+
+  warn(warning: ParseWarning) {
+    this.report.warnings.push(warning);
+  }
+
+  section(name: string, line: number) {
+    this.report.sections[name] = line;
+  }
+
+  sectionLine(name: string): number | undefined {
+    return this.report.sections[name];
+  }
+
+  /**
+   * Finish the report, adding checks that apply to every format
+   */
+  build(profile: LinkedInProfile): ParseReport {
+    if (!profile.personal.name) {
+      this.warn({ code: 'missing_field', path: 'personal.name', message: 'No name was found' });
+    }
+    if (!profile.personal.headline) {
+      this.warn({ code: 'missing_field', path: 'personal.headline', message: 'No headline was found' });
+    }
+
+    for (const section of ENTRY_SECTIONS) {
+      profile[section].forEach((entry, index) => {
+        for (const field of DATE_FIELDS) {
+          const value = (entry as unknown as Record<string, unknown>)[field];
+          if (typeof value === 'string' && value && !isIsoPartialDate(value)) {
+            const path = `${section}[${index}].${field}`;
+            this.warn({
+              code: 'unparseable_date',
+              path,
+              line: this.report.fields[`${section}[${index}]`]?.line,
+              message: `Could not understand the date "${value}"`,
+            });
+          }
+        }
+      });
+    }
+
+    return this.report;
+  }
+}
+
+/**
+ * Warn about top-level keys the importer does not read
+ */
+export function warnUnknownKeys(report: ParseReportBuilder, data: unknown, knownKeys: string[], prefix = '') {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return;
+
+  for (const key of Object.keys(data)) {
+    if (!knownKeys.includes(key)) {
+      report.warn({
+        code: 'unknown_key',
+        path: `${prefix}${key}`,
+        message: `Ignored unknown field "${prefix}${key}"`,
+      });
+    }
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Profile Validation
+ * Path-addressed checks for LinkedInProfile so forms can attach each issue
+ * to the field it belongs to
+ */
+
+import { isIsoPartialDate } from './dates';
+import type { Language, LinkedInProfile } from './import';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationCode =
+  | 'required'
+  | 'invalid_date'
+  | 'date_order'
+  | 'current_with_end_date'
+  | 'invalid_email'
+  | 'invalid_url'
+  | 'duplicate_entry'
+  | 'invalid_proficiency'
+  | 'certification_expired';
+
+export interface ValidationIssue {
+  // Profile path, e.g. "experience[0].endDate"
+  path: string;
+  severity: ValidationSeverity;
+  code: ValidationCode;
+  message: string;
+}
+
+export interface ValidationResult {
+  // True when there are no error-severity issues
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+export interface ValidationOptions {
+  // Reference date for expiry checks (defaults to today)
+  now?: Date;
+}
+
+const PROFICIENCIES: Language['proficiency'][] = ['elementary', 'limited', 'professional', 'full', 'native'];
+
+const EMAIL_PATTERN = /^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$/;
+
+/**
+ * Validate a profile and return every issue found
+ */
+export function validateLinkedInProfile(profile: LinkedInProfile, options: ValidationOptions = {}): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const today = (options.now ?? new Date()).toISOString().split('T')[0];
+
+  const issue = (path: string, code: ValidationCode, message: string, severity: ValidationSeverity = 'error') => {
+    issues.push({ path, severity, code, message });
+  };
+
+  const required = (path: string, value: string | undefined, message: string) => {
+    if (!value?.trim()) issue(path, 'required', message);
+  };
+
+  const checkDates = (path: string, start?: string, end?: string, startField = 'startDate', endField = 'endDate') => {
+    for (const [field, value] of [[startField, start], [endField, end]] as const) {
+      if (value && !isIsoPartialDate(value)) {
+        issue(`${path}.${field}`, 'invalid_date', `"${value}" is not a valid date`);
+      }
+    }
+    if (start && end && isIsoPartialDate(start) && isIsoPartialDate(end) && compareDates(end, start) < 0) {
+      issue(`${path}.${endField}`, 'date_order', 'End date is before the start date');
+    }
+  };
+
+  const checkUrl = (path: string, value: string | undefined) => {
+    if (!value) return;
+    const result = checkURL(value);
+    if (result === 'invalid') {
+      issue(path, 'invalid_url', `"${value}" is not a valid URL`);
+    } else if (result === 'no-scheme') {
+      issue(path, 'invalid_url', 'URL should start with https://', 'warning');
+    }
+  };
+
+  const checkDuplicates = <T>(section: string, entries: T[], key: (entry: T) => string, label: string) => {
+    const seen = new Map<string, number>();
+    entries.forEach((entry, index) => {
+      const value = key(entry);
+      if (!value.replace(/\|/g, '')) return;
+      if (seen.has(value)) {
+        issue(`${section}[${index}]`, 'duplicate_entry', `Duplicate of ${label} ${seen.get(value)! + 1}`, 'warning');
+      } else {
+        seen.set(value, index);
+      }
+    });
+  };
+
+  // Personal & contact
+  required('personal.name', profile.personal.name, 'Name is required');
+  required('personal.headline', profile.personal.headline, 'Professional headline is required');
+
+  if (profile.contact.email && !EMAIL_PATTERN.test(profile.contact.email.trim())) {
+    issue('contact.email', 'invalid_email', `"${profile.contact.email}" is not a valid email address`);
+  }
+  checkUrl('contact.website', profile.contact.website);
+  checkUrl('contact.linkedin', profile.contact.linkedin);
+  if (profile.contact.linkedin && checkURL(profile.contact.linkedin) === 'valid' && !/linkedin\.com\//i.test(profile.contact.linkedin)) {
+    issue('contact.linkedin', 'invalid_url', 'LinkedIn URL should point to linkedin.com', 'warning');
+  }
+
+  // Experience
+  if (profile.experience.length === 0) {
+    issue('experience', 'required', 'At least one work experience entry is required');
+  }
+  profile.experience.forEach((exp, index) => {
+    const path = `experience[${index}]`;
+    if (!exp.company || !exp.title) {
+      issue(!exp.company ? `${path}.company` : `${path}.title`, 'required', `Experience entry ${index + 1} is missing company or title`);
+    }
+    checkDates(path, exp.startDate, exp.endDate);
+    if (exp.current && exp.endDate) {
+      issue(`${path}.endDate`, 'current_with_end_date', 'A current position cannot have an end date');
+    }
+  });
+  checkDuplicates('experience', profile.experience, exp => entryKey(exp.company, exp.title, exp.startDate), 'experience entry');
+
+  // Education
+  profile.education.forEach((edu, index) => {
+    const path = `education[${index}]`;
+    required(`${path}.institution`, edu.institution, `Education entry ${index + 1} is missing the institution`);
+    checkDates(path, edu.startDate, edu.endDate);
+  });
+  checkDuplicates('education', profile.education, edu => entryKey(edu.institution, edu.degree, edu.field), 'education entry');
+
+  // Certifications
+  profile.certifications.forEach((cert, index) => {
+    const path = `certifications[${index}]`;
+    required(`${path}.name`, cert.name, `Certification ${index + 1} is missing a name`);
+    checkDates(path, cert.issueDate, cert.expiryDate, 'issueDate', 'expiryDate');
+    checkUrl(`${path}.credentialUrl`, cert.credentialUrl);
+    if (cert.expiryDate && isIsoPartialDate(cert.expiryDate) && compareDates(cert.expiryDate, today) < 0) {
+      issue(`${path}.expiryDate`, 'certification_expired', `${cert.name || 'Certification'} expired on ${cert.expiryDate}`, 'warning');
+    }
+  });
+  checkDuplicates('certifications', profile.certifications, cert => entryKey(cert.name, cert.issuer), 'certification');
+
+  // Languages
+  profile.languages.forEach((lang, index) => {
+    const path = `languages[${index}]`;
+    required(`${path}.name`, lang.name, `Language ${index + 1} is missing a name`);
+    if (!PROFICIENCIES.includes(lang.proficiency)) {
+      issue(`${path}.proficiency`, 'invalid_proficiency', `Proficiency must be one of ${PROFICIENCIES.join(', ')}`);
+    }
+  });
+  checkDuplicates('languages', profile.languages, lang => entryKey(lang.name), 'language');
+
+  // Projects
+  profile.projects.forEach((proj, index) => {
+    const path = `projects[${index}]`;
+    required(`${path}.name`, proj.name, `Project ${index + 1} is missing a name`);
+    checkDates(path, proj.startDate, proj.endDate);
+    checkUrl(`${path}.url`, proj.url);
+  });
+  checkDuplicates('projects', profile.projects, proj => entryKey(proj.name), 'project');
+
+  // Volunteering
+  profile.volunteer.forEach((vol, index) => {
+    const path = `volunteer[${index}]`;
+    required(`${path}.organization`, vol.organization, `Volunteer entry ${index + 1} is missing the organization`);
+    checkDates(path, vol.startDate, vol.endDate);
+  });
+  checkDuplicates('volunteer', profile.volunteer, vol => entryKey(vol.organization, vol.role, vol.startDate), 'volunteer entry');
+
+  // Skills
+  checkDuplicates('skills', profile.skills, skill => entryKey(skill), 'skill');
+
+  return {
+    valid: !issues.some(found => found.severity === 'error'),
+    issues,
+  };
+}
+
+/**
+ * Compare ISO partial dates at their shared precision ("2020" equals "2020-05")
+ */
+function compareDates(a: string, b: string): number {
+  const aParts = a.split('-').map(Number);
+  const bParts = b.split('-').map(Number);
+  const length = Math.min(aParts.length, bParts.length);
+
+  for (let i = 0; i < length; i++) {
+    if (aParts[i] !== bParts[i]) return aParts[i] - bParts[i];
+  }
+  return 0;
+}
+
+function checkURL(value: string): 'valid' | 'no-scheme' | 'invalid' {
+  const parse = (candidate: string) => {
+    try {
+      const url = new URL(candidate);
+      return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname.includes('.');
+    } catch {
+      return false;
+    }
+  };
+
+  if (parse(value)) return 'valid';
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(value) && parse(`https://${value}`)) return 'no-scheme';
+  return 'invalid';
+}
+
+function entryKey(...values: (string | undefined)[]): string {
+  return values.map(value => (value ?? '').toLowerCase().replace(/\s+/g, ' ').trim()).join('|');
+}
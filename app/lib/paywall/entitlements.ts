@@ -0,0 +1,236 @@
+/**
+ * Entitlements
+ * What a plan includes, as typed features (on or off) and quotas (-1 for
+ * unlimited). Access checks, per-user overrides and the pricing page all
+ * read this catalogue, so a plan can't advertise something that isn't
+ * checked.
+ */
+
+import type { SubscriptionTier } from './service';
+
+export type FeatureEntitlement =
+  | 'premium_templates'
+  | 'custom_domain'
+  | 'remove_branding'
+  | 'white_label'
+  | 'custom_templates'
+  | 'priority_support';
+
+export type QuotaEntitlement = 'portfolios' | 'ai_credits' | 'versions' | 'version_retention_days';
+
+export type Entitlement = FeatureEntitlement | QuotaEntitlement;
+
+export type Entitlements = { [K in FeatureEntitlement]: boolean } & { [K in QuotaEntitlement]: number };
+
+interface FeatureDefinition {
+  kind: 'feature';
+  label: string;
+  // Plan summary line when the feature isn't included, e.g. "Basic Templates"
+  without?: string;
+  // Why a check fails; `plan` is the cheapest plan that includes the feature
+  denied: (plan: string) => string;
+}
+
+interface QuotaDefinition {
+  kind: 'quota';
+  // Pricing line for a limit; quotas without one are left off pricing lists
+  label?: (limit: number) => string;
+  // Why a check fails once the quota is used up
+  denied: string;
+}
+
+// A grant that differs from the user's plan, e.g. a comped feature or an enterprise contract
+export interface EntitlementOverride {
+  entitlement: Entitlement;
+  value: boolean | number;
+  reason: string;
+  // Never expires when not set
+  expiresAt?: string;
+}
+
+export type EntitlementSource = 'plan' | 'override';
+
+export interface EntitlementCheck {
+  allowed: boolean;
+  reason?: string;
+  source: EntitlementSource;
+  // Quotas: the limit (-1 for unlimited) and what is left of it
+  limit?: number;
+  remaining?: number;
+  // Cheapest plan that would allow it
+  upgradeTo?: string;
+}
+
+// The lower plan a pricing card builds on, by the name the card uses for it
+export interface PlanBasis {
+  name: string;
+  entitlements: Entitlements;
+}
+
+export interface PricingFeature {
+  entitlement: Entitlement;
+  label: string;
+  included: boolean;
+}
+
+// Catalogue order is the order pricing lists show
+export const ENTITLEMENTS: { [K in FeatureEntitlement]: FeatureDefinition } & { [K in QuotaEntitlement]: QuotaDefinition } = {
+  portfolios: {
+    kind: 'quota',
+    label: limit => (limit === -1 ? 'Unlimited Portfolios' : `${limit} Portfolio${limit === 1 ? '' : 's'}`),
+    denied: 'Portfolio limit reached for your tier',
+  },
+  ai_credits: {
+    kind: 'quota',
+    label: limit => (limit === -1 ? 'Unlimited AI Credits' : `${limit} AI Credits per Month`),
+    denied: 'AI credits exhausted for this month',
+  },
+  premium_templates: {
+    kind: 'feature',
+    label: 'Premium Templates',
+    without: 'Basic Templates',
+    denied: plan => `Premium templates require the ${plan} plan`,
+  },
+  custom_domain: { kind: 'feature', label: 'Custom Domain', denied: plan => `Custom domains require the ${plan} plan` },
+  remove_branding: {
+    kind: 'feature',
+    label: 'Remove Branding',
+    without: 'AppVantix Branding',
+    denied: () => 'AppVantix branding can only be removed on a paid plan',
+  },
+  versions: {
+    kind: 'quota',
+    label: limit => (limit === -1 ? 'Unlimited Version History' : `${limit} Saved Versions`),
+    denied: 'Version history is not included in your plan',
+  },
+  version_retention_days: { kind: 'quota', denied: 'Version history is not included in your plan' },
+  white_label: { kind: 'feature', label: 'White-label', denied: plan => `White-label requires the ${plan} plan` },
+  custom_templates: { kind: 'feature', label: 'Custom Templates', denied: plan => `Custom templates require the ${plan} plan` },
+  priority_support: { kind: 'feature', label: 'Priority Support', denied: plan => `Priority support requires the ${plan} plan` },
+};
+
+// What a plan's pricing card lists, in order; comparison tables show the whole catalogue
+const SUMMARY_ENTITLEMENTS: Entitlement[] = [
+  'portfolios',
+  'premium_templates',
+  'custom_domain',
+  'remove_branding',
+  'white_label',
+  'priority_support',
+  'custom_templates',
+];
+
+export function isEntitlement(value: string): value is Entitlement {
+  return Object.prototype.hasOwnProperty.call(ENTITLEMENTS, value);
+}
+
+export function isFeature(entitlement: Entitlement): entitlement is FeatureEntitlement {
+  return ENTITLEMENTS[entitlement].kind === 'feature';
+}
+
+/**
+ * The plan's entitlements with the user's overrides on top. Expired
+ * overrides, and overrides whose value doesn't fit the entitlement, are
+ * skipped.
+ */
+export function applyOverrides(
+  base: Entitlements,
+  overrides: EntitlementOverride[],
+  now = new Date(),
+): { entitlements: Entitlements; applied: EntitlementOverride[] } {
+  const entitlements = { ...base };
+  const applied = overrides.filter(override => {
+    if (!isEntitlement(override.entitlement)) return false;
+    if (override.expiresAt && Date.parse(override.expiresAt) <= now.getTime()) return false;
+    return isFeature(override.entitlement)
+      ? typeof override.value === 'boolean'
+      : Number.isInteger(override.value) && (override.value as number) >= -1;
+  });
+
+  for (const override of applied) {
+    (entitlements as Record<Entitlement, boolean | number>)[override.entitlement] = override.value;
+  }
+  return { entitlements, applied };
+}
+
+/**
+ * Check one entitlement against a tier's (overridden) values. For quotas
+ * that get used up, `remaining` is what's left; without it a quota only
+ * has to be non-zero.
+ */
+export function checkEntitlement(
+  tier: SubscriptionTier,
+  entitlement: Entitlement,
+  tiers: SubscriptionTier[],
+  options: { overridden?: boolean; remaining?: number } = {},
+): EntitlementCheck {
+  const source: EntitlementSource = options.overridden ? 'override' : 'plan';
+  const upgrade = (allows: (candidate: SubscriptionTier) => boolean) =>
+    tiers.filter(candidate => candidate.price > tier.price && allows(candidate)).sort((a, b) => a.price - b.price)[0];
+
+  if (isFeature(entitlement)) {
+    if (tier.entitlements[entitlement]) {
+      return { allowed: true, source };
+    }
+    const plan = upgrade(candidate => candidate.entitlements[entitlement]);
+    const { label, denied } = ENTITLEMENTS[entitlement];
+    return {
+      allowed: false,
+      reason: plan ? denied(plan.name) : `${label} is not included in your plan`,
+      source,
+      ...(plan ? { upgradeTo: plan.id } : {}),
+    };
+  }
+
+  const limit = tier.entitlements[entitlement];
+  const remaining = limit === -1 ? -1 : options.remaining;
+  if (limit === -1 || (remaining === undefined ? limit !== 0 : remaining > 0)) {
+    return { allowed: true, source, limit, ...(remaining !== undefined ? { remaining } : {}) };
+  }
+
+  const plan = upgrade(candidate => candidate.entitlements[entitlement] === -1 || candidate.entitlements[entitlement] > limit);
+  return {
+    allowed: false,
+    reason: ENTITLEMENTS[entitlement].denied,
+    source,
+    limit,
+    ...(remaining !== undefined ? { remaining } : {}),
+    ...(plan ? { upgradeTo: plan.id } : {}),
+  };
+}
+
+/** Every catalogue line for a plan, marked included or not, for comparison tables */
+export function pricingFeatures(entitlements: Entitlements): PricingFeature[] {
+  return (Object.keys(ENTITLEMENTS) as Entitlement[]).flatMap((entitlement): PricingFeature[] => {
+    if (isFeature(entitlement)) {
+      return [{ entitlement, label: ENTITLEMENTS[entitlement].label, included: entitlements[entitlement] }];
+    }
+    const { label } = ENTITLEMENTS[entitlement];
+    const limit = entitlements[entitlement];
+    return label ? [{ entitlement, label: label(limit), included: limit !== 0 }] : [];
+  });
+}
+
+// A plan's summary line for one entitlement, if it has one
+function summaryLine(entitlements: Entitlements, entitlement: Entitlement): string | undefined {
+  if (isFeature(entitlement)) {
+    const { label, without } = ENTITLEMENTS[entitlement];
+    return entitlements[entitlement] ? label : without;
+  }
+  const { label } = ENTITLEMENTS[entitlement];
+  const limit = entitlements[entitlement];
+  return label && limit !== 0 ? label(limit) : undefined;
+}
+
+/**
+ * The lines on a plan's pricing card. With `basedOn`, the card opens with
+ * "Everything in <name>" and only lists what differs from that plan.
+ */
+export function includedFeatures(entitlements: Entitlements, basedOn?: PlanBasis): string[] {
+  const lines = SUMMARY_ENTITLEMENTS.flatMap(entitlement => {
+    const line = summaryLine(entitlements, entitlement);
+    if (!line || (basedOn && summaryLine(basedOn.entitlements, entitlement) === line)) return [];
+    return [line];
+  });
+  return basedOn ? [`Everything in ${basedOn.name}`, ...lines] : lines;
+}
@@ -0,0 +1,142 @@
+/**
+ * Usage Metering
+ * Limits are enforced by reserving usage before the work starts. A
+ * reservation holds portfolio slots or AI credits under the user's limit;
+ * it is committed when the work succeeds and released when it fails, and
+ * lapses on its own if neither happens. Each step is one database function
+ * that locks the user's row, so concurrent requests can't all pass the same
+ * limit check.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+export type MeteredUnit = 'portfolio' | 'ai_credits';
+
+export interface Reservation {
+  id: string;
+  userId: string;
+  unit: MeteredUnit;
+  amount: number;
+  expiresAt: string;
+}
+
+export interface ReserveRequest {
+  userId: string;
+  unit: MeteredUnit;
+  amount: number;
+  // Portfolios allowed on the tier. For AI credits the ledger balance is the
+  // cap. -1 lifts the cap for either unit.
+  limit: number;
+  expiresAt: string;
+}
+
+export interface UsageDetails {
+  // Actual usage, up to the reserved amount (defaults to all of it)
+  amount?: number;
+  // Recorded on AI credit charges in the ledger
+  reason?: string;
+  model?: string;
+  tokens?: number;
+}
+
+export type ReserveResult = { allowed: true; reservation: Reservation } | { allowed: false; reason: string };
+
+export interface MeterStore {
+  // Undefined when usage plus unexpired reservations would pass the limit
+  reserve(request: ReserveRequest): Promise<Reservation | undefined>;
+  // Record the usage and settle the reservation; false when it was already settled or has expired
+  commit(reservationId: string, usage: UsageDetails & { amount: number }): Promise<boolean>;
+  // False when it was already settled
+  release(reservationId: string): Promise<boolean>;
+}
+
+// Long enough for a slow model call; a crashed request frees its hold after this
+const RESERVATION_TTL_MS = 5 * 60 * 1000;
+
+const LIMIT_REASONS: Record<MeteredUnit, string> = {
+  portfolio: 'Portfolio limit reached for your tier',
+  ai_credits: 'AI credits exhausted for this month',
+};
+
+export class SupabaseMeterStore implements MeterStore {
+  private supabase;
+
+  constructor(supabaseUrl: string, supabaseKey: string) {
+    this.supabase = createClient(supabaseUrl, supabaseKey);
+  }
+
+  async reserve(request: ReserveRequest): Promise<Reservation | undefined> {
+    const { data, error } = await this.supabase.rpc('reserve_usage', {
+      p_user_id: request.userId,
+      p_unit: request.unit,
+      p_amount: request.amount,
+      p_limit: request.limit,
+      p_expires_at: request.expiresAt,
+    });
+
+    if (error) throw error;
+    if (!data) return undefined;
+    return { id: data, userId: request.userId, unit: request.unit, amount: request.amount, expiresAt: request.expiresAt };
+  }
+
+  async commit(reservationId: string, usage: UsageDetails & { amount: number }): Promise<boolean> {
+    const { data, error } = await this.supabase.rpc('commit_usage', {
+      p_reservation_id: reservationId,
+      p_amount: usage.amount,
+      p_reason: usage.reason ?? null,
+      p_model: usage.model ?? null,
+      p_tokens: usage.tokens ?? null,
+    });
+
+    if (error) throw error;
+    return data === true;
+  }
+
+  async release(reservationId: string): Promise<boolean> {
+    const { data, error } = await this.supabase.rpc('release_usage', { p_reservation_id: reservationId });
+
+    if (error) throw error;
+    return data === true;
+  }
+}
+
+export class UsageMeter {
+  constructor(private store: MeterStore, private ttlMs = RESERVATION_TTL_MS) {}
+
+  /** Hold `amount` of a unit under `limit` (-1 for none) until it is committed or released */
+  async reserve(userId: string, unit: MeteredUnit, amount: number, limit: number, now = new Date()): Promise<ReserveResult> {
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new Error('Reservations must be a positive whole number');
+    }
+
+    const reservation = await this.store.reserve({
+      userId,
+      unit,
+      amount,
+      limit,
+      expiresAt: new Date(now.getTime() + this.ttlMs).toISOString(),
+    });
+    return reservation ? { allowed: true, reservation } : { allowed: false, reason: LIMIT_REASONS[unit] };
+  }
+
+  /**
+   * Turn a reservation into usage. Never charges more than was reserved;
+   * committing nothing releases it. Throws when the reservation has lapsed,
+   * since its hold may already have gone to another request.
+   */
+  async commit(reservation: Reservation, usage: UsageDetails = {}): Promise<void> {
+    const amount = Math.min(Math.max(0, Math.ceil(usage.amount ?? reservation.amount)), reservation.amount);
+    if (amount === 0) {
+      return this.release(reservation);
+    }
+
+    if (!await this.store.commit(reservation.id, { ...usage, amount })) {
+      throw new Error('Usage reservation has expired or was already settled');
+    }
+  }
+
+  /** Give the hold back; releasing twice is harmless */
+  async release(reservation: Reservation): Promise<void> {
+    await this.store.release(reservation.id);
+  }
+}
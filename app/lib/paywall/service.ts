@@ -1,108 +1,456 @@
 import { createClient } from '@supabase/supabase-js';
 import { redirect } from '@remix-run/cloudflare';
+import { CreditLedger, SupabaseCreditStore, type CreditAccount, type CreditBalance, type CreditEntry, type CreditHistoryOptions } from '../credits/ledger';
+import type { PortfolioTemplate } from '../templates/types';
+import {
+  applyOverrides,
+  checkEntitlement,
+  includedFeatures,
+  type Entitlement,
+  type EntitlementCheck,
+  type EntitlementOverride,
+  type Entitlements,
+  type PlanBasis,
+} from './entitlements';
+import { SupabaseMeterStore, UsageMeter, type MeteredUnit, type Reservation, type ReserveResult, type UsageDetails } from './metering';
+import {
+  getPortfolioGrace,
+  getTrialStatus,
+  trialFingerprint,
+  trialHasLapsed,
+  TRIAL_TIER,
+  type PortfolioGrace,
+  type TrialStatus,
+} from './trial';
 
 export interface PaywallConfig {
   enabled: boolean;
   requireSubscription: boolean;
   freeTierLimit: number;
   trialDays: number;
+  // Days portfolios above the Free limit stay published after a trial ends
+  trialGraceDays: number;
+}
+
+export interface TrialDetails extends TrialStatus {
+  portfolios: PortfolioGrace;
 }
 
 export interface SubscriptionTier {
   id: string;
   name: string;
   price: number;
+  // Pricing page lines, derived from `entitlements`
   features: string[];
-  portfolioLimit: number;
-  customDomain: boolean;
-  aiCredits: number;
+  entitlements: Entitlements;
+  // Lower plan the pricing lines build on ("Everything in Pro")
+  basedOn?: PlanBasis;
 }
 
+export interface TemplateAccess {
+  allowed: boolean;
+  reason?: string;
+  requiredTier: string;
+}
+
+function defineTier(id: string, name: string, price: number, entitlements: Entitlements, basedOn?: PlanBasis): SubscriptionTier {
+  const tier = { id, name, price, features: includedFeatures(entitlements, basedOn), entitlements };
+  return basedOn ? { ...tier, basedOn } : tier;
+}
+
+// `tier` with different entitlements and the pricing lines to match
+function withEntitlements(tier: SubscriptionTier, entitlements: Entitlements): SubscriptionTier {
+  return { ...tier, entitlements, features: includedFeatures(entitlements, tier.basedOn) };
+}
+
+const PRO_TIER = defineTier('pro', 'Professional', 29, {
+  portfolios: -1, // unlimited
+  ai_credits: 100,
+  premium_templates: true,
+  custom_domain: true,
+  remove_branding: true,
+  versions: 100,
+  version_retention_days: 365,
+  white_label: false,
+  custom_templates: false,
+  priority_support: false,
+});
+
 export const SUBSCRIPTION_TIERS: SubscriptionTier[] = [
-  {
-    id: 'free',
-    name: 'Free',
-    price: 0,
-    features: ['1 Portfolio', 'Basic Templates', 'AppVantix Branding'],
-    portfolioLimit: 1,
-    customDomain: false,
-    aiCredits: 5,
-  },
-  {
-    id: 'pro',
-    name: 'Professional',
-    price: 29,
-    features: ['Unlimited Portfolios', 'Premium Templates', 'Custom Domain', 'Remove Branding'],
-    portfolioLimit: -1, // unlimited
-    customDomain: true,
-    aiCredits: 100,
-  },
-  {
-    id: 'enterprise',
-    name: 'Enterprise',
-    price: 99,
-    features: ['Everything in Pro', 'White-label', 'Priority Support', 'Custom Templates'],
-    portfolioLimit: -1,
-    customDomain: true,
-    aiCredits: -1, // unlimited
-  },
+  defineTier('free', 'Free', 0, {
+    portfolios: 1,
+    ai_credits: 5,
+    premium_templates: false,
+    custom_domain: false,
+    remove_branding: false,
+    versions: 10,
+    version_retention_days: 30,
+    white_label: false,
+    custom_templates: false,
+    priority_support: false,
+  }),
+  PRO_TIER,
+  defineTier('enterprise', 'Enterprise', 99, {
+    portfolios: -1,
+    ai_credits: -1,
+    premium_templates: true,
+    custom_domain: true,
+    remove_branding: true,
+    versions: -1,
+    version_retention_days: -1,
+    white_label: true,
+    custom_templates: true,
+    priority_support: true,
+  }, { name: 'Pro', entitlements: PRO_TIER.entitlements }),
 ];
 
+/** Decide whether a user on `tier` may apply `template` */
+export function getTemplateAccess(tier: SubscriptionTier, template: PortfolioTemplate, userId: string): TemplateAccess {
+  const requiredTier = template.requiredTier;
+
+  if (template.ownerId !== undefined) {
+    if (template.ownerId !== userId) {
+      return { allowed: false, reason: 'Template belongs to another account', requiredTier };
+    }
+    if (!tier.entitlements.custom_templates) {
+      return { allowed: false, reason: 'Custom templates require an Enterprise subscription', requiredTier };
+    }
+    return { allowed: true, requiredTier };
+  }
+
+  const required = SUBSCRIPTION_TIERS.find(t => t.id === requiredTier);
+  if (!required) {
+    return { allowed: false, reason: 'Template is not available', requiredTier };
+  }
+  // Premium templates (an entitlement that can be comped) cover everything up to the first plan that includes them
+  const premiumPrice = SUBSCRIPTION_TIERS.find(t => t.entitlements.premium_templates)?.price ?? 0;
+  if (tier.price < required.price && !(tier.entitlements.premium_templates && required.price <= premiumPrice)) {
+    return { allowed: false, reason: `${required.name} plan required for ${template.name}`, requiredTier };
+  }
+
+  return { allowed: true, requiredTier };
+}
+
+// Statuses that count as a live subscription
+const ACTIVE_STATUSES = new Set(['active', 'trialing']);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export class PaywallService {
   private supabase;
+  // Service-role client for writes to plans, trials and overrides, which RLS keeps from browsers
+  private admin;
   private config: PaywallConfig;
+  private credits: CreditLedger;
+  private meter: UsageMeter;
 
-  constructor(supabaseUrl: string, supabaseKey: string, config: PaywallConfig) {
+  constructor(supabaseUrl: string, supabaseKey: string, serviceRoleKey: string, config: PaywallConfig) {
     this.supabase = createClient(supabaseUrl, supabaseKey);
+    this.admin = createClient(supabaseUrl, serviceRoleKey);
     this.config = config;
+    // Grants and resets are ledger writes, which only the server may make
+    this.credits = new CreditLedger(new SupabaseCreditStore(supabaseUrl, serviceRoleKey));
+    // The metering functions are only executable by the service role
+    this.meter = new UsageMeter(new SupabaseMeterStore(supabaseUrl, serviceRoleKey));
   }
 
-  async checkAccess(userId: string, action: string): Promise<{ allowed: boolean; reason?: string }> {
+  /**
+   * Whether the user's plan, with their overrides, includes `entitlement`.
+   * Quotas that get used up (portfolios, AI credits) also need some left.
+   */
+  async can(userId: string, entitlement: Entitlement, now = new Date()): Promise<EntitlementCheck> {
     if (!this.config.enabled) {
-      return { allowed: true };
+      return { allowed: true, source: 'plan' };
     }
 
     try {
-      const { data: profile, error } = await this.supabase
-        .from('user_profiles')
-        .select('*')
-        .eq('id', userId)
-        .single();
-
-      if (error || !profile) {
-        return { allowed: false, reason: 'User profile not found' };
+      const { profile, tier, overrides = [], reason } = await this.resolveTier(userId, now);
+      if (!tier) {
+        return { allowed: false, reason, source: 'plan' };
       }
 
-      // Check subscription status
-      if (this.config.requireSubscription && profile.subscription_status !== 'active') {
-        return { allowed: false, reason: 'Active subscription required' };
-      }
+      return checkEntitlement(tier, entitlement, SUBSCRIPTION_TIERS, {
+        overridden: overrides.some(override => override.entitlement === entitlement),
+        remaining: await this.remaining(userId, profile, tier, entitlement, now),
+      });
+    } catch (error) {
+      console.error('Entitlement check error:', error);
+      return { allowed: false, reason: 'System error', source: 'plan' };
+    }
+  }
+
+  /** Portfolios kept from a trial can be published until the grace period ends */
+  async canPublish(userId: string, now = new Date()): Promise<EntitlementCheck> {
+    if (!this.config.enabled) {
+      return { allowed: true, source: 'plan' };
+    }
 
-      // Check feature limits based on subscription tier
-      const tier = SUBSCRIPTION_TIERS.find(t => t.id === profile.subscription_tier);
+    try {
+      const { profile, tier, overrides = [], reason } = await this.resolveTier(userId, now);
       if (!tier) {
-        return { allowed: false, reason: 'Invalid subscription tier' };
+        return { allowed: false, reason, source: 'plan' };
       }
 
-      // Check portfolio limits
-      if (action === 'create_portfolio' && tier.portfolioLimit !== -1) {
-        if (profile.portfolio_count >= tier.portfolioLimit) {
-          return { allowed: false, reason: 'Portfolio limit reached for your tier' };
-        }
+      const limit = tier.entitlements.portfolios;
+      const source = overrides.some(override => override.entitlement === 'portfolios') ? 'override' : 'plan';
+      if (getPortfolioGrace(profile, limit, this.config.trialGraceDays, now).withinGrace) {
+        return { allowed: true, source, limit };
       }
+      return { allowed: false, reason: `Your plan publishes up to ${limit} portfolio(s); upgrade or unpublish the rest`, source, limit };
+    } catch (error) {
+      console.error('Entitlement check error:', error);
+      return { allowed: false, reason: 'System error', source: 'plan' };
+    }
+  }
 
-      // Check AI credits
-      if (action === 'use_ai' && tier.aiCredits !== -1) {
-        if (profile.ai_credits_used >= tier.aiCredits) {
-          return { allowed: false, reason: 'AI credits exhausted for this month' };
-        }
-      }
+  /** Check which of `templates` the user may apply, loading their profile once */
+  async checkTemplateAccess(userId: string, templates: PortfolioTemplate[]): Promise<TemplateAccess[]> {
+    if (!this.config.enabled) {
+      return templates.map(template => ({ allowed: true, requiredTier: template.requiredTier }));
+    }
 
-      return { allowed: true };
+    try {
+      const { tier, reason } = await this.resolveTier(userId);
+      return templates.map(template => tier
+        ? getTemplateAccess(tier, template, userId)
+        : { allowed: false, reason, requiredTier: template.requiredTier });
     } catch (error) {
-      console.error('Paywall check error:', error);
-      return { allowed: false, reason: 'System error' };
+      console.error('Template access check error:', error);
+      return templates.map(template => ({ allowed: false, reason: 'System error', requiredTier: template.requiredTier }));
+    }
+  }
+
+  /**
+   * Tier whose limits apply to the user, with their overrides applied: the
+   * top tier with the paywall off, free without a usable subscription
+   */
+  async getTier(userId: string): Promise<SubscriptionTier> {
+    return (await this.getEntitlements(userId)).tier;
+  }
+
+  /** The user's effective tier and the overrides that changed it */
+  async getEntitlements(userId: string, now = new Date()): Promise<{ tier: SubscriptionTier; overrides: EntitlementOverride[] }> {
+    if (!this.config.enabled) {
+      return { tier: SUBSCRIPTION_TIERS[SUBSCRIPTION_TIERS.length - 1], overrides: [] };
+    }
+
+    const { tier, overrides = [] } = await this.resolveTier(userId, now);
+    return tier ? { tier, overrides } : { tier: this.freeTier(), overrides: [] };
+  }
+
+  /** Grant a user more (or less) than their plan, replacing any override of the same entitlement */
+  async setOverride(userId: string, override: EntitlementOverride, grantedBy?: string): Promise<void> {
+    const { error } = await this.admin.from('entitlement_overrides').upsert({
+      user_id: userId,
+      entitlement: override.entitlement,
+      value: override.value,
+      reason: override.reason,
+      expires_at: override.expiresAt ?? null,
+      granted_by: grantedBy ?? null,
+    });
+
+    if (error) throw error;
+  }
+
+  async clearOverride(userId: string, entitlement: Entitlement): Promise<void> {
+    const { error } = await this.admin
+      .from('entitlement_overrides')
+      .delete()
+      .eq('user_id', userId)
+      .eq('entitlement', entitlement);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Give a new user the trial tier for `trialDays`. Each user, and each
+   * mailbox across accounts, gets one trial.
+   */
+  async startTrial(userId: string, email: string, now = new Date()): Promise<TrialStatus> {
+    if (this.config.trialDays <= 0) {
+      throw new Error('Free trials are not available');
+    }
+
+    const profile = await this.getUserProfile(userId);
+    if (profile.trial_ends_at) {
+      throw new Error('You have already used your free trial');
+    }
+    if (ACTIVE_STATUSES.has(profile.subscription_status)) {
+      throw new Error('Free trials are for new users without a subscription');
+    }
+
+    const fingerprint = await trialFingerprint(email);
+    const { error: claimError } = await this.admin
+      .from('trial_claims')
+      .insert({ fingerprint, user_id: userId });
+    if (claimError) {
+      // Unique violation: this mailbox already had a trial, possibly on another account
+      if (claimError.code === '23505') throw new Error('A free trial has already been claimed with this email address');
+      throw claimError;
+    }
+
+    const trial = {
+      subscription_tier: TRIAL_TIER,
+      subscription_status: 'trialing',
+      trial_ends_at: new Date(now.getTime() + this.config.trialDays * DAY_MS).toISOString(),
+    };
+    const { error } = await this.admin.from('user_profiles').update(trial).eq('id', userId);
+    if (error) {
+      // Give the claim back so the user can try again
+      await this.admin.from('trial_claims').delete().eq('fingerprint', fingerprint).eq('user_id', userId);
+      throw error;
     }
+
+    return getTrialStatus(trial, this.config.trialGraceDays, now);
+  }
+
+  /** Time left on the user's trial, and the grace period for portfolios over the Free limit */
+  async getTrial(userId: string, now = new Date()): Promise<TrialDetails> {
+    const { profile, tier } = await this.resolveTier(userId, now);
+    if (!profile) {
+      throw new Error('User profile not found');
+    }
+
+    const limit = (tier ?? this.freeTier()).entitlements.portfolios;
+    return {
+      ...getTrialStatus(profile, this.config.trialGraceDays, now),
+      portfolios: getPortfolioGrace(profile, limit, this.config.trialGraceDays, now),
+    };
+  }
+
+  /** AI credits left in the current billing period */
+  async getCredits(userId: string, now = new Date()): Promise<CreditBalance> {
+    return this.credits.getBalance(await this.creditAccountFor(userId, now), now);
+  }
+
+  /** Grants, charges, resets and top-ups, newest first */
+  async getCreditHistory(userId: string, options: CreditHistoryOptions = {}): Promise<CreditEntry[]> {
+    return this.credits.history(userId, options);
+  }
+
+  /**
+   * Hold portfolio slots or AI credits under the user's limits before doing
+   * the work; commit the reservation when it succeeds and release it when it
+   * fails. Concurrent requests can't reserve past the limit.
+   */
+  async reserve(userId: string, unit: MeteredUnit, amount = 1, now = new Date()): Promise<ReserveResult> {
+    if (!this.config.enabled) {
+      // Usage is still recorded on commit
+      return this.meter.reserve(userId, unit, amount, -1, now);
+    }
+
+    const { profile, tier, reason } = await this.resolveTier(userId, now);
+    if (!tier) {
+      return { allowed: false, reason: reason || 'User profile not found' };
+    }
+
+    const limit = unit === 'portfolio' ? tier.entitlements.portfolios : tier.entitlements.ai_credits;
+    if (unit === 'ai_credits' && limit !== -1) {
+      // Grant the period's allowance before the balance is checked
+      await this.credits.getBalance(creditAccount(userId, profile, limit), now);
+    }
+    return this.meter.reserve(userId, unit, amount, limit, now);
+  }
+
+  /** Record the reserved usage (AI credits: the actual charge, up to what was reserved) */
+  async commit(reservation: Reservation, usage: UsageDetails = {}): Promise<void> {
+    return this.meter.commit(reservation, usage);
+  }
+
+  async release(reservation: Reservation): Promise<void> {
+    return this.meter.release(reservation);
+  }
+
+  private async creditAccountFor(userId: string, now: Date): Promise<CreditAccount> {
+    const { profile, tier } = await this.resolveTier(userId, now);
+    if (!profile) {
+      throw new Error('User profile not found');
+    }
+    // With the paywall off AI use is unlimited, but charges are still recorded
+    return creditAccount(userId, profile, this.config.enabled ? (tier ?? this.freeTier()).entitlements.ai_credits : -1);
+  }
+
+  // What is left of a quota that gets used up; undefined for the others
+  private async remaining(userId: string, profile: any, tier: SubscriptionTier, entitlement: Entitlement, now: Date): Promise<number | undefined> {
+    if (entitlement === 'portfolios' && tier.entitlements.portfolios !== -1) {
+      return Math.max(0, tier.entitlements.portfolios - profile.portfolio_count);
+    }
+    if (entitlement === 'ai_credits' && tier.entitlements.ai_credits !== -1) {
+      return (await this.credits.getBalance(creditAccount(userId, profile, tier.entitlements.ai_credits), now)).available;
+    }
+    return undefined;
+  }
+
+  private async resolveTier(
+    userId: string,
+    now = new Date(),
+  ): Promise<{ profile?: any; tier?: SubscriptionTier; overrides?: EntitlementOverride[]; reason?: string }> {
+    const [{ data, error }, overrides] = await Promise.all([
+      this.supabase
+        .from('user_profiles')
+        .select('*')
+        .eq('id', userId)
+        .single(),
+      this.getOverrides(userId),
+    ]);
+
+    if (error || !data) {
+      return { reason: 'User profile not found' };
+    }
+
+    const profile = trialHasLapsed(data, now) ? await this.endTrial(userId, data) : data;
+
+    // Check subscription status; an ended trial drops to Free rather than losing access
+    const trialEnded = profile.subscription_status === 'trial_expired';
+    if (this.config.requireSubscription && !ACTIVE_STATUSES.has(profile.subscription_status) && !trialEnded) {
+      return { profile, reason: 'Active subscription required' };
+    }
+
+    // Check feature limits based on subscription tier
+    const tier = profile.subscription_tier === 'free' ? this.freeTier() : SUBSCRIPTION_TIERS.find(t => t.id === profile.subscription_tier);
+    if (!tier) {
+      return { profile, reason: 'Invalid subscription tier' };
+    }
+
+    const { entitlements, applied } = applyOverrides(tier.entitlements, overrides, now);
+    if (applied.length === 0) {
+      return { profile, tier, overrides: applied };
+    }
+    return { profile, tier: withEntitlements(tier, entitlements), overrides: applied };
+  }
+
+  private async getOverrides(userId: string): Promise<EntitlementOverride[]> {
+    const { data, error } = await this.supabase
+      .from('entitlement_overrides')
+      .select('entitlement, value, reason, expires_at')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    return (data ?? []).map((row: any) => ({
+      entitlement: row.entitlement,
+      value: row.value,
+      reason: row.reason,
+      ...(row.expires_at ? { expiresAt: row.expires_at } : {}),
+    }));
+  }
+
+  /** Downgrade a lapsed trial to Free; only a row still marked as trialing is changed */
+  private async endTrial(userId: string, profile: any): Promise<any> {
+    const downgrade = { subscription_tier: 'free', subscription_status: 'trial_expired' };
+    const { error } = await this.admin
+      .from('user_profiles')
+      .update(downgrade)
+      .eq('id', userId)
+      .eq('subscription_status', 'trialing');
+
+    if (error) throw error;
+    return { ...profile, ...downgrade };
+  }
+
+  // The Free tier with the configured portfolio allowance
+  private freeTier(): SubscriptionTier {
+    const free = SUBSCRIPTION_TIERS[0];
+    return withEntitlements(free, { ...free.entitlements, portfolios: this.config.freeTierLimit });
   }
 
   async upgradeRequired(userId: string, requiredTier: string) {
@@ -126,49 +474,42 @@ export class PaywallService {
     return data;
   }
 
-  async updateUsage(userId: string, action: string, amount = 1) {
-    const updates: any = {};
-
-    switch (action) {
-      case 'create_portfolio':
-        updates.portfolio_count = { increment: amount };
-        break;
-      case 'use_ai':
-        updates.ai_credits_used = { increment: amount };
-        break;
-    }
-
-    if (Object.keys(updates).length > 0) {
-      const { error } = await this.supabase
-        .from('user_profiles')
-        .update(updates)
-        .eq('id', userId);
-
-      if (error) throw error;
+  async requireSubscription(userId: string, request: Request): Promise<void> {
+    let reason: string | undefined;
+    if (this.config.enabled) {
+      try {
+        ({ reason } = await this.resolveTier(userId));
+      } catch (error) {
+        console.error('Subscription check error:', error);
+        reason = 'System error';
+      }
     }
-  }
 
-  async requireSubscription(userId: string, request: Request): Promise<void> {
-    const access = await this.checkAccess(userId, 'general');
-    
-    if (!access.allowed) {
+    if (reason) {
       const url = new URL(request.url);
-      const redirectUrl = `/upgrade?reason=${encodeURIComponent(access.reason || 'Subscription required')}&return=${encodeURIComponent(url.pathname)}`;
+      const redirectUrl = `/upgrade?reason=${encodeURIComponent(reason)}&return=${encodeURIComponent(url.pathname)}`;
       throw redirect(redirectUrl);
     }
   }
 }
 
+// Free users' periods start on the day they signed up
+function creditAccount(userId: string, profile: any, allowance: number): CreditAccount {
+  return { userId, allowance, anchorAt: profile.billing_anchor_at ?? profile.created_at };
+}
+
 // Helper function to initialize paywall service
 export function createPaywallService(env: any): PaywallService {
   return new PaywallService(
     env.SUPABASE_URL,
     env.SUPABASE_ANON_KEY,
+    env.SUPABASE_SERVICE_ROLE_KEY,
     {
       enabled: env.VITE_ENABLE_PAYWALL === 'true',
       requireSubscription: env.VITE_REQUIRE_SUBSCRIPTION === 'true',
       freeTierLimit: parseInt(env.FREE_TIER_LIMIT || '1'),
       trialDays: parseInt(env.TRIAL_DAYS || '7'),
+      trialGraceDays: parseInt(env.TRIAL_GRACE_DAYS || '14'),
     }
   );
 }
@@ -0,0 +1,108 @@
+/**
+ * Free Trials
+ * New users get the Pro plan for PaywallConfig.trialDays. When the trial
+ * ends they drop to Free; portfolios above the Free limit stay published
+ * for a grace period, so nothing disappears the day the trial ends.
+ */
+
+export const TRIAL_TIER = 'pro';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Mailboxes that ignore dots in the local part
+const DOTLESS_DOMAINS = new Set(['gmail.com', 'googlemail.com']);
+
+// The user_profiles columns trials read
+export interface TrialProfile {
+  subscription_tier: string;
+  subscription_status: string;
+  trial_ends_at?: string | null;
+  portfolio_count?: number;
+}
+
+// 'converted' means the user moved on to a paid plan
+export type TrialState = 'none' | 'active' | 'ended' | 'converted';
+
+export interface TrialStatus {
+  state: TrialState;
+  endsAt?: string;
+  msRemaining: number;
+  // Whole days left, rounded up
+  daysRemaining: number;
+  // Portfolios above the Free limit stay published until then
+  graceEndsAt?: string;
+}
+
+export interface PortfolioGrace {
+  // Portfolios above the tier's limit
+  overLimit: number;
+  graceEndsAt?: string;
+  // True while portfolios over the limit may still be published
+  withinGrace: boolean;
+}
+
+/**
+ * Where the user's trial stands at `now`
+ */
+export function getTrialStatus(profile: TrialProfile, graceDays: number, now = new Date()): TrialStatus {
+  if (!profile.trial_ends_at) {
+    return { state: 'none', msRemaining: 0, daysRemaining: 0 };
+  }
+
+  const endsAt = new Date(profile.trial_ends_at);
+  const msRemaining = Math.max(0, endsAt.getTime() - now.getTime());
+
+  if (profile.subscription_status === 'trialing') {
+    if (msRemaining > 0) {
+      return { state: 'active', endsAt: endsAt.toISOString(), msRemaining, daysRemaining: Math.ceil(msRemaining / DAY_MS) };
+    }
+  } else if (profile.subscription_status !== 'trial_expired') {
+    return { state: 'converted', endsAt: endsAt.toISOString(), msRemaining: 0, daysRemaining: 0 };
+  }
+
+  return {
+    state: 'ended',
+    endsAt: endsAt.toISOString(),
+    msRemaining: 0,
+    daysRemaining: 0,
+    graceEndsAt: new Date(endsAt.getTime() + graceDays * DAY_MS).toISOString(),
+  };
+}
+
+/**
+ * An app-granted trial past its end date whose row hasn't been downgraded
+ * yet. Trials run by Stripe have no end date here and end by webhook.
+ */
+export function trialHasLapsed(profile: TrialProfile, now = new Date()): boolean {
+  return profile.subscription_status === 'trialing'
+    && !!profile.trial_ends_at
+    && Date.parse(profile.trial_ends_at) <= now.getTime();
+}
+
+/**
+ * Portfolios over `limit` after a trial ended, and whether the grace period
+ * still covers them
+ */
+export function getPortfolioGrace(profile: TrialProfile, limit: number, graceDays: number, now = new Date()): PortfolioGrace {
+  const overLimit = limit === -1 ? 0 : Math.max(0, (profile.portfolio_count ?? 0) - limit);
+  if (overLimit === 0) {
+    return { overLimit, withinGrace: true };
+  }
+
+  const { graceEndsAt } = getTrialStatus(profile, graceDays, now);
+  return { overLimit, graceEndsAt, withinGrace: !!graceEndsAt && now.getTime() < Date.parse(graceEndsAt) };
+}
+
+/**
+ * One key per mailbox, so "Jane.Doe+trial@gmail.com" and "janedoe@gmail.com"
+ * can't both claim a trial. Only the SHA-256 of the address is stored.
+ */
+export async function trialFingerprint(email: string): Promise<string> {
+  const [rawLocal, rawDomain = ''] = email.trim().toLowerCase().split('@');
+  const domain = rawDomain === 'googlemail.com' ? 'gmail.com' : rawDomain;
+  let local = rawLocal.split('+')[0];
+  if (DOTLESS_DOMAINS.has(domain)) local = local.replace(/\./g, '');
+
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${local}@${domain}`)));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,187 @@
+/**
+ * Résumé Document
+ * The résumé as plain text blocks (sections, entries, bullets) in the page
+ * language. The HTML and PDF renderers both lay out this one model, so the
+ * two outputs always say the same thing.
+ */
+
+import { formatDate, formatDateRange } from '../i18n/format';
+import {
+  DEFAULT_LOCALE,
+  formatMessage,
+  normalizeLocale,
+  primaryLanguage,
+  resolveMessages,
+  textDirection,
+  type PortfolioMessages,
+  type TextDirection,
+} from '../i18n/locales';
+import { localizeProfile, type ProfileTranslation } from '../i18n/translation';
+import { selectHighlights, type HighlightLimits } from '../linkedin/highlights';
+import type { LinkedInProfile } from '../linkedin/import';
+import { defaultTheme, type ThemeTokens } from '../templates/theme';
+import type { PortfolioSection, PortfolioTemplate } from '../templates/types';
+
+export type ResumeLength = 'one-page' | 'two-page';
+
+export interface ResumeOptions {
+  // Page budget; defaults to two pages
+  length?: ResumeLength;
+  // Plain single-column layout in black and a standard font, for applicant tracking systems
+  ats?: boolean;
+  // Defaults to the template's theme
+  theme?: ThemeTokens;
+  locale?: string;
+  translation?: ProfileTranslation;
+  pageSize?: 'letter' | 'a4';
+}
+
+export interface ResumeLimits extends Required<HighlightLimits> {
+  // Bullet points kept per role
+  bullets: number;
+}
+
+export const RESUME_LIMITS: Record<ResumeLength, ResumeLimits> = {
+  'one-page': { experience: 3, skills: 12, projects: 2, education: 2, certifications: 3, volunteer: 0, bullets: 3 },
+  'two-page': { experience: 5, skills: 12, projects: 3, education: 3, certifications: 5, volunteer: 2, bullets: 5 },
+};
+
+export interface ResumeEntry {
+  title: string;
+  subtitle: string;
+  dates: string;
+  location: string;
+  bullets: string[];
+}
+
+export interface ResumeSection {
+  id: PortfolioSection;
+  heading: string;
+  // Paragraph sections (the summary)
+  text?: string;
+  entries: ResumeEntry[];
+  // Inline list sections (skills, languages)
+  items: string[];
+}
+
+export interface ResumeDocument {
+  locale: string;
+  dir: TextDirection;
+  name: string;
+  headline: string;
+  // Location, email, phone, website and LinkedIn, as shown under the name
+  contact: string[];
+  sections: ResumeSection[];
+}
+
+/**
+ * Pick and word the résumé's content. Sections follow the theme's order;
+ * contact details always go in the header.
+ */
+export function buildResume(profile: LinkedInProfile, template: PortfolioTemplate, options: ResumeOptions = {}): ResumeDocument {
+  const limits = RESUME_LIMITS[options.length ?? 'two-page'];
+  const theme = options.theme ?? defaultTheme(template);
+  const locale = normalizeLocale(options.locale ?? DEFAULT_LOCALE);
+  const messages = resolveMessages(locale);
+  const selected = selectHighlights(localizeProfile(profile, options.translation), limits);
+
+  const heading = (section: PortfolioSection) =>
+    (primaryLanguage(locale) === DEFAULT_LOCALE ? template.labels?.[section] : undefined) ?? messages.sections[section];
+
+  const sections = theme.sectionOrder
+    .filter((section, index) => section !== 'contact' && theme.sectionOrder.indexOf(section) === index)
+    .map((section): ResumeSection => ({ id: section, heading: heading(section), entries: [], items: [], ...content(selected, section, limits, locale, messages) }))
+    .filter(section => section.text || section.entries.length > 0 || section.items.length > 0);
+
+  const { email, phone, website, linkedin } = selected.contact;
+  return {
+    locale,
+    dir: textDirection(locale),
+    name: selected.personal.name || messages.portfolio,
+    headline: selected.personal.headline,
+    contact: [selected.personal.location, email, phone, website && displayUrl(website), linkedin && displayUrl(linkedin)]
+      .filter((value): value is string => !!value?.trim()),
+    sections,
+  };
+}
+
+function content(
+  profile: LinkedInProfile,
+  section: PortfolioSection,
+  limits: ResumeLimits,
+  locale: string,
+  messages: PortfolioMessages,
+): Partial<ResumeSection> {
+  switch (section) {
+    case 'about':
+      return { text: profile.personal.summary };
+    case 'experience':
+      return {
+        entries: profile.experience.map(exp => ({
+          title: exp.title,
+          subtitle: exp.company,
+          dates: formatDateRange(locale, exp.startDate, exp.endDate, exp.current),
+          location: exp.location ?? '',
+          bullets: [...bulletLines(exp.description), ...exp.achievements].slice(0, limits.bullets),
+        })),
+      };
+    case 'projects':
+      return {
+        entries: profile.projects.map(proj => ({
+          title: proj.name,
+          subtitle: proj.url ? displayUrl(proj.url) : '',
+          dates: formatDateRange(locale, proj.startDate, proj.endDate),
+          location: '',
+          bullets: bulletLines(proj.description).slice(0, limits.bullets),
+        })),
+      };
+    case 'education':
+      return {
+        entries: profile.education.map(edu => ({
+          title: edu.institution,
+          subtitle: [edu.degree, edu.field].filter(Boolean).join(', '),
+          dates: formatDateRange(locale, edu.startDate, edu.endDate),
+          location: '',
+          bullets: edu.gpa ? [formatMessage(messages.grade, { grade: edu.gpa })] : [],
+        })),
+      };
+    case 'certifications':
+      return {
+        entries: profile.certifications.map(cert => ({
+          title: cert.name,
+          subtitle: cert.issuer,
+          dates: cert.issueDate ? formatDate(cert.issueDate, locale) : '',
+          location: '',
+          bullets: [],
+        })),
+      };
+    case 'volunteer':
+      return {
+        entries: profile.volunteer.map(vol => ({
+          title: vol.role,
+          subtitle: vol.organization,
+          dates: formatDateRange(locale, vol.startDate, vol.endDate),
+          location: '',
+          bullets: bulletLines(vol.description).slice(0, limits.bullets),
+        })),
+      };
+    case 'skills':
+      return { items: profile.skills };
+    case 'languages':
+      return { items: profile.languages.map(lang => `${lang.name} (${messages.proficiency[lang.proficiency] ?? lang.proficiency})`) };
+    default:
+      return {};
+  }
+}
+
+// Each line of a description is a bullet, with any "•", "-" or "*" marker removed
+function bulletLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.trim().replace(/^[•·*-]\s*/, ''))
+    .filter(Boolean);
+}
+
+function displayUrl(url: string): string {
+  return url.replace(/^https?:\/\/(www\.)?/i, '').replace(/\/$/, '');
+}
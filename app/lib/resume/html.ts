@@ -0,0 +1,101 @@
+/**
+ * Résumé HTML
+ * A print-ready page for the résumé: @page sets the paper size and margins,
+ * type is set in points, and entries never break across pages.
+ */
+
+import { fontStack, type ThemeTokens } from '../templates/theme';
+import type { ResumeDocument, ResumeEntry, ResumeSection } from './document';
+
+export interface ResumeHtmlOptions {
+  theme: ThemeTokens;
+  ats?: boolean;
+  pageSize?: 'letter' | 'a4';
+}
+
+const PRINT_CSS = `
+*, *::before, *::after { box-sizing: border-box; }
+body { margin: 0; font-family: var(--font-body); font-size: 10pt; line-height: 1.35; color: var(--color-text); background: #fff; }
+.resume { max-width: 7.5in; margin: 0 auto; }
+.resume-header h1 { margin: 0; font-size: 20pt; line-height: 1.15; }
+.resume-header .headline { margin: 2pt 0 0; font-size: 11pt; }
+.resume-header .contact { margin: 4pt 0 0; padding: 0; list-style: none; color: var(--color-muted); }
+.resume-header .contact li { display: inline; }
+.resume-header .contact li + li::before { content: " · "; }
+.resume-section { margin-top: 12pt; }
+.resume-section h2 { margin: 0 0 4pt; padding-bottom: 2pt; font-size: 11pt; text-transform: uppercase; letter-spacing: 0.04em; color: var(--color-accent); border-bottom: 0.75pt solid var(--color-accent); }
+.resume-section p { margin: 0; }
+.resume-entry { margin-top: 6pt; break-inside: avoid; page-break-inside: avoid; }
+.resume-entry h3 { display: flex; justify-content: space-between; gap: 12pt; margin: 0; font-size: 10pt; }
+.resume-entry .dates { font-weight: normal; white-space: nowrap; color: var(--color-muted); }
+.resume-entry .subtitle { margin: 0; }
+.resume-entry ul { margin: 2pt 0 0; padding-inline-start: 14pt; }
+.resume-ats { --color-text: #000; --color-muted: #000; --color-accent: #000; --font-body: Arial, Helvetica, sans-serif; }
+.resume-ats .resume-section h2 { border: 0; padding: 0; }
+.resume-ats .resume-entry h3 { display: block; }
+.resume-ats .resume-entry .dates::before { content: " | "; }
+@media screen { body { padding: 0.6in 0; } }
+`;
+
+/**
+ * Standalone HTML document for the résumé
+ */
+export function renderResumeHtml(resume: ResumeDocument, options: ResumeHtmlOptions): string {
+  const { palette, typography } = options.theme;
+  const css = [
+    `@page { size: ${options.pageSize === 'a4' ? 'A4' : 'letter'}; margin: 0.6in; }`,
+    PRINT_CSS.trim(),
+    `:root { --font-body: ${fontStack(typography)}; --color-text: ${palette.text}; --color-muted: ${palette.muted}; --color-accent: ${palette.accent}; }`,
+  ].join('\n');
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${escapeHtml(resume.locale)}"${resume.dir === 'rtl' ? ' dir="rtl"' : ''}>`,
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(resume.name)}</title>`,
+    `<style>${css}\n</style>`,
+    '</head>',
+    `<body class="${options.ats ? 'resume-ats' : 'resume-styled'}">`,
+    '<main class="resume">',
+    '<header class="resume-header">',
+    `<h1>${escapeHtml(resume.name)}</h1>`,
+    resume.headline ? `<p class="headline">${escapeHtml(resume.headline)}</p>` : '',
+    resume.contact.length > 0 ? `<ul class="contact">${resume.contact.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` : '',
+    '</header>',
+    ...resume.sections.map(renderSection),
+    '</main>',
+    '</body>',
+    '</html>',
+  ].filter(Boolean).join('\n') + '\n';
+}
+
+function renderSection(section: ResumeSection): string {
+  const body = [
+    section.text ? `<p>${escapeHtml(section.text)}</p>` : '',
+    ...section.entries.map(renderEntry),
+    section.items.length > 0 ? `<p>${section.items.map(escapeHtml).join(', ')}</p>` : '',
+  ].join('');
+  return `<section class="resume-section resume-section--${section.id}"><h2>${escapeHtml(section.heading)}</h2>${body}</section>`;
+}
+
+function renderEntry(entry: ResumeEntry): string {
+  const details = [entry.subtitle, entry.location].filter(Boolean).join(' · ');
+  return [
+    '<div class="resume-entry">',
+    `<h3><span>${escapeHtml(entry.title || entry.subtitle)}</span>${entry.dates ? `<span class="dates">${escapeHtml(entry.dates)}</span>` : ''}</h3>`,
+    entry.title && details ? `<p class="subtitle">${escapeHtml(details)}</p>` : '',
+    entry.bullets.length > 0 ? `<ul>${entry.bullets.map(bullet => `<li>${escapeHtml(bullet)}</li>`).join('')}</ul>` : '',
+    '</div>',
+  ].join('');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
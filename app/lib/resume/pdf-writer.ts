@@ -0,0 +1,280 @@
+/**
+ * PDF Writer
+ * Just enough of PDF 1.4 to typeset text documents on a server: the
+ * standard Helvetica, Times and Courier fonts (no embedding, so no font
+ * files), WinAnsi text, lines and Flate-compressed pages. Text outside
+ * WinAnsi is replaced with "?" and reported.
+ */
+
+import { zlibSync } from 'fflate';
+
+export type PdfFontFamily = 'helvetica' | 'times' | 'courier';
+
+export interface PdfTextStyle {
+  size: number;
+  bold?: boolean;
+  // 0-255 RGB; defaults to black
+  color?: [number, number, number];
+}
+
+export interface PdfMetadata {
+  title?: string;
+  author?: string;
+}
+
+// Points; 72 per inch
+export const PAGE_SIZES = {
+  letter: [612, 792] as [number, number],
+  a4: [595.28, 841.89] as [number, number],
+};
+
+const BASE_FONTS: Record<PdfFontFamily, [string, string]> = {
+  helvetica: ['Helvetica', 'Helvetica-Bold'],
+  times: ['Times-Roman', 'Times-Bold'],
+  courier: ['Courier', 'Courier-Bold'],
+};
+
+// Advance widths (1/1000 em) for characters 32-126, from the Adobe core font metrics
+const ASCII_WIDTHS: Record<string, number[]> = {
+  'Helvetica': widths(`278 278 355 556 556 889 667 191 333 333 389 584 278 333 278 278 556*10 278 278 584 584 584 556 1015
+    667 667 722 722 667 611 778 722 278 500 667 556 833 722 778 667 778 722 667 611 722 667 944 667 667 611 278 278 278 469 556 333
+    556 556 500 556 556 278 556 556 222 222 500 222 833 556 556 556 556 333 500 278 556 500 722 500 500 500 334 260 334 584`),
+  'Helvetica-Bold': widths(`278 333 474 556 556 889 722 238 333 333 389 584 278 333 278 278 556*10 333 333 584 584 584 611 975
+    722 722 722 722 667 611 778 722 278 556 722 611 833 722 778 667 778 722 667 611 722 667 944 667 667 611 333 278 333 584 556 333
+    556 611 556 611 556 333 611 611 278 278 556 278 889 611 611 611 611 389 556 333 611 556 778 556 556 500 389 280 389 584`),
+  'Times-Roman': widths(`250 333 408 500 500 833 778 180 333 333 500 564 250 333 250 278 500*10 278 278 564 564 564 444 921
+    722 667 667 722 611 556 722 722 333 389 722 611 889 722 722 556 722 667 556 611 722 722 944 722 722 611 333 278 333 469 500 333
+    444 500 444 500 444 333 500 500 278 278 500 278 778 500 500 500 500 333 389 278 500 500 722 500 500 444 480 200 480 541`),
+  'Times-Bold': widths(`250 333 555 500 500 1000 833 278 333 333 500 570 250 333 250 278 500*10 333 333 570 570 570 500 930
+    722 667 722 722 667 611 778 778 389 500 778 667 944 722 778 611 778 722 556 667 722 722 1000 722 722 667 333 278 333 581 500 333
+    500 556 444 556 444 333 500 556 278 333 556 278 833 556 500 556 556 444 389 333 556 500 722 500 500 444 394 220 394 520`),
+  'Courier': widths('600*95'),
+  'Courier-Bold': widths('600*95'),
+};
+
+// Punctuation beyond ASCII that résumés use, by WinAnsi code:
+// [Helvetica, Helvetica-Bold, Times-Roman, Times-Bold]
+const PUNCTUATION_WIDTHS: Record<number, [number, number, number, number]> = {
+  0x80: [556, 556, 500, 500],
+  0x85: [1000, 1000, 1000, 1000],
+  0x91: [222, 278, 333, 333],
+  0x92: [222, 278, 333, 333],
+  0x93: [333, 500, 444, 500],
+  0x94: [333, 500, 444, 500],
+  0x95: [350, 350, 350, 350],
+  0x96: [556, 556, 500, 500],
+  0x97: [1000, 1000, 1000, 1000],
+  0xa0: [278, 278, 250, 250],
+  0xa9: [737, 737, 760, 747],
+  0xb7: [278, 278, 250, 250],
+};
+
+// Unicode characters WinAnsi places at 0x80-0x9f
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87,
+  'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91,
+  '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98,
+  '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+export class PdfWriter {
+  private pages: string[][] = [];
+  private fonts: [string, string];
+  // Characters that had to be replaced with "?"
+  readonly unsupported = new Set<string>();
+
+  constructor(family: PdfFontFamily = 'helvetica', readonly size: [number, number] = PAGE_SIZES.letter) {
+    this.fonts = BASE_FONTS[family];
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  /** Width of the text in points */
+  measure(text: string, style: PdfTextStyle): number {
+    const font = this.fonts[style.bold ? 1 : 0];
+    let units = 0;
+    for (const char of text) {
+      units += glyphWidth(font, char);
+    }
+    return (units * style.size) / 1000;
+  }
+
+  /** Break text into lines no wider than `width`; long words are split */
+  wrap(text: string, width: number, style: PdfTextStyle): string[] {
+    const lines: string[] = [];
+    let line = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (this.measure(candidate, style) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+
+      line = word;
+      while (this.measure(line, style) > width && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && this.measure(line.slice(0, cut), style) > width) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    if (line) lines.push(line);
+    return lines;
+  }
+
+  /** Draw text with its baseline at y (measured from the bottom of the page) */
+  text(x: number, y: number, text: string, style: PdfTextStyle): void {
+    const [r, g, b] = (style.color ?? [0, 0, 0]).map(channel => number(channel / 255));
+    this.current().push(
+      `BT ${r} ${g} ${b} rg /F${style.bold ? 2 : 1} ${number(style.size)} Tf ${number(x)} ${number(y)} Td (${this.encode(text)}) Tj ET`,
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: [number, number, number] = [0, 0, 0], width = 0.75): void {
+    const [r, g, b] = color.map(channel => number(channel / 255));
+    this.current().push(`${r} ${g} ${b} RG ${number(width)} w ${number(x1)} ${number(y1)} m ${number(x2)} ${number(y2)} l S`);
+  }
+
+  /**
+   * Serialise the document. Nothing in the output depends on the clock, so
+   * the same input always gives the same bytes.
+   */
+  finish(metadata: PdfMetadata = {}): Uint8Array {
+    if (this.pages.length === 0) this.addPage();
+
+    const [width, height] = this.size;
+    const objects: (string | Uint8Array)[] = [];
+    const add = (object: string | Uint8Array) => objects.push(object);
+
+    const pageIds = this.pages.map((_, index) => 6 + index * 2);
+    add('<< /Type /Catalog /Pages 2 0 R >>');
+    add(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`);
+    add(`<< /Type /Font /Subtype /Type1 /BaseFont /${this.fonts[0]} /Encoding /WinAnsiEncoding >>`);
+    add(`<< /Type /Font /Subtype /Type1 /BaseFont /${this.fonts[1]} /Encoding /WinAnsiEncoding >>`);
+    add(`<< ${[
+      metadata.title ? `/Title (${this.encode(metadata.title)})` : '',
+      metadata.author ? `/Author (${this.encode(metadata.author)})` : '',
+      '/Creator (AppVantix)',
+    ].filter(Boolean).join(' ')} >>`);
+
+    for (const [index, operations] of this.pages.entries()) {
+      add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${number(width)} ${number(height)}] `
+        + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`);
+      const stream = zlibSync(latin1Bytes(operations.join('\n')));
+      add(concat([
+        latin1Bytes(`<< /Length ${stream.byteLength} /Filter /FlateDecode >>\nstream\n`),
+        stream,
+        latin1Bytes('\nendstream'),
+      ]));
+    }
+
+    // The binary comment line tells transfer tools the file is not text
+    const parts: Uint8Array[] = [latin1Bytes('%PDF-1.4\n%\u00e2\u00e3\u00cf\u00d3\n')];
+    let offset = parts[0].byteLength;
+    const offsets: number[] = [];
+
+    objects.forEach((object, index) => {
+      const body = typeof object === 'string' ? latin1Bytes(object) : object;
+      const chunk = concat([latin1Bytes(`${index + 1} 0 obj\n`), body, latin1Bytes('\nendobj\n')]);
+      offsets.push(offset);
+      parts.push(chunk);
+      offset += chunk.byteLength;
+    });
+
+    parts.push(latin1Bytes([
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(position => `${String(position).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+      'startxref',
+      String(offset),
+      '%%EOF',
+      '',
+    ].join('\n')));
+
+    return concat(parts);
+  }
+
+  private current(): string[] {
+    if (this.pages.length === 0) this.addPage();
+    return this.pages[this.pages.length - 1];
+  }
+
+  /**
+   * PDF string literal body in WinAnsi; bytes outside printable ASCII are
+   * written as octal escapes so the file stays 7-bit outside streams
+   */
+  private encode(text: string): string {
+    let encoded = '';
+    for (const char of text.normalize('NFC')) {
+      let code = winAnsiCode(char);
+      if (code === undefined) {
+        this.unsupported.add(char);
+        code = 0x3f;
+      }
+
+      if (code === 0x28 || code === 0x29 || code === 0x5c) encoded += `\\${String.fromCharCode(code)}`;
+      else if (code < 0x20 || code > 0x7e) encoded += `\\${code.toString(8).padStart(3, '0')}`;
+      else encoded += String.fromCharCode(code);
+    }
+    return encoded;
+  }
+}
+
+function winAnsiCode(char: string): number | undefined {
+  if (char === '\n' || char === '\t') return 0x20;
+  const code = char.charCodeAt(0);
+  if (char.length === 1 && ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff))) return code;
+  return WIN_ANSI_EXTRAS[char];
+}
+
+function glyphWidth(font: string, char: string): number {
+  const code = winAnsiCode(char) ?? 0x3f;
+  if (code >= 0x20 && code <= 0x7e) return ASCII_WIDTHS[font][code - 0x20];
+  if (font.startsWith('Courier')) return 600;
+
+  const punctuation = PUNCTUATION_WIDTHS[code];
+  if (punctuation) {
+    return punctuation[(font.startsWith('Times') ? 2 : 0) + (font.endsWith('Bold') ? 1 : 0)];
+  }
+
+  // Accented letters are as wide as the letter without the accent
+  const base = char.normalize('NFD').charCodeAt(0);
+  if (base >= 0x20 && base <= 0x7e) return ASCII_WIDTHS[font][base - 0x20];
+  return ASCII_WIDTHS[font][0x6e - 0x20];
+}
+
+function widths(spec: string): number[] {
+  return spec.trim().split(/\s+/).flatMap(token => {
+    const [width, repeat = '1'] = token.split('*');
+    return Array<number>(Number(repeat)).fill(Number(width));
+  });
+}
+
+function number(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function latin1Bytes(text: string): Uint8Array {
+  return Uint8Array.from(text, char => char.charCodeAt(0) & 0xff);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.byteLength;
+  }
+  return result;
+}
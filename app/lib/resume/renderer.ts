@@ -0,0 +1,242 @@
+/**
+ * Résumé Renderer
+ * One- or two-page CVs from the same profile and theme as the portfolio:
+ * a print-optimised HTML page, and a PDF typeset on the server with the
+ * standard PDF fonts, so no headless browser is involved.
+ */
+
+import type { LinkedInProfile } from '../linkedin/import';
+import { getTemplate } from '../templates';
+import { defaultTheme, type ThemeTokens } from '../templates/theme';
+import type { PortfolioTemplate } from '../templates/types';
+import { buildResume, type ResumeDocument, type ResumeEntry, type ResumeOptions } from './document';
+import { renderResumeHtml } from './html';
+import { PAGE_SIZES, PdfWriter, type PdfFontFamily, type PdfTextStyle } from './pdf-writer';
+
+export interface RenderedResumePdf {
+  filename: string;
+  pdf: Uint8Array;
+  pageCount: number;
+  warnings: string[];
+}
+
+type Rgb = [number, number, number];
+
+interface ParagraphLayout {
+  indent?: number;
+  reserve?: number;
+  marker?: string;
+  beside?: () => void;
+}
+
+// 0.6in, matching the HTML's @page margins
+const MARGIN = 43.2;
+const BLACK: Rgb = [0, 0, 0];
+
+const STYLES = {
+  name: { size: 20, bold: true },
+  headline: { size: 11 },
+  contact: { size: 9 },
+  heading: { size: 11, bold: true },
+  title: { size: 10, bold: true },
+  body: { size: 10 },
+} satisfies Record<string, PdfTextStyle>;
+
+export class ResumeRenderer {
+  /**
+   * Print-ready HTML; the browser's "Save as PDF" gives the same page
+   */
+  renderHtml(profile: LinkedInProfile, template: PortfolioTemplate | string, options: ResumeOptions = {}): string {
+    const resolved = resolveTemplate(template);
+    const theme = options.theme ?? defaultTheme(resolved);
+    return renderResumeHtml(buildResume(profile, resolved, { ...options, theme }), {
+      theme,
+      ats: options.ats,
+      pageSize: options.pageSize,
+    });
+  }
+
+  renderPdf(profile: LinkedInProfile, template: PortfolioTemplate | string, options: ResumeOptions = {}): RenderedResumePdf {
+    const resolved = resolveTemplate(template);
+    const theme = options.theme ?? defaultTheme(resolved);
+    const resume = buildResume(profile, resolved, { ...options, theme });
+    const maxPages = options.length === 'one-page' ? 1 : 2;
+
+    const writer = new PdfWriter(options.ats ? 'helvetica' : pdfFont(theme), PAGE_SIZES[options.pageSize ?? 'letter']);
+    const complete = new PdfLayout(writer, theme, !!options.ats, maxPages).draw(resume);
+    const pdf = writer.finish({ title: resume.name, author: resume.name });
+
+    const warnings: string[] = [];
+    if (!complete) {
+      warnings.push(`The résumé is longer than ${maxPages === 1 ? 'one page' : `${maxPages} pages`}; the end was left out`);
+    }
+    if (writer.unsupported.size > 0) {
+      warnings.push(`Characters the PDF fonts can't show were replaced with "?": ${Array.from(writer.unsupported).slice(0, 10).join(' ')}`);
+    }
+
+    return {
+      filename: `${slugify(resume.name) || 'resume'}-resume.pdf`,
+      pdf,
+      pageCount: writer.pageCount,
+      warnings,
+    };
+  }
+}
+
+/**
+ * Top-down layout over the PDF writer's bottom-up coordinates. Stops
+ * drawing once the page budget is used up.
+ */
+class PdfLayout {
+  private y = 0;
+  private full = false;
+  private colors: { text: Rgb; muted: Rgb; accent: Rgb };
+
+  constructor(private writer: PdfWriter, theme: ThemeTokens, private ats: boolean, private maxPages: number) {
+    this.colors = ats
+      ? { text: BLACK, muted: BLACK, accent: BLACK }
+      : { text: hexToRgb(theme.palette.text), muted: hexToRgb(theme.palette.muted), accent: hexToRgb(theme.palette.accent) };
+  }
+
+  private get width(): number {
+    return this.writer.size[0] - MARGIN * 2;
+  }
+
+  /** Returns false when content had to be left out */
+  draw(resume: ResumeDocument): boolean {
+    this.newPage();
+
+    this.paragraph(resume.name, STYLES.name, this.colors.text);
+    if (resume.headline) this.paragraph(resume.headline, STYLES.headline, this.colors.text);
+    if (resume.contact.length > 0) this.paragraph(resume.contact.join('  ·  '), STYLES.contact, this.colors.muted);
+
+    for (const section of resume.sections) {
+      // Keep a heading with at least two lines of its content
+      if (!this.room(lineHeight(STYLES.heading) + 8 + lineHeight(STYLES.body) * 2)) break;
+
+      this.y -= 10;
+      this.paragraph(this.ats ? section.heading : section.heading.toUpperCase(), STYLES.heading, this.colors.accent);
+      if (!this.ats) {
+        this.writer.line(MARGIN, this.y + 2, MARGIN + this.width, this.y + 2, this.colors.accent, 0.75);
+      }
+      this.y -= 4;
+
+      if (section.text) this.paragraph(section.text, STYLES.body, this.colors.text);
+      for (const entry of section.entries) {
+        if (!this.entry(entry)) break;
+      }
+      if (section.items.length > 0) this.paragraph(section.items.join(', '), STYLES.body, this.colors.text);
+      if (this.full) break;
+    }
+    return !this.full;
+  }
+
+  private entry(entry: ResumeEntry): boolean {
+    const details = [entry.subtitle, entry.location].filter(Boolean).join(' · ');
+    // Title, details and the first bullet stay together
+    const minimum = lineHeight(STYLES.title) + (details ? lineHeight(STYLES.body) : 0) + (entry.bullets.length > 0 ? lineHeight(STYLES.body) : 0) + 4;
+    if (!this.room(minimum)) return false;
+
+    this.y -= 4;
+    const dates = entry.dates;
+    const datesWidth = dates ? this.writer.measure(dates, STYLES.body) : 0;
+    if (this.ats) {
+      this.paragraph([entry.title || entry.subtitle, dates].filter(Boolean).join(' | '), STYLES.title, this.colors.text);
+    } else {
+      this.paragraph(entry.title || entry.subtitle, STYLES.title, this.colors.text, {
+        reserve: dates ? datesWidth + 12 : 0,
+        beside: () => {
+          if (dates) this.writer.text(MARGIN + this.width - datesWidth, this.y, dates, { ...STYLES.body, color: this.colors.muted });
+        },
+      });
+    }
+    if (entry.title && details) this.paragraph(details, STYLES.body, this.colors.text);
+
+    for (const bullet of entry.bullets) {
+      this.paragraph(bullet, STYLES.body, this.colors.text, { indent: 12, marker: '•' });
+      if (this.full) break;
+    }
+    return !this.full;
+  }
+
+  /**
+   * Wrapped text at the cursor. `reserve` keeps space free at the end of
+   * the lines for `beside`, which draws next to the first line; a marker
+   * hangs in the indent.
+   */
+  private paragraph(text: string, style: PdfTextStyle, color: Rgb, layout: ParagraphLayout = {}): void {
+    const { indent = 0, reserve = 0, marker, beside } = layout;
+    const lines = this.writer.wrap(text, this.width - indent - reserve, style);
+
+    lines.forEach((line, index) => {
+      if (!this.room(lineHeight(style))) return;
+
+      this.y -= lineHeight(style);
+      this.writer.text(MARGIN + indent, this.y, line, { ...style, color });
+      if (index === 0) {
+        if (marker) this.writer.text(MARGIN + 2, this.y, marker, { ...style, color });
+        beside?.();
+      }
+    });
+  }
+
+  /** Make room for `height` points, starting a new page if allowed */
+  private room(height: number): boolean {
+    if (this.full) return false;
+    if (this.y - height >= MARGIN) return true;
+    if (this.writer.pageCount >= this.maxPages) {
+      this.full = true;
+      return false;
+    }
+    this.newPage();
+    return true;
+  }
+
+  private newPage(): void {
+    this.writer.addPage();
+    this.y = this.writer.size[1] - MARGIN;
+  }
+}
+
+function lineHeight(style: PdfTextStyle): number {
+  return style.size * 1.3;
+}
+
+function pdfFont(theme: ThemeTokens): PdfFontFamily {
+  switch (theme.typography.fallback) {
+    case 'serif':
+      return 'times';
+    case 'monospace':
+      return 'courier';
+    default:
+      return 'helvetica';
+  }
+}
+
+function hexToRgb(hex: string): Rgb {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(char => char + char).join('') : value;
+  return [0, 2, 4].map(offset => parseInt(full.slice(offset, offset + 2), 16) || 0) as Rgb;
+}
+
+function resolveTemplate(template: PortfolioTemplate | string): PortfolioTemplate {
+  const resolved = typeof template === 'string' ? getTemplate(template) : template;
+  if (!resolved) {
+    throw new Error(`Unknown template: ${template}`);
+  }
+  return resolved;
+}
+
+function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// Export factory function
+export function createResumeRenderer(): ResumeRenderer {
+  return new ResumeRenderer();
+}
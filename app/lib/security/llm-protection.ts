@@ -74,28 +74,39 @@ Focus on: clean design, fast loading, SEO optimization, professional presentatio
     id: 'template_customizer',
     name: 'Template Customization AI',
     content: `You are a template customization specialist for AppVantix Web Builder.
-Modify portfolio templates based on user preferences while maintaining quality.
+Translate the user's request into changes to the portfolio's design tokens.
 
 GUIDELINES:
-1. Preserve template structure and functionality
-2. Apply color schemes, fonts, and layouts as requested
-3. Ensure design consistency and visual hierarchy
-4. Maintain responsive behavior across devices
-5. Keep loading performance optimized
+1. Only change the tokens listed in the context, using the values they allow
+2. Change as few tokens as the request needs
+3. Keep text, links and tags at a 4.5:1 contrast ratio or better against their backgrounds
+4. sectionOrder may only reorder or leave out the template's own sections
+5. Ensure design consistency and visual hierarchy
 6. Follow brand guidelines when specified
-7. Test all interactive elements
-8. Validate CSS and HTML output
 
 RESTRICTIONS:
-- No breaking changes to core functionality
-- No removal of required elements
-- No addition of unapproved third-party resources
-- No security vulnerabilities in generated code`,
+- Respond with the JSON object described in the context and nothing else
+- No CSS, HTML or scripts
+- No URLs or third-party resources`,
     locked: true,
-    hash: 'sha256:template_customizer_v1.0'
+    hash: 'sha256:template_customizer_v2.0'
   }
 };
 
+export interface PromptInputRules {
+  maxLength: number;
+  // Pasted profile text: "System: design reviews" headings and "exploit development"
+  // experience are allowed; only line-start role markers and requests for harmful content are refused
+  profileText: boolean;
+}
+
+const DEFAULT_INPUT_RULES: PromptInputRules = { maxLength: 4000, profileText: false };
+
+// Prompts whose user input is checked differently from chat-style requests
+export const PROMPT_INPUT_RULES: Record<string, PromptInputRules> = {
+  LINKEDIN_PARSER: { maxLength: 40000, profileText: true },
+};
+
 export class LLMSecurityService {
   private config: LLMSecurityConfig;
   private rateLimitStore: Map<string, { count: number; resetTime: number }> = new Map();
@@ -107,15 +118,20 @@ export class LLMSecurityService {
   /**
    * Validate and secure user prompt input
    */
-  validatePrompt(userPrompt: string, userId: string): { valid: boolean; sanitized?: string; error?: string } {
+  validatePrompt(
+    userPrompt: string,
+    userId: string,
+    rules: PromptInputRules = DEFAULT_INPUT_RULES,
+  ): { valid: boolean; sanitized?: string; error?: string } {
+    const { maxLength, profileText } = rules;
     try {
       // Check for prompt injection attempts
       const injectionPatterns = [
         /ignore\s+previous\s+instructions/i,
         /forget\s+everything\s+above/i,
         /you\s+are\s+now\s+a/i,
-        /system\s*:\s*/i,
-        /assistant\s*:\s*/i,
+        // In profiles only at the start of a line; "Operating system: Linux" is fine
+        ...(profileText ? [/^\s*(system|assistant)\s*:/im] : [/system\s*:\s*/i, /assistant\s*:\s*/i]),
         /\/\*[\s\S]*?\*\//g, // Block comments
         /<script[\s\S]*?<\/script>/gi,
         /javascript:/i,
@@ -134,16 +150,16 @@ export class LLMSecurityService {
       }
 
       // Length validation
-      if (userPrompt.length > 4000) {
+      if (userPrompt.length > maxLength) {
         return {
           valid: false,
-          error: 'Prompt too long. Please keep requests under 4000 characters.'
+          error: `Prompt too long. Please keep requests under ${maxLength} characters.`
         };
       }
 
       // Content filtering
       if (this.config.enableContentFiltering) {
-        const inappropriateContent = this.detectInappropriateContent(userPrompt);
+        const inappropriateContent = this.detectInappropriateContent(userPrompt, profileText);
         if (inappropriateContent) {
           return {
             valid: false,
@@ -244,15 +260,21 @@ export class LLMSecurityService {
   }
 
   /**
-   * Detect inappropriate content
+   * Detect inappropriate content. In profile text only requests are matched:
+   * "vulnerability research" or "fraud detection" there is fine.
    */
-  private detectInappropriateContent(text: string): boolean {
-    const inappropriatePatterns = [
-      /\b(hack|exploit|vulnerability)\b/i,
-      /\b(malware|virus|trojan)\b/i,
-      /\b(steal|theft|fraud)\b/i,
-      // Add more patterns as needed
-    ];
+  private detectInappropriateContent(text: string, profileText = false): boolean {
+    const inappropriatePatterns = profileText
+      ? [
+        /\b(write|create|generate|build|make|code|give me)\b[^.\n]{0,40}\b(malware|virus|trojan|ransomware|keylogger|exploit|phishing)\b/i,
+        /\b(how (do i|to)|help me|teach me)\s+(hack|exploit|steal|commit fraud)\b/i,
+      ]
+      : [
+        /\b(hack|exploit|vulnerability)\b/i,
+        /\b(malware|virus|trojan)\b/i,
+        /\b(steal|theft|fraud)\b/i,
+        // Add more patterns as needed
+      ];
 
     return inappropriatePatterns.some(pattern => pattern.test(text));
   }
@@ -295,7 +317,8 @@ export async function secureAIRequest(
   promptId: string, 
   userPrompt: string, 
   modelId: string,
-  env: any
+  env: any,
+  context?: any
 ): Promise<{ secure: boolean; prompt?: string; error?: string }> {
   const security = createLLMSecurityService(env);
 
@@ -318,7 +341,7 @@ export async function secureAIRequest(
   }
 
   // Validate and sanitize prompt
-  const validation = security.validatePrompt(userPrompt, userId);
+  const validation = security.validatePrompt(userPrompt, userId, PROMPT_INPUT_RULES[promptId]);
   if (!validation.valid) {
     security.logSecurityEvent(userId, 'prompt_validation_failed', { 
       reason: validation.error,
@@ -332,7 +355,7 @@ export async function secureAIRequest(
 
   try {
     // Build secure prompt
-    const securePrompt = security.buildSecurePrompt(promptId, validation.sanitized!);
+    const securePrompt = security.buildSecurePrompt(promptId, validation.sanitized!, context);
     return {
       secure: true,
       prompt: securePrompt
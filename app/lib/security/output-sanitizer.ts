@@ -0,0 +1,569 @@
+/**
+ * LLM Output Sanitizer
+ * Enforces the PORTFOLIO_GENERATOR "FORBIDDEN" rules on what the model sends
+ * back: markup is parsed and rebuilt from an allowlist of tags, attributes and
+ * URL schemes, scripts, fonts and frames are limited to approved hosts, and a
+ * Content-Security-Policy is produced for the published page.
+ */
+
+import { closest, parseHtml, serializeHtml, type HtmlElement, type HtmlNode } from '../html/parser';
+import { createLLMSecurityService, type LLMSecurityService } from './llm-protection';
+
+export interface SanitizerPolicy {
+  // Hosts allowed to serve each kind of third-party resource, e.g. "player.vimeo.com"
+  scriptHosts: string[];
+  styleHosts: string[];
+  fontHosts: string[];
+  frameHosts: string[];
+  // Rewrite external images (e.g. through an image proxy); return null to drop them.
+  // Without it, external images are kept, flagged and allowed in the CSP.
+  rewriteImageUrl?: (url: string) => string | null;
+}
+
+export type SanitizerAction = 'removed' | 'rewritten' | 'flagged';
+
+export interface SanitizerFinding {
+  action: SanitizerAction;
+  reason:
+    | 'disallowed_tag'
+    | 'event_handler'
+    | 'disallowed_attribute'
+    | 'unsafe_url'
+    | 'insecure_url'
+    | 'third_party_script'
+    | 'third_party_style'
+    | 'third_party_font'
+    | 'third_party_frame'
+    | 'inline_script'
+    | 'unsafe_css'
+    | 'external_resource';
+  detail: string;
+  line?: number;
+}
+
+export interface SanitizedOutput {
+  html: string;
+  findings: SanitizerFinding[];
+  // Policy for the published page, to send as a Content-Security-Policy header
+  csp: string;
+  // Third-party URLs the page still loads
+  externalResources: string[];
+}
+
+export const DEFAULT_SANITIZER_POLICY: SanitizerPolicy = {
+  scriptHosts: [],
+  styleHosts: [],
+  fontHosts: [],
+  frameHosts: ['www.youtube-nocookie.com', 'player.vimeo.com'],
+};
+
+const ALLOWED_TAGS = new Set([
+  'html', 'head', 'body', 'title', 'meta', 'link', 'style', 'script',
+  'main', 'header', 'footer', 'nav', 'section', 'article', 'aside', 'div', 'span',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'a', 'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'img', 'picture', 'source', 'figure', 'figcaption', 'iframe', 'video', 'audio', 'track',
+  'strong', 'em', 'b', 'i', 'u', 's', 'small', 'sub', 'sup', 'mark', 'abbr', 'cite', 'code', 'pre', 'kbd',
+  'blockquote', 'q', 'br', 'hr', 'time', 'address', 'details', 'summary', 'label', 'button',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'caption', 'colgroup', 'col',
+  'svg', 'g', 'path', 'circle', 'ellipse', 'rect', 'line', 'polyline', 'polygon', 'desc',
+]);
+
+// Removed together with everything inside them; other unknown tags are unwrapped
+const DROPPED_WITH_CONTENT = new Set([
+  'object', 'embed', 'applet', 'base', 'frame', 'frameset', 'template', 'noscript',
+  'input', 'select', 'textarea', 'option', 'math', 'foreignobject', 'portal',
+]);
+
+const GLOBAL_ATTRIBUTES = new Set(['id', 'class', 'title', 'lang', 'dir', 'role', 'hidden', 'tabindex', 'style']);
+
+const TAG_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'rel', 'target', 'hreflang', 'download'],
+  img: ['src', 'srcset', 'sizes', 'alt', 'width', 'height', 'loading', 'decoding'],
+  source: ['src', 'srcset', 'sizes', 'type', 'media'],
+  video: ['src', 'poster', 'controls', 'width', 'height', 'muted', 'loop', 'playsinline', 'preload'],
+  audio: ['src', 'controls', 'loop', 'preload'],
+  track: ['src', 'kind', 'srclang', 'label', 'default'],
+  iframe: ['src', 'width', 'height', 'allow', 'allowfullscreen', 'loading'],
+  link: ['rel', 'href', 'hreflang', 'type', 'media', 'sizes', 'crossorigin', 'integrity'],
+  meta: ['charset', 'name', 'property', 'content'],
+  script: ['src', 'type', 'async', 'defer', 'integrity', 'crossorigin'],
+  time: ['datetime'],
+  td: ['colspan', 'rowspan', 'headers'],
+  th: ['colspan', 'rowspan', 'headers', 'scope'],
+  col: ['span'],
+  colgroup: ['span'],
+  ol: ['start', 'reversed', 'type'],
+  blockquote: ['cite'],
+  q: ['cite'],
+  details: ['open'],
+  label: ['for'],
+  button: ['type', 'disabled'],
+  abbr: ['title'],
+  svg: ['viewbox', 'width', 'height', 'xmlns', 'fill', 'stroke', 'focusable', 'preserveaspectratio'],
+  g: ['fill', 'stroke', 'transform', 'opacity'],
+  path: ['d', 'fill', 'stroke', 'stroke-width', 'stroke-linecap', 'stroke-linejoin', 'fill-rule', 'clip-rule', 'transform', 'opacity'],
+  circle: ['cx', 'cy', 'r', 'fill', 'stroke', 'stroke-width', 'transform', 'opacity'],
+  ellipse: ['cx', 'cy', 'rx', 'ry', 'fill', 'stroke', 'stroke-width', 'transform', 'opacity'],
+  rect: ['x', 'y', 'width', 'height', 'rx', 'ry', 'fill', 'stroke', 'stroke-width', 'transform', 'opacity'],
+  line: ['x1', 'y1', 'x2', 'y2', 'stroke', 'stroke-width', 'stroke-linecap', 'transform', 'opacity'],
+  polyline: ['points', 'fill', 'stroke', 'stroke-width', 'stroke-linecap', 'stroke-linejoin', 'transform', 'opacity'],
+  polygon: ['points', 'fill', 'stroke', 'stroke-width', 'stroke-linejoin', 'transform', 'opacity'],
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src', 'srcset', 'poster', 'cite']);
+
+// <link rel> values we keep; anything else (preconnect, prefetch, import, ...) is dropped
+const LINK_RELS = new Set(['stylesheet', 'icon', 'apple-touch-icon', 'canonical', 'alternate', 'me']);
+
+// Scripts with these types are data, never executed
+const DATA_SCRIPT_TYPES = new Set(['application/ld+json', 'application/json']);
+
+const SAFE_DATA_IMAGE = /^data:image\/(png|jpe?g|gif|webp|avif);base64,[a-z0-9+/=\s]+$/i;
+
+export class OutputSanitizer {
+  constructor(
+    private security: Pick<LLMSecurityService, 'logSecurityEvent'>,
+    private policy: SanitizerPolicy = DEFAULT_SANITIZER_POLICY,
+  ) {}
+
+  /**
+   * Sanitise a generated page or fragment; every removal is logged for `userId`
+   */
+  async sanitizeHtml(html: string, userId: string): Promise<SanitizedOutput> {
+    const run = new SanitizerRun(this.policy);
+    const root = parseHtml(html);
+    const children = run.sanitizeChildren(root);
+    const doctype = /^\s*<!doctype html/i.test(html) ? '<!DOCTYPE html>\n' : '';
+
+    for (const finding of run.findings) {
+      if (finding.action === 'removed') {
+        this.security.logSecurityEvent(userId, 'llm_output_sanitized', finding);
+      }
+    }
+
+    return {
+      html: doctype ? `${doctype}${serializeHtml(children, root).trimStart()}` : serializeHtml(children, root),
+      findings: run.findings,
+      csp: await run.contentSecurityPolicy(),
+      externalResources: [...run.externalResources].sort(),
+    };
+  }
+
+  /**
+   * Sanitise a generated stylesheet on its own
+   */
+  sanitizeCss(css: string, userId: string): { css: string; findings: SanitizerFinding[] } {
+    const run = new SanitizerRun(this.policy);
+    const clean = run.sanitizeCss(css);
+
+    for (const finding of run.findings) {
+      if (finding.action === 'removed') {
+        this.security.logSecurityEvent(userId, 'llm_output_sanitized', finding);
+      }
+    }
+    return { css: clean, findings: run.findings };
+  }
+}
+
+/**
+ * State for one sanitiser pass: findings plus the sources the CSP must allow
+ */
+class SanitizerRun {
+  findings: SanitizerFinding[] = [];
+  externalResources = new Set<string>();
+  private sources = {
+    script: new Set<string>(),
+    style: new Set<string>(),
+    font: new Set<string>(),
+    frame: new Set<string>(),
+    image: new Set<string>(),
+    media: new Set<string>(),
+  };
+  private inlineStyles: string[] = [];
+  private styleAttributes = false;
+
+  constructor(private policy: SanitizerPolicy) {}
+
+  sanitizeChildren(parent: HtmlElement): HtmlNode[] {
+    const result: HtmlNode[] = [];
+    for (const child of parent.children) {
+      if (typeof child === 'string') {
+        result.push(child);
+      } else {
+        result.push(...this.sanitizeElement(child));
+      }
+    }
+    return result;
+  }
+
+  sanitizeCss(css: string, line?: number): string {
+    let clean = css.replace(/@import\s+[^;]+;?/gi, statement => {
+      this.remove('unsafe_css', `@import ${statement.replace(/^@import\s+/i, '').trim()}`, line);
+      return '';
+    });
+
+    clean = clean.replace(/expression\s*\(|javascript:|vbscript:|-moz-binding|behavior\s*:/gi, match => {
+      this.remove('unsafe_css', match, line);
+      return '/* removed */';
+    });
+
+    // Fonts come from @font-face src; other url()s are images
+    clean = clean.replace(/@font-face\s*{[^}]*}/gi, block => block.replace(/url\(\s*(['"]?)([^'")]*)\1\s*\)/gi, (match, _quote, url: string) =>
+      this.cssUrl(url, 'font', line) ? match : 'none'));
+    clean = clean.replace(/url\(\s*(['"]?)([^'")]*)\1\s*\)/gi, (match, _quote, url: string) =>
+      this.cssUrl(url, 'image', line) ? match : 'none');
+
+    return clean;
+  }
+
+  async contentSecurityPolicy(): Promise<string> {
+    const styleHashes = await Promise.all(this.inlineStyles.map(async css => `'sha256-${await sha256Base64(css)}'`));
+    const list = (values: Iterable<string>, fallback = "'none'") => {
+      const items = [...values];
+      return items.length > 0 ? items.join(' ') : fallback;
+    };
+
+    return [
+      "default-src 'none'",
+      `script-src ${list([...this.sources.script].map(host => `https://${host}`))}`,
+      `style-src ${list(["'self'", ...[...this.sources.style].map(host => `https://${host}`), ...styleHashes])}`,
+      this.styleAttributes ? "style-src-attr 'unsafe-inline'" : '',
+      `img-src ${list(["'self'", 'data:', ...[...this.sources.image].map(host => `https://${host}`)])}`,
+      `font-src ${list(["'self'", ...[...this.sources.font].map(host => `https://${host}`)])}`,
+      `media-src ${list(["'self'", ...[...this.sources.media].map(host => `https://${host}`)])}`,
+      `frame-src ${list([...this.sources.frame].map(host => `https://${host}`))}`,
+      "connect-src 'none'",
+      "object-src 'none'",
+      "base-uri 'none'",
+      "form-action 'none'",
+      "frame-ancestors 'none'",
+      'upgrade-insecure-requests',
+    ].filter(Boolean).join('; ');
+  }
+
+  private sanitizeElement(element: HtmlElement): HtmlNode[] {
+    const { tag, line } = element;
+
+    if (DROPPED_WITH_CONTENT.has(tag)) {
+      this.remove('disallowed_tag', `<${tag}>`, line);
+      return [];
+    }
+    if (!ALLOWED_TAGS.has(tag)) {
+      // Keep the content of harmless unknown wrappers such as <center> or <font>
+      this.remove('disallowed_tag', `<${tag}>`, line);
+      return this.sanitizeChildren(element);
+    }
+
+    if (tag === 'style' && closest(element, 'svg')) {
+      // SVG styles are parsed as markup, so their "CSS" could smuggle in elements
+      this.remove('disallowed_tag', '<style> inside <svg>', line);
+      return [];
+    }
+    if (tag === 'script') return this.sanitizeScript(element);
+    if (tag === 'iframe') return this.sanitizeFrame(element);
+    if (tag === 'link' && !this.keepLink(element)) return [];
+    if (tag === 'meta' && 'http-equiv' in element.attrs) {
+      this.remove('disallowed_attribute', `<meta http-equiv="${element.attrs['http-equiv']}">`, line);
+      return [];
+    }
+
+    const clean: HtmlElement = { ...element, attrs: this.sanitizeAttributes(element), children: [] };
+
+    if (tag === 'style') {
+      const css = this.sanitizeCss(element.children.filter((c): c is string => typeof c === 'string').join(''), line);
+      this.inlineStyles.push(css);
+      clean.children = [css];
+    } else {
+      clean.children = this.sanitizeChildren(element);
+    }
+
+    if (tag === 'a' && clean.attrs.target) {
+      // New windows must not get a handle on the portfolio page
+      clean.attrs.rel = [...new Set([...(clean.attrs.rel ?? '').split(/\s+/).filter(Boolean), 'noopener', 'noreferrer'])].join(' ');
+    }
+
+    return [clean];
+  }
+
+  private sanitizeScript(element: HtmlElement): HtmlNode[] {
+    const type = (element.attrs.type ?? '').trim().toLowerCase();
+    const content = element.children.filter((c): c is string => typeof c === 'string').join('');
+
+    if (DATA_SCRIPT_TYPES.has(type) && !element.attrs.src) {
+      try {
+        JSON.parse(content);
+        return [{ ...element, attrs: { type }, children: [content.replace(/<\//g, '<\\/')] }];
+      } catch {
+        this.remove('inline_script', `<script type="${type}"> with invalid JSON`, element.line);
+        return [];
+      }
+    }
+
+    const src = element.attrs.src?.trim();
+    if (!src) {
+      this.remove('inline_script', truncate(content.trim() || '<script>'), element.line);
+      return [];
+    }
+
+    const host = httpsHost(src);
+    if (!host || !this.policy.scriptHosts.includes(host)) {
+      this.remove('third_party_script', src, element.line);
+      return [];
+    }
+
+    this.sources.script.add(host);
+    this.externalResources.add(src);
+    return [{ ...element, attrs: this.sanitizeAttributes(element), children: [] }];
+  }
+
+  private sanitizeFrame(element: HtmlElement): HtmlNode[] {
+    const src = element.attrs.src?.trim() ?? '';
+    const host = httpsHost(src);
+    if (!host || !this.policy.frameHosts.includes(host)) {
+      this.remove('third_party_frame', src || '<iframe>', element.line);
+      return [];
+    }
+
+    this.sources.frame.add(host);
+    this.externalResources.add(src);
+    return [{
+      ...element,
+      attrs: {
+        ...this.sanitizeAttributes(element),
+        // Embeds run in their own origin and cannot navigate the portfolio
+        sandbox: 'allow-scripts allow-same-origin allow-presentation allow-popups',
+        referrerpolicy: 'strict-origin-when-cross-origin',
+      },
+      children: [],
+    }];
+  }
+
+  private keepLink(element: HtmlElement): boolean {
+    const rels = (element.attrs.rel ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+    const href = element.attrs.href?.trim() ?? '';
+
+    if (rels.length === 0 || !rels.every(rel => LINK_RELS.has(rel))) {
+      this.remove('disallowed_tag', `<link rel="${element.attrs.rel ?? ''}" href="${href}">`, element.line);
+      return false;
+    }
+    if (rels.includes('stylesheet') && isExternal(href)) {
+      const host = httpsHost(href);
+      const allowed = host && (this.policy.styleHosts.includes(host) || this.policy.fontHosts.includes(host));
+      if (!allowed) {
+        this.remove(host && /font/i.test(host) ? 'third_party_font' : 'third_party_style', href, element.line);
+        return false;
+      }
+      this.sources.style.add(host);
+      this.externalResources.add(href);
+    }
+    return true;
+  }
+
+  private sanitizeAttributes(element: HtmlElement): Record<string, string> {
+    const allowed = TAG_ATTRIBUTES[element.tag] ?? [];
+    const attrs: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(element.attrs)) {
+      if (name.startsWith('on')) {
+        this.remove('event_handler', `${name} on <${element.tag}>`, element.line);
+        continue;
+      }
+      const known = GLOBAL_ATTRIBUTES.has(name) || allowed.includes(name) || name.startsWith('aria-') || name.startsWith('data-');
+      if (!known) {
+        this.remove('disallowed_attribute', `${name} on <${element.tag}>`, element.line);
+        continue;
+      }
+
+      if (name === 'style') {
+        const css = this.sanitizeCss(value, element.line).trim();
+        if (css) {
+          attrs.style = css;
+          this.styleAttributes = true;
+        }
+      } else if (URL_ATTRIBUTES.has(name)) {
+        const url = name === 'srcset' ? this.sanitizeSrcset(value, element) : this.sanitizeUrl(value, element, name);
+        if (url !== null) attrs[name] = url;
+      } else {
+        attrs[name] = value;
+      }
+    }
+
+    return attrs;
+  }
+
+  private sanitizeSrcset(value: string, element: HtmlElement): string | null {
+    const candidates = value.split(',').map(candidate => candidate.trim()).filter(Boolean).flatMap(candidate => {
+      const [url, ...descriptor] = candidate.split(/\s+/);
+      const clean = this.sanitizeUrl(url, element, 'srcset');
+      return clean === null ? [] : [[clean, ...descriptor].join(' ')];
+    });
+    return candidates.length > 0 ? candidates.join(', ') : null;
+  }
+
+  /**
+   * Check a URL attribute; returns the URL to keep (possibly rewritten) or null to drop it
+   */
+  private sanitizeUrl(value: string, element: HtmlElement, attribute: string): string | null {
+    // Browsers ignore control characters and whitespace inside schemes ("java\tscript:")
+    let url = value.replace(/[\u0000-\u001f\u007f]/g, '').trim();
+    const scheme = url.replace(/\s/g, '').match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+    const resource = element.tag === 'link' ? isLoadedLink(element) : element.tag !== 'a' && attribute !== 'cite';
+
+    if (scheme === 'data') {
+      if (resource && SAFE_DATA_IMAGE.test(url) && (element.tag === 'img' || element.tag === 'source')) return url;
+      this.remove('unsafe_url', `${attribute}="${truncate(url)}" on <${element.tag}>`, element.line);
+      return null;
+    }
+    if (scheme && !['http', 'https', 'mailto', 'tel'].includes(scheme)) {
+      this.remove('unsafe_url', `${attribute}="${truncate(url)}" on <${element.tag}>`, element.line);
+      return null;
+    }
+    if (scheme && ['mailto', 'tel'].includes(scheme) && resource) {
+      this.remove('unsafe_url', `${attribute}="${url}" on <${element.tag}>`, element.line);
+      return null;
+    }
+
+    if (url.startsWith('//')) url = `https:${url}`;
+    if (/^http:/i.test(url)) {
+      const secure = url.replace(/^http:/i, 'https:');
+      this.record('rewritten', 'insecure_url', `${url} -> ${secure}`, element.line);
+      url = secure;
+    }
+
+    if (!resource || !isExternal(url)) return url;
+    return this.externalResource(url, element, attribute);
+  }
+
+  private externalResource(url: string, element: HtmlElement, attribute: string): string | null {
+    const host = httpsHost(url)!;
+    const media = attribute !== 'poster' && (['video', 'audio', 'track'].includes(element.tag)
+      || (element.tag === 'source' && !!element.parent && ['video', 'audio'].includes(element.parent.tag)));
+
+    // Host checks for these were done in sanitizeScript, sanitizeFrame and keepLink
+    if (element.tag === 'script' || element.tag === 'iframe') return url;
+    if (element.tag === 'link') {
+      // Icons are images
+      if (!this.sources.style.has(host)) this.sources.image.add(host);
+      return url;
+    }
+
+    if (!media && this.policy.rewriteImageUrl) {
+      const rewritten = this.policy.rewriteImageUrl(url);
+      if (rewritten === null) {
+        this.remove('external_resource', url, element.line);
+        return null;
+      }
+      this.record('rewritten', 'external_resource', `${url} -> ${rewritten}`, element.line);
+      const rewrittenHost = httpsHost(rewritten);
+      if (rewrittenHost) this.sources.image.add(rewrittenHost);
+      return rewritten;
+    }
+
+    this.record('flagged', 'external_resource', url, element.line);
+    this.externalResources.add(url);
+    (media ? this.sources.media : this.sources.image).add(host);
+    return url;
+  }
+
+  /**
+   * Returns true when a CSS url() may stay
+   */
+  private cssUrl(url: string, kind: 'font' | 'image', line?: number): boolean {
+    const value = url.trim();
+    if (!value || value.startsWith('#')) return true;
+    if (/^data:/i.test(value)) {
+      if (kind === 'font' ? /^data:(font\/|application\/font)/i.test(value) : SAFE_DATA_IMAGE.test(value)) return true;
+      this.remove('unsafe_css', `url(${truncate(value)})`, line);
+      return false;
+    }
+    if (!isExternal(value)) {
+      if (/^[a-z][a-z0-9+.-]*:/i.test(value)) {
+        this.remove('unsafe_css', `url(${truncate(value)})`, line);
+        return false;
+      }
+      return true;
+    }
+
+    const host = httpsHost(value);
+    if (kind === 'font') {
+      if (host && this.policy.fontHosts.includes(host)) {
+        this.sources.font.add(host);
+        this.externalResources.add(value);
+        return true;
+      }
+      this.remove('third_party_font', value, line);
+      return false;
+    }
+
+    if (!host) {
+      this.remove('unsafe_css', `url(${truncate(value)})`, line);
+      return false;
+    }
+    this.record('flagged', 'external_resource', value, line);
+    this.externalResources.add(value);
+    this.sources.image.add(host);
+    return true;
+  }
+
+  private remove(reason: SanitizerFinding['reason'], detail: string, line?: number) {
+    this.record('removed', reason, detail, line);
+  }
+
+  private record(action: SanitizerAction, reason: SanitizerFinding['reason'], detail: string, line?: number) {
+    this.findings.push(line === undefined ? { action, reason, detail } : { action, reason, detail, line });
+  }
+}
+
+/**
+ * Wrap the model's HTML output: sanitise it and return the page's CSP
+ */
+export async function secureAIOutput(userId: string, html: string, env: any): Promise<SanitizedOutput> {
+  const sanitizer = createOutputSanitizer(env);
+  return sanitizer.sanitizeHtml(html, userId);
+}
+
+/**
+ * Links the browser fetches (stylesheets and icons), as opposed to canonical/alternate references
+ */
+function isLoadedLink(element: HtmlElement): boolean {
+  return (element.attrs.rel ?? '').toLowerCase().split(/\s+/).some(rel => ['stylesheet', 'icon', 'apple-touch-icon'].includes(rel));
+}
+
+function isExternal(url: string): boolean {
+  return /^(https?:)?\/\//i.test(url.trim());
+}
+
+/**
+ * Host of an absolute or protocol-relative URL (http upgraded to https), else null
+ */
+function httpsHost(url: string): string | null {
+  if (!isExternal(url)) return null;
+  try {
+    return new URL(url.trim().replace(/^\/\//, 'https://')).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+async function sha256Base64(value: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)));
+  return btoa(String.fromCharCode(...digest));
+}
+
+function truncate(value: string, length = 80): string {
+  return value.length <= length ? value : `${value.slice(0, length - 1)}…`;
+}
+
+function hosts(value: string | undefined, fallback: string[]): string[] {
+  return value === undefined ? fallback : value.split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+}
+
+// Export factory function
+export function createOutputSanitizer(env: any): OutputSanitizer {
+  return new OutputSanitizer(createLLMSecurityService(env), {
+    scriptHosts: hosts(env.ALLOWED_SCRIPT_HOSTS, DEFAULT_SANITIZER_POLICY.scriptHosts),
+    styleHosts: hosts(env.ALLOWED_STYLE_HOSTS, DEFAULT_SANITIZER_POLICY.styleHosts),
+    fontHosts: hosts(env.ALLOWED_FONT_HOSTS, DEFAULT_SANITIZER_POLICY.fontHosts),
+    frameHosts: hosts(env.ALLOWED_FRAME_HOSTS, DEFAULT_SANITIZER_POLICY.frameHosts),
+  });
+}
@@ -0,0 +1,221 @@
+/**
+ * SEO Metadata
+ * Builds the title, description, canonical URL, Open Graph / Twitter tags and
+ * schema.org ProfilePage JSON-LD for a portfolio. The static renderer writes
+ * them into <head>; route `meta` functions use `toMetaDescriptors`.
+ */
+
+import type { MetaDescriptor } from '@remix-run/cloudflare';
+import type { LinkedInProfile } from '../linkedin/import';
+import { sortByRecency } from '../linkedin/dates';
+
+export interface SeoOptions {
+  // Canonical, absolute URL of the published page
+  url?: string;
+  // Absolute URL of the share image (social card or photo)
+  imageUrl?: string;
+  imageAlt?: string;
+  siteName?: string;
+  // Open Graph locale, e.g. "en_US"
+  locale?: string;
+  // Absolute URLs of every language version, this page included; the first is x-default
+  alternates?: { locale: string; url: string }[];
+}
+
+export interface SeoMetadata {
+  title: string;
+  description: string;
+  canonical?: string;
+  // [property, content] pairs, e.g. ['og:title', 'Jane Doe']
+  openGraph: [string, string][];
+  // [name, content] pairs, e.g. ['twitter:card', 'summary']
+  twitter: [string, string][];
+  // [hreflang, href] pairs, e.g. ['de', 'https://janedoe.dev/de/']
+  alternates: [string, string][];
+  jsonLd: Record<string, unknown>;
+}
+
+const DESCRIPTION_LENGTH = 160;
+
+/**
+ * Build every piece of SEO metadata for a profile
+ */
+export function buildSeoMetadata(profile: LinkedInProfile, options: SeoOptions = {}): SeoMetadata {
+  const { name, headline } = profile.personal;
+  const title = pageTitle(profile);
+  const description = truncate(profile.personal.summary || headline || '', DESCRIPTION_LENGTH);
+  const canonical = options.url ? absoluteUrl(options.url) : undefined;
+  const imageUrl = options.imageUrl ? absoluteUrl(options.imageUrl) : undefined;
+
+  const openGraph: [string, string][] = [
+    ['og:type', 'profile'],
+    ['og:title', title],
+    ['og:description', description],
+    ['og:url', canonical ?? ''],
+    ['og:site_name', options.siteName ?? ''],
+    ['og:locale', options.locale ?? ''],
+    ...(options.alternates ?? [])
+      .map(({ locale }) => ['og:locale:alternate', locale.replace('-', '_')] as [string, string])
+      .filter(([, locale]) => locale !== options.locale),
+    ['og:image', imageUrl ?? ''],
+    ['og:image:alt', imageUrl ? options.imageAlt ?? name : ''],
+    ...nameParts(name),
+  ];
+
+  const twitter: [string, string][] = [
+    ['twitter:card', imageUrl ? 'summary_large_image' : 'summary'],
+    ['twitter:title', title],
+    ['twitter:description', description],
+    ['twitter:image', imageUrl ?? ''],
+    ['twitter:image:alt', imageUrl ? options.imageAlt ?? name : ''],
+  ];
+
+  return {
+    title,
+    description,
+    canonical,
+    openGraph: openGraph.filter(([, content]) => content !== ''),
+    twitter: twitter.filter(([, content]) => content !== ''),
+    alternates: hreflangAlternates(options.alternates ?? []),
+    jsonLd: buildProfileJsonLd(profile, { ...options, url: canonical, imageUrl }),
+  };
+}
+
+/**
+ * schema.org ProfilePage whose mainEntity is the Person
+ */
+export function buildProfileJsonLd(profile: LinkedInProfile, options: SeoOptions = {}): Record<string, unknown> {
+  const { name, headline, location, profileImage } = profile.personal;
+  const recent = sortByRecency(profile.experience);
+  const current = recent.filter(exp => exp.current);
+
+  const person = compact({
+    '@type': 'Person',
+    name,
+    description: headline,
+    jobTitle: (current[0] ?? recent[0])?.title || headline,
+    image: options.imageUrl ?? (profileImage && isHttpUrl(profileImage) ? profileImage : undefined),
+    url: options.url,
+    homeLocation: location ? { '@type': 'Place', name: location } : undefined,
+    worksFor: unique(current.map(exp => exp.company)).map(company => ({ '@type': 'Organization', name: company })),
+    alumniOf: unique(profile.education.map(edu => edu.institution))
+      .map(institution => ({ '@type': 'EducationalOrganization', name: institution })),
+    knowsAbout: unique(profile.skills),
+    knowsLanguage: unique(profile.languages.map(lang => lang.name)),
+    hasCredential: unique(profile.certifications.map(cert => cert.name))
+      .map(credential => ({ '@type': 'EducationalOccupationalCredential', name: credential })),
+    sameAs: unique([profile.contact.linkedin, profile.contact.website ?? '']
+      .map(url => (url ? absoluteUrl(url) : ''))
+      .filter(url => url && stripSlash(url) !== stripSlash(options.url ?? ''))),
+  });
+
+  return compact({
+    '@context': 'https://schema.org',
+    '@type': 'ProfilePage',
+    url: options.url,
+    name: pageTitle(profile),
+    mainEntity: person,
+  });
+}
+
+/**
+ * Head tags for a static page (title and description included)
+ */
+export function renderSeoTags(metadata: SeoMetadata): string {
+  return [
+    `<title>${escapeHtml(metadata.title)}</title>`,
+    metadata.description ? `<meta name="description" content="${escapeHtml(metadata.description)}">` : '',
+    metadata.canonical ? `<link rel="canonical" href="${escapeHtml(metadata.canonical)}">` : '',
+    ...metadata.alternates.map(([hreflang, href]) => `<link rel="alternate" hreflang="${escapeHtml(hreflang)}" href="${escapeHtml(href)}">`),
+    ...metadata.openGraph.map(([property, content]) => `<meta property="${property}" content="${escapeHtml(content)}">`),
+    ...metadata.twitter.map(([name, content]) => `<meta name="${name}" content="${escapeHtml(content)}">`),
+    `<script type="application/ld+json">${serializeJsonLd(metadata.jsonLd)}</script>`,
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * The same metadata as Remix meta descriptors, for a route's `meta` export
+ */
+export function toMetaDescriptors(metadata: SeoMetadata): MetaDescriptor[] {
+  return [
+    { title: metadata.title },
+    ...(metadata.description ? [{ name: 'description', content: metadata.description }] : []),
+    ...(metadata.canonical ? [{ tagName: 'link', rel: 'canonical', href: metadata.canonical }] : []),
+    ...metadata.alternates.map(([hrefLang, href]) => ({ tagName: 'link', rel: 'alternate', hrefLang, href })),
+    ...metadata.openGraph.map(([property, content]) => ({ property, content })),
+    ...metadata.twitter.map(([name, content]) => ({ name, content })),
+    { 'script:ld+json': metadata.jsonLd },
+  ];
+}
+
+/**
+ * JSON for a <script> element; "<" is escaped so the data cannot close the tag
+ */
+export function serializeJsonLd(data: Record<string, unknown>): string {
+  return JSON.stringify(data)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+export function pageTitle(profile: LinkedInProfile): string {
+  const { name, headline } = profile.personal;
+  if (name && headline) return `${name} – ${headline}`;
+  return name || headline || 'Portfolio';
+}
+
+/**
+ * One hreflang link per language plus x-default; needs at least two languages
+ */
+function hreflangAlternates(alternates: { locale: string; url: string }[]): [string, string][] {
+  if (alternates.length < 2) return [];
+  return [
+    ...alternates.map(({ locale, url }) => [locale, absoluteUrl(url)] as [string, string]),
+    ['x-default', absoluteUrl(alternates[0].url)],
+  ];
+}
+
+function nameParts(name: string): [string, string][] {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length < 2) return [];
+  return [['profile:first_name', parts[0]], ['profile:last_name', parts.slice(1).join(' ')]];
+}
+
+function absoluteUrl(value: string): string {
+  const url = value.trim();
+  return /^https?:\/\//i.test(url) ? url : `https://${url.replace(/^\/+/, '')}`;
+}
+
+function stripSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+function isHttpUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value.trim());
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values.map(value => value.trim()).filter(Boolean))];
+}
+
+/**
+ * Drop empty strings, empty arrays and undefined values
+ */
+function compact(object: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(object).filter(([, value]) =>
+    value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)));
+}
+
+function truncate(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length <= length ? flat : `${flat.slice(0, length - 1).trimEnd()}…`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,165 @@
+/**
+ * Social Share Card
+ * Server-side 1200×630 card (name, headline, photo) for og:image and
+ * twitter:image. The SVG needs no dependencies; PNG output goes through a
+ * rasterizer supplied by the host (e.g. resvg-wasm with a bundled font),
+ * since the Workers runtime has no image or font libraries of its own.
+ */
+
+import type { LinkedInProfile } from '../linkedin/import';
+
+export const SOCIAL_CARD_WIDTH = 1200;
+export const SOCIAL_CARD_HEIGHT = 630;
+
+export interface SocialCardOptions {
+  accent?: string;
+  background?: string;
+  // Photo to embed; defaults to the profile image when it is a data: URL.
+  // Browsers won't load remote images inside an SVG, so inline it for SVG output.
+  photo?: string;
+  // Shown at the bottom, e.g. "janedoe.dev"
+  domain?: string;
+}
+
+export type SocialCardRasterizer = (svg: string, size: { width: number; height: number }) => Promise<Uint8Array>;
+
+const DEFAULT_ACCENT = '#2b6cb0';
+const DEFAULT_BACKGROUND = '#0f172a';
+const FONT_FAMILY = 'Inter, Helvetica, Arial, sans-serif';
+
+const PHOTO = { cx: 240, cy: 300, r: 140 };
+const TEXT_X = 440;
+const TEXT_WIDTH = SOCIAL_CARD_WIDTH - TEXT_X - 80;
+
+// Average glyph width as a share of the font size, used to wrap without font metrics
+const CHAR_WIDTH = 0.55;
+
+/**
+ * Render the share card as a standalone SVG document
+ */
+export function renderSocialCardSvg(profile: LinkedInProfile, options: SocialCardOptions = {}): string {
+  const { name, headline, location, profileImage } = profile.personal;
+  const accent = safeColor(options.accent, DEFAULT_ACCENT);
+  const background = safeColor(options.background, DEFAULT_BACKGROUND);
+  const photo = safePhoto(options.photo ?? (profileImage?.startsWith('data:') ? profileImage : undefined));
+
+  const nameLines = wrap(name || 'Portfolio', 64, 2);
+  const headlineLines = wrap(headline, 34, 3);
+  const locationLines = wrap(location, 28, 1);
+
+  const blocks: string[] = [];
+  let y = textTop(nameLines.length * 76 + headlineLines.length * 46 + locationLines.length * 40 + 24 * 2);
+
+  for (const line of nameLines) {
+    y += 64;
+    blocks.push(text(line, y, 64, '#ffffff', 700));
+    y += 12;
+  }
+  y += 24;
+  for (const line of headlineLines) {
+    y += 34;
+    blocks.push(text(line, y, 34, '#e2e8f0', 400));
+    y += 12;
+  }
+  y += 24;
+  for (const line of locationLines) {
+    y += 28;
+    blocks.push(text(line, y, 28, '#94a3b8', 400));
+  }
+
+  const avatar = photo
+    ? [
+      `<clipPath id="photo"><circle cx="${PHOTO.cx}" cy="${PHOTO.cy}" r="${PHOTO.r}"/></clipPath>`,
+      `<image href="${escapeXml(photo)}" x="${PHOTO.cx - PHOTO.r}" y="${PHOTO.cy - PHOTO.r}" width="${PHOTO.r * 2}" height="${PHOTO.r * 2}" preserveAspectRatio="xMidYMid slice" clip-path="url(#photo)"/>`,
+    ].join('')
+    : [
+      `<circle cx="${PHOTO.cx}" cy="${PHOTO.cy}" r="${PHOTO.r}" fill="${accent}"/>`,
+      `<text x="${PHOTO.cx}" y="${PHOTO.cy + 32}" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="96" font-weight="700" fill="#ffffff">${escapeXml(initials(name))}</text>`,
+    ].join('');
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${SOCIAL_CARD_WIDTH}" height="${SOCIAL_CARD_HEIGHT}" viewBox="0 0 ${SOCIAL_CARD_WIDTH} ${SOCIAL_CARD_HEIGHT}" role="img" aria-label="${escapeXml([name, headline].filter(Boolean).join(', ') || 'Portfolio')}">`,
+    `<rect width="${SOCIAL_CARD_WIDTH}" height="${SOCIAL_CARD_HEIGHT}" fill="${background}"/>`,
+    `<circle cx="${PHOTO.cx}" cy="${PHOTO.cy}" r="${PHOTO.r + 8}" fill="none" stroke="${accent}" stroke-width="6"/>`,
+    avatar,
+    ...blocks,
+    options.domain ? text(options.domain, SOCIAL_CARD_HEIGHT - 52, 26, accent, 600) : '',
+    `<rect y="${SOCIAL_CARD_HEIGHT - 16}" width="${SOCIAL_CARD_WIDTH}" height="16" fill="${accent}"/>`,
+    '</svg>',
+  ].filter(Boolean).join('\n') + '\n';
+}
+
+/**
+ * Render the share card as PNG through the host's rasterizer
+ */
+export async function renderSocialCardPng(
+  profile: LinkedInProfile,
+  rasterize: SocialCardRasterizer,
+  options: SocialCardOptions = {},
+): Promise<Uint8Array> {
+  return rasterize(renderSocialCardSvg(profile, options), { width: SOCIAL_CARD_WIDTH, height: SOCIAL_CARD_HEIGHT });
+}
+
+function text(content: string, y: number, size: number, fill: string, weight: number): string {
+  return `<text x="${TEXT_X}" y="${y}" font-family="${FONT_FAMILY}" font-size="${size}" font-weight="${weight}" fill="${fill}">${escapeXml(content)}</text>`;
+}
+
+/**
+ * Top of a text block of `height` centred on the photo
+ */
+function textTop(height: number): number {
+  return Math.max(40, Math.round(PHOTO.cy - height / 2));
+}
+
+/**
+ * Greedy word wrap by estimated width; the last line gets an ellipsis when text is cut
+ */
+function wrap(value: string, fontSize: number, maxLines: number): string[] {
+  const maxChars = Math.floor(TEXT_WIDTH / (fontSize * CHAR_WIDTH));
+  const words = value.replace(/\s+/g, ' ').trim().split(' ').filter(Boolean);
+  const lines: string[] = [];
+  let line = '';
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i].length > maxChars ? `${words[i].slice(0, maxChars - 1)}…` : words[i];
+    const candidate = line ? `${line} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      line = candidate;
+      continue;
+    }
+    lines.push(line);
+    line = word;
+    if (lines.length === maxLines) {
+      const last = lines[maxLines - 1];
+      lines[maxLines - 1] = `${last.slice(0, maxChars - 1).trimEnd()}…`;
+      return lines;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function initials(name: string): string {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return '?';
+  const letters = parts.length === 1 ? [parts[0]] : [parts[0], parts[parts.length - 1]];
+  return letters.map(part => part[0].toUpperCase()).join('');
+}
+
+function safeColor(value: string | undefined, fallback: string): string {
+  return value && /^#[0-9a-f]{3,8}$/i.test(value) ? value : fallback;
+}
+
+function safePhoto(value?: string): string | undefined {
+  if (!value) return undefined;
+  return /^(https:\/\/|data:image\/(png|jpe?g|gif|webp);base64,)/i.test(value.trim()) ? value.trim() : undefined;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,17 @@
+import { MinimalTemplate } from './minimal';
+import { ModernTemplate } from './modern';
+import { ProfessionalTemplate } from './professional';
+import type { PortfolioTemplate } from './types';
+
+export type { PortfolioSection, PortfolioTemplate, RenderedPortfolio, RenderOptions } from './types';
+export type { TemplateTheme, ThemeChange, ThemeTokens } from './theme';
+
+export const AVAILABLE_TEMPLATES: PortfolioTemplate[] = [
+  ProfessionalTemplate,
+  ModernTemplate,
+  MinimalTemplate,
+];
+
+export function getTemplate(id: string): PortfolioTemplate | undefined {
+  return AVAILABLE_TEMPLATES.find(template => template.id === id);
+}
@@ -0,0 +1,25 @@
+import type { PortfolioTemplate } from './types';
+
+export const MinimalTemplate: PortfolioTemplate = {
+  id: 'minimal',
+  name: 'Minimal',
+  industry: 'creative',
+  requiredTier: 'free',
+  preview: '/templates/minimal-preview.jpg',
+  // A one-page résumé: no volunteering, certifications or languages
+  sections: ['about', 'experience', 'projects', 'education', 'skills', 'contact'],
+  theme: {
+    palette: { text: '#222222', muted: '#767676', accent: '#222222', background: '#ffffff', surface: '#ffffff' },
+    typography: { fontFamily: 'Georgia', fallback: 'serif', baseSize: 16, scale: 1.2 },
+    layout: 'single',
+  },
+  css: `
+.page { max-width: 42rem; }
+.section h2 { font-weight: 400; font-style: italic; }
+.tags li { border: 1px solid var(--color-muted); background: none; }
+`,
+  customization: {
+    colors: ['#222222', '#767676', '#ffffff'],
+    fonts: ['Georgia', 'Lora', 'Merriweather'],
+  },
+};
@@ -0,0 +1,33 @@
+import type { PortfolioTemplate } from './types';
+
+export const ModernTemplate: PortfolioTemplate = {
+  id: 'modern',
+  name: 'Modern',
+  industry: 'technology',
+  requiredTier: 'pro',
+  preview: '/templates/modern-preview.jpg',
+  sections: ['about', 'projects', 'experience', 'skills', 'certifications', 'education', 'languages', 'volunteer', 'contact'],
+  labels: {
+    projects: 'Selected Work',
+    skills: 'Toolbox',
+    contact: 'Get in Touch',
+  },
+  theme: {
+    palette: { text: '#111827', muted: '#6b7280', accent: '#7c3aed', background: '#ffffff', surface: '#f5f3ff' },
+    typography: { fontFamily: 'Space Grotesk', fallback: 'sans-serif', baseSize: 16, scale: 1.333 },
+    layout: 'centered',
+  },
+  css: `
+.site-header { padding-block: calc(var(--space) * 4); }
+.section h2 { font-size: 0.875rem; letter-spacing: 0.12em; text-transform: uppercase; color: var(--color-accent); }
+.entry { border-inline-start: 3px solid var(--color-surface); padding-inline-start: 1rem; }
+.tags li { background: var(--color-surface); color: var(--color-accent); }
+@media (min-width: 768px) {
+  .section--projects .entries { display: grid; grid-template-columns: repeat(2, minmax(0, 1fr)); gap: calc(var(--space) * 1.5); }
+}
+`,
+  customization: {
+    colors: ['#111827', '#7c3aed', '#f5f3ff'],
+    fonts: ['Space Grotesk', 'DM Sans', 'Inter'],
+  },
+};
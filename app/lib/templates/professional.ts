@@ -0,0 +1,27 @@
+import type { PortfolioTemplate } from './types';
+
+export const ProfessionalTemplate: PortfolioTemplate = {
+  id: 'professional',
+  name: 'Professional',
+  industry: 'business',
+  requiredTier: 'free',
+  preview: '/templates/professional-preview.jpg',
+  sections: ['about', 'experience', 'education', 'certifications', 'volunteer', 'skills', 'languages', 'contact'],
+  aside: ['skills', 'languages', 'contact'],
+  theme: {
+    palette: { text: '#1a202c', muted: '#4a5568', accent: '#2b6cb0', background: '#ffffff', surface: '#f7fafc' },
+    typography: { fontFamily: 'Inter', fallback: 'sans-serif', baseSize: 16, scale: 1.25 },
+    layout: 'sidebar',
+  },
+  css: `
+.site-header { background: var(--color-text); color: var(--color-background); }
+.site-header .headline, .site-header .location { color: var(--color-surface); }
+.site-header a { color: var(--color-background); }
+.section h2 { border-bottom: 2px solid var(--color-accent); padding-bottom: 0.25rem; }
+.aside .section { background: var(--color-surface); padding: var(--space) calc(var(--space) * 1.25); border-radius: var(--radius); }
+`,
+  customization: {
+    colors: ['#1a202c', '#2d3748', '#4a5568'],
+    fonts: ['Inter', 'Roboto', 'Open Sans'],
+  },
+};
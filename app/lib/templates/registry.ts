@@ -0,0 +1,179 @@
+/**
+ * Template Registry
+ * Lists built-in and custom templates with the reason each one is locked for a user
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { createPaywallService, type PaywallService, type TemplateAccess } from '../paywall/service';
+import { createOutputSanitizer, type OutputSanitizer } from '../security/output-sanitizer';
+import { AVAILABLE_TEMPLATES } from './index';
+import { defaultTheme, validateTheme } from './theme';
+import type { PortfolioSection, PortfolioTemplate } from './types';
+
+export interface TemplateSummary {
+  id: string;
+  name: string;
+  industry: string;
+  preview: string;
+  sections: PortfolioSection[];
+  requiredTier: string;
+  custom: boolean;
+  locked: boolean;
+  // Why the template can't be applied, e.g. "Professional plan required for Modern"
+  reason?: string;
+}
+
+export interface TemplateSelection {
+  allowed: boolean;
+  template?: PortfolioTemplate;
+  reason?: string;
+}
+
+export interface CustomTemplateStore {
+  list(ownerId: string): Promise<PortfolioTemplate[]>;
+  save(template: PortfolioTemplate): Promise<void>;
+}
+
+type TemplateAccessChecker = Pick<PaywallService, 'can' | 'checkTemplateAccess'>;
+
+type CssSanitizer = Pick<OutputSanitizer, 'sanitizeCss'>;
+
+const KNOWN_SECTIONS: PortfolioSection[] = [
+  'about', 'experience', 'projects', 'education', 'skills', 'certifications', 'languages', 'volunteer', 'contact',
+];
+const MAX_CUSTOM_CSS_LENGTH = 100_000;
+// The renderer inlines template CSS in a <style> tag, so it must not be able to close it
+const STYLE_END = /<\/style/i;
+
+export class SupabaseTemplateStore implements CustomTemplateStore {
+  private supabase;
+
+  constructor(supabaseUrl: string, supabaseKey: string) {
+    this.supabase = createClient(supabaseUrl, supabaseKey);
+  }
+
+  async list(ownerId: string): Promise<PortfolioTemplate[]> {
+    const { data, error } = await this.supabase
+      .from('custom_templates')
+      .select('template')
+      .eq('owner_id', ownerId)
+      .order('created_at');
+
+    if (error) throw error;
+    return (data ?? []).map(row => row.template as PortfolioTemplate);
+  }
+
+  async save(template: PortfolioTemplate): Promise<void> {
+    const { error } = await this.supabase
+      .from('custom_templates')
+      .upsert({ owner_id: template.ownerId, id: template.id, template }, { onConflict: 'owner_id,id' });
+
+    if (error) throw error;
+  }
+}
+
+export class TemplateRegistry {
+  constructor(
+    private paywall: TemplateAccessChecker,
+    private store: CustomTemplateStore,
+    private sanitizer: CssSanitizer,
+    private builtIn: PortfolioTemplate[] = AVAILABLE_TEMPLATES,
+  ) {}
+
+  /** Every template the user can see, locked ones included */
+  async list(userId: string): Promise<TemplateSummary[]> {
+    const templates = await this.templatesFor(userId);
+    const access = await this.paywall.checkTemplateAccess(userId, templates);
+
+    return templates.map((template, index) => summarize(template, access[index]));
+  }
+
+  /** Resolve a template for rendering, or explain why it can't be applied */
+  async select(userId: string, templateId: string): Promise<TemplateSelection> {
+    const template = (await this.templatesFor(userId)).find(t => t.id === templateId);
+    if (!template) {
+      return { allowed: false, reason: `Unknown template: ${templateId}` };
+    }
+
+    const [access] = await this.paywall.checkTemplateAccess(userId, [template]);
+    return access.allowed ? { allowed: true, template } : { allowed: false, reason: access.reason };
+  }
+
+  /** Save an Enterprise user's own template; re-registering an id replaces it */
+  async registerCustomTemplate(userId: string, template: PortfolioTemplate): Promise<PortfolioTemplate> {
+    const access = await this.paywall.can(userId, 'custom_templates');
+    if (!access.allowed) {
+      throw new Error(access.reason || 'Custom templates are not available on your plan');
+    }
+
+    validateCustomTemplate(template, this.builtIn);
+
+    // Anything the sanitiser would change or load from elsewhere (imports, scripts, tracking url()s) is refused
+    const [finding] = this.sanitizer.sanitizeCss(template.css, userId).findings;
+    if (finding) {
+      throw new Error(`Template CSS contains disallowed content: ${finding.detail}`);
+    }
+
+    const custom: PortfolioTemplate = { ...template, requiredTier: 'enterprise', ownerId: userId };
+    await this.store.save(custom);
+    return custom;
+  }
+
+  private async templatesFor(userId: string): Promise<PortfolioTemplate[]> {
+    const custom = await this.store.list(userId);
+    return [...this.builtIn, ...custom.filter(template => template.ownerId === userId)];
+  }
+}
+
+function summarize(template: PortfolioTemplate, access: TemplateAccess): TemplateSummary {
+  return {
+    id: template.id,
+    name: template.name,
+    industry: template.industry,
+    preview: template.preview,
+    sections: template.sections,
+    requiredTier: access.requiredTier,
+    custom: template.ownerId !== undefined,
+    locked: !access.allowed,
+    ...(access.allowed ? {} : { reason: access.reason }),
+  };
+}
+
+function validateCustomTemplate(template: PortfolioTemplate, builtIn: PortfolioTemplate[]): void {
+  if (!/^[a-z0-9][a-z0-9-]{0,47}$/.test(template.id)) {
+    throw new Error('Template id must be lowercase letters, digits and dashes');
+  }
+  if (builtIn.some(t => t.id === template.id)) {
+    throw new Error(`Template id is reserved: ${template.id}`);
+  }
+  if (!template.name?.trim()) {
+    throw new Error('Template name is required');
+  }
+  if (template.sections.length === 0 || template.sections.some(section => !KNOWN_SECTIONS.includes(section))) {
+    throw new Error('Template sections must be a non-empty list of known sections');
+  }
+  if (template.aside?.some(section => !template.sections.includes(section))) {
+    throw new Error('Aside sections must also be listed in sections');
+  }
+  if (template.css.length > MAX_CUSTOM_CSS_LENGTH) {
+    throw new Error('Template CSS is too large');
+  }
+  if (STYLE_END.test(template.css)) {
+    throw new Error('Template CSS contains disallowed content');
+  }
+
+  const errors = validateTheme(defaultTheme(template), template).issues.filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(`Template theme is invalid: ${errors.map(issue => issue.message).join('; ')}`);
+  }
+}
+
+// Export factory function
+export function createTemplateRegistry(env: any): TemplateRegistry {
+  return new TemplateRegistry(
+    createPaywallService(env),
+    // Clients may only read custom templates; saving goes through the plan and CSS checks above
+    new SupabaseTemplateStore(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY),
+    createOutputSanitizer(env),
+  );
+}
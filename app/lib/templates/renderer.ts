@@ -0,0 +1,365 @@
+/**
+ * Portfolio Renderer
+ * Turns a LinkedInProfile into a complete, responsive HTML/CSS site from a
+ * template without calling an LLM. The same profile and template always
+ * produce the same output, which the AI customiser can then refine.
+ */
+
+import { entryDuration, formatDate, formatDateRange } from '../i18n/format';
+import {
+  DEFAULT_LOCALE,
+  formatMessage,
+  normalizeLocale,
+  primaryLanguage,
+  resolveMessages,
+  textDirection,
+  type PortfolioMessages,
+} from '../i18n/locales';
+import { localizeProfile } from '../i18n/translation';
+import type { LinkedInProfile } from '../linkedin/import';
+import { buildSeoMetadata, renderSeoTags } from '../seo/metadata';
+import { getTemplate } from './index';
+import { defaultTheme, sidebarSections, themeToCss } from './theme';
+import type { LocaleAlternate, PortfolioSection, PortfolioTemplate, RenderedPortfolio, RenderOptions } from './types';
+
+// Layout and typography shared by every template; templates restyle it
+// through the theme's custom properties and their own rules
+const BASE_CSS = `
+*, *::before, *::after { box-sizing: border-box; }
+body { margin: 0; font-family: var(--font-body); font-size: var(--font-size-base); color: var(--color-text); background: var(--color-background); line-height: 1.6; }
+a { color: var(--color-accent); }
+img { max-width: 100%; height: auto; }
+.page { max-width: 64rem; margin-inline: auto; padding: 0 1.25rem; }
+.site-header { padding-block: calc(var(--space) * 3) calc(var(--space) * 2); }
+.site-header h1 { margin: 0; font-size: clamp(calc(var(--font-size-h1) * 0.75), 5vw, var(--font-size-h1)); line-height: 1.1; }
+.headline { margin: 0.5rem 0 0; font-size: 1.25rem; }
+.location, .meta { margin: 0.25rem 0 0; color: var(--color-muted); }
+.avatar { display: block; width: 7rem; height: 7rem; border-radius: 50%; object-fit: cover; margin-bottom: 1rem; }
+.site-header nav ul { display: flex; flex-wrap: wrap; gap: 0.5rem 1.25rem; list-style: none; margin: 1.5rem 0 0; padding: 0; }
+.page--centered .site-header { text-align: center; }
+.page--centered .avatar { margin-inline: auto; }
+.page--centered .site-header nav ul { justify-content: center; }
+.section { margin-block: calc(var(--space) * 2.5); }
+.section h2 { font-size: var(--font-size-h2); }
+.entries { display: grid; gap: calc(var(--space) * 1.5); }
+.entry h3 { margin: 0; font-size: var(--font-size-h3); }
+.entry p { margin: 0.5rem 0 0; }
+.tags { display: flex; flex-wrap: wrap; gap: 0.5rem; list-style: none; margin: 0.75rem 0 0; padding: 0; }
+.tags li { padding: 0.125rem 0.75rem; border-radius: var(--radius-tag); background: var(--color-surface); font-size: 0.875rem; }
+.contact-list { list-style: none; padding: 0; }
+.site-footer { padding-block: calc(var(--space) * 2); color: var(--color-muted); font-size: 0.875rem; }
+@media (min-width: 900px) {
+  .layout--aside { display: grid; grid-template-columns: minmax(0, 2fr) minmax(0, 1fr); gap: calc(var(--space) * 3); }
+}
+@media print {
+  .site-header nav { display: none; }
+  a { color: inherit; text-decoration: none; }
+}
+`;
+
+// Page language, resolved once per render
+interface LocaleContext {
+  locale: string;
+  messages: PortfolioMessages;
+}
+
+type SectionRenderer = (profile: LinkedInProfile, context: LocaleContext) => string | null;
+
+export class PortfolioRenderer {
+  private sectionRenderers: Record<PortfolioSection, SectionRenderer> = {
+    about: profile => (profile.personal.summary.trim() ? richText(profile.personal.summary) : null),
+    experience: (profile, { locale }) => entries(profile.experience.map(exp => entry({
+      title: exp.title,
+      subtitle: [exp.company, exp.employmentType].filter(Boolean).join(' · '),
+      meta: [formatDateRange(locale, exp.startDate, exp.endDate, exp.current), entryDuration(exp, locale), exp.location],
+      body: exp.description ? richText(exp.description) : list(exp.achievements),
+      tags: exp.skills,
+    }))),
+    projects: (profile, { locale }) => entries(profile.projects.map(proj => entry({
+      title: proj.name,
+      href: proj.url,
+      meta: [formatDateRange(locale, proj.startDate, proj.endDate)],
+      body: richText(proj.description),
+      tags: proj.skills,
+    }))),
+    education: (profile, { locale, messages }) => entries(profile.education.map(edu => entry({
+      title: edu.institution,
+      subtitle: [edu.degree, edu.field].filter(Boolean).join(', '),
+      meta: [formatDateRange(locale, edu.startDate, edu.endDate), edu.gpa ? formatMessage(messages.grade, { grade: edu.gpa }) : ''],
+      body: edu.activities.length > 0 ? `<p>${escapeHtml(edu.activities.join(' · '))}</p>` : '',
+    }))),
+    skills: profile => (profile.skills.length > 0 ? tags(profile.skills) : null),
+    certifications: (profile, { locale, messages }) => entries(profile.certifications.map(cert => entry({
+      title: cert.name,
+      href: cert.credentialUrl,
+      subtitle: cert.issuer,
+      meta: [
+        cert.issueDate ? formatMessage(messages.issued, { date: formatDate(cert.issueDate, locale) }) : '',
+        cert.expiryDate ? formatMessage(messages.expires, { date: formatDate(cert.expiryDate, locale) }) : '',
+        cert.credentialId ? formatMessage(messages.credentialId, { id: cert.credentialId }) : '',
+      ],
+    }))),
+    languages: (profile, { messages }) => (profile.languages.length > 0
+      ? `<ul class="languages">${profile.languages
+        .map(lang => `<li><strong>${escapeHtml(lang.name)}</strong> · ${escapeHtml(messages.proficiency[lang.proficiency] ?? '')}</li>`)
+        .join('')}</ul>`
+      : null),
+    volunteer: (profile, { locale }) => entries(profile.volunteer.map(vol => entry({
+      title: vol.role,
+      subtitle: [vol.organization, vol.cause].filter(Boolean).join(' · '),
+      meta: [formatDateRange(locale, vol.startDate, vol.endDate)],
+      body: richText(vol.description),
+    }))),
+    contact: profile => {
+      const { email, phone, website, linkedin } = profile.contact;
+      const items = [
+        email ? link(`mailto:${email}`, email) : '',
+        phone ? link(`tel:${phone.replace(/[^\d+]/g, '')}`, phone) : '',
+        website ? link(website, displayUrl(website)) : '',
+        linkedin ? link(linkedin, 'LinkedIn') : '',
+      ].filter(Boolean);
+      return items.length > 0 ? `<ul class="contact-list">${items.map(item => `<li>${item}</li>`).join('')}</ul>` : null;
+    },
+  };
+
+  /**
+   * Render a profile with a template (or template id)
+   */
+  render(profile: LinkedInProfile, template: PortfolioTemplate | string, options: RenderOptions = {}): RenderedPortfolio {
+    const resolved = typeof template === 'string' ? getTemplate(template) : template;
+    if (!resolved) {
+      throw new Error(`Unknown template: ${template}`);
+    }
+
+    const theme = options.theme ?? defaultTheme(resolved);
+    // Render in the theme's order; anything it names that the template can't show is skipped
+    const order = theme.sectionOrder.filter((section, index) => resolved.sections.includes(section) && theme.sectionOrder.indexOf(section) === index);
+    const hidden = resolved.sections.filter(section => !order.includes(section));
+
+    const locale = normalizeLocale(options.locale ?? DEFAULT_LOCALE);
+    const context: LocaleContext = { locale, messages: resolveMessages(locale) };
+    const localized = localizeProfile(profile, options.translation);
+
+    const rendered: { section: PortfolioSection; html: string }[] = [];
+    const omitted: PortfolioSection[] = [];
+
+    for (const section of order) {
+      const content = this.sectionRenderers[section](localized, context);
+      if (content) {
+        rendered.push({ section, html: this.renderSection(resolved, section, content, context) });
+      } else {
+        omitted.push(section);
+      }
+    }
+
+    const aside = new Set(theme.layout === 'sidebar' ? sidebarSections(resolved) : []);
+    const main = rendered.filter(({ section }) => !aside.has(section));
+    const side = rendered.filter(({ section }) => aside.has(section));
+    const css = `${BASE_CSS.trim()}\n${themeToCss(theme)}\n${resolved.css.trim()}\n`;
+
+    const body = side.length > 0
+      ? `<div class="layout layout--aside"><main>${main.map(({ html }) => html).join('')}</main><aside class="aside">${side.map(({ html }) => html).join('')}</aside></div>`
+      : `<main>${main.map(({ html }) => html).join('')}</main>`;
+
+    const html = [
+      '<!DOCTYPE html>',
+      `<html lang="${escapeHtml(locale)}"${textDirection(locale) === 'rtl' ? ' dir="rtl"' : ''}>`,
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      renderSeoTags(buildSeoMetadata(localized, options.locale ? { locale: locale.replace('-', '_'), ...options.seo } : options.seo)),
+      options.stylesheet && options.stylesheet !== 'inline'
+        ? `<link rel="stylesheet" href="${escapeHtml(options.stylesheet)}">`
+        : `<style>${css}</style>`,
+      '</head>',
+      `<body class="template-${escapeHtml(resolved.id)}">`,
+      `<div class="page page--${escapeHtml(theme.layout)}">`,
+      this.renderHeader(localized, resolved, rendered.map(({ section }) => section), options, context),
+      body,
+      this.renderFooter(localized, options, context),
+      '</div>',
+      '</body>',
+      '</html>',
+    ].filter(Boolean).join('\n');
+
+    return {
+      templateId: resolved.id,
+      html: `${html}\n`,
+      css,
+      sections: rendered.map(({ section }) => section),
+      omitted,
+      hidden,
+    };
+  }
+
+  private renderHeader(
+    profile: LinkedInProfile,
+    template: PortfolioTemplate,
+    sections: PortfolioSection[],
+    options: RenderOptions,
+    context: LocaleContext,
+  ): string {
+    const { name, headline, location, profileImage } = profile.personal;
+    const image = options.profileImage ?? (profileImage ? safeUrl(profileImage, true) : '');
+    const alternates = options.alternates ?? [];
+
+    return [
+      '<header class="site-header">',
+      image ? `<img class="avatar" src="${escapeHtml(image)}" alt="${escapeHtml(name)}" width="112" height="112">` : '',
+      `<h1>${escapeHtml(name || context.messages.portfolio)}</h1>`,
+      headline ? `<p class="headline">${escapeHtml(headline)}</p>` : '',
+      location ? `<p class="location">${escapeHtml(location)}</p>` : '',
+      sections.length > 1
+        ? `<nav aria-label="${escapeHtml(context.messages.sectionsNav)}"><ul>${sections
+          .map(section => `<li><a href="#${section}">${escapeHtml(label(template, section, context))}</a></li>`)
+          .join('')}</ul></nav>`
+        : '',
+      alternates.length > 1
+        ? `<nav class="language-switcher" aria-label="${escapeHtml(context.messages.languageNav)}"><ul>${alternates
+          .map(alternate => languageLink(alternate, context.locale))
+          .join('')}</ul></nav>`
+        : '',
+      '</header>',
+    ].filter(Boolean).join('');
+  }
+
+  private renderFooter(profile: LinkedInProfile, options: RenderOptions, context: LocaleContext): string {
+    const credit = options.branding
+      ? `<p class="branding">${formatMessage(escapeHtml(context.messages.builtWith), {
+        link: '<a href="https://appvantix.com" rel="noopener">AppVantix</a>',
+      })}</p>`
+      : '';
+    return `<footer class="site-footer"><p>© ${escapeHtml(profile.personal.name || context.messages.portfolio)}</p>${credit}</footer>`;
+  }
+
+  private renderSection(template: PortfolioTemplate, section: PortfolioSection, content: string, context: LocaleContext): string {
+    return `<section id="${section}" class="section section--${section}" aria-labelledby="${section}-heading">`
+      + `<h2 id="${section}-heading">${escapeHtml(label(template, section, context))}</h2>${content}</section>`;
+  }
+}
+
+interface EntryContent {
+  title: string;
+  href?: string;
+  subtitle?: string;
+  meta?: (string | undefined)[];
+  body?: string;
+  tags?: string[];
+}
+
+function entries(items: (string | null)[]): string | null {
+  const rendered = items.filter((item): item is string => !!item);
+  return rendered.length > 0 ? `<div class="entries">${rendered.join('')}</div>` : null;
+}
+
+function entry({ title, href, subtitle, meta = [], body = '', tags: entryTags = [] }: EntryContent): string | null {
+  if (!title && !subtitle) return null;
+
+  const heading = href && safeUrl(href) ? link(href, title || subtitle!) : escapeHtml(title || subtitle!);
+  const details = meta.filter(Boolean) as string[];
+
+  return [
+    '<article class="entry">',
+    `<h3>${heading}</h3>`,
+    title && subtitle ? `<p class="subtitle">${escapeHtml(subtitle)}</p>` : '',
+    details.length > 0 ? `<p class="meta">${details.map(escapeHtml).join(' · ')}</p>` : '',
+    body,
+    entryTags.length > 0 ? tags(entryTags) : '',
+    '</article>',
+  ].join('');
+}
+
+function tags(values: string[]): string {
+  return `<ul class="tags">${values.map(value => `<li>${escapeHtml(value)}</li>`).join('')}</ul>`;
+}
+
+function list(values: string[]): string {
+  return values.length > 0 ? `<ul>${values.map(value => `<li>${escapeHtml(value)}</li>`).join('')}</ul>` : '';
+}
+
+/**
+ * Plain text to paragraphs; runs of "•", "-" or "*" lines become lists
+ */
+function richText(text: string): string {
+  const blocks: string[] = [];
+  let bullets: string[] = [];
+  let paragraph: string[] = [];
+
+  const flushBullets = () => {
+    if (bullets.length > 0) blocks.push(list(bullets));
+    bullets = [];
+  };
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push(`<p>${paragraph.map(escapeHtml).join('<br>')}</p>`);
+    paragraph = [];
+  };
+
+  for (const line of text.split('\n').map(line => line.trim())) {
+    const bullet = line.match(/^[•·*-]\s*(.+)$/);
+    if (bullet) {
+      flushParagraph();
+      bullets.push(bullet[1]);
+    } else if (!line) {
+      flushParagraph();
+      flushBullets();
+    } else {
+      flushBullets();
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+  flushBullets();
+
+  return blocks.join('');
+}
+
+/**
+ * Template labels are written in English, so other languages use their own
+ */
+function label(template: PortfolioTemplate, section: PortfolioSection, { locale, messages }: LocaleContext): string {
+  const override = primaryLanguage(locale) === DEFAULT_LOCALE ? template.labels?.[section] : undefined;
+  return override ?? messages.sections[section];
+}
+
+function languageLink(alternate: LocaleAlternate, current: string): string {
+  const locale = normalizeLocale(alternate.locale);
+  const attributes = locale === current
+    ? ' aria-current="page"'
+    : ` hreflang="${escapeHtml(locale)}" lang="${escapeHtml(locale)}"`;
+  return `<li><a href="${escapeHtml(alternate.href)}"${attributes}>${escapeHtml(resolveMessages(locale).name)}</a></li>`;
+}
+
+function link(href: string, text: string): string {
+  const url = safeUrl(href);
+  return url ? `<a href="${escapeHtml(url)}" rel="noopener">${escapeHtml(text)}</a>` : escapeHtml(text);
+}
+
+/**
+ * Allow only http(s), mailto and tel links (and data: images when asked);
+ * bare domains get https://
+ */
+function safeUrl(value: string, allowDataImage = false): string {
+  const url = value.trim();
+  if (/^(https?:|mailto:|tel:)/i.test(url)) return url;
+  if (allowDataImage && /^data:image\/(png|jpe?g|gif|webp);/i.test(url)) return url;
+  if (/^[a-z0-9-]+(\.[a-z0-9-]+)+(\/\S*)?$/i.test(url)) return `https://${url}`;
+  return '';
+}
+
+function displayUrl(url: string): string {
+  return url.replace(/^https?:\/\/(www\.)?/i, '').replace(/\/$/, '');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Export factory function
+export function createPortfolioRenderer(): PortfolioRenderer {
+  return new PortfolioRenderer();
+}
@@ -0,0 +1,207 @@
+/**
+ * AI Theme Customizer
+ * Turns a free-text request into design token changes with the protected
+ * TEMPLATE_CUSTOMIZER prompt. The model never writes CSS; its changes are
+ * validated and returned for review, and nothing is applied here.
+ */
+
+import { extractJSON } from '../ai/json';
+import type { ModelClient } from '../ai/model-client';
+import { creditCharge, creditCost, estimateTokens } from '../credits/pricing';
+import type { Reservation, ReserveResult } from '../paywall/metering';
+import type { PaywallService } from '../paywall/service';
+import { secureAIRequest } from '../security/llm-protection';
+import {
+  BASE_SIZE_RANGE,
+  diffThemes,
+  FONT_FALLBACKS,
+  isThemeToken,
+  SCALE_RANGE,
+  setToken,
+  THEME_LAYOUTS,
+  THEME_RADII,
+  THEME_SPACINGS,
+  validateTheme,
+  type ThemeChange,
+  type ThemeIssue,
+  type ThemeTokenPath,
+  type ThemeTokens,
+  type ThemeValue,
+} from './theme';
+import type { PortfolioSection, PortfolioTemplate } from './types';
+
+export interface ThemeSuggestion {
+  // Changes from the current theme, ready to show in a review step
+  changes: ThemeChange[];
+  // The current theme with the changes applied
+  theme: ThemeTokens;
+  // False when the proposed theme has error-severity issues and can't be applied
+  valid: boolean;
+  issues: ThemeIssue[];
+  // The model's one-line description of the edit
+  summary?: string;
+}
+
+export interface ThemeCustomizerOptions {
+  modelClient: ModelClient;
+  paywall: Pick<PaywallService, 'reserve' | 'commit' | 'release'>;
+  env: any;
+  modelId?: string;
+}
+
+// Passed as prompt context so the model knows which tokens and values exist
+const OUTPUT_FORMAT = {
+  instructions: 'Respond with a single JSON object: {"changes": [{"token": "<token>", "value": <new value>}], "summary": "<one sentence>"}. Only include tokens that change.',
+  tokens: {
+    'palette.text': 'hex colour',
+    'palette.muted': 'hex colour',
+    'palette.accent': 'hex colour',
+    'palette.background': 'hex colour',
+    'palette.surface': 'hex colour',
+    'typography.fontFamily': 'font family name',
+    'typography.fallback': FONT_FALLBACKS.join(' | '),
+    'typography.baseSize': `number, ${BASE_SIZE_RANGE[0]}-${BASE_SIZE_RANGE[1]} (px)`,
+    'typography.scale': `number, ${SCALE_RANGE[0]}-${SCALE_RANGE[1]}`,
+    spacing: THEME_SPACINGS.join(' | '),
+    radius: THEME_RADII.join(' | '),
+    layout: THEME_LAYOUTS.join(' | '),
+    sectionOrder: 'array of the template sections to show, in order',
+  } satisfies Record<ThemeTokenPath, string>,
+};
+
+const NUMERIC_TOKENS: ThemeTokenPath[] = ['typography.baseSize', 'typography.scale'];
+
+export class ThemeCustomizer {
+  private modelClient: ModelClient;
+  private paywall: Pick<PaywallService, 'reserve' | 'commit' | 'release'>;
+  private env: any;
+  private modelId: string;
+
+  constructor(options: ThemeCustomizerOptions) {
+    this.modelClient = options.modelClient;
+    this.paywall = options.paywall;
+    this.env = options.env;
+    this.modelId = options.modelId || options.env?.TEMPLATE_CUSTOMIZER_MODEL || 'claude-3-haiku';
+  }
+
+  /**
+   * Ask the model for token changes that fulfil the request
+   */
+  async suggest(userId: string, template: PortfolioTemplate, theme: ThemeTokens, request: string): Promise<ThemeSuggestion> {
+    const context = { ...OUTPUT_FORMAT, template: template.id, sections: template.sections, theme };
+    const secured = await secureAIRequest(userId, 'TEMPLATE_CUSTOMIZER', request, this.modelId, this.env, context);
+    if (!secured.secure) {
+      throw new Error(secured.error || 'AI request rejected');
+    }
+
+    // Hold the most the request can cost; only the actual cost is charged
+    const maxTokens = parseInt(this.env?.MAX_TOKENS_PER_REQUEST || '4000');
+    const inputTokens = estimateTokens(secured.prompt!);
+    let held: ReserveResult;
+    try {
+      held = await this.paywall.reserve(userId, 'ai_credits', creditCost({ model: this.modelId, inputTokens, outputTokens: maxTokens }));
+    } catch (error) {
+      console.error('AI credit reservation error:', error);
+      throw new Error(`AI credits could not be checked: ${(error as Error).message}`);
+    }
+    if (!held.allowed) {
+      throw new Error(held.reason);
+    }
+
+    let output: string;
+    try {
+      output = await this.modelClient.complete({ modelId: this.modelId, prompt: secured.prompt!, maxTokens });
+    } catch (error) {
+      await this.release(held.reservation);
+      throw new Error(`Model request failed: ${(error as Error).message}`);
+    }
+
+    const { proposed, summary, errors } = parseTokenChanges(extractJSON(output), theme);
+    if (!proposed) {
+      await this.release(held.reservation);
+      throw new Error(`Invalid model output: ${errors.join('; ')}`);
+    }
+
+    try {
+      await this.paywall.commit(held.reservation, creditCharge({
+        feature: 'template_customizer',
+        model: this.modelId,
+        inputTokens,
+        outputTokens: estimateTokens(output),
+      }));
+    } catch (error) {
+      // The suggestion is already valid, so the user keeps it. The hold is kept too,
+      // so the charge can be retried or swept instead of the result being free.
+      console.error(`AI credit commit error for reservation ${held.reservation.id}:`, error);
+    }
+
+    const { valid, issues } = validateTheme(proposed, template);
+    return { changes: diffThemes(theme, proposed), theme: proposed, valid, issues, summary };
+  }
+
+  // Give back a hold; a failure only delays it until the reservation lapses
+  private async release(reservation: Reservation): Promise<void> {
+    try {
+      await this.paywall.release(reservation);
+    } catch (error) {
+      console.error('AI credit release error:', error);
+    }
+  }
+}
+
+/**
+ * Read the model's {token, value} list onto the current theme. Unknown
+ * tokens and values of the wrong type are errors; range checks are left
+ * to validateTheme so they surface as issues.
+ */
+export function parseTokenChanges(data: unknown, theme: ThemeTokens): { proposed?: ThemeTokens; summary?: string; errors: string[] } {
+  if (!isObject(data) || !Array.isArray(data.changes)) {
+    return { errors: ['Output is not a JSON object with a changes array'] };
+  }
+
+  const errors: string[] = [];
+  let proposed = theme;
+
+  data.changes.forEach((change: unknown, index: number) => {
+    const path = `changes[${index}]`;
+    if (!isObject(change) || !isThemeToken(change.token)) {
+      errors.push(`${path}.token is not a known token`);
+      return;
+    }
+
+    const value = tokenValue(change.token, change.value);
+    if (value === undefined) {
+      errors.push(`${path}.value has the wrong type for ${change.token}`);
+      return;
+    }
+    proposed = setToken(proposed, change.token, value);
+  });
+
+  if (errors.length > 0) return { errors };
+
+  const summary = typeof data.summary === 'string' && data.summary.trim() ? data.summary.trim() : undefined;
+  return { proposed, summary, errors };
+}
+
+function tokenValue(token: ThemeTokenPath, value: unknown): ThemeValue | undefined {
+  if (token === 'sectionOrder') {
+    return Array.isArray(value) && value.every(item => typeof item === 'string') ? (value as PortfolioSection[]) : undefined;
+  }
+  if (NUMERIC_TOKENS.includes(token)) {
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+  }
+  return typeof value === 'string' ? value.trim() : undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Factory function
+export function createThemeCustomizer(
+  env: any,
+  modelClient: ModelClient,
+  paywall: Pick<PaywallService, 'reserve' | 'commit' | 'release'>
+): ThemeCustomizer {
+  return new ThemeCustomizer({ modelClient, paywall, env });
+}
@@ -0,0 +1,367 @@
+/**
+ * Theme Tokens
+ * Typed design tokens for template customisation. Templates render from the
+ * tokens deterministically, and every edit is a list of token changes that
+ * can be reviewed before it is applied and undone afterwards.
+ */
+
+import { contrastRatio } from '../accessibility/audit';
+import type { PortfolioSection, PortfolioTemplate } from './types';
+
+export interface ThemePalette {
+  text: string;
+  muted: string;
+  accent: string;
+  background: string;
+  surface: string;
+}
+
+export type FontFallback = 'sans-serif' | 'serif' | 'monospace';
+
+export interface ThemeTypography {
+  // Primary family name, e.g. "Inter"; a generic fallback stack is appended
+  fontFamily: string;
+  fallback: FontFallback;
+  // Body text size in px
+  baseSize: number;
+  // Size ratio between heading levels, e.g. 1.25
+  scale: number;
+}
+
+export type ThemeSpacing = 'compact' | 'comfortable' | 'spacious';
+
+export type ThemeRadius = 'none' | 'small' | 'medium' | 'large';
+
+// 'sidebar' moves the template's aside sections into a second column;
+// 'centered' is a single column with a centred header
+export type ThemeLayout = 'single' | 'sidebar' | 'centered';
+
+export interface ThemeTokens {
+  palette: ThemePalette;
+  typography: ThemeTypography;
+  spacing: ThemeSpacing;
+  radius: ThemeRadius;
+  layout: ThemeLayout;
+  // Visible sections in page order; template sections left out are hidden
+  sectionOrder: PortfolioSection[];
+}
+
+// Defaults a template sets for its own look; section order comes from `sections`
+export type TemplateTheme = Partial<Omit<ThemeTokens, 'sectionOrder'>>;
+
+export type ThemeTokenPath =
+  | `palette.${keyof ThemePalette}`
+  | `typography.${keyof ThemeTypography}`
+  | 'spacing'
+  | 'radius'
+  | 'layout'
+  | 'sectionOrder';
+
+export type ThemeValue = string | number | PortfolioSection[];
+
+export interface ThemeChange {
+  token: ThemeTokenPath;
+  from: ThemeValue;
+  to: ThemeValue;
+}
+
+export type ThemeIssueCode =
+  | 'invalid_color'
+  | 'low_contrast'
+  | 'invalid_font'
+  | 'out_of_range'
+  | 'invalid_option'
+  | 'unknown_section'
+  | 'duplicate_section'
+  | 'no_sections'
+  | 'empty_sidebar';
+
+export interface ThemeIssue {
+  token: ThemeTokenPath;
+  severity: 'error' | 'warning';
+  code: ThemeIssueCode;
+  message: string;
+}
+
+export interface ThemeValidation {
+  // True when there are no error-severity issues
+  valid: boolean;
+  issues: ThemeIssue[];
+}
+
+export const THEME_TOKENS: ThemeTokenPath[] = [
+  'palette.text',
+  'palette.muted',
+  'palette.accent',
+  'palette.background',
+  'palette.surface',
+  'typography.fontFamily',
+  'typography.fallback',
+  'typography.baseSize',
+  'typography.scale',
+  'spacing',
+  'radius',
+  'layout',
+  'sectionOrder',
+];
+
+export const FONT_FALLBACKS: FontFallback[] = ['sans-serif', 'serif', 'monospace'];
+export const THEME_SPACINGS: ThemeSpacing[] = ['compact', 'comfortable', 'spacious'];
+export const THEME_RADII: ThemeRadius[] = ['none', 'small', 'medium', 'large'];
+export const THEME_LAYOUTS: ThemeLayout[] = ['single', 'sidebar', 'centered'];
+
+export const BASE_SIZE_RANGE: [number, number] = [14, 20];
+export const SCALE_RANGE: [number, number] = [1.067, 1.618];
+
+export const DEFAULT_THEME: Omit<ThemeTokens, 'sectionOrder' | 'layout'> = {
+  palette: {
+    text: '#1a202c',
+    muted: '#4a5568',
+    accent: '#2b6cb0',
+    background: '#ffffff',
+    surface: '#f7fafc',
+  },
+  typography: {
+    fontFamily: 'system-ui',
+    fallback: 'sans-serif',
+    baseSize: 16,
+    scale: 1.25,
+  },
+  spacing: 'comfortable',
+  radius: 'medium',
+};
+
+// Used by the sidebar layout when the template doesn't name its own aside sections
+const DEFAULT_ASIDE: PortfolioSection[] = ['skills', 'languages', 'contact'];
+
+const FALLBACK_STACKS: Record<FontFallback, string[]> = {
+  'sans-serif': ['system-ui', 'sans-serif'],
+  serif: ['Georgia', 'serif'],
+  monospace: ['ui-monospace', 'monospace'],
+};
+
+const SPACING_UNITS: Record<ThemeSpacing, string> = {
+  compact: '0.75rem',
+  comfortable: '1rem',
+  spacious: '1.5rem',
+};
+
+// [cards and panels, tags]
+const RADIUS_VALUES: Record<ThemeRadius, [string, string]> = {
+  none: ['0', '0'],
+  small: ['0.25rem', '0.25rem'],
+  medium: ['0.5rem', '999px'],
+  large: ['1rem', '999px'],
+};
+
+// Foreground/background pairs the templates actually draw, all held to WCAG AA body text
+const CONTRAST_PAIRS: [string, keyof ThemePalette, keyof ThemePalette][] = [
+  ['Body text', 'text', 'background'],
+  ['Secondary text', 'muted', 'background'],
+  ['Links', 'accent', 'background'],
+  ['Tags and panels', 'text', 'surface'],
+  ['Accented tags', 'accent', 'surface'],
+];
+
+const MIN_CONTRAST = 4.5;
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Plain family names only; the value is written into the stylesheet
+const FONT_FAMILY = /^[A-Za-z0-9][A-Za-z0-9 -]{0,47}$/;
+
+/**
+ * The template's own tokens, filled in from the defaults
+ */
+export function defaultTheme(template: PortfolioTemplate): ThemeTokens {
+  const theme = template.theme ?? {};
+  return {
+    palette: { ...DEFAULT_THEME.palette, ...theme.palette },
+    typography: { ...DEFAULT_THEME.typography, ...theme.typography },
+    spacing: theme.spacing ?? DEFAULT_THEME.spacing,
+    radius: theme.radius ?? DEFAULT_THEME.radius,
+    layout: theme.layout ?? (template.aside?.length ? 'sidebar' : 'single'),
+    sectionOrder: [...template.sections],
+  };
+}
+
+/**
+ * Sections the sidebar layout moves into the second column
+ */
+export function sidebarSections(template: PortfolioTemplate): PortfolioSection[] {
+  return template.aside?.length ? template.aside : DEFAULT_ASIDE.filter(section => template.sections.includes(section));
+}
+
+/**
+ * Check a theme against the token ranges and the template's sections
+ */
+export function validateTheme(theme: ThemeTokens, template: PortfolioTemplate): ThemeValidation {
+  const issues: ThemeIssue[] = [];
+  const issue = (token: ThemeTokenPath, code: ThemeIssueCode, message: string, severity: ThemeIssue['severity'] = 'error') => {
+    issues.push({ token, severity, code, message });
+  };
+
+  const { palette, typography } = theme;
+  for (const key of Object.keys(DEFAULT_THEME.palette) as (keyof ThemePalette)[]) {
+    if (typeof palette[key] !== 'string' || !HEX_COLOR.test(palette[key])) {
+      issue(`palette.${key}`, 'invalid_color', `${key} must be a hex colour like #1a202c`);
+    }
+  }
+
+  for (const [label, foreground, background] of CONTRAST_PAIRS) {
+    const ratio = contrastRatio(palette[foreground], palette[background]);
+    if (ratio === null || ratio >= MIN_CONTRAST) continue;
+    issue(
+      `palette.${foreground}`,
+      'low_contrast',
+      `${label} (${palette[foreground]} on ${palette[background]}) have a contrast ratio of ${ratio.toFixed(2)}:1; ${MIN_CONTRAST}:1 is required`,
+    );
+  }
+
+  if (typeof typography.fontFamily !== 'string' || !FONT_FAMILY.test(typography.fontFamily)) {
+    issue('typography.fontFamily', 'invalid_font', 'Font family must be a plain family name like "Inter"');
+  }
+  if (!FONT_FALLBACKS.includes(typography.fallback)) {
+    issue('typography.fallback', 'invalid_option', `Font fallback must be one of ${FONT_FALLBACKS.join(', ')}`);
+  }
+  if (!inRange(typography.baseSize, BASE_SIZE_RANGE)) {
+    issue('typography.baseSize', 'out_of_range', `Base font size must be between ${BASE_SIZE_RANGE[0]} and ${BASE_SIZE_RANGE[1]}px`);
+  }
+  if (!inRange(typography.scale, SCALE_RANGE)) {
+    issue('typography.scale', 'out_of_range', `Type scale must be between ${SCALE_RANGE[0]} and ${SCALE_RANGE[1]}`);
+  }
+
+  if (!THEME_SPACINGS.includes(theme.spacing)) {
+    issue('spacing', 'invalid_option', `Spacing must be one of ${THEME_SPACINGS.join(', ')}`);
+  }
+  if (!THEME_RADII.includes(theme.radius)) {
+    issue('radius', 'invalid_option', `Radius must be one of ${THEME_RADII.join(', ')}`);
+  }
+  if (!THEME_LAYOUTS.includes(theme.layout)) {
+    issue('layout', 'invalid_option', `Layout must be one of ${THEME_LAYOUTS.join(', ')}`);
+  }
+
+  const seen = new Set<PortfolioSection>();
+  for (const section of theme.sectionOrder) {
+    if (!template.sections.includes(section)) {
+      issue('sectionOrder', 'unknown_section', `${template.name} has no ${section} section`);
+    } else if (seen.has(section)) {
+      issue('sectionOrder', 'duplicate_section', `${section} is listed more than once`);
+    }
+    seen.add(section);
+  }
+  if (theme.sectionOrder.length === 0) {
+    issue('sectionOrder', 'no_sections', 'At least one section must be shown');
+  }
+  if (theme.layout === 'sidebar' && !sidebarSections(template).some(section => seen.has(section))) {
+    issue('layout', 'empty_sidebar', 'No visible section goes in the sidebar, so the page renders as a single column', 'warning');
+  }
+
+  return { valid: !issues.some(({ severity }) => severity === 'error'), issues };
+}
+
+/**
+ * Custom properties for a theme; the shared and template stylesheets read these
+ */
+export function themeToCss(theme: ThemeTokens): string {
+  const { palette, typography } = theme;
+  const size = (steps: number) => `${round((typography.baseSize / 16) * Math.pow(typography.scale, steps))}rem`;
+  const [radius, tagRadius] = RADIUS_VALUES[theme.radius];
+
+  return [
+    ':root {',
+    `  --color-text: ${palette.text};`,
+    `  --color-muted: ${palette.muted};`,
+    `  --color-accent: ${palette.accent};`,
+    `  --color-background: ${palette.background};`,
+    `  --color-surface: ${palette.surface};`,
+    `  --font-body: ${fontStack(typography)};`,
+    `  --font-size-base: ${size(0)};`,
+    `  --font-size-h1: ${size(4)};`,
+    `  --font-size-h2: ${size(2)};`,
+    `  --font-size-h3: ${size(1)};`,
+    `  --space: ${SPACING_UNITS[theme.spacing]};`,
+    `  --radius: ${radius};`,
+    `  --radius-tag: ${tagRadius};`,
+    '}',
+  ].join('\n');
+}
+
+export function getToken(theme: ThemeTokens, token: ThemeTokenPath): ThemeValue {
+  const [group, key] = token.split('.');
+  if (group === 'palette') return theme.palette[key as keyof ThemePalette];
+  if (group === 'typography') return theme.typography[key as keyof ThemeTypography];
+  return theme[token as 'spacing' | 'radius' | 'layout' | 'sectionOrder'];
+}
+
+/**
+ * Copy of the theme with one token replaced
+ */
+export function setToken(theme: ThemeTokens, token: ThemeTokenPath, value: ThemeValue): ThemeTokens {
+  const [group, key] = token.split('.');
+  if (group === 'palette') return { ...theme, palette: { ...theme.palette, [key]: value } };
+  if (group === 'typography') return { ...theme, typography: { ...theme.typography, [key]: value } };
+  return { ...theme, [token]: Array.isArray(value) ? [...value] : value };
+}
+
+export function isThemeToken(value: unknown): value is ThemeTokenPath {
+  return typeof value === 'string' && THEME_TOKENS.includes(value as ThemeTokenPath);
+}
+
+/**
+ * Token changes that turn `before` into `after`
+ */
+export function diffThemes(before: ThemeTokens, after: ThemeTokens): ThemeChange[] {
+  return THEME_TOKENS
+    .filter(token => !sameValue(getToken(before, token), getToken(after, token)))
+    .map(token => ({ token, from: getToken(before, token), to: getToken(after, token) }));
+}
+
+/**
+ * Apply reviewed changes; each change must still start from the current value
+ */
+export function applyThemeChanges(theme: ThemeTokens, changes: ThemeChange[]): ThemeTokens {
+  return changes.reduce((current, change) => {
+    if (!sameValue(getToken(current, change.token), change.from)) {
+      throw new Error(`Theme token ${change.token} has changed since this edit was made`);
+    }
+    return setToken(current, change.token, change.to);
+  }, theme);
+}
+
+/**
+ * Undo changes made by applyThemeChanges
+ */
+export function revertThemeChanges(theme: ThemeTokens, changes: ThemeChange[]): ThemeTokens {
+  return applyThemeChanges(theme, invertThemeChanges(changes));
+}
+
+export function invertThemeChanges(changes: ThemeChange[]): ThemeChange[] {
+  return changes.slice().reverse().map(({ token, from, to }) => ({ token, from: to, to: from }));
+}
+
+/**
+ * CSS font-family list: the theme font, then the fallback's usual system fonts
+ */
+export function fontStack({ fontFamily, fallback }: ThemeTypography): string {
+  const families = [fontFamily, ...(FALLBACK_STACKS[fallback] ?? FALLBACK_STACKS['sans-serif'])];
+  return families
+    .filter((family, index) => families.indexOf(family) === index)
+    .map(family => (family.includes(' ') ? `"${family}"` : family))
+    .join(', ');
+}
+
+function sameValue(a: ThemeValue, b: ThemeValue): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((value, index) => value === b[index]);
+  }
+  return a === b;
+}
+
+function inRange(value: number, [min, max]: [number, number]): boolean {
+  return typeof value === 'number' && value >= min && value <= max;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,83 @@
+/**
+ * Template Types
+ * Shape of a portfolio template and of the renderer's output
+ */
+
+import type { ProfileTranslation } from '../i18n/translation';
+import type { SeoOptions } from '../seo/metadata';
+import type { TemplateTheme, ThemeTokens } from './theme';
+
+export type PortfolioSection =
+  | 'about'
+  | 'experience'
+  | 'projects'
+  | 'education'
+  | 'skills'
+  | 'certifications'
+  | 'languages'
+  | 'volunteer'
+  | 'contact';
+
+export interface PortfolioTemplate {
+  id: string;
+  name: string;
+  industry: string;
+  // Preview thumbnail shown in the template picker
+  preview: string;
+  // Lowest SUBSCRIPTION_TIERS id that may apply the template
+  requiredTier: string;
+  // Set on custom templates; only the owner can list or apply them
+  ownerId?: string;
+  // Sections the template can show, in page order
+  sections: PortfolioSection[];
+  // Sections placed in a sidebar column on wide screens (subset of `sections`)
+  aside?: PortfolioSection[];
+  // English heading overrides, e.g. { experience: 'Career' }; other languages use their own labels
+  labels?: Partial<Record<PortfolioSection, string>>;
+  // Default design tokens; the renderer turns them into the :root custom properties
+  theme?: TemplateTheme;
+  // Template styles; the renderer prepends its shared base stylesheet and the theme
+  css: string;
+  customization: {
+    colors: string[];
+    fonts: string[];
+  };
+}
+
+export interface RenderOptions {
+  // 'inline' embeds the CSS in a <style> tag; any other value is used as the stylesheet href
+  stylesheet?: 'inline' | string;
+  // Replaces the profile image URL, e.g. with a bundled asset path
+  profileImage?: string;
+  // Adds the "Built with AppVantix" credit to the footer
+  branding?: boolean;
+  // Canonical URL and share image for the SEO tags in <head>
+  seo?: SeoOptions;
+  // The user's customised tokens; defaults to the template's own theme
+  theme?: ThemeTokens;
+  // BCP 47 language of the page, e.g. "de" or "pt-BR"; sets labels, dates and text direction
+  locale?: string;
+  // The user's wording for this locale; untranslated text stays in the original
+  translation?: ProfileTranslation;
+  // Every language version of the page, this one included, for the language switcher
+  alternates?: LocaleAlternate[];
+}
+
+export interface LocaleAlternate {
+  locale: string;
+  // Link from this page to that version, e.g. "../de/"
+  href: string;
+}
+
+export interface RenderedPortfolio {
+  templateId: string;
+  // Complete HTML document
+  html: string;
+  css: string;
+  // Sections that were rendered, in page order
+  sections: PortfolioSection[];
+  // Supported sections left out because the profile has nothing for them
+  omitted: PortfolioSection[];
+  // Supported sections the theme's section order leaves out
+  hidden: PortfolioSection[];
+}
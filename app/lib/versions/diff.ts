@@ -0,0 +1,177 @@
+/**
+ * Version Diff
+ * What changed between two portfolio snapshots: the template, theme tokens
+ * and profile fields (structural), and which regions of the rendered page
+ * read differently, word by word (visual).
+ */
+
+import { findAll, parseHtml, serializeHtml, textContent, type HtmlElement } from '../html/parser';
+import { diffThemes, type ThemeChange } from '../templates/theme';
+import type { PortfolioSnapshot } from './history';
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ProfileChange {
+  // e.g. "personal.headline", "experience.exp_a1b2c3.title", "skills"
+  path: string;
+  kind: ChangeKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface TextSegment {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface RegionChange {
+  // Section id, or "header" / "footer"
+  region: string;
+  kind: ChangeKind;
+  // Word-level diff of the region's text; markup-only changes have no added or removed words
+  text: TextSegment[];
+}
+
+export interface SnapshotDiff {
+  template?: { from: string; to: string };
+  theme: ThemeChange[];
+  profile: ProfileChange[];
+  regions: RegionChange[];
+  stylesChanged: boolean;
+}
+
+// Word-level diffs compare every word with every other; beyond this the region is shown as replaced
+const MAX_WORD_COMPARISONS = 250_000;
+
+export function diffSnapshots(before: PortfolioSnapshot, after: PortfolioSnapshot): SnapshotDiff {
+  return {
+    ...(before.templateId !== after.templateId ? { template: { from: before.templateId, to: after.templateId } } : {}),
+    theme: diffThemes(before.theme, after.theme),
+    profile: diffValues(before.profile, after.profile, ''),
+    regions: diffRegions(before.html, after.html),
+    stylesChanged: before.css !== after.css,
+  };
+}
+
+/**
+ * Recursive diff. Lists of entries with ids are matched by id, lists of
+ * strings as sets, and any other list position by position.
+ */
+function diffValues(before: unknown, after: unknown, path: string): ProfileChange[] {
+  if (before === after) return [];
+  if (before === undefined || before === '') return after === undefined || after === '' ? [] : [{ path, kind: 'added', after }];
+  if (after === undefined || after === '') return [{ path, kind: 'removed', before }];
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    if (before.every(isEntry) && after.every(isEntry)) {
+      const ids = unique([...before, ...after].map(entry => entry.id));
+      return ids.flatMap(id => diffValues(before.find(entry => entry.id === id), after.find(entry => entry.id === id), join(path, id)));
+    }
+    if (before.every(isString) && after.every(isString)) {
+      return [
+        ...before.filter(value => !after.includes(value)).map((value): ProfileChange => ({ path, kind: 'removed', before: value })),
+        ...after.filter(value => !before.includes(value)).map((value): ProfileChange => ({ path, kind: 'added', after: value })),
+      ];
+    }
+    return Array.from({ length: Math.max(before.length, after.length) }, (_, index) => diffValues(before[index], after[index], join(path, String(index)))).flat();
+  }
+
+  if (isObject(before) && isObject(after)) {
+    return unique([...Object.keys(before), ...Object.keys(after)])
+      .flatMap(key => diffValues(before[key], after[key], join(path, key)));
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ path, kind: 'changed', before, after }];
+}
+
+/**
+ * Compare the page region by region: the header, each <section id> and the footer
+ */
+function diffRegions(before: string, after: string): RegionChange[] {
+  const regionsBefore = pageRegions(before);
+  const regionsAfter = pageRegions(after);
+  const names = unique([...Array.from(regionsBefore.keys()), ...Array.from(regionsAfter.keys())]);
+
+  return names.flatMap((name): RegionChange[] => {
+    const was = regionsBefore.get(name);
+    const now = regionsAfter.get(name);
+    if (was && now && was.html === now.html) return [];
+
+    const kind: ChangeKind = !was ? 'added' : !now ? 'removed' : 'changed';
+    return [{ region: name, kind, text: diffWords(was?.text ?? '', now?.text ?? '') }];
+  });
+}
+
+function pageRegions(html: string): Map<string, { html: string; text: string }> {
+  const root = parseHtml(html);
+  const regions = new Map<string, { html: string; text: string }>();
+  const add = (name: string, element: HtmlElement) => {
+    if (!regions.has(name)) regions.set(name, { html: serializeHtml(element.children, element), text: textContent(element) });
+  };
+
+  for (const element of findAll(root, el => el.tag === 'header' || el.tag === 'footer' || (el.tag === 'section' && !!el.attrs.id))) {
+    add(element.tag === 'section' ? element.attrs.id : element.tag, element);
+  }
+  return regions;
+}
+
+function diffWords(before: string, after: string): TextSegment[] {
+  const a = before ? before.split(' ') : [];
+  const b = after ? after.split(' ') : [];
+  if (a.length * b.length > MAX_WORD_COMPARISONS) {
+    return [
+      ...(a.length > 0 ? [{ kind: 'removed' as const, text: before }] : []),
+      ...(b.length > 0 ? [{ kind: 'added' as const, text: after }] : []),
+    ];
+  }
+
+  // Longest common subsequence, filled from the end so the walk below runs forwards
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: TextSegment[] = [];
+  const push = (kind: TextSegment['kind'], word: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.kind === kind) last.text += ` ${word}`;
+    else segments.push({ kind, text: word });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  return segments;
+}
+
+function isEntry(value: unknown): value is { id: string } {
+  return isObject(value) && typeof value.id === 'string';
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function unique<T>(values: T[]): T[] {
+  return values.filter((value, index) => values.indexOf(value) === index);
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
@@ -0,0 +1,302 @@
+/**
+ * Portfolio Version History
+ * Every save stores an immutable snapshot (profile, theme, template and the
+ * generated output) with who or what made the change. Versions can be listed,
+ * compared and rolled back; how many are kept depends on the user's tier.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import type { LinkedInProfile } from '../linkedin/import';
+import { createPaywallService, type PaywallService } from '../paywall/service';
+import type { ThemeTokens } from '../templates/theme';
+import { diffSnapshots, type SnapshotDiff } from './diff';
+
+export interface PortfolioSnapshot {
+  templateId: string;
+  theme: ThemeTokens;
+  profile: LinkedInProfile;
+  // Generated output as it was published
+  html: string;
+  css: string;
+}
+
+export type VersionSource = 'edit' | 'ai_edit' | 'template_switch' | 'theme_change' | 'import' | 'rollback';
+
+export interface VersionPrompt {
+  // Protected prompt id and hash, e.g. TEMPLATE_CUSTOMIZER / sha256:template_customizer_v2.0
+  id: string;
+  hash: string;
+  // What the user asked for
+  request: string;
+}
+
+export interface VersionChange {
+  source: Exclude<VersionSource, 'rollback'>;
+  // User who saved the change
+  author: string;
+  // Model behind an AI edit
+  model?: string;
+  prompt?: VersionPrompt;
+}
+
+export interface VersionSummary {
+  portfolioId: string;
+  // 1, 2, 3… per portfolio; numbers are never reused
+  number: number;
+  createdAt: string;
+  source: VersionSource;
+  author: string;
+  model?: string;
+  prompt?: VersionPrompt;
+  // Version a rollback restored
+  restoredFrom?: number;
+  // SHA-256 of the snapshot
+  contentHash: string;
+}
+
+export interface PortfolioVersion extends VersionSummary {
+  snapshot: PortfolioSnapshot;
+}
+
+export interface VersionComparison {
+  from: VersionSummary;
+  to: VersionSummary;
+  diff: SnapshotDiff;
+}
+
+export interface VersionStore {
+  // Newest first, without snapshots
+  list(ownerId: string, portfolioId: string): Promise<VersionSummary[]>;
+  get(ownerId: string, portfolioId: string, number: number): Promise<PortfolioVersion | undefined>;
+  insert(ownerId: string, version: PortfolioVersion): Promise<void>;
+  remove(ownerId: string, portfolioId: string, numbers: number[]): Promise<void>;
+  // Whether `portfolioId` is one of the owner's portfolios
+  ownsPortfolio(ownerId: string, portfolioId: string): Promise<boolean>;
+}
+
+type TierLookup = Pick<PaywallService, 'getTier'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SUMMARY_COLUMNS = 'portfolio_id, number, created_at, source, author, model, prompt, restored_from, content_hash';
+
+export class SupabaseVersionStore implements VersionStore {
+  private supabase;
+
+  constructor(supabaseUrl: string, supabaseKey: string) {
+    this.supabase = createClient(supabaseUrl, supabaseKey);
+  }
+
+  async list(ownerId: string, portfolioId: string): Promise<VersionSummary[]> {
+    const { data, error } = await this.supabase
+      .from('portfolio_versions')
+      .select(SUMMARY_COLUMNS)
+      .eq('user_id', ownerId)
+      .eq('portfolio_id', portfolioId)
+      .order('number', { ascending: false });
+
+    if (error) throw error;
+    return (data ?? []).map(toSummary);
+  }
+
+  async get(ownerId: string, portfolioId: string, number: number): Promise<PortfolioVersion | undefined> {
+    const { data, error } = await this.supabase
+      .from('portfolio_versions')
+      .select(`${SUMMARY_COLUMNS}, snapshot`)
+      .eq('user_id', ownerId)
+      .eq('portfolio_id', portfolioId)
+      .eq('number', number)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? { ...toSummary(data), snapshot: data.snapshot as PortfolioSnapshot } : undefined;
+  }
+
+  async insert(ownerId: string, version: PortfolioVersion): Promise<void> {
+    // (portfolio_id, number) is the primary key, so two concurrent saves can't both take a number
+    const { error } = await this.supabase.from('portfolio_versions').insert({
+      user_id: ownerId,
+      portfolio_id: version.portfolioId,
+      number: version.number,
+      created_at: version.createdAt,
+      source: version.source,
+      author: version.author,
+      model: version.model ?? null,
+      prompt: version.prompt ?? null,
+      restored_from: version.restoredFrom ?? null,
+      content_hash: version.contentHash,
+      snapshot: version.snapshot,
+    });
+
+    if (error) throw error;
+  }
+
+  async remove(ownerId: string, portfolioId: string, numbers: number[]): Promise<void> {
+    const { error } = await this.supabase
+      .from('portfolio_versions')
+      .delete()
+      .eq('user_id', ownerId)
+      .eq('portfolio_id', portfolioId)
+      .in('number', numbers);
+
+    if (error) throw error;
+  }
+
+  async ownsPortfolio(ownerId: string, portfolioId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('portfolios')
+      .select('id')
+      .eq('id', portfolioId)
+      .eq('user_id', ownerId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return !!data;
+  }
+}
+
+export class VersionHistory {
+  constructor(private paywall: TierLookup, private store: VersionStore) {}
+
+  /**
+   * Store a save as the next version. Saving exactly what the latest version
+   * holds records nothing and returns that version.
+   */
+  async record(userId: string, portfolioId: string, snapshot: PortfolioSnapshot, change: VersionChange, now = new Date()): Promise<VersionSummary> {
+    await this.assertOwner(userId, portfolioId);
+    return this.append(userId, portfolioId, snapshot, change, now);
+  }
+
+  /** Newest first */
+  async list(userId: string, portfolioId: string): Promise<VersionSummary[]> {
+    return this.store.list(userId, portfolioId);
+  }
+
+  async get(userId: string, portfolioId: string, number: number): Promise<PortfolioVersion> {
+    const version = await this.store.get(userId, portfolioId, number);
+    if (!version) {
+      throw new Error(`Version ${number} not found`);
+    }
+    return freeze(version);
+  }
+
+  async compare(userId: string, portfolioId: string, from: number, to: number): Promise<VersionComparison> {
+    const [before, after] = await Promise.all([this.get(userId, portfolioId, from), this.get(userId, portfolioId, to)]);
+    return { from: summarize(before), to: summarize(after), diff: diffSnapshots(before.snapshot, after.snapshot) };
+  }
+
+  /**
+   * Make an earlier version current again. History is never rewritten: the
+   * restored snapshot is saved as a new version, which the caller publishes.
+   */
+  async rollback(userId: string, portfolioId: string, number: number, now = new Date()): Promise<PortfolioVersion> {
+    await this.assertOwner(userId, portfolioId);
+    const target = await this.get(userId, portfolioId, number);
+    const [latest] = await this.store.list(userId, portfolioId);
+    if (latest?.contentHash === target.contentHash) {
+      throw new Error(`Version ${number} is already the current content`);
+    }
+
+    const restored = await this.append(userId, portfolioId, target.snapshot, { source: 'rollback', author: userId, restoredFrom: number }, now);
+    return this.get(userId, portfolioId, restored.number);
+  }
+
+  // Versions are only written for the user's own portfolios
+  private async assertOwner(userId: string, portfolioId: string): Promise<void> {
+    if (!await this.store.ownsPortfolio(userId, portfolioId)) {
+      throw new Error('Portfolio not found');
+    }
+  }
+
+  private async append(
+    userId: string,
+    portfolioId: string,
+    snapshot: PortfolioSnapshot,
+    change: Pick<VersionSummary, 'source' | 'author' | 'model' | 'prompt' | 'restoredFrom'>,
+    now: Date,
+  ): Promise<VersionSummary> {
+    const contentHash = await hashSnapshot(snapshot);
+    const [latest] = await this.store.list(userId, portfolioId);
+    if (latest && latest.contentHash === contentHash) {
+      return latest;
+    }
+
+    const version: PortfolioVersion = {
+      portfolioId,
+      number: (latest?.number ?? 0) + 1,
+      createdAt: now.toISOString(),
+      ...change,
+      contentHash,
+      // Later edits to the caller's objects must not reach the stored version
+      snapshot: clone(snapshot),
+    };
+    await this.store.insert(userId, version);
+    await this.prune(userId, portfolioId, now);
+    return summarize(version);
+  }
+
+  /**
+   * Drop versions beyond the tier's count and age limits. The current
+   * version is always kept.
+   */
+  private async prune(userId: string, portfolioId: string, now: Date): Promise<void> {
+    const tier = await this.paywall.getTier(userId);
+    const versions = await this.store.list(userId, portfolioId);
+    const { versions: limit, version_retention_days: retentionDays } = tier.entitlements;
+    const cutoff = retentionDays === -1 ? undefined : now.getTime() - retentionDays * DAY_MS;
+
+    const expired = versions
+      .filter((version, index) => index > 0 && (
+        (limit !== -1 && index >= limit)
+        || (cutoff !== undefined && Date.parse(version.createdAt) < cutoff)
+      ))
+      .map(version => version.number);
+
+    if (expired.length > 0) {
+      await this.store.remove(userId, portfolioId, expired);
+    }
+  }
+}
+
+function toSummary(row: any): VersionSummary {
+  return {
+    portfolioId: row.portfolio_id,
+    number: row.number,
+    createdAt: row.created_at,
+    source: row.source,
+    author: row.author,
+    ...(row.model ? { model: row.model } : {}),
+    ...(row.prompt ? { prompt: row.prompt } : {}),
+    ...(row.restored_from ? { restoredFrom: row.restored_from } : {}),
+    contentHash: row.content_hash,
+  };
+}
+
+function summarize({ snapshot: _snapshot, ...summary }: PortfolioVersion): VersionSummary {
+  return summary;
+}
+
+async function hashSnapshot(snapshot: PortfolioSnapshot): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(snapshot))));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function freeze<T>(value: T): T {
+  if (typeof value === 'object' && value !== null) {
+    Object.values(value).forEach(freeze);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+// Export factory function
+export function createVersionHistory(env: any): VersionHistory {
+  return new VersionHistory(
+    createPaywallService(env),
+    // Clients only read versions; writes and pruning go through the ownership check above
+    new SupabaseVersionStore(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY),
+  );
+}
@@ -0,0 +1,49 @@
+import { json, type ActionFunctionArgs } from "@remix-run/cloudflare";
+import { auditAccessibility } from "../lib/accessibility/audit";
+import { requireUser } from "../lib/auth/session";
+
+// Generated portfolios are well under this; anything larger is not ours
+const MAX_HTML_LENGTH = 2 * 1024 * 1024;
+// The whole request: the page plus its stylesheet
+const MAX_BODY_BYTES = 3 * 1024 * 1024;
+
+/**
+ * POST { html, css? } -> AccessibilityReport, for the editor's audit panel
+ */
+export async function action({ request, context }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const { env } = context.cloudflare as { env: any };
+  await requireUser(request, env);
+
+  // Refuse oversized bodies before reading them
+  if (Number(request.headers.get("Content-Length")) > MAX_BODY_BYTES) {
+    return json({ error: "Request body is too large" }, { status: 413 });
+  }
+  const text = await request.text();
+  if (text.length > MAX_BODY_BYTES) {
+    return json({ error: "Request body is too large" }, { status: 413 });
+  }
+
+  let body: { html?: unknown; css?: unknown };
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  if (typeof body?.html !== "string" || body.html.trim() === "") {
+    return json({ error: "html is required" }, { status: 400 });
+  }
+  if (body.html.length > MAX_HTML_LENGTH) {
+    return json({ error: "html is too large" }, { status: 413 });
+  }
+
+  const report = auditAccessibility(body.html, {
+    css: typeof body.css === "string" ? body.css : undefined,
+  });
+
+  return json(report);
+}
@@ -0,0 +1,35 @@
+import { json, type ActionFunctionArgs } from "@remix-run/cloudflare";
+import { requireUser } from "../lib/auth/session";
+import { createBillingService } from "../lib/billing/stripe";
+
+/**
+ * POST { tier } -> { url } of a Stripe Checkout page for that plan
+ */
+export async function action({ request, context }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const { env } = context.cloudflare as { env: any };
+  const user = await requireUser(request, env);
+
+  let body: { tier?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+  if (typeof body.tier !== "string") {
+    return json({ error: "tier is required" }, { status: 400 });
+  }
+
+  try {
+    const url = await createBillingService(env).createCheckoutSession(user.id, user.email, body.tier, {
+      successUrl: new URL("/?checkout=success", request.url).href,
+      cancelUrl: new URL("/upgrade?checkout=cancelled", request.url).href,
+    });
+    return json({ url });
+  } catch (error) {
+    return json({ error: (error as Error).message }, { status: 400 });
+  }
+}
@@ -0,0 +1,22 @@
+import { json, type ActionFunctionArgs } from "@remix-run/cloudflare";
+import { requireUser } from "../lib/auth/session";
+import { createBillingService } from "../lib/billing/stripe";
+
+/**
+ * POST -> { url } of the Stripe Customer Portal for the signed-in user
+ */
+export async function action({ request, context }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const { env } = context.cloudflare as { env: any };
+  const user = await requireUser(request, env);
+
+  try {
+    const url = await createBillingService(env).createPortalSession(user.id, new URL("/", request.url).href);
+    return json({ url });
+  } catch (error) {
+    return json({ error: (error as Error).message }, { status: 400 });
+  }
+}
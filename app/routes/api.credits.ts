@@ -0,0 +1,34 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { requireUser } from "../lib/auth/session";
+import { createPaywallService } from "../lib/paywall/service";
+
+/**
+ * GET ?limit=&before= -> { balance, history } of the signed-in user's AI credits.
+ * 401 when signed out (thrown by requireUser), 500 when loading fails.
+ */
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const { env } = context.cloudflare as { env: any };
+  const user = await requireUser(request, env);
+
+  const url = new URL(request.url);
+  const limit = Math.min(parseInt(url.searchParams.get("limit") || "50"), 200);
+  const before = url.searchParams.get("before") || undefined;
+  if (!Number.isInteger(limit) || limit < 1) {
+    return json({ error: "limit must be a positive number" }, { status: 400 });
+  }
+
+  try {
+    const paywall = createPaywallService(env);
+    const [balance, history] = await Promise.all([
+      paywall.getCredits(user.id),
+      paywall.getCreditHistory(user.id, { limit, before }),
+    ]);
+    return json({ balance, history });
+  } catch (error) {
+    if ((error as Error).message === "User profile not found") {
+      return json({ error: "User profile not found" }, { status: 404 });
+    }
+    console.error("AI credits error:", error);
+    return json({ error: "Could not load AI credits" }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { json } from "@remix-run/cloudflare";
+import { pricingFeatures } from "../lib/paywall/entitlements";
+import { SUBSCRIPTION_TIERS } from "../lib/paywall/service";
+
+/**
+ * GET -> every plan with its price, pricing card lines and catalogue lines for comparison tables
+ */
+export async function loader() {
+  return json({
+    plans: SUBSCRIPTION_TIERS.map(tier => ({
+      id: tier.id,
+      name: tier.name,
+      price: tier.price,
+      entitlements: tier.entitlements,
+      features: tier.features,
+      comparison: pricingFeatures(tier.entitlements),
+    })),
+  });
+}
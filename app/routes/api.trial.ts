@@ -0,0 +1,60 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { requireUser } from "../lib/auth/session";
+import { createPaywallService } from "../lib/paywall/service";
+
+// Why startTrial refuses a user; anything else is a server error
+const TRIAL_REFUSALS = new Set([
+  "Free trials are not available",
+  "You have already used your free trial",
+  "Free trials are for new users without a subscription",
+  "A free trial has already been claimed with this email address",
+]);
+
+/**
+ * GET -> the signed-in user's trial: time left and the portfolio grace period.
+ * 404 without a profile, 500 when loading fails.
+ */
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const { env } = context.cloudflare as { env: any };
+  const user = await requireUser(request, env);
+
+  try {
+    return json(await createPaywallService(env).getTrial(user.id));
+  } catch (error) {
+    if ((error as Error).message === "User profile not found") {
+      return json({ error: "User profile not found" }, { status: 404 });
+    }
+    console.error("Trial status error:", error);
+    return json({ error: "Could not load the trial" }, { status: 500 });
+  }
+}
+
+/**
+ * POST -> start the free trial; called once after sign-up. 400 without a
+ * confirmed email, 409 when the user can't have a trial, 500 when it fails.
+ */
+export async function action({ request, context }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const { env } = context.cloudflare as { env: any };
+  const user = await requireUser(request, env);
+  if (!user.email || !user.emailConfirmedAt) {
+    return json({ error: "A verified email address is required for a free trial" }, { status: 400 });
+  }
+
+  try {
+    return json(await createPaywallService(env).startTrial(user.id, user.email));
+  } catch (error) {
+    const message = (error as Error).message;
+    if (TRIAL_REFUSALS.has(message)) {
+      return json({ error: message }, { status: 409 });
+    }
+    if (message === "User profile not found") {
+      return json({ error: message }, { status: 404 });
+    }
+    console.error("Trial start error:", error);
+    return json({ error: "Could not start the trial" }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { json, type ActionFunctionArgs } from "@remix-run/cloudflare";
+import type Stripe from "stripe";
+import { createBillingService } from "../lib/billing/stripe";
+
+/**
+ * Stripe webhook endpoint. Unverifiable requests get a 400; processing
+ * errors a 500, so Stripe retries the delivery.
+ */
+export async function action({ request, context }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const { env } = context.cloudflare as { env: any };
+  const billing = createBillingService(env);
+
+  // The signature covers the exact bytes Stripe sent, so read the body as text
+  const payload = await request.text();
+  let event: Stripe.Event;
+  try {
+    event = await billing.verifyWebhook(payload, request.headers.get("Stripe-Signature"));
+  } catch (error) {
+    return json({ error: `Webhook verification failed: ${(error as Error).message}` }, { status: 400 });
+  }
+
+  try {
+    const result = await billing.processEvent(event);
+    return json({ received: true, outcome: result.outcome });
+  } catch (error) {
+    console.error("Stripe webhook error:", error);
+    return json({ error: "Webhook processing failed" }, { status: 500 });
+  }
+}
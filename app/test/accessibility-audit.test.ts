@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { LinkedInProfile } from '../lib/linkedin/import'
+import { assertPublishable, auditAccessibility, contrastRatio } from '../lib/accessibility/audit'
+import { parseHtml, textContent } from '../lib/html/parser'
+import { action } from '../routes/api.accessibility-audit'
+import { AVAILABLE_TEMPLATES } from '../lib/templates'
+import { createPortfolioRenderer } from '../lib/templates/renderer'
+
+// Any bearer token signs in; without one the route gets requireUser's 401
+vi.mock('../lib/auth/session', () => ({
+  requireUser: async (request: Request) => {
+    if (!request.headers.get('Authorization')) throw new Response(null, { status: 401 })
+    return { id: 'user-1' }
+  },
+}))
+
+const profile: LinkedInProfile = {
+  personal: { name: 'Jane Doe', headline: 'Staff Engineer', location: 'Berlin', summary: 'I build developer tools.', profileImage: 'https://cdn.example.com/jane.jpg' },
+  contact: { email: 'jane@example.com', website: 'janedoe.dev', linkedin: 'https://www.linkedin.com/in/janedoe' },
+  experience: [{
+    id: 'exp_a', company: 'Acme', title: 'Lead Engineer', startDate: '2021-01', current: true,
+    description: 'Led the platform team.', achievements: [], skills: ['Go'],
+  }],
+  education: [],
+  skills: ['TypeScript'],
+  certifications: [],
+  languages: [],
+  projects: [{ id: 'proj_a', name: 'Portfolio Builder', description: 'Static sites.', url: 'https://example.com', startDate: '2023', skills: [] }],
+  volunteer: [],
+}
+
+function page(body: string, { lang = ' lang="en"', head = '<title>Jane Doe</title>' } = {}): string {
+  return `<!DOCTYPE html>\n<html${lang}>\n<head>${head}</head>\n<body>\n${body}\n</body>\n</html>`
+}
+
+const rules = (html: string) => auditAccessibility(html).issues.map(issue => issue.rule)
+
+describe('accessibility audit', () => {
+  it('passes every built-in template with a full score', () => {
+    const renderer = createPortfolioRenderer()
+    for (const template of AVAILABLE_TEMPLATES) {
+      const { html } = renderer.render(profile, template)
+      const report = auditAccessibility(html)
+
+      expect(report.issues, template.id).toEqual([])
+      expect(report.score).toBe(100)
+      expect(report.passed).toBe(true)
+    }
+  })
+
+  it('flags missing language, title, alt text and link names as fixable issues', () => {
+    const report = auditAccessibility(page('<main><h1>Jane</h1>\n<img src="me.jpg">\n<a href="/x"><img src="x.png"></a></main>', { lang: '', head: '' }))
+
+    expect(report.passed).toBe(false)
+    expect(report.counts).toEqual({ critical: 4, serious: 1, moderate: 0, minor: 0 })
+    expect(report.issues[0]).toMatchObject({ rule: 'document-lang', wcag: '3.1.1', fix: expect.stringContaining('lang="en"') })
+    expect(report.issues.find(issue => issue.rule === 'image-alt')).toMatchObject({ element: '<img src="me.jpg">', line: 6 })
+    expect(report.issues.map(issue => issue.rule)).toContain('link-name')
+    expect(report.issues.map(issue => issue.rule)).toContain('document-title')
+    expect(report.score).toBe(100 - 3 * 20 - 20 - 10)
+  })
+
+  it('checks heading structure and landmarks', () => {
+    expect(rules(page('<div><h2>About</h2></div>'))).toEqual(['page-has-heading-one', 'landmark-main'])
+    expect(rules(page('<main><h1>Jane</h1><h3>Skipped</h3><h2></h2></main>'))).toEqual(['empty-heading', 'heading-order'])
+    expect(rules(page('<main><h1>Jane</h1></main><nav></nav><nav></nav>'))).toEqual(['landmark-unique', 'landmark-unique'])
+    expect(rules(page('<main><h1>Jane</h1></main><nav aria-label="Sections"></nav><nav aria-label="Social"></nav>'))).toEqual([])
+  })
+
+  it('checks link text, form labels and buttons', () => {
+    const html = page([
+      '<main><h1>Jane</h1>',
+      '<a href="/case-study">Read more…</a>',
+      '<a href="/cv" aria-label="Download CV"><svg aria-hidden="true"></svg></a>',
+      '<form><label for="email">Email</label><input id="email" type="email">',
+      '<label>Name <input type="text"></label>',
+      '<input type="text" placeholder="Message">',
+      '<input type="hidden" name="token">',
+      '<button type="submit"></button></form></main>',
+    ].join('\n'))
+
+    expect(auditAccessibility(html).issues.map(issue => [issue.rule, issue.line])).toEqual([
+      ['form-label', 10],
+      ['button-name', 12],
+      ['link-text', 6],
+    ])
+  })
+
+  it('checks theme contrast from the stylesheet', () => {
+    expect(contrastRatio('#000', '#fff')).toBeCloseTo(21)
+    expect(contrastRatio('#767676', '#ffffff')).toBeGreaterThan(4.5)
+
+    const html = page('<main><h1>Jane</h1></main>', { head: '<title>Jane</title><style>:root { --color-muted: #aaaaaa; --color-accent: #ff9900; }</style>' })
+    const contrast = auditAccessibility(html).issues.filter(issue => issue.rule === 'color-contrast')
+
+    expect(contrast.map(issue => issue.severity)).toEqual(['critical', 'critical'])
+    expect(contrast[0].message).toContain('Secondary text (#aaaaaa on #ffffff)')
+    expect(auditAccessibility(page('<main><h1>Jane</h1></main>'), { theme: { text: '#777777' } }).issues[0]).toMatchObject({
+      rule: 'color-contrast',
+      severity: 'serious',
+    })
+  })
+
+  it('blocks publishing on critical failures', () => {
+    const failing = auditAccessibility(page('<main><h1>Jane</h1><img src="me.jpg"></main>'))
+    expect(() => assertPublishable(failing)).toThrow('Publishing blocked by 1 accessibility issue(s): image-alt')
+
+    const moderate = auditAccessibility(page('<main><h1>Jane</h1><h3>Skipped</h3></main>'))
+    expect(() => assertPublishable(moderate)).not.toThrow()
+    expect(() => assertPublishable(moderate, 'moderate')).toThrow('heading-order')
+  })
+
+  it('parses tolerant HTML', () => {
+    const root = parseHtml('<ul><li>One<li>Two &amp; <b>three</b></ul><script>if (a < b) {}</script>')
+    const [list] = root.children as Exclude<(typeof root.children)[number], string>[]
+
+    expect(list.children).toHaveLength(2)
+    expect(textContent(list)).toBe('One Two & three')
+  })
+})
+
+describe('accessibility audit API', () => {
+  const post = (body: string, headers: Record<string, string> = { Authorization: 'Bearer token' }) => action({
+    request: new Request('https://app.test/api/accessibility-audit', { method: 'POST', body, headers }),
+    params: {},
+    context: { cloudflare: { env: {} } },
+  })
+
+  it('returns the report for posted HTML', async () => {
+    const response = await post(JSON.stringify({ html: page('<main><h1>Jane</h1></main>') }))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ score: 100, passed: true, issues: [] })
+  })
+
+  it('rejects bad requests', async () => {
+    expect((await post('not json')).status).toBe(400)
+    expect((await post(JSON.stringify({ css: 'a{}' }))).status).toBe(400)
+    expect((await post('null')).status).toBe(400)
+    expect((await post(JSON.stringify({ html: 'x'.repeat(3 * 1024 * 1024) }))).status).toBe(413)
+  })
+
+  it('requires sign-in', async () => {
+    await expect(post(JSON.stringify({ html: page('<main><h1>Jane</h1></main>') }), {})).rejects.toMatchObject({ status: 401 })
+  })
+})
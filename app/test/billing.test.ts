@@ -0,0 +1,203 @@
+import { describe, it, expect, vi } from 'vitest'
+import Stripe from 'stripe'
+import { BillingService, type BillingStore, type StripeApi, type SubscriptionUpdate } from '../lib/billing/stripe'
+import checkoutCompleted from './fixtures/stripe/checkout.session.completed.json'
+import creditsPurchased from './fixtures/stripe/checkout.session.completed.credits.json'
+import subscriptionUpdated from './fixtures/stripe/customer.subscription.updated.json'
+import subscriptionDeleted from './fixtures/stripe/customer.subscription.deleted.json'
+import paymentFailed from './fixtures/stripe/invoice.payment_failed.json'
+
+const USER = '8f6c2a4e-1d3b-4c5a-9e7f-0a1b2c3d4e5f'
+const WEBHOOK_SECRET = 'whsec_test_secret'
+const PRICES = { pro: 'price_1QwZxYLkdIwHu7ixPr0Pr1cE', enterprise: 'price_1QwZyXLkdIwHu7ixEnTerPr1' }
+const CREDIT_PRICES = { credits_100: 'price_1QyDkALkdIwHu7ixCr3d1OO0', credits_500: 'price_1QyDkBLkdIwHu7ixCr3d5OO0' }
+
+interface Profile {
+  subscription_tier: string
+  subscription_status: string
+  stripe_customer_id?: string
+  stripe_subscription_id?: string
+  billing_anchor_at?: string
+  billing_event_at?: string
+}
+
+function memoryStore(profiles: Record<string, Profile>): BillingStore {
+  const events = new Set<string>()
+  return {
+    async getCustomerId(userId) { return profiles[userId]?.stripe_customer_id },
+    async saveCustomerId(userId, customerId) { profiles[userId].stripe_customer_id = customerId },
+    async findUserByCustomer(customerId) {
+      return Object.keys(profiles).find(id => profiles[id].stripe_customer_id === customerId)
+    },
+    async updateSubscription(userId, update: SubscriptionUpdate) {
+      const profile = profiles[userId]
+      if (profile.billing_event_at && profile.billing_event_at > update.eventAt) return false
+      if (update.tier) profile.subscription_tier = update.tier
+      profile.subscription_status = update.status
+      if (update.customerId) profile.stripe_customer_id = update.customerId
+      if (update.subscriptionId) profile.stripe_subscription_id = update.subscriptionId
+      if (update.anchorAt) profile.billing_anchor_at = update.anchorAt
+      profile.billing_event_at = update.eventAt
+      return true
+    },
+    async isEventProcessed(eventId) { return events.has(eventId) },
+    async markEventProcessed(eventId) { events.add(eventId) },
+  }
+}
+
+// Real signature checks; the API calls are stubbed
+function stripeApi() {
+  const stripe = new Stripe('sk_test_123')
+  return {
+    customers: { create: vi.fn(async () => ({ id: 'cus_new' })) },
+    checkout: { sessions: { create: vi.fn(async () => ({ url: 'https://checkout.stripe.com/c/pay/cs_test_1' })) } },
+    billingPortal: { sessions: { create: vi.fn(async () => ({ url: 'https://billing.stripe.com/p/session/test_1' })) } },
+    webhooks: stripe.webhooks,
+  }
+}
+
+// Top-ups by payment reference
+function creditLedger() {
+  const topUps = new Map<string, string>()
+  return {
+    topUps,
+    async topUp(_userId: string, packId: string, reference: string) {
+      if (topUps.has(reference)) return false
+      topUps.set(reference, packId)
+      return true
+    },
+  }
+}
+
+function setup(profile: Partial<Profile> = {}) {
+  const profiles: Record<string, Profile> = { [USER]: { subscription_tier: 'free', subscription_status: 'inactive', ...profile } }
+  const api = stripeApi()
+  const credits = creditLedger()
+  const billing = new BillingService(api as unknown as StripeApi, memoryStore(profiles), credits, {
+    webhookSecret: WEBHOOK_SECRET,
+    prices: PRICES,
+    creditPrices: CREDIT_PRICES,
+  })
+  return { billing, api, credits, profile: profiles[USER] }
+}
+
+// Deliver a recorded event the way Stripe does: raw body plus signature header
+async function deliver(billing: BillingService, fixture: object) {
+  const payload = JSON.stringify(fixture, null, 2)
+  const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET })
+  return billing.processEvent(await billing.verifyWebhook(payload, signature))
+}
+
+const urls = { successUrl: 'https://appvantix.com/?checkout=success', cancelUrl: 'https://appvantix.com/upgrade' }
+
+describe('checkout and portal', () => {
+  it('starts a subscription checkout for a paid tier, creating the customer once', async () => {
+    const { billing, api, profile } = setup()
+
+    expect(await billing.createCheckoutSession(USER, 'jane@example.com', 'pro', urls)).toBe('https://checkout.stripe.com/c/pay/cs_test_1')
+    await billing.createCheckoutSession(USER, 'jane@example.com', 'enterprise', urls)
+
+    expect(api.customers.create).toHaveBeenCalledTimes(1)
+    expect(profile.stripe_customer_id).toBe('cus_new')
+    expect(api.checkout.sessions.create).toHaveBeenCalledWith(expect.objectContaining({
+      mode: 'subscription',
+      customer: 'cus_new',
+      client_reference_id: USER,
+      line_items: [{ price: PRICES.pro, quantity: 1 }],
+      metadata: { userId: USER, tier: 'pro' },
+    }))
+  })
+
+  it('rejects tiers that cannot be bought', async () => {
+    const { billing } = setup()
+
+    await expect(billing.createCheckoutSession(USER, undefined, 'free', urls)).rejects.toThrow('The Free plan does not need a checkout')
+    await expect(billing.createCheckoutSession(USER, undefined, 'gold', urls)).rejects.toThrow('Unknown subscription tier: gold')
+  })
+
+  it('opens the portal only for customers', async () => {
+    await expect(setup().billing.createPortalSession(USER, 'https://appvantix.com/')).rejects.toThrow('No billing account found')
+
+    const { billing, api } = setup({ stripe_customer_id: 'cus_RqT7uVwXyZ1a2B' })
+    expect(await billing.createPortalSession(USER, 'https://appvantix.com/')).toBe('https://billing.stripe.com/p/session/test_1')
+    expect(api.billingPortal.sessions.create).toHaveBeenCalledWith({ customer: 'cus_RqT7uVwXyZ1a2B', return_url: 'https://appvantix.com/' })
+  })
+})
+
+describe('stripe webhooks', () => {
+  it('rejects payloads without a valid signature', async () => {
+    const { billing } = setup()
+    const payload = JSON.stringify(checkoutCompleted)
+    const forged = Stripe.webhooks.generateTestHeaderString({ payload, secret: 'whsec_someone_else' })
+
+    await expect(billing.verifyWebhook(payload, null)).rejects.toThrow('Missing Stripe-Signature header')
+    await expect(billing.verifyWebhook(payload, forged)).rejects.toThrow()
+  })
+
+  it('follows a subscription from checkout to cancellation', async () => {
+    const { billing, profile } = setup()
+
+    expect(await deliver(billing, checkoutCompleted)).toMatchObject({ outcome: 'applied', userId: USER })
+    expect(profile).toMatchObject({
+      subscription_tier: 'pro',
+      subscription_status: 'active',
+      stripe_customer_id: 'cus_RqT7uVwXyZ1a2B',
+      stripe_subscription_id: 'sub_1QxCjzLkdIwHu7ixQm4RtYuI',
+    })
+
+    // Upgraded in the portal: the tier comes from the new price
+    await deliver(billing, subscriptionUpdated)
+    expect(profile).toMatchObject({ subscription_tier: 'enterprise', subscription_status: 'active', billing_anchor_at: '2025-03-03T11:59:55.000Z' })
+
+    await deliver(billing, paymentFailed)
+    expect(profile).toMatchObject({ subscription_tier: 'enterprise', subscription_status: 'past_due' })
+
+    await deliver(billing, subscriptionDeleted)
+    expect(profile).toMatchObject({ subscription_tier: 'free', subscription_status: 'canceled' })
+  })
+
+  it('ignores redeliveries and events older than the last one applied', async () => {
+    const { billing, profile } = setup()
+
+    await deliver(billing, checkoutCompleted)
+    expect((await deliver(billing, checkoutCompleted)).outcome).toBe('duplicate')
+
+    await deliver(billing, subscriptionDeleted)
+    expect((await deliver(billing, subscriptionUpdated)).outcome).toBe('stale')
+    expect(profile.subscription_tier).toBe('free')
+  })
+
+  it('adds a purchased credit pack once per checkout', async () => {
+    const { billing, api, credits, profile } = setup({ stripe_customer_id: 'cus_RqT7uVwXyZ1a2B' })
+
+    await billing.createCreditCheckoutSession(USER, 'jane@example.com', 'credits_100', urls)
+    expect(api.checkout.sessions.create).toHaveBeenCalledWith(expect.objectContaining({
+      mode: 'payment',
+      line_items: [{ price: CREDIT_PRICES.credits_100, quantity: 1 }],
+      metadata: { userId: USER, pack: 'credits_100' },
+    }))
+
+    expect(await deliver(billing, creditsPurchased)).toMatchObject({ outcome: 'applied', userId: USER })
+    // Stripe sends async_payment_succeeded for the same session as well
+    const asyncSucceeded = { ...creditsPurchased, id: 'evt_1QyDm9LkdIwHu7ixAs9nCpAy', type: 'checkout.session.async_payment_succeeded' }
+    expect((await deliver(billing, asyncSucceeded)).outcome).toBe('duplicate')
+
+    expect(Array.from(credits.topUps.values())).toEqual(['credits_100'])
+    expect(profile.subscription_tier).toBe('free')
+  })
+
+  it('waits for delayed credit pack payments to complete', async () => {
+    const { billing, credits } = setup()
+    const pending = { ...creditsPurchased, data: { object: { ...creditsPurchased.data.object, payment_status: 'unpaid' } } }
+
+    expect(await deliver(billing, pending)).toMatchObject({ outcome: 'ignored', reason: 'Credit pack payment has not completed' })
+    expect(credits.topUps.size).toBe(0)
+  })
+
+  it('skips events it does not handle', async () => {
+    const { billing } = setup()
+    const result = await deliver(billing, { ...checkoutCompleted, id: 'evt_other', type: 'customer.created' })
+
+    expect(result).toMatchObject({ outcome: 'ignored', reason: 'Unhandled event type: customer.created' })
+  })
+})
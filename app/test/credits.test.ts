@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import { billingPeriod, CreditLedger, type CreditAccount, type CreditEntry, type CreditStore } from '../lib/credits/ledger'
+import { creditCost, estimateTokens } from '../lib/credits/pricing'
+
+function memoryStore(): CreditStore & { entries: CreditEntry[] } {
+  const entries: CreditEntry[] = []
+  return {
+    entries,
+    async balances() {
+      const totals = { monthly: 0, purchased: 0 }
+      for (const entry of entries) totals[entry.bucket] += entry.amount
+      return totals
+    },
+    async list(_userId, { limit, before }) {
+      return entries
+        .filter(entry => !before || entry.createdAt < before)
+        .slice()
+        .reverse()
+        .slice(0, limit)
+    },
+    async hasReference(_userId, reference) {
+      return entries.some(entry => entry.reference === reference)
+    },
+    async append(_userId, added) {
+      if (added.some(entry => entry.reference && entries.some(existing => existing.reference === entry.reference))) return false
+      entries.push(...added)
+      return true
+    },
+  }
+}
+
+const pro: CreditAccount = { userId: 'u1', allowance: 100, anchorAt: '2026-01-31T09:00:00.000Z' }
+const at = (iso: string) => new Date(iso)
+
+// Charges are written by the commit_usage database function
+function spend(store: CreditStore, bucket: CreditEntry['bucket'], amount: number, now: Date) {
+  return store.append('u1', [{
+    id: `charge-${now.getTime()}-${bucket}`,
+    kind: 'consume',
+    bucket,
+    amount: -amount,
+    reason: 'linkedin_parser',
+    createdAt: now.toISOString(),
+    model: 'claude-3-haiku',
+    tokens: 1200,
+  }])
+}
+
+describe('billing periods', () => {
+  it('renews on the anchor day, falling back to the end of shorter months', () => {
+    expect(billingPeriod(pro.anchorAt, at('2026-02-15T00:00:00.000Z'))).toEqual({
+      start: '2026-01-31T09:00:00.000Z',
+      end: '2026-02-28T09:00:00.000Z',
+    })
+    expect(billingPeriod(pro.anchorAt, at('2026-03-30T00:00:00.000Z'))).toEqual({
+      start: '2026-02-28T09:00:00.000Z',
+      end: '2026-03-31T09:00:00.000Z',
+    })
+    expect(billingPeriod(pro.anchorAt, at('2026-03-31T09:00:00.000Z')).start).toBe('2026-03-31T09:00:00.000Z')
+  })
+})
+
+describe('credit pricing', () => {
+  it('charges by model and tokens, in whole credits', () => {
+    expect(creditCost({ model: 'claude-3-haiku', inputTokens: 1500, outputTokens: 500 })).toBe(2)
+    expect(creditCost({ model: 'gpt-4', inputTokens: 1500, outputTokens: 500 })).toBe(8)
+    expect(creditCost({ model: 'unlisted-model', inputTokens: 0, outputTokens: 0 })).toBe(1)
+    expect(estimateTokens('x'.repeat(401))).toBe(101)
+  })
+})
+
+describe('credit ledger', () => {
+  it('grants the allowance once per period', async () => {
+    const store = memoryStore()
+    const ledger = new CreditLedger(store)
+    const now = at('2026-02-10T00:00:00.000Z')
+
+    await ledger.topUp('u1', 'credits_100', 'stripe:cs_test_1', now)
+    expect((await ledger.getBalance(pro, now)).available).toBe(200)
+    expect((await ledger.getBalance(pro, now)).available).toBe(200)
+
+    await spend(store, 'monthly', 100, now)
+    await spend(store, 'purchased', 30, now)
+    expect(await ledger.getBalance(pro, now)).toMatchObject({ monthly: 0, purchased: 70, available: 70, periodEnd: '2026-02-28T09:00:00.000Z' })
+    expect(store.entries.filter(entry => entry.kind === 'grant')).toHaveLength(1)
+  })
+
+  it('resets unused monthly credits on the anchor date and keeps purchased ones', async () => {
+    const store = memoryStore()
+    const ledger = new CreditLedger(store)
+
+    await ledger.topUp('u1', 'credits_100', 'stripe:cs_test_1', at('2026-02-01T00:00:00.000Z'))
+    await ledger.getBalance(pro, at('2026-02-10T00:00:00.000Z'))
+    await spend(store, 'monthly', 40, at('2026-02-10T00:00:00.000Z'))
+    const renewed = await ledger.getBalance(pro, at('2026-02-28T09:00:00.000Z'))
+
+    expect(renewed).toMatchObject({ monthly: 100, purchased: 100, available: 200, periodStart: '2026-02-28T09:00:00.000Z' })
+    expect(store.entries.find(entry => entry.kind === 'reset')).toMatchObject({ bucket: 'monthly', amount: -60, periodStart: '2026-02-28T09:00:00.000Z' })
+  })
+
+  it('grants nothing on unlimited plans', async () => {
+    const store = memoryStore()
+    const ledger = new CreditLedger(store)
+    const enterprise: CreditAccount = { userId: 'u1', allowance: -1, anchorAt: '2026-02-01T00:00:00.000Z' }
+
+    await spend(store, 'monthly', 500, at('2026-02-09T00:00:00.000Z'))
+    const balance = await ledger.getBalance(enterprise, at('2026-02-10T00:00:00.000Z'))
+
+    expect(balance).toMatchObject({ unlimited: true, available: -1 })
+    expect(store.entries.map(entry => entry.kind)).toEqual(['consume'])
+  })
+
+  it('lists history newest first, with the reason for each entry', async () => {
+    const store = memoryStore()
+    const ledger = new CreditLedger(store)
+
+    await ledger.getBalance(pro, at('2026-02-10T00:00:00.000Z'))
+    await spend(store, 'monthly', 3, at('2026-02-10T00:00:00.000Z'))
+    await ledger.topUp('u1', 'credits_500', 'stripe:cs_test_2', at('2026-02-11T00:00:00.000Z'))
+    expect(await ledger.topUp('u1', 'credits_500', 'stripe:cs_test_2', at('2026-02-11T00:00:00.000Z'))).toBe(false)
+
+    const history = await ledger.history('u1')
+    expect(history.map(entry => [entry.kind, entry.amount, entry.reason])).toEqual([
+      ['topup', 500, 'Purchased 500 AI credits'],
+      ['consume', -3, 'linkedin_parser'],
+      ['grant', 100, 'Monthly plan credits'],
+    ])
+    expect(history[1]).toMatchObject({ model: 'claude-3-haiku', tokens: 1200 })
+    expect(await ledger.history('u1', { before: '2026-02-11T00:00:00.000Z', limit: 1 })).toHaveLength(1)
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { applyOverrides, checkEntitlement, pricingFeatures, type EntitlementOverride } from '../lib/paywall/entitlements'
+import { getTemplateAccess, SUBSCRIPTION_TIERS, type SubscriptionTier } from '../lib/paywall/service'
+import { getTemplate } from '../lib/templates'
+import type { PortfolioTemplate } from '../lib/templates/types'
+
+const tier = (id: string) => SUBSCRIPTION_TIERS.find(t => t.id === id) as SubscriptionTier
+const now = new Date('2026-03-01T00:00:00.000Z')
+
+// The tier with `overrides` applied, as PaywallService resolves it
+function withOverrides(base: SubscriptionTier, overrides: EntitlementOverride[]) {
+  const { entitlements, applied } = applyOverrides(base.entitlements, overrides, now)
+  return { tier: { ...base, entitlements }, applied }
+}
+
+describe('entitlement catalogue', () => {
+  it('derives pricing lines from what each plan includes', () => {
+    expect(tier('free').features).toEqual(['1 Portfolio', 'Basic Templates', 'AppVantix Branding'])
+    expect(tier('pro').features).toEqual(['Unlimited Portfolios', 'Premium Templates', 'Custom Domain', 'Remove Branding'])
+    expect(tier('enterprise').features).toEqual(['Everything in Pro', 'White-label', 'Priority Support', 'Custom Templates'])
+
+    const comparison = pricingFeatures(tier('free').entitlements)
+    expect(comparison.find(line => line.entitlement === 'custom_domain')).toEqual({ entitlement: 'custom_domain', label: 'Custom Domain', included: false })
+    expect(comparison.map(line => line.entitlement)).not.toContain('version_retention_days')
+    expect(comparison.find(line => line.entitlement === 'ai_credits')).toMatchObject({ label: '5 AI Credits per Month', included: true })
+  })
+})
+
+describe('entitlement checks', () => {
+  it('explains a missing feature and names the cheapest plan with it', () => {
+    expect(checkEntitlement(tier('free'), 'custom_domain', SUBSCRIPTION_TIERS)).toEqual({
+      allowed: false,
+      reason: 'Custom domains require the Professional plan',
+      source: 'plan',
+      upgradeTo: 'pro',
+    })
+    expect(checkEntitlement(tier('pro'), 'white_label', SUBSCRIPTION_TIERS)).toMatchObject({ allowed: false, upgradeTo: 'enterprise' })
+    expect(checkEntitlement(tier('pro'), 'remove_branding', SUBSCRIPTION_TIERS)).toEqual({ allowed: true, source: 'plan' })
+    expect(checkEntitlement(tier('enterprise'), 'priority_support', SUBSCRIPTION_TIERS).allowed).toBe(true)
+  })
+
+  it('allows quotas while some is left', () => {
+    expect(checkEntitlement(tier('free'), 'portfolios', SUBSCRIPTION_TIERS, { remaining: 1 })).toEqual({
+      allowed: true,
+      source: 'plan',
+      limit: 1,
+      remaining: 1,
+    })
+    expect(checkEntitlement(tier('free'), 'portfolios', SUBSCRIPTION_TIERS, { remaining: 0 })).toEqual({
+      allowed: false,
+      reason: 'Portfolio limit reached for your tier',
+      source: 'plan',
+      limit: 1,
+      remaining: 0,
+      upgradeTo: 'pro',
+    })
+    expect(checkEntitlement(tier('pro'), 'ai_credits', SUBSCRIPTION_TIERS, { remaining: 0 })).toMatchObject({ allowed: false, upgradeTo: 'enterprise' })
+    expect(checkEntitlement(tier('enterprise'), 'ai_credits', SUBSCRIPTION_TIERS, { remaining: 0 })).toMatchObject({ allowed: true, limit: -1, remaining: -1 })
+  })
+})
+
+describe('entitlement overrides', () => {
+  it('applies comped features and contract limits until they expire', () => {
+    const { tier: comped, applied } = withOverrides(tier('free'), [
+      { entitlement: 'custom_domain', value: true, reason: 'Conference speaker', expiresAt: '2026-06-01T00:00:00.000Z' },
+      { entitlement: 'portfolios', value: 25, reason: 'Enterprise contract' },
+      { entitlement: 'white_label', value: true, reason: 'Beta partner', expiresAt: '2026-02-01T00:00:00.000Z' },
+    ])
+
+    expect(applied.map(override => override.entitlement)).toEqual(['custom_domain', 'portfolios'])
+    expect(checkEntitlement(comped, 'custom_domain', SUBSCRIPTION_TIERS, { overridden: true })).toEqual({ allowed: true, source: 'override' })
+    expect(checkEntitlement(comped, 'portfolios', SUBSCRIPTION_TIERS, { overridden: true, remaining: 24 })).toMatchObject({ allowed: true, limit: 25 })
+    expect(comped.entitlements.white_label).toBe(false)
+    expect(tier('free').entitlements.custom_domain).toBe(false)
+  })
+
+  it('skips overrides that do not fit the entitlement', () => {
+    const { applied } = withOverrides(tier('free'), [
+      { entitlement: 'custom_domain', value: 1, reason: 'Typo' },
+      { entitlement: 'portfolios', value: true, reason: 'Typo' },
+      { entitlement: 'ai_credits', value: -5, reason: 'Typo' },
+      { entitlement: 'teleport', value: true, reason: 'Unknown' } as unknown as EntitlementOverride,
+    ])
+
+    expect(applied).toEqual([])
+  })
+
+  it('lets a comped premium templates grant unlock Professional templates', () => {
+    const modern = getTemplate('modern') as PortfolioTemplate
+    const { tier: comped } = withOverrides(tier('free'), [{ entitlement: 'premium_templates', value: true, reason: 'Student' }])
+
+    expect(getTemplateAccess(comped, modern, 'u1').allowed).toBe(true)
+    expect(getTemplateAccess(comped, { ...modern, requiredTier: 'enterprise' }, 'u1').reason).toBe('Enterprise plan required for Modern')
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { createLinkedInImportService } from '../lib/linkedin/import'
+import { assignEntryIds, entryId, migrateEntryIds } from '../lib/linkedin/ids'
+
+const PROFILE = {
+  name: 'Jane Doe',
+  headline: 'Staff Engineer',
+  experience: [
+    { company: 'Acme', title: 'Lead Engineer', startDate: '2021-01', description: 'Platform lead.' },
+    { company: 'Globex', title: 'Engineer', startDate: '2016-03', endDate: '2020-12' },
+  ],
+  education: [{ institution: 'TU Berlin', degree: 'BSc', field: 'Computer Science' }],
+}
+
+describe('entry ids', () => {
+  const service = createLinkedInImportService()
+
+  it('derives ids from content so they survive reordering and re-imports', async () => {
+    const first = await service.parseProfile(JSON.stringify(PROFILE), 'json')
+    const reordered = await service.parseProfile(JSON.stringify({
+      ...PROFILE,
+      experience: [{ ...PROFILE.experience[1] }, { ...PROFILE.experience[0], description: 'Platform lead for 40 engineers.' }],
+    }), 'json')
+
+    expect(first.experience[0].id).toMatch(/^exp_[0-9a-z]+$/)
+    expect(first.education[0].id).toMatch(/^edu_[0-9a-z]+$/)
+    expect(reordered.experience.map(exp => exp.id)).toEqual([first.experience[1].id, first.experience[0].id])
+  })
+
+  it('ignores case and spacing but not the fields that name an entry', () => {
+    const entry = { id: '', company: 'Acme', title: 'Lead Engineer', location: '', startDate: '2021-01', endDate: '', current: true, description: '', achievements: [], skills: [] }
+
+    expect(entryId('experience', { ...entry, company: ' ACME ', title: 'lead  engineer' })).toBe(entryId('experience', entry))
+    expect(entryId('experience', { ...entry, startDate: '2022-01' })).not.toBe(entryId('experience', entry))
+  })
+
+  it('numbers entries with identical content', async () => {
+    const profile = await service.parseProfile(JSON.stringify({
+      ...PROFILE,
+      experience: [PROFILE.experience[0], PROFILE.experience[0], PROFILE.experience[0]],
+    }), 'json')
+    const [id, second, third] = profile.experience.map(exp => exp.id)
+
+    expect([second, third]).toEqual([`${id}-2`, `${id}-3`])
+    expect(assignEntryIds(profile)).toEqual(profile)
+  })
+
+  it('migrates index-based ids and reports the mapping', async () => {
+    const current = await service.parseProfile(JSON.stringify(PROFILE), 'json')
+    const stored = {
+      ...current,
+      experience: [
+        { ...current.experience[0], id: 'exp_0' },
+        { ...current.experience[1], id: 'exp_custom' },
+      ],
+      education: [{ ...current.education[0], id: 'edu_0' }],
+    }
+
+    const { profile, idMap } = migrateEntryIds(stored)
+
+    expect(profile.experience.map(exp => exp.id)).toEqual([current.experience[0].id, 'exp_custom'])
+    expect(idMap).toEqual({ exp_0: current.experience[0].id, edu_0: current.education[0].id })
+    expect(migrateEntryIds(profile).idMap).toEqual({})
+  })
+})
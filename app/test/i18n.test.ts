@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import { strFromU8, unzipSync } from 'fflate'
+import type { LinkedInProfile } from '../lib/linkedin/import'
+import { formatDateRange, formatDuration } from '../lib/i18n/format'
+import { normalizeLocale, resolveMessages, suggestLocales, textDirection } from '../lib/i18n/locales'
+import { localizeProfile, untranslatedFields, type ProfileTranslation } from '../lib/i18n/translation'
+import { auditAccessibility } from '../lib/accessibility/audit'
+import { buildStaticSite } from '../lib/export/static-site'
+import { getTemplate } from '../lib/templates'
+import { createPortfolioRenderer } from '../lib/templates/renderer'
+
+const profile: LinkedInProfile = {
+  personal: { name: 'Jane Doe', headline: 'Staff Engineer', location: 'Berlin', summary: 'I build developer tools.' },
+  contact: { email: 'jane@example.com', linkedin: 'https://www.linkedin.com/in/janedoe' },
+  experience: [
+    {
+      id: 'exp_a', company: 'Acme', title: 'Lead Engineer', startDate: '2021-01', current: true,
+      description: 'Led the platform team.', achievements: [], skills: [],
+    },
+    {
+      id: 'exp_b', company: 'Initech', title: 'Engineer', startDate: '2018-10', endDate: '2020-12', current: false,
+      description: 'Built billing.', achievements: [], skills: [],
+    },
+  ],
+  education: [],
+  skills: ['TypeScript'],
+  certifications: [{ id: 'cert_a', name: 'CKA', issuer: 'CNCF', issueDate: '2022-03' }],
+  languages: [
+    { name: 'English', proficiency: 'full' },
+    { name: 'Deutsch', proficiency: 'native' },
+    { name: 'French', proficiency: 'elementary' },
+  ],
+  projects: [],
+  volunteer: [],
+}
+
+const german: ProfileTranslation = {
+  headline: 'Staff-Ingenieurin',
+  summary: 'Ich baue Entwicklerwerkzeuge.',
+  entries: { exp_a: { title: 'Leitende Ingenieurin', description: 'Leitete das Plattformteam.' } },
+}
+
+const unzip = (zip: Uint8Array) => Object.fromEntries(Object.entries(unzipSync(zip)).map(([name, data]) => [name, strFromU8(data)]))
+
+describe('locales', () => {
+  it('resolves labels and text direction', () => {
+    expect(normalizeLocale('pt_br')).toBe('pt-BR')
+    expect(() => normalizeLocale('not a locale')).toThrow('Invalid locale')
+    expect(resolveMessages('de-AT').sections.experience).toBe('Berufserfahrung')
+    expect(resolveMessages('ja').sections.experience).toBe('Experience')
+    expect(textDirection('ar')).toBe('rtl')
+    expect(textDirection('he-IL')).toBe('rtl')
+    expect(textDirection('de')).toBe('ltr')
+  })
+
+  it('formats dates and durations for the locale', () => {
+    expect(formatDateRange('en', '2021-01', undefined, true)).toBe('Jan 2021 – Present')
+    expect(formatDateRange('de', '2021-03', '2022')).toBe('März 2021 – 2022')
+    expect(formatDuration(27, 'en')).toBe('2 years 3 months')
+    expect(formatDuration(1, 'de')).toBe('1 Monat')
+  })
+
+  it('suggests locales for the languages the user works in', () => {
+    expect(suggestLocales(profile)).toEqual(['en', 'de'])
+  })
+})
+
+describe('profile translations', () => {
+  it('overrides free text and reports what is left untranslated', () => {
+    const localized = localizeProfile(profile, german)
+
+    expect(localized.personal.summary).toBe('Ich baue Entwicklerwerkzeuge.')
+    expect(localized.experience[0].title).toBe('Leitende Ingenieurin')
+    expect(localized.experience[1].title).toBe('Engineer')
+    expect(profile.personal.summary).toBe('I build developer tools.')
+    expect(untranslatedFields(profile, german)).toEqual(['entries.exp_b.title', 'entries.exp_b.description'])
+  })
+})
+
+describe('localised rendering', () => {
+  const renderer = createPortfolioRenderer()
+
+  it('renders labels, dates and text in the page language', () => {
+    const { html } = renderer.render(profile, 'modern', { locale: 'de', translation: german })
+
+    expect(html).toContain('<html lang="de">')
+    expect(html).toContain('<h2 id="experience-heading">Berufserfahrung</h2>')
+    // English template labels only apply to English pages
+    expect(html).toContain('<h2 id="skills-heading">Kenntnisse</h2>')
+    expect(html).toContain('<p class="meta">Jan. 2021 – heute</p>')
+    expect(html).toContain('<p class="meta">Okt. 2018 – Dez. 2020 · 2 Jahre 3 Monate</p>')
+    expect(html).toContain('<p class="meta">Ausgestellt März 2022</p>')
+    expect(html).toContain('<nav aria-label="Abschnitte">')
+    expect(html).toContain('Leitete das Plattformteam.')
+    expect(html).toContain('<meta property="og:locale" content="de">')
+  })
+
+  it('sets right-to-left direction', () => {
+    const { html } = renderer.render(profile, 'professional', { locale: 'ar' })
+
+    expect(html).toContain('<html lang="ar" dir="rtl">')
+    expect(html).toContain('<h2 id="experience-heading">الخبرة</h2>')
+    expect(auditAccessibility(html).issues).toEqual([])
+  })
+})
+
+describe('multilingual static export', () => {
+  it('publishes each language with a switcher and hreflang alternates', async () => {
+    const site = await buildStaticSite(profile, getTemplate('professional')!, {
+      branding: true,
+      siteUrl: 'https://janedoe.dev',
+      translations: { de: german },
+    })
+    const files = unzip(site.zip)
+
+    expect(site.files).toContain('de/index.html')
+    expect(files['index.html']).toContain('<link rel="alternate" hreflang="de" href="https://janedoe.dev/de/">')
+    expect(files['index.html']).toContain('<link rel="alternate" hreflang="x-default" href="https://janedoe.dev/">')
+    expect(files['index.html']).toContain('<nav class="language-switcher" aria-label="Language"><ul><li><a href="index.html" aria-current="page">English</a></li><li><a href="de/index.html" hreflang="de" lang="de">Deutsch</a></li></ul></nav>')
+    expect(files['de/index.html']).toContain('<link rel="canonical" href="https://janedoe.dev/de/">')
+    expect(files['de/index.html']).toContain('<a href="../index.html" hreflang="en" lang="en">English</a>')
+    expect(files['de/index.html']).toMatch(/<link rel="stylesheet" href="\.\.\/assets\/styles\.[0-9a-f]{8}\.css">/)
+    expect(files['de/index.html']).toContain('Erstellt mit <a href="https://appvantix.com" rel="noopener">AppVantix</a>')
+    expect(files['sitemap.xml']).toContain('<loc>https://janedoe.dev/de/</loc>')
+    expect(site.warnings).toEqual(['Untranslated text on the de page: entries.exp_b.title, entries.exp_b.description'])
+    expect(site.accessibility.issues).toEqual([])
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { createLinkedInImportService } from '../lib/linkedin/import'
+import { JSON_RESUME_SCHEMA_URL, type JSONResume } from '../lib/linkedin/json-resume'
+
+const RESUME: JSONResume = {
+  basics: {
+    name: 'Jane Doe',
+    label: 'Staff Engineer',
+    image: 'https://example.com/jane.jpg',
+    email: 'jane@example.com',
+    phone: '+49 30 1234567',
+    url: 'https://jane.dev',
+    summary: 'I build reliable distributed systems.',
+    location: { city: 'Berlin', region: 'Germany' },
+    profiles: [{ network: 'LinkedIn', username: 'janedoe', url: 'https://www.linkedin.com/in/janedoe' }],
+  },
+  work: [
+    {
+      name: 'Acme',
+      position: 'Lead Engineer',
+      location: 'Berlin',
+      startDate: '2021-01',
+      summary: 'Platform team lead.',
+      highlights: ['Shipped v2'],
+    },
+    { name: 'Globex', position: 'Engineer', startDate: '2016-03', endDate: '2020-12-31' },
+  ],
+  education: [
+    { institution: 'TU Berlin', area: 'Computer Science', studyType: 'BSc', startDate: '2012', endDate: '2016', score: '1.3' },
+  ],
+  skills: [{ name: 'Backend', keywords: ['TypeScript', 'Rust'] }],
+  certificates: [{ name: 'CKA', issuer: 'CNCF', date: '2021-11-02', url: 'https://cncf.io/c/1' }],
+  languages: [{ language: 'German', fluency: 'Native speaker' }, { language: 'English', fluency: 'Fluent' }],
+  projects: [{ name: 'Portfolio Builder', description: 'Sites from profiles.', keywords: ['Remix'], startDate: '2022-01', url: 'https://example.com' }],
+  volunteer: [{ organization: 'Code Club', position: 'Mentor', startDate: '2019-01', summary: 'Weekly sessions.' }],
+}
+
+describe('JSON Resume import and export', () => {
+  const service = createLinkedInImportService()
+
+  it('maps a JSON Resume document into a LinkedInProfile', async () => {
+    const profile = await service.parseProfile(JSON.stringify(RESUME), 'jsonresume')
+
+    expect(profile.personal).toEqual({
+      name: 'Jane Doe',
+      headline: 'Staff Engineer',
+      location: 'Berlin, Germany',
+      summary: 'I build reliable distributed systems.',
+      profileImage: 'https://example.com/jane.jpg',
+    })
+    expect(profile.contact.linkedin).toBe('https://www.linkedin.com/in/janedoe')
+    expect(profile.experience[0]).toMatchObject({ company: 'Acme', title: 'Lead Engineer', current: true, achievements: ['Shipped v2'] })
+    expect(profile.experience[1]).toMatchObject({ current: false, endDate: '2020-12-31' })
+    expect(profile.education[0]).toMatchObject({ degree: 'BSc', field: 'Computer Science', gpa: '1.3' })
+    expect(profile.skills).toEqual(['Backend', 'TypeScript', 'Rust'])
+    expect(profile.languages).toEqual([
+      { name: 'German', proficiency: 'native' },
+      { name: 'English', proficiency: 'full' },
+    ])
+  })
+
+  it('exports a valid JSON Resume document without empty fields', async () => {
+    const profile = await service.parseProfile(JSON.stringify(RESUME), 'jsonresume')
+    const exported = service.exportJSONResume(profile)
+
+    expect(exported.$schema).toBe(JSON_RESUME_SCHEMA_URL)
+    expect(exported.work?.[0]).not.toHaveProperty('endDate')
+    expect(exported.education?.[0]).toEqual({
+      institution: 'TU Berlin',
+      area: 'Computer Science',
+      studyType: 'BSc',
+      startDate: '2012',
+      endDate: '2016',
+      score: '1.3',
+    })
+  })
+
+  it('round-trips every field both schemas support', async () => {
+    const profile = await service.parseProfile(JSON.stringify(RESUME), 'jsonresume')
+    const roundTripped = await service.parseProfile(JSON.stringify(service.exportJSONResume(profile)), 'jsonresume')
+
+    expect(roundTripped).toEqual(profile)
+  })
+
+  it('rejects documents that are not JSON Resume', async () => {
+    await expect(service.parseProfile('{"foo": 1}', 'jsonresume')).rejects.toThrow('Not a JSON Resume document')
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { strToU8, zipSync } from 'fflate'
+import { createLinkedInImportService } from '../lib/linkedin/import'
+import { parseCSV } from '../lib/linkedin/csv'
+import { parseLinkedInDate } from '../lib/linkedin/normalize'
+
+function buildExport(files: Record<string, string>): Uint8Array {
+  const entries: Record<string, Uint8Array> = {}
+  for (const [name, content] of Object.entries(files)) {
+    entries[`Basic_LinkedInDataExport_01-01-2025/${name}`] = strToU8(content)
+  }
+  return zipSync(entries)
+}
+
+describe('parseCSV', () => {
+  it('handles quoted multiline fields, escaped quotes and CRLF', () => {
+    const rows = parseCSV('\uFEFFTitle,Description\r\n"Lead","Built ""X""\nand Y"\r\nDev,plain\r\n')
+
+    expect(rows).toEqual([
+      { Title: 'Lead', Description: 'Built "X"\nand Y' },
+      { Title: 'Dev', Description: 'plain' },
+    ])
+  })
+
+  it('skips the Notes preamble LinkedIn adds to some files', () => {
+    const rows = parseCSV('Notes:\n"Some explanation"\n\nName\nTypeScript\n')
+    expect(rows).toEqual([{ Name: 'TypeScript' }])
+  })
+})
+
+describe('parseLinkedInDate', () => {
+  it('converts LinkedIn date strings to ISO partial dates', () => {
+    expect(parseLinkedInDate('Jan 2020')).toBe('2020-01')
+    expect(parseLinkedInDate('September 2018')).toBe('2018-09')
+    expect(parseLinkedInDate('2019')).toBe('2019')
+    expect(parseLinkedInDate('Mar 15, 2021')).toBe('2021-03-15')
+    expect(parseLinkedInDate('3/15/21, 10:00 AM')).toBe('2021-03-15')
+    expect(parseLinkedInDate('Present')).toBe('')
+    expect(parseLinkedInDate('')).toBe('')
+  })
+})
+
+describe('LinkedIn data export import', () => {
+  const service = createLinkedInImportService()
+
+  it('maps the export CSV files into a LinkedInProfile', async () => {
+    const archive = buildExport({
+      'Profile.csv': 'First Name,Last Name,Headline,Summary,Geo Location,Websites\nJane,Doe,Staff Engineer,"Builds things.\nLoves teams.",Berlin,"[PERSONAL:https://jane.dev]"\n',
+      'Positions.csv': 'Company Name,Title,Description,Location,Started On,Finished On\nAcme,Lead Engineer,"• Shipped v2\n• Improved latency by 40%",Berlin,Jan 2021,\nGlobex,Engineer,,Remote,Mar 2018,Dec 2020\n',
+      'Education.csv': 'School Name,Start Date,End Date,Notes,Degree Name,Activities\nTU Berlin,2012,2016,,BSc Computer Science,Robotics club; Chess\n',
+      'Skills.csv': 'Name\nTypeScript\nRust\n',
+      'Certifications.csv': 'Name,Url,Authority,Started On,Finished On,License Number\nCKA,https://cncf.io/c/1,CNCF,Nov 2021,Nov 2024,ABC-1\n',
+      'Languages.csv': 'Name,Proficiency\nGerman,Native or bilingual proficiency\nSpanish,Limited working proficiency\n',
+      'Email Addresses.csv': 'Email Address,Confirmed,Primary,Updated On\nold@example.com,Yes,No,1/1/20\njane@example.com,Yes,Yes,1/1/21\n',
+    })
+
+    const profile = await service.parseProfile(archive, 'linkedin-export')
+
+    expect(profile.personal).toMatchObject({ name: 'Jane Doe', headline: 'Staff Engineer', location: 'Berlin' })
+    expect(profile.personal.summary).toBe('Builds things.\nLoves teams.')
+    expect(profile.contact).toMatchObject({ email: 'jane@example.com', website: 'https://jane.dev' })
+    expect(profile.experience[0]).toMatchObject({ company: 'Acme', title: 'Lead Engineer', current: true, endDate: '' })
+    expect(profile.experience[0].achievements).toContain('Shipped v2')
+    expect(profile.experience[1]).toMatchObject({ company: 'Globex', current: false })
+    expect(profile.education[0]).toMatchObject({ institution: 'TU Berlin', degree: 'BSc Computer Science', activities: ['Robotics club', 'Chess'] })
+    expect(profile.skills).toEqual(['TypeScript', 'Rust'])
+    expect(profile.certifications[0]).toMatchObject({ name: 'CKA', issuer: 'CNCF', credentialId: 'ABC-1', credentialUrl: 'https://cncf.io/c/1' })
+    expect(profile.languages).toEqual([
+      { name: 'German', proficiency: 'native' },
+      { name: 'Spanish', proficiency: 'limited' },
+    ])
+    expect(profile.projects).toEqual([])
+    expect(profile.volunteer).toEqual([])
+  })
+
+  it('rejects archives without LinkedIn export files', async () => {
+    const archive = buildExport({ 'notes.txt': 'hello' })
+    await expect(service.parseProfile(archive, 'linkedin-export')).rejects.toThrow('does not contain any LinkedIn export files')
+  })
+
+  it('rejects data that is not a ZIP archive', async () => {
+    await expect(service.parseProfile(strToU8('not a zip'), 'linkedin-export')).rejects.toThrow('Invalid LinkedIn export archive')
+  })
+})
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest'
+import { createLinkedInImportService } from '../lib/linkedin/import'
+
+interface PlacedText {
+  x: number
+  y: number
+  size: number
+  text: string
+}
+
+// Minimal PDF writer: one Helvetica font, text placed at absolute positions
+function buildPDF(pages: PlacedText[][], trailerExtra = ''): Uint8Array {
+  const escape = (text: string) => text.replace(/[\\()]/g, match => `\\${match}`)
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+  ]
+
+  pages.forEach((items, i) => {
+    const stream = items
+      .map(item => `BT /F1 ${item.size} Tf 1 0 0 1 ${item.x} ${item.y} Tm (${escape(item.text)}) Tj ET`)
+      .join('\n')
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`)
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`)
+  })
+
+  let pdf = '%PDF-1.4\n'
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`
+    return offset
+  })
+  const xref = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R ${trailerExtra}>>\nstartxref\n${xref}\n%%EOF\n`
+
+  // WinAnsi text is single-byte, so write the file as Latin-1
+  return Uint8Array.from(pdf, char => char.charCodeAt(0))
+}
+
+// Stack lines downwards from `top`, leaving a wider gap before each entry
+function column(x: number, top: number, lines: (string | [string, number] | null)[]): PlacedText[] {
+  let y = top
+  return lines.flatMap(line => {
+    if (line === null) {
+      y -= 14
+      return []
+    }
+    const [text, size] = typeof line === 'string' ? [line, 10] : line
+    const placed = { x, y, size, text }
+    y -= size + 4
+    return [placed]
+  })
+}
+
+const sidebar = column(30, 740, [
+  ['Contact', 13],
+  'jane@example.com',
+  'www.linkedin.com/in/janedoe (LinkedIn)',
+  'janedoe.dev (Personal)',
+  null,
+  ['Top Skills', 13],
+  'TypeScript',
+  'React',
+  'Node.js',
+  null,
+  ['Languages', 13],
+  'German (Native or Bilingual)',
+  'English (Full Professional)',
+  null,
+  ['Certifications', 13],
+  'AWS Certified Solutions Architect',
+  'Certified Kubernetes Administrator',
+])
+
+const main = column(250, 740, [
+  ['Jane Doe', 24],
+  ['Staff Engineer at Acme', 12],
+  'Berlin, Germany',
+  null,
+  ['Summary', 14],
+  'I build developer tools.',
+  null,
+  ['Experience', 14],
+  ['Acme', 12],
+  'Lead Engineer',
+  'January 2021 - Present (3 years 5 months)',
+  'Berlin, Germany',
+  'Led the platform team.',
+  null,
+  ['Globex', 12],
+  '5 years 2 months',
+  'Senior Engineer',
+  'January 2018 - December 2020 (3 years)',
+  null,
+  'Engineer',
+  'November 2015 - December 2017 (2 years 2 months)',
+])
+
+const education = column(250, 740, [
+  ['Education', 14],
+  ['TU Berlin', 12],
+  'Master of Science - MS, Computer Science · (2014 - 2016)',
+])
+
+const footer = (page: number): PlacedText => ({ x: 280, y: 30, size: 9, text: `Page ${page} of 2` })
+
+const profilePDF = buildPDF([[...sidebar, ...main, footer(1)], [...education, footer(2)]])
+
+describe('LinkedIn PDF import', () => {
+  const service = createLinkedInImportService()
+
+  it('separates the sidebar from the main column and parses both', async () => {
+    const profile = await service.parseProfile(profilePDF, 'pdf')
+
+    expect(profile.personal).toEqual({
+      name: 'Jane Doe',
+      headline: 'Staff Engineer at Acme',
+      location: 'Berlin, Germany',
+      summary: 'I build developer tools.',
+    })
+    expect(profile.contact).toEqual({
+      email: 'jane@example.com',
+      phone: undefined,
+      website: 'https://janedoe.dev',
+      linkedin: 'https://www.linkedin.com/in/janedoe',
+    })
+    expect(profile.experience.map(({ title, company, startDate, endDate, current, location }) =>
+      ({ title, company, startDate, endDate, current, location }))).toEqual([
+      { title: 'Lead Engineer', company: 'Acme', startDate: '2021-01', endDate: '', current: true, location: 'Berlin, Germany' },
+      { title: 'Senior Engineer', company: 'Globex', startDate: '2018-01', endDate: '2020-12', current: false, location: '' },
+      { title: 'Engineer', company: 'Globex', startDate: '2015-11', endDate: '2017-12', current: false, location: '' },
+    ])
+    expect(profile.education[0]).toMatchObject({
+      institution: 'TU Berlin',
+      degree: 'Master of Science - MS',
+      field: 'Computer Science',
+      startDate: '2014',
+      endDate: '2016',
+    })
+    expect(profile.skills).toEqual(['TypeScript', 'React', 'Node.js'])
+    expect(profile.languages).toEqual([
+      { name: 'German', proficiency: 'native' },
+      { name: 'English', proficiency: 'full' },
+    ])
+    expect(profile.certifications.map(cert => cert.name)).toEqual([
+      'AWS Certified Solutions Architect',
+      'Certified Kubernetes Administrator',
+    ])
+    expect(JSON.stringify(profile)).not.toContain('Page 1 of 2')
+  })
+
+  it('orders text by position rather than by content stream order', async () => {
+    const shuffled = buildPDF([[footer(1), ...[...main].reverse(), ...[...sidebar].reverse()], [...education, footer(2)]])
+
+    expect(await service.parseProfile(shuffled, 'pdf')).toEqual(await service.parseProfile(profilePDF, 'pdf'))
+  })
+
+  it('rejects encrypted, oversized and non-PDF input', async () => {
+    const encrypted = buildPDF([main], '/Encrypt 9 0 R ')
+
+    await expect(service.parseProfile(encrypted, 'pdf')).rejects.toThrow('Encrypted PDFs are not supported')
+    await expect(service.parseProfile(new Uint8Array(6 * 1024 * 1024), 'pdf')).rejects.toThrow('PDF exceeds the 5MB limit')
+    await expect(service.parseProfile(new TextEncoder().encode('Jane Doe'), 'pdf')).rejects.toThrow('Not a PDF file')
+    await expect(service.parseProfile('Jane Doe', 'pdf')).rejects.toThrow('PDF must be provided as binary data')
+  })
+})
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest'
+import { createLinkedInImportService } from '../lib/linkedin/import'
+import { parseDateRange } from '../lib/linkedin/normalize'
+
+const PROFILE_TEXT = `Jane Doe
+Staff Engineer at Acme
+Based in Berlin, Germany
+
+About
+I build reliable distributed systems.
+
+Experience
+Lead Engineer
+Acme · Full-time
+Jan 2021 - Present · 3 yrs 2 mos
+Berlin, Germany · Hybrid
+• Shipped the v2 platform
+Skills: TypeScript · Rust
+
+Globex
+Full-time · 4 yrs 10 mos
+Remote
+Senior Engineer
+Jan 2019 - Dec 2020 · 2 yrs
+Led the payments team
+Engineer
+Contract
+Mar 2016 - Dec 2018 · 2 yrs 10 mos
+
+Education
+TU Berlin
+BSc, Computer Science
+2012 - 2016
+Grade: 1.3
+Activities and societies: Robotics club, Chess
+
+Licenses & certifications
+Certified Kubernetes Administrator (CKA)
+The Linux Foundation
+Issued Nov 2021 · Expires Nov 2024
+Credential ID ABC-1
+Show credential
+
+Projects
+Portfolio Builder
+Jan 2022 - Present
+Associated with Acme
+Turns LinkedIn profiles into websites.
+https://example.com/portfolio
+
+Volunteering
+Mentor
+Code Club
+Jan 2019 - Present · 5 yrs
+Education
+Weekly coding sessions for kids.
+
+Languages
+German
+Native or bilingual proficiency
+English
+Full professional proficiency
+Spanish (Elementary)
+`
+
+describe('parseDateRange', () => {
+  it('parses LinkedIn date range lines', () => {
+    expect(parseDateRange('Jan 2020 - Present · 3 yrs 2 mos')).toEqual({
+      startDate: '2020-01',
+      endDate: '',
+      current: true,
+      duration: '3 yrs 2 mos',
+      durationMonths: 38,
+    })
+    expect(parseDateRange('2012 – 2016')).toEqual({ startDate: '2012', endDate: '2016', current: false })
+    expect(parseDateRange('Senior Engineer - Platform')).toBeNull()
+  })
+})
+
+describe('plain-text profile parsing', () => {
+  const service = createLinkedInImportService()
+
+  it('extracts experience with dates, location, employment type and skills', async () => {
+    const profile = await service.parseProfile(PROFILE_TEXT, 'text')
+
+    expect(profile.personal).toMatchObject({ name: 'Jane Doe', headline: 'Staff Engineer at Acme' })
+    expect(profile.experience[0]).toMatchObject({
+      title: 'Lead Engineer',
+      company: 'Acme',
+      employmentType: 'Full-time',
+      startDate: '2021-01',
+      endDate: '',
+      current: true,
+      location: 'Berlin, Germany',
+      skills: ['TypeScript', 'Rust'],
+    })
+    expect(profile.experience[0].achievements).toContain('Shipped the v2 platform')
+  })
+
+  it('splits several roles held at one company', async () => {
+    const profile = await service.parseProfile(PROFILE_TEXT, 'text')
+
+    expect(profile.experience.slice(1)).toMatchObject([
+      { company: 'Globex', title: 'Senior Engineer', employmentType: 'Full-time', startDate: '2019-01', endDate: '2020-12', location: 'Remote', description: 'Led the payments team' },
+      { company: 'Globex', title: 'Engineer', employmentType: 'Contract', startDate: '2016-03', endDate: '2018-12', current: false },
+    ])
+  })
+
+  it('extracts education, certifications, projects, volunteering and languages', async () => {
+    const profile = await service.parseProfile(PROFILE_TEXT, 'text')
+
+    expect(profile.education[0]).toMatchObject({
+      institution: 'TU Berlin',
+      degree: 'BSc',
+      field: 'Computer Science',
+      startDate: '2012',
+      endDate: '2016',
+      gpa: '1.3',
+      activities: ['Robotics club', 'Chess'],
+    })
+    expect(profile.certifications).toEqual([{
+      id: expect.stringMatching(/^cert_/),
+      name: 'Certified Kubernetes Administrator (CKA)',
+      issuer: 'The Linux Foundation',
+      issueDate: '2021-11',
+      expiryDate: '2024-11',
+      credentialId: 'ABC-1',
+      credentialUrl: undefined,
+    }])
+    expect(profile.projects[0]).toMatchObject({
+      name: 'Portfolio Builder',
+      startDate: '2022-01',
+      url: 'https://example.com/portfolio',
+      description: 'Turns LinkedIn profiles into websites.',
+    })
+    expect(profile.volunteer[0]).toMatchObject({
+      role: 'Mentor',
+      organization: 'Code Club',
+      cause: 'Education',
+      startDate: '2019-01',
+      description: 'Weekly coding sessions for kids.',
+    })
+    expect(profile.languages).toEqual([
+      { name: 'German', proficiency: 'native' },
+      { name: 'English', proficiency: 'full' },
+      { name: 'Spanish', proficiency: 'elementary' },
+    ])
+  })
+})
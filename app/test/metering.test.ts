@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest'
+import { UsageMeter, type MeterStore, type Reservation } from '../lib/paywall/metering'
+
+interface Account {
+  portfolioCount: number
+  credits: { monthly: number; purchased: number }
+  charges: { bucket: 'monthly' | 'purchased'; amount: number; reason?: string }[]
+}
+
+interface Held extends Reservation {
+  status: 'reserved' | 'committed' | 'released'
+  unlimited: boolean
+}
+
+// Behaves like the reserve_usage / commit_usage / release_usage functions:
+// each call waits for a round trip, then runs without interleaving, as it
+// would under the user's row lock
+function memoryMeter(account: Account, clock: { now: Date }): MeterStore & { reservations: Map<string, Held> } {
+  const reservations = new Map<string, Held>()
+  const roundTrip = () => new Promise(resolve => setTimeout(resolve, 0))
+  const live = (held: Held) => held.status === 'reserved' && held.expiresAt > clock.now.toISOString()
+  let next = 0
+
+  return {
+    reservations,
+    async reserve({ userId, unit, amount, limit, expiresAt }) {
+      await roundTrip()
+      if (limit !== -1) {
+        const held = Array.from(reservations.values()).filter(r => r.unit === unit && live(r)).reduce((sum, r) => sum + r.amount, 0)
+        const capacity = unit === 'portfolio'
+          ? limit - account.portfolioCount
+          : Math.max(0, account.credits.monthly) + Math.max(0, account.credits.purchased)
+        if (held + amount > capacity) return undefined
+      }
+      const reservation = { id: `res-${++next}`, userId, unit, amount, expiresAt }
+      reservations.set(reservation.id, { ...reservation, status: 'reserved', unlimited: limit === -1 })
+      return reservation
+    },
+    async commit(id, usage) {
+      await roundTrip()
+      const held = reservations.get(id)
+      if (!held || !live(held) || usage.amount > held.amount) return false
+      held.status = 'committed'
+      if (held.unit === 'portfolio') {
+        account.portfolioCount += usage.amount
+        return true
+      }
+      const monthly = held.unlimited ? usage.amount : Math.min(Math.max(0, account.credits.monthly), usage.amount)
+      for (const [bucket, amount] of [['monthly', monthly], ['purchased', usage.amount - monthly]] as const) {
+        if (amount === 0) continue
+        account.credits[bucket] -= amount
+        account.charges.push({ bucket, amount, reason: usage.reason })
+      }
+      return true
+    },
+    async release(id) {
+      await roundTrip()
+      const held = reservations.get(id)
+      if (!held || held.status !== 'reserved') return false
+      held.status = 'released'
+      return true
+    },
+  }
+}
+
+function setup(account: Partial<Account> = {}) {
+  const state: Account = { portfolioCount: 0, credits: { monthly: 0, purchased: 0 }, charges: [], ...account }
+  const clock = { now: new Date('2026-03-01T10:00:00.000Z') }
+  const store = memoryMeter(state, clock)
+  return { meter: new UsageMeter(store, 5 * 60 * 1000), account: state, clock, store }
+}
+
+describe('usage metering', () => {
+  it('never lets concurrent requests reserve past the portfolio limit', async () => {
+    const { meter, account, clock } = setup({ portfolioCount: 1 })
+
+    const results = await Promise.all(Array.from({ length: 5 }, () => meter.reserve('u1', 'portfolio', 1, 3, clock.now)))
+    const granted = results.flatMap(result => (result.allowed ? [result.reservation] : []))
+
+    expect(granted).toHaveLength(2)
+    expect(results.filter(result => !result.allowed)).toEqual(Array(3).fill({ allowed: false, reason: 'Portfolio limit reached for your tier' }))
+
+    await Promise.all(granted.map(reservation => meter.commit(reservation)))
+    expect(account.portfolioCount).toBe(3)
+    expect((await meter.reserve('u1', 'portfolio', 1, 3, clock.now)).allowed).toBe(false)
+  })
+
+  it('holds AI credits under concurrent requests and charges only what was used', async () => {
+    const { meter, account, clock } = setup({ credits: { monthly: 5, purchased: 10 } })
+
+    const results = await Promise.all(Array.from({ length: 6 }, () => meter.reserve('u1', 'ai_credits', 4, 100, clock.now)))
+    const [first, second, third] = results.flatMap(result => (result.allowed ? [result.reservation] : []))
+    expect(results.filter(result => result.allowed)).toHaveLength(3)
+
+    await meter.commit(first, { amount: 3, reason: 'linkedin_parser' })
+    // More than was reserved is capped at the reservation
+    await meter.commit(second, { amount: 9, reason: 'template_customizer' })
+    // Nothing used: the hold is released
+    await meter.commit(third, { amount: 0 })
+
+    expect(account.credits).toEqual({ monthly: 0, purchased: 8 })
+    expect(account.charges).toEqual([
+      { bucket: 'monthly', amount: 3, reason: 'linkedin_parser' },
+      { bucket: 'monthly', amount: 2, reason: 'template_customizer' },
+      { bucket: 'purchased', amount: 2, reason: 'template_customizer' },
+    ])
+    expect((await meter.reserve('u1', 'ai_credits', 8, 100, clock.now)).allowed).toBe(true)
+    expect(await meter.reserve('u1', 'ai_credits', 1, 100, clock.now)).toEqual({ allowed: false, reason: 'AI credits exhausted for this month' })
+  })
+
+  it('frees holds that are released or time out', async () => {
+    const { meter, account, clock, store } = setup()
+    const reserve = async () => {
+      const result = await meter.reserve('u1', 'portfolio', 1, 1, clock.now)
+      return result.allowed ? result.reservation : undefined
+    }
+
+    const abandoned = (await reserve())!
+    expect(await reserve()).toBeUndefined()
+    await meter.release(abandoned)
+    await meter.release(abandoned)
+
+    const slow = (await reserve())!
+    clock.now = new Date('2026-03-01T10:05:00.000Z')
+    const retry = (await reserve())!
+    await expect(meter.commit(slow)).rejects.toThrow('Usage reservation has expired or was already settled')
+
+    await meter.commit(retry)
+    await expect(meter.commit(retry)).rejects.toThrow('Usage reservation has expired or was already settled')
+    expect(account.portfolioCount).toBe(1)
+    expect(store.reservations.get(abandoned.id)?.status).toBe('released')
+  })
+
+  it('records usage without a cap on unlimited tiers', async () => {
+    const { meter, account, clock } = setup()
+
+    const result = await meter.reserve('u1', 'ai_credits', 50, -1, clock.now)
+    if (!result.allowed) throw new Error(result.reason)
+    await meter.commit(result.reservation, { amount: 12, reason: 'linkedin_parser' })
+
+    expect(account.charges).toEqual([{ bucket: 'monthly', amount: 12, reason: 'linkedin_parser' }])
+    await expect(meter.reserve('u1', 'ai_credits', 0, -1, clock.now)).rejects.toThrow('Reservations must be a positive whole number')
+  })
+})
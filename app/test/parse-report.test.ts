@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import { strToU8, zipSync } from 'fflate'
+import { createLinkedInImportService } from '../lib/linkedin/import'
+
+describe('parse report', () => {
+  const service = createLinkedInImportService()
+
+  it('records line numbers and confidence for text imports', async () => {
+    const text = [
+      'Jane Doe',
+      'Staff Engineer',
+      'jane@example.com',
+      '',
+      'Experience',
+      'Lead Engineer',
+      'Acme · Full-time',
+      'Jan 2021 - Present',
+      '',
+      'Mentor',
+      'Code Club',
+      '',
+      'Recommendations',
+      'Jane is great to work with.',
+      '',
+      'Skills',
+      'TypeScript',
+    ].join('\n')
+
+    const { profile, report } = await service.parseProfileWithReport(text, 'text')
+
+    expect(report.fields['personal.name']).toEqual({ source: 'text', line: 1, confidence: 'medium' })
+    expect(report.fields['contact.email']).toEqual({ source: 'text', line: 3, confidence: 'high' })
+    expect(report.fields['experience[0]']).toEqual({ source: 'text', line: 6, confidence: 'high' })
+    expect(report.fields['experience[1]']).toEqual({ source: 'text', line: 10, confidence: 'low' })
+    expect(report.sections).toMatchObject({ experience: 5, skills: 16 })
+    expect(report.warnings).toContainEqual({ code: 'ignored_section', line: 13, message: 'The "Recommendations" section is not imported' })
+    expect(profile.skills).toEqual(['TypeScript'])
+  })
+
+  it('reports JSON source keys, unknown keys and unparseable dates', async () => {
+    const json = JSON.stringify({
+      fullName: 'Jane Doe',
+      favouriteColour: 'green',
+      experience: [{ company: 'Acme', title: 'Lead', startDate: 'sometime in spring' }],
+    })
+
+    const { report } = await service.parseProfileWithReport(json, 'json')
+
+    expect(report.fields['personal.name']).toEqual({ source: 'json:fullName', confidence: 'high' })
+    expect(report.fields.experience).toEqual({ source: 'json:experience', confidence: 'high' })
+    expect(report.warnings).toEqual([
+      { code: 'unknown_key', path: 'favouriteColour', message: 'Ignored unknown field "favouriteColour"' },
+      { code: 'missing_field', path: 'personal.headline', message: 'No headline was found' },
+      { code: 'unparseable_date', path: 'experience[0].startDate', line: undefined, message: 'Could not understand the date "sometime in spring"' },
+    ])
+  })
+
+  it('reports dates with a month out of range instead of keeping only the year', async () => {
+    const json = JSON.stringify({
+      fullName: 'Jane Doe',
+      headline: 'Engineer',
+      experience: [{ company: 'Acme', title: 'Lead', startDate: '2020-13', endDate: '2021-02' }],
+    })
+
+    const { profile, report } = await service.parseProfileWithReport(json, 'json')
+
+    expect(profile.experience[0]).toMatchObject({ startDate: '2020-13', endDate: '2021-02' })
+    expect(report.warnings).toEqual([
+      { code: 'unparseable_date', path: 'experience[0].startDate', line: undefined, message: 'Could not understand the date "2020-13"' },
+    ])
+  })
+
+  it('reports missing and ignored files in LinkedIn exports', async () => {
+    const archive = zipSync({
+      'Profile.csv': strToU8('First Name,Last Name,Headline\nJane,Doe,Engineer\n'),
+      'Connections.csv': strToU8('First Name\nJohn\n'),
+    })
+
+    const { report } = await service.parseProfileWithReport(archive, 'linkedin-export')
+
+    expect(report.fields['personal.name']).toEqual({ source: 'Profile.csv:First Name + Last Name', confidence: 'high' })
+    expect(report.warnings).toEqual([
+      { code: 'missing_file', message: 'The export does not contain Positions.csv' },
+      { code: 'ignored_section', message: 'These export files are not imported: Connections.csv' },
+    ])
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import {
+  companyTenure,
+  formatDuration,
+  parseDuration,
+  parsePartialDate,
+  PRESENT,
+  sortByRecency,
+  tenureInMonths,
+} from '../lib/linkedin/dates'
+import { parseDateRange, parseLinkedInDate } from '../lib/linkedin/normalize'
+import { createLinkedInImportService, type WorkExperience } from '../lib/linkedin/import'
+
+const now = new Date('2024-06-15T00:00:00Z')
+
+function role(overrides: Partial<WorkExperience>): WorkExperience {
+  return {
+    id: 'exp_a', company: 'Acme', title: 'Engineer', startDate: '', current: false,
+    description: '', achievements: [], skills: [], ...overrides,
+  }
+}
+
+describe('partial dates', () => {
+  it('keeps the precision it was given', () => {
+    expect(parsePartialDate('2019')).toEqual({ year: 2019 })
+    expect(parsePartialDate('Mar 2021')).toEqual({ year: 2021, month: 3 })
+    expect(parsePartialDate('2020-03-15T09:30:00Z')).toEqual({ year: 2020, month: 3, day: 15 })
+    expect(parsePartialDate({ year: 2018, month: 7 })).toEqual({ year: 2018, month: 7 })
+    expect(parsePartialDate('someday')).toBeNull()
+  })
+
+  it('rejects months and days out of range instead of dropping them', () => {
+    expect(parsePartialDate('2020-13')).toBeNull()
+    expect(parsePartialDate('2020-02-32')).toBeNull()
+    expect(parsePartialDate('2021-02-29')).toBeNull()
+    expect(parsePartialDate('2020-02-29')).toEqual({ year: 2020, month: 2, day: 29 })
+    expect(parsePartialDate('Apr 31, 2021')).toBeNull()
+    expect(parsePartialDate('15/3/2021')).toBeNull()
+    expect(parsePartialDate({ year: 2020, month: 13 })).toBeNull()
+    expect(parseLinkedInDate('2020-13')).toBe('2020-13')
+  })
+
+  it('understands localised month names and "Present"', () => {
+    expect(parsePartialDate('März 2020')).toEqual({ year: 2020, month: 3 })
+    expect(parsePartialDate('janv. 2020')).toEqual({ year: 2020, month: 1 })
+    expect(parsePartialDate('ene. de 2020')).toEqual({ year: 2020, month: 1 })
+    expect(parsePartialDate('15. août 2021')).toEqual({ year: 2021, month: 8, day: 15 })
+    expect(parsePartialDate('mrt 2019')).toEqual({ year: 2019, month: 3 })
+    expect(parsePartialDate('Heute')).toBe(PRESENT)
+    expect(parseDateRange('janv. 2020 - aujourd’hui · 4 ans 6 mois')).toEqual({
+      startDate: '2020-01', endDate: '', current: true, duration: '4 ans 6 mois', durationMonths: 54,
+    })
+  })
+
+  it('parses and formats LinkedIn durations', () => {
+    expect(parseDuration('3 yrs 2 mos')).toBe(38)
+    expect(parseDuration('(1 year 1 month)')).toBe(13)
+    expect(parseDuration('2 Jahre')).toBe(24)
+    expect(parseDuration('Full-time')).toBeNull()
+    expect(formatDuration(38)).toBe('3 yrs 2 mos')
+    expect(formatDuration(12)).toBe('1 yr')
+    expect(formatDuration(1)).toBe('1 mo')
+  })
+
+  it('computes tenure per role and per company', () => {
+    const roles = [
+      role({ id: 'exp_lead', title: 'Lead', startDate: '2022-01', current: true }),
+      role({ id: 'exp_senior', title: 'Senior', startDate: '2020-01', endDate: '2022-03' }),
+      role({ id: 'exp_intern', company: 'Globex', startDate: '2018', endDate: '2018' }),
+      role({ id: 'exp_unknown', company: 'Initech', startDate: '2017-05' }),
+    ]
+
+    expect(tenureInMonths(roles[0], now)).toBe(30)
+    expect(tenureInMonths(roles[2], now)).toBe(12)
+    expect(tenureInMonths(roles[3], now)).toBeNull()
+    expect(companyTenure(roles, now)).toEqual([
+      { company: 'Acme', months: 54, startDate: '2020-01', endDate: '', current: true, roleIds: ['exp_lead', 'exp_senior'] },
+      { company: 'Globex', months: 12, startDate: '2018-01', endDate: '2018-12', current: false, roleIds: ['exp_intern'] },
+      { company: 'Initech', months: 0, startDate: '', endDate: '', current: false, roleIds: ['exp_unknown'] },
+    ])
+  })
+
+  it('sorts most recent first with missing dates last and ties stable', () => {
+    const entries = [
+      role({ id: 'no-date' }),
+      role({ id: 'old', startDate: '2015' }),
+      role({ id: 'ended', startDate: '2021-02', endDate: '2022-01' }),
+      role({ id: 'running', startDate: '2021-02', current: true }),
+      role({ id: 'year-only', startDate: '2021' }),
+      role({ id: 'no-date-2', startDate: 'unknown' }),
+    ]
+
+    expect(sortByRecency(entries).map(entry => entry.id)).toEqual(['running', 'ended', 'year-only', 'old', 'no-date', 'no-date-2'])
+  })
+
+  it('normalises JSON dates without shifting them and sorts for the portfolio', async () => {
+    const service = createLinkedInImportService()
+    const profile = await service.parseProfile(JSON.stringify({
+      name: 'Jane Doe',
+      experience: [
+        { company: 'Globex', title: 'Engineer', startDate: '2019', endDate: 'Mar 2021' },
+        { company: 'Initech', title: 'Intern' },
+        { company: 'Acme', title: 'Lead', startDate: '2021-04-01', endDate: 'Present' },
+      ],
+    }), 'json')
+
+    expect(profile.experience.map(({ startDate, endDate, current }) => ({ startDate, endDate, current }))).toEqual([
+      { startDate: '2019', endDate: '2021-03', current: false },
+      { startDate: '', endDate: '', current: false },
+      { startDate: '2021-04-01', endDate: '', current: true },
+    ])
+    expect(service.optimizeForPortfolio(profile).experience.map(exp => exp.company)).toEqual(['Acme', 'Globex', 'Initech'])
+    expect(profile.experience[0].company).toBe('Globex')
+  })
+})
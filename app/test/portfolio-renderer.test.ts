@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import type { LinkedInProfile } from '../lib/linkedin/import'
+import { AVAILABLE_TEMPLATES } from '../lib/templates'
+import { createPortfolioRenderer } from '../lib/templates/renderer'
+
+function profile(overrides: Partial<LinkedInProfile> = {}): LinkedInProfile {
+  return {
+    personal: { name: 'Jane Doe', headline: 'Staff Engineer', location: 'Berlin, Germany', summary: 'I build developer tools.\n\n• Shipped <fast> builds' },
+    contact: { email: 'jane@example.com', website: 'janedoe.dev', linkedin: 'https://www.linkedin.com/in/janedoe' },
+    experience: [{
+      id: 'exp_a', company: 'Acme', title: 'Lead Engineer', location: 'Berlin', startDate: '2021-01', current: true,
+      employmentType: 'Full-time', description: 'Led the platform team.', achievements: [], skills: ['Go'],
+    }],
+    education: [],
+    skills: ['TypeScript', 'React'],
+    certifications: [],
+    languages: [],
+    projects: [{ id: 'proj_a', name: 'Portfolio Builder', description: 'Static sites.', url: 'javascript:alert(1)', startDate: '2023', skills: [] }],
+    volunteer: [],
+    ...overrides,
+  }
+}
+
+describe('portfolio renderer', () => {
+  const renderer = createPortfolioRenderer()
+
+  it('renders a complete, escaped HTML document', () => {
+    const { html, css, sections, omitted } = renderer.render(profile(), 'professional')
+
+    expect(html.startsWith('<!DOCTYPE html>\n<html lang="en">')).toBe(true)
+    expect(html).toContain('<meta name="viewport" content="width=device-width, initial-scale=1">')
+    expect(html).toContain('<title>Jane Doe – Staff Engineer</title>')
+    expect(html).toContain('<li>Shipped &lt;fast&gt; builds</li>')
+    expect(html).toContain('<p class="meta">Jan 2021 – Present · Berlin</p>')
+    expect(html).toContain('<a href="https://janedoe.dev" rel="noopener">janedoe.dev</a>')
+    expect(css).toContain('@media (min-width: 900px)')
+    expect(sections).toEqual(['about', 'experience', 'skills', 'contact'])
+    expect(omitted).toEqual(['education', 'certifications', 'volunteer', 'languages'])
+  })
+
+  it('only renders sections the template supports and leaves empty ones out', () => {
+    const { html, sections } = renderer.render(profile(), 'minimal')
+
+    expect(sections).toEqual(['about', 'experience', 'projects', 'skills', 'contact'])
+    expect(html).not.toContain('id="education"')
+    expect(html).toContain('<a href="#projects">Projects</a>')
+    // Unsafe project links are dropped, the name is kept
+    expect(html).toContain('<h3>Portfolio Builder</h3>')
+    expect(html).not.toContain('javascript:')
+  })
+
+  it('applies template labels and the sidebar layout', () => {
+    expect(renderer.render(profile(), 'modern').html).toContain('<h2 id="projects-heading">Selected Work</h2>')
+    expect(renderer.render(profile(), 'professional').html).toContain('<aside class="aside"><section id="skills"')
+  })
+
+  it('is deterministic and degrades to a header for an empty profile', () => {
+    for (const template of AVAILABLE_TEMPLATES) {
+      expect(renderer.render(profile(), template).html).toBe(renderer.render(profile(), template.id).html)
+    }
+
+    const empty = renderer.render(profile({
+      personal: { name: 'Jane Doe', headline: '', location: '', summary: '' },
+      contact: { linkedin: '' },
+      experience: [],
+      skills: [],
+      projects: [],
+    }), 'modern')
+
+    expect(empty.sections).toEqual([])
+    expect(empty.html).toContain('<main></main>')
+    expect(empty.html).not.toContain('<nav')
+  })
+
+  it('links an external stylesheet when asked and rejects unknown templates', () => {
+    const { html } = renderer.render(profile(), 'minimal', { stylesheet: 'assets/site.css' })
+
+    expect(html).toContain('<link rel="stylesheet" href="assets/site.css">')
+    expect(html).not.toContain('<style>')
+    expect(() => renderer.render(profile(), 'unknown')).toThrow('Unknown template: unknown')
+  })
+})
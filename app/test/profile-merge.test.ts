@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import type { LinkedInProfile } from '../lib/linkedin/import'
+import { assignEntryIds } from '../lib/linkedin/ids'
+import { createProfileMergeService } from '../lib/linkedin/merge'
+
+function profile(overrides: Partial<LinkedInProfile> = {}): LinkedInProfile {
+  return {
+    personal: { name: 'Jane Doe', headline: 'Engineer', location: 'Berlin', summary: 'Builds things.' },
+    contact: { linkedin: 'https://www.linkedin.com/in/janedoe' },
+    experience: [
+      { id: 'exp_0', company: 'Acme', title: 'Lead Engineer', startDate: '2021-01', current: true, description: 'Platform lead.', achievements: [], skills: [] },
+      { id: 'exp_1', company: 'Globex', title: 'Engineer', startDate: '2016-03', endDate: '2020-12', current: false, description: '', achievements: [], skills: [] },
+    ],
+    education: [],
+    skills: ['TypeScript', 'Go'],
+    certifications: [],
+    languages: [{ name: 'German', proficiency: 'native' }],
+    projects: [],
+    volunteer: [],
+    ...overrides,
+  }
+}
+
+describe('ProfileMergeService', () => {
+  const service = createProfileMergeService()
+
+  it('diffs added, removed and changed entries', () => {
+    const before = profile()
+    const after = profile({
+      personal: { ...before.personal, headline: 'Staff Engineer' },
+      experience: [
+        { ...before.experience[0], description: 'Platform lead for 40 engineers.' },
+        { id: 'exp_1', company: 'Initech', title: 'Intern', startDate: '2015-06', current: false, description: '', achievements: [], skills: [] },
+      ],
+      skills: ['TypeScript', 'Rust'],
+    })
+
+    const diff = service.diff(before, after)
+
+    expect(diff.hasChanges).toBe(true)
+    expect(diff.fields).toEqual([{ path: 'personal.headline', before: 'Engineer', after: 'Staff Engineer' }])
+    expect(diff.skills).toEqual({ added: ['Rust'], removed: ['Go'] })
+    expect(diff.experience.added.map(exp => exp.company)).toEqual(['Initech'])
+    expect(diff.experience.removed.map(exp => exp.company)).toEqual(['Globex'])
+    expect(diff.experience.changed[0].fields).toEqual([
+      { path: 'experience[acme|lead engineer].description', before: 'Platform lead.', after: 'Platform lead for 40 engineers.' },
+    ])
+    expect(service.diff(before, profile()).hasChanges).toBe(false)
+  })
+
+  it('auto-merges one-sided changes and keeps user edits', () => {
+    const base = profile()
+    const local = profile({ personal: { ...base.personal, summary: 'My own words.' }, skills: ['TypeScript', 'Go', 'Leadership'] })
+    const remote = profile({
+      personal: { ...base.personal, headline: 'Staff Engineer' },
+      experience: [
+        ...base.experience,
+        { id: 'exp_2', company: 'Initech', title: 'Intern', startDate: '2015-06', current: false, description: '', achievements: [], skills: [] },
+      ],
+      skills: ['TypeScript', 'Rust'],
+    })
+
+    const result = service.merge({ base, local, remote })
+
+    expect(result.conflicts).toEqual([])
+    expect(result.profile.personal).toMatchObject({ headline: 'Staff Engineer', summary: 'My own words.' })
+    expect(result.profile.skills).toEqual(['TypeScript', 'Leadership', 'Rust'])
+    expect(result.profile.experience.map(exp => exp.id)).toEqual(['exp_0', 'exp_1', 'exp_2'])
+  })
+
+  it('reports conflicts for fields changed on both sides and resolves them', () => {
+    const base = profile()
+    const local = profile({
+      experience: [{ ...base.experience[0], description: 'Edited by hand.' }, { ...base.experience[1], description: 'Kept this role.' }],
+    })
+    const remote = profile({
+      experience: [{ ...base.experience[0], description: 'Updated on LinkedIn.' }],
+    })
+
+    const result = service.merge({ base, local, remote })
+
+    expect(result.conflicts.map(conflict => [conflict.id, conflict.kind])).toEqual([
+      ['experience[acme|lead engineer].description', 'both-modified'],
+      ['experience[globex|engineer]', 'modified-deleted'],
+    ])
+    expect(result.profile.experience[0].description).toBe('Edited by hand.')
+
+    const resolved = service.resolve(result, {
+      'experience[acme|lead engineer].description': 'remote',
+      'experience[globex|engineer]': 'remote',
+    })
+
+    expect(resolved.experience).toHaveLength(1)
+    expect(resolved.experience[0].description).toBe('Updated on LinkedIn.')
+
+    const custom = service.resolve(result, { 'experience[acme|lead engineer].description': { value: 'Both, combined.' } })
+    expect(custom.experience[0].description).toBe('Both, combined.')
+    expect(custom.experience).toHaveLength(2)
+  })
+
+  it('does not resurrect entries the user deleted unless LinkedIn changed them', () => {
+    const base = profile()
+    const local = profile({ experience: [base.experience[0]] })
+
+    expect(service.merge({ base, local, remote: base }).profile.experience).toHaveLength(1)
+
+    const remote = profile({ experience: [base.experience[0], { ...base.experience[1], endDate: '2021-01' }] })
+    const result = service.merge({ base, local, remote })
+
+    expect(result.conflicts[0]).toMatchObject({ kind: 'deleted-modified', id: 'experience[globex|engineer]' })
+    expect(service.resolve(result, { 'experience[globex|engineer]': 'remote' }).experience).toHaveLength(2)
+  })
+
+  it('matches entries by their stable id when the title changes', () => {
+    const base = assignEntryIds(profile())
+    const local = { ...base, experience: [{ ...base.experience[0], title: 'Head of Platform' }, base.experience[1]] }
+    const remote = { ...base, experience: [{ ...base.experience[0], description: 'Platform lead for 40 engineers.' }, base.experience[1]] }
+
+    const result = service.merge({ base, local, remote })
+
+    expect(result.conflicts).toEqual([])
+    expect(result.profile.experience).toHaveLength(2)
+    expect(result.profile.experience[0]).toMatchObject({
+      id: base.experience[0].id,
+      title: 'Head of Platform',
+      description: 'Platform lead for 40 engineers.',
+    })
+
+    const diff = service.diff(base, local)
+    expect(diff.experience.added).toEqual([])
+    expect(diff.experience.removed).toEqual([])
+    expect(diff.experience.changed[0].fields).toEqual([
+      { path: 'experience[acme|lead engineer].title', before: 'Lead Engineer', after: 'Head of Platform' },
+    ])
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { createLinkedInImportService, type LinkedInProfile } from '../lib/linkedin/import'
+import { validateLinkedInProfile } from '../lib/linkedin/validation'
+
+function profile(overrides: Partial<LinkedInProfile> = {}): LinkedInProfile {
+  return {
+    personal: { name: 'Jane Doe', headline: 'Staff Engineer', location: 'Berlin', summary: '' },
+    contact: { email: 'jane@example.com', linkedin: 'https://www.linkedin.com/in/janedoe' },
+    experience: [{
+      id: 'exp_0', company: 'Acme', title: 'Lead Engineer', location: '', startDate: '2021-01',
+      endDate: '', current: true, description: '', achievements: [], skills: [],
+    }],
+    education: [],
+    skills: [],
+    certifications: [],
+    languages: [],
+    projects: [],
+    volunteer: [],
+    ...overrides,
+  }
+}
+
+const now = new Date('2026-06-01')
+
+describe('profile validation', () => {
+  it('accepts a complete profile', () => {
+    expect(validateLinkedInProfile(profile(), { now })).toEqual({ valid: true, issues: [] })
+  })
+
+  it('addresses date problems to the offending field', () => {
+    const { valid, issues } = validateLinkedInProfile(profile({
+      experience: [
+        { ...profile().experience[0], startDate: '2021-05', endDate: '2020', current: true },
+        { ...profile().experience[0], id: 'exp_1', title: 'Engineer', startDate: 'sometime', endDate: '2021-03', current: false },
+      ],
+      education: [{ id: 'edu_0', institution: 'TU Berlin', degree: '', field: '', startDate: '2016', endDate: '2016-09', activities: [] }],
+    }), { now })
+
+    expect(valid).toBe(false)
+    expect(issues.map(({ path, code }) => ({ path, code }))).toEqual([
+      { path: 'experience[0].endDate', code: 'date_order' },
+      { path: 'experience[0].endDate', code: 'current_with_end_date' },
+      { path: 'experience[1].startDate', code: 'invalid_date' },
+    ])
+  })
+
+  it('rejects months and days that do not exist', () => {
+    const { issues } = validateLinkedInProfile(profile({
+      experience: [{ ...profile().experience[0], startDate: '2020-13', endDate: '2021-02-31', current: false }],
+    }), { now })
+
+    expect(issues).toEqual([
+      { path: 'experience[0].startDate', severity: 'error', code: 'invalid_date', message: '"2020-13" is not a valid date' },
+      { path: 'experience[0].endDate', severity: 'error', code: 'invalid_date', message: '"2021-02-31" is not a valid date' },
+    ])
+  })
+
+  it('checks contact details, URLs and language proficiency', () => {
+    const { issues } = validateLinkedInProfile(profile({
+      contact: { email: 'jane@', website: 'jane.dev', linkedin: 'https://github.com/jane' },
+      projects: [{ id: 'proj_0', name: 'Site', description: '', url: 'not a url', startDate: '2022', skills: [] }],
+      languages: [{ name: 'German', proficiency: 'fluent' as any }],
+    }), { now })
+
+    expect(issues).toEqual([
+      { path: 'contact.email', severity: 'error', code: 'invalid_email', message: '"jane@" is not a valid email address' },
+      { path: 'contact.website', severity: 'warning', code: 'invalid_url', message: 'URL should start with https://' },
+      { path: 'contact.linkedin', severity: 'warning', code: 'invalid_url', message: 'LinkedIn URL should point to linkedin.com' },
+      expect.objectContaining({ path: 'languages[0].proficiency', severity: 'error', code: 'invalid_proficiency' }),
+      { path: 'projects[0].url', severity: 'error', code: 'invalid_url', message: '"not a url" is not a valid URL' },
+    ])
+  })
+
+  it('warns about duplicates and expired certifications without failing', () => {
+    const cert = { id: 'cert_0', name: 'AWS SAA', issuer: 'Amazon', issueDate: '2021-02', expiryDate: '2024-02' }
+    const { valid, issues } = validateLinkedInProfile(profile({
+      certifications: [cert, { ...cert, id: 'cert_1', name: 'aws  saa', expiryDate: '2027-01' }],
+      skills: ['TypeScript', 'React', 'typescript'],
+    }), { now })
+
+    expect(valid).toBe(true)
+    expect(issues).toEqual([
+      { path: 'certifications[0].expiryDate', severity: 'warning', code: 'certification_expired', message: 'AWS SAA expired on 2024-02' },
+      { path: 'certifications[1]', severity: 'warning', code: 'duplicate_entry', message: 'Duplicate of certification 1' },
+      { path: 'skills[2]', severity: 'warning', code: 'duplicate_entry', message: 'Duplicate of skill 1' },
+    ])
+  })
+
+  it('keeps the service result backward compatible', () => {
+    const service = createLinkedInImportService()
+    const result = service.validateProfile(profile({
+      personal: { name: '', headline: 'Engineer', location: '', summary: '' },
+      experience: [],
+    }))
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toEqual(['Name is required', 'At least one work experience entry is required'])
+    expect(result.issues.map(issue => issue.path)).toEqual(['personal.name', 'experience'])
+  })
+})
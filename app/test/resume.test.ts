@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import type { LinkedInProfile, WorkExperience } from '../lib/linkedin/import'
+import { readLinkedInPDF } from '../lib/linkedin/pdf'
+import { buildResume, RESUME_LIMITS } from '../lib/resume/document'
+import { createResumeRenderer } from '../lib/resume/renderer'
+import { getTemplate } from '../lib/templates'
+
+const role = (index: number): WorkExperience => ({
+  id: `exp_${index}`,
+  company: `Company ${index}`,
+  title: `Engineer ${index}`,
+  startDate: `${2010 + index}-01`,
+  endDate: `${2011 + index}-01`,
+  current: false,
+  description: ['• Shipped the billing platform', '• Cut build times in half', '• Mentored four engineers', '• Ran the on-call rota', '• Wrote the style guide', '• Hired the team'].join('\n'),
+  achievements: [],
+  skills: [],
+})
+
+const profile: LinkedInProfile = {
+  personal: { name: 'Zoë Müller', headline: 'Staff Engineer', location: 'Berlin', summary: 'I build developer tools.' },
+  contact: { email: 'zoe@example.com', linkedin: 'https://www.linkedin.com/in/zoe' },
+  experience: Array.from({ length: 8 }, (_, index) => role(index)),
+  education: [{ id: 'edu_a', institution: 'TU Berlin', degree: 'MSc', field: 'Computer Science', startDate: '2006', endDate: '2010', activities: [] }],
+  skills: Array.from({ length: 20 }, (_, index) => `Skill ${index}`),
+  certifications: [],
+  languages: [{ name: 'English', proficiency: 'full' }],
+  projects: [],
+  volunteer: [],
+}
+
+const renderer = createResumeRenderer()
+
+describe('resume content', () => {
+  it('keeps the most recent roles and top skills for the length', () => {
+    const resume = buildResume(profile, getTemplate('professional')!)
+    const experience = resume.sections.find(section => section.id === 'experience')!
+
+    expect(experience.entries.map(entry => entry.title)).toEqual(['Engineer 7', 'Engineer 6', 'Engineer 5', 'Engineer 4', 'Engineer 3'])
+    expect(experience.entries[0].bullets).toHaveLength(RESUME_LIMITS['two-page'].bullets)
+    expect(experience.entries[0].bullets[0]).toBe('Shipped the billing platform')
+    expect(resume.sections.find(section => section.id === 'skills')!.items).toHaveLength(12)
+    expect(resume.contact).toEqual(['Berlin', 'zoe@example.com', 'linkedin.com/in/zoe'])
+
+    const short = buildResume(profile, getTemplate('professional')!, { length: 'one-page' })
+    expect(short.sections.find(section => section.id === 'experience')!.entries).toHaveLength(3)
+  })
+})
+
+describe('resume html', () => {
+  it('is a print page in the theme colours, or plain black for ATS', () => {
+    const html = renderer.renderHtml(profile, 'professional', { pageSize: 'a4' })
+    const ats = renderer.renderHtml(profile, 'professional', { ats: true })
+
+    expect(html).toContain('@page { size: A4; margin: 0.6in; }')
+    expect(html).toContain('<body class="resume-styled">')
+    expect(html).toContain('<h3><span>Engineer 7</span><span class="dates">Jan 2017 – Jan 2018</span></h3>')
+    expect(ats).toContain('@page { size: letter; margin: 0.6in; }')
+    expect(ats).toContain('<body class="resume-ats">')
+  })
+})
+
+describe('resume pdf', () => {
+  it('typesets the resume without a browser', async () => {
+    const result = renderer.renderPdf(profile, 'minimal')
+    const text = await readLinkedInPDF(result.pdf)
+
+    expect(result.filename).toBe('zoe-muller-resume.pdf')
+    expect(new TextDecoder('latin1').decode(result.pdf.subarray(0, 8))).toBe('%PDF-1.4')
+    expect(result.warnings).toEqual([])
+    expect(text).toContain('Zoë Müller')
+    expect(text).toContain('Engineer 7')
+    expect(text).toContain('Cut build times in half')
+    expect(text).not.toContain('Engineer 2')
+  })
+
+  it('stops at the page budget and says so', () => {
+    const long = { ...profile, personal: { ...profile.personal, summary: 'Lorem ipsum dolor sit amet. '.repeat(200) } }
+    const result = renderer.renderPdf(long, 'professional', { length: 'one-page' })
+
+    expect(result.pageCount).toBe(1)
+    expect(result.warnings).toEqual(['The résumé is longer than one page; the end was left out'])
+  })
+
+  it('reports text the standard fonts cannot show', () => {
+    const result = renderer.renderPdf({ ...profile, personal: { ...profile.personal, name: 'زوي' } }, 'professional', { ats: true })
+
+    expect(result.filename).toBe('resume-resume.pdf')
+    expect(result.warnings).toEqual(['Characters the PDF fonts can\'t show were replaced with "?": ز و ي'])
+  })
+
+  it('gives the same bytes for the same input', () => {
+    expect(renderer.renderPdf(profile, 'modern').pdf).toEqual(renderer.renderPdf(profile, 'modern').pdf)
+  })
+})
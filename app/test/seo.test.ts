@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest'
+import type { LinkedInProfile } from '../lib/linkedin/import'
+import { buildSeoMetadata, renderSeoTags, toMetaDescriptors } from '../lib/seo/metadata'
+import { renderSocialCardPng, renderSocialCardSvg } from '../lib/seo/social-card'
+import { createPortfolioRenderer } from '../lib/templates/renderer'
+
+function profile(overrides: Partial<LinkedInProfile['personal']> = {}): LinkedInProfile {
+  return {
+    personal: { name: 'Jane Doe', headline: 'Staff Engineer at Acme', location: 'Berlin, Germany', summary: 'I build developer tools.', ...overrides },
+    contact: { email: 'jane@example.com', website: 'janedoe.dev', linkedin: 'https://www.linkedin.com/in/janedoe' },
+    experience: [
+      {
+        id: 'exp_b', company: 'Initech', title: 'Engineer', startDate: '2016-01', endDate: '2020-12', current: false,
+        description: '', achievements: [], skills: [],
+      },
+      {
+        id: 'exp_a', company: 'Acme', title: 'Staff Engineer', startDate: '2021-01', current: true,
+        description: '', achievements: [], skills: [],
+      },
+    ],
+    education: [{ id: 'edu_a', institution: 'TU Berlin', degree: 'MSc', field: 'Computer Science', startDate: '2014', endDate: '2016', activities: [] }],
+    skills: ['TypeScript', 'Go', 'TypeScript'],
+    certifications: [],
+    languages: [{ name: 'German', proficiency: 'native' }],
+    projects: [],
+    volunteer: [],
+  }
+}
+
+describe('SEO metadata', () => {
+  it('builds schema.org ProfilePage JSON-LD from the profile', () => {
+    const { jsonLd } = buildSeoMetadata(profile(), { url: 'https://janedoe.dev/' })
+
+    expect(jsonLd).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'ProfilePage',
+      url: 'https://janedoe.dev/',
+      name: 'Jane Doe – Staff Engineer at Acme',
+      mainEntity: {
+        '@type': 'Person',
+        name: 'Jane Doe',
+        description: 'Staff Engineer at Acme',
+        jobTitle: 'Staff Engineer',
+        url: 'https://janedoe.dev/',
+        homeLocation: { '@type': 'Place', name: 'Berlin, Germany' },
+        worksFor: [{ '@type': 'Organization', name: 'Acme' }],
+        alumniOf: [{ '@type': 'EducationalOrganization', name: 'TU Berlin' }],
+        knowsAbout: ['TypeScript', 'Go'],
+        knowsLanguage: ['German'],
+        // The website is the canonical URL, so it is not repeated
+        sameAs: ['https://www.linkedin.com/in/janedoe'],
+      },
+    })
+  })
+
+  it('adds Open Graph, Twitter and canonical tags', () => {
+    const metadata = buildSeoMetadata(profile(), { url: 'https://janedoe.dev/', imageUrl: 'https://janedoe.dev/card.png' })
+    const tags = renderSeoTags(metadata)
+
+    expect(tags).toContain('<link rel="canonical" href="https://janedoe.dev/">')
+    expect(tags).toContain('<meta property="og:type" content="profile">')
+    expect(tags).toContain('<meta property="og:image" content="https://janedoe.dev/card.png">')
+    expect(tags).toContain('<meta property="profile:last_name" content="Doe">')
+    expect(tags).toContain('<meta name="twitter:card" content="summary_large_image">')
+
+    const bare = buildSeoMetadata(profile())
+    expect(bare.canonical).toBeUndefined()
+    expect(bare.twitter).toContainEqual(['twitter:card', 'summary'])
+    expect(bare.openGraph.map(([property]) => property)).not.toContain('og:url')
+  })
+
+  it('keeps JSON-LD from breaking out of its script tag', () => {
+    const tags = renderSeoTags(buildSeoMetadata(profile({ name: 'Jane </script><script>alert(1)</script>' })))
+
+    expect(tags).not.toContain('</script><script>')
+    expect(tags).toContain('\\u003c/script>')
+  })
+
+  it('produces Remix meta descriptors for published pages', () => {
+    const descriptors = toMetaDescriptors(buildSeoMetadata(profile(), { url: 'https://janedoe.dev/' }))
+
+    expect(descriptors[0]).toEqual({ title: 'Jane Doe – Staff Engineer at Acme' })
+    expect(descriptors).toContainEqual({ tagName: 'link', rel: 'canonical', href: 'https://janedoe.dev/' })
+    expect(descriptors).toContainEqual({ property: 'og:title', content: 'Jane Doe – Staff Engineer at Acme' })
+    expect(descriptors[descriptors.length - 1]).toHaveProperty(['script:ld+json', '@type'], 'ProfilePage')
+  })
+
+  it('is part of every rendered portfolio', () => {
+    const { html } = createPortfolioRenderer().render(profile(), 'professional', { seo: { url: 'https://janedoe.dev/' } })
+
+    expect(html).toContain('<script type="application/ld+json">{"@context":"https://schema.org"')
+    expect(html).toContain('<link rel="canonical" href="https://janedoe.dev/">')
+  })
+})
+
+describe('social card', () => {
+  it('shows name, headline and initials when there is no photo', () => {
+    const svg = renderSocialCardSvg(profile(), { domain: 'janedoe.dev' })
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="1200" height="630"')).toBe(true)
+    expect(svg).toContain('>Jane Doe</text>')
+    expect(svg).toContain('>Staff Engineer at Acme</text>')
+    expect(svg).toContain('>JD</text>')
+    expect(svg).toContain('>janedoe.dev</text>')
+  })
+
+  it('embeds safe photos, escapes text and wraps long headlines', () => {
+    const svg = renderSocialCardSvg(profile({
+      name: 'Jane <Doe>',
+      headline: 'Principal engineer building developer platforms, compilers and distributed build systems for very large monorepos at scale',
+      profileImage: 'data:image/png;base64,AAAA',
+    }))
+
+    expect(svg).toContain('<image href="data:image/png;base64,AAAA"')
+    expect(svg).toContain('Jane &lt;Doe&gt;')
+    expect(svg.match(/font-size="34"/g)).toHaveLength(3)
+    expect(svg).toMatch(/…<\/text>/)
+    expect(renderSocialCardSvg(profile(), { photo: 'javascript:alert(1)' })).not.toContain('<image')
+  })
+
+  it('hands the SVG to the host rasterizer for PNG output', async () => {
+    let received: { svg: string; width: number; height: number } | undefined
+    const png = await renderSocialCardPng(profile(), async (svg, { width, height }) => {
+      received = { svg, width, height }
+      return new Uint8Array([0x89, 0x50, 0x4e, 0x47])
+    })
+
+    expect(png).toEqual(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))
+    expect(received).toMatchObject({ width: 1200, height: 630 })
+    expect(received?.svg).toContain('Jane Doe')
+  })
+})
@@ -1,5 +1,5 @@
 // Test setup file for vitest
-import { expect, afterEach } from 'vitest'
+import { afterEach } from 'vitest'
 import { cleanup } from '@testing-library/react'
 
 // Cleanup after each test case
@@ -0,0 +1,167 @@
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { strFromU8, unzipSync } from 'fflate'
+import type { LinkedInProfile } from '../lib/linkedin/import'
+import { buildStaticSite, fetchRemoteImage, StaticSiteExporter, type RemoteImage } from '../lib/export/static-site'
+import { getTemplate } from '../lib/templates'
+import { defaultTheme, setToken } from '../lib/templates/theme'
+import type { PortfolioTemplate } from '../lib/templates/types'
+
+// 1x1 transparent PNG
+const PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='
+
+function profile(profileImage?: string): LinkedInProfile {
+  return {
+    personal: { name: 'Jane Doe', headline: 'Staff Engineer', location: 'Berlin', summary: 'I build developer tools.', profileImage },
+    contact: { email: 'jane@example.com', linkedin: 'https://www.linkedin.com/in/janedoe' },
+    experience: [{
+      id: 'exp_a', company: 'Acme', title: 'Lead Engineer', location: 'Berlin', startDate: '2021-01', current: true,
+      employmentType: 'Full-time', description: 'Led the platform team.', achievements: [], skills: [],
+    }],
+    education: [],
+    skills: ['TypeScript'],
+    certifications: [],
+    languages: [],
+    projects: [],
+    volunteer: [],
+  }
+}
+
+const professional = getTemplate('professional') as PortfolioTemplate
+
+function unzip(zip: Uint8Array): Record<string, string> {
+  const files = unzipSync(zip)
+  return Object.fromEntries(Object.entries(files).map(([path, data]) => [path, strFromU8(data, true)]))
+}
+
+describe('static site export', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('bundles the site with hashed assets and relative links', async () => {
+    const site = await buildStaticSite(profile(`data:image/png;base64,${PNG}`), professional, {
+      branding: true,
+      siteUrl: 'janedoe.dev',
+    })
+
+    expect(site.filename).toBe('jane-doe-site.zip')
+    expect(site.files).toEqual([
+      '404.html',
+      expect.stringMatching(/^assets\/profile\.[0-9a-f]{8}\.png$/),
+      expect.stringMatching(/^assets\/styles\.[0-9a-f]{8}\.css$/),
+      'index.html',
+      'robots.txt',
+      'sitemap.xml',
+    ])
+
+    const files = unzip(site.zip)
+    const [image, stylesheet] = site.files.slice(1, 3)
+
+    expect(files['index.html']).toContain(`<link rel="stylesheet" href="${stylesheet}">`)
+    expect(files['index.html']).toContain(`<img class="avatar" src="${image}"`)
+    expect(files['index.html']).not.toContain('<style>')
+    expect(files['404.html']).toContain('<a href="index.html">Back to Jane Doe</a>')
+    expect(files['404.html']).toContain(`href="${stylesheet}"`)
+    expect(files['robots.txt']).toBe('User-agent: *\nAllow: /\n\nSitemap: https://janedoe.dev/sitemap.xml\n')
+    expect(files['sitemap.xml']).toContain('<loc>https://janedoe.dev/</loc>')
+    expect(files['index.html']).toContain(`<meta property="og:image" content="https://janedoe.dev/${image}">`)
+    expect(site.accessibility.passed).toBe(true)
+    expect(site.warnings).toEqual([])
+  })
+
+  it('styles the site with the saved theme tokens', async () => {
+    const theme = setToken(setToken(defaultTheme(professional), 'palette.accent', '#0f766e'), 'layout', 'sidebar')
+
+    const site = await buildStaticSite(profile(), professional, { branding: true, theme })
+    const files = unzip(site.zip)
+    const stylesheet = site.files.find(path => path.endsWith('.css'))!
+
+    expect(files[stylesheet]).toContain('--color-accent: #0f766e;')
+    expect(files['index.html']).toContain('page--sidebar')
+
+    const plain = unzip((await buildStaticSite(profile(), professional, { branding: true })).zip)
+    expect(Object.values(plain).join('')).not.toContain('#0f766e')
+  })
+
+  it('produces the same archive for the same input', async () => {
+    const options = { branding: false, siteUrl: 'https://janedoe.dev' }
+    const first = await buildStaticSite(profile(), professional, options)
+    const second = await buildStaticSite(profile(), professional, options)
+
+    expect(first.zip).toEqual(second.zip)
+  })
+
+  it('downloads remote profile images and leaves out ones it cannot use', async () => {
+    const fetched: string[] = []
+    const fetchImage = async (url: string): Promise<RemoteImage> => {
+      fetched.push(url)
+      if (url.endsWith('missing.jpg')) throw new Error('download failed with HTTP 404')
+      return { data: new Uint8Array([0xff, 0xd8, 0xff]), contentType: 'image/jpeg' }
+    }
+
+    const remote = await buildStaticSite(profile('https://cdn.example.com/jane.jpg'), professional, { branding: true, fetchImage })
+    expect(fetched).toEqual(['https://cdn.example.com/jane.jpg'])
+    expect(remote.files.some(path => /^assets\/profile\.[0-9a-f]{8}\.jpg$/.test(path))).toBe(true)
+
+    const missing = await buildStaticSite(profile('https://cdn.example.com/missing.jpg'), professional, { branding: true, fetchImage })
+    expect(missing.files.some(path => path.startsWith('assets/profile.'))).toBe(false)
+    expect(unzip(missing.zip)['index.html']).not.toContain('class="avatar"')
+    expect(missing.warnings).toContain('Profile image left out: download failed with HTTP 404')
+    expect(missing.warnings).toContain('No site URL given; sitemap.xml lists index.html relative to the site root')
+  })
+
+  it('only downloads images from public https hosts, up to 5MB', async () => {
+    const requested: string[] = []
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      requested.push(url)
+      if (url.endsWith('/moved.jpg')) return new Response(null, { status: 302, headers: { location: 'https://169.254.169.254/latest/meta-data/' } })
+      if (url.endsWith('/huge.jpg')) return new Response('x', { headers: { 'content-type': 'image/jpeg', 'content-length': String(6 * 1024 * 1024) } })
+      if (url.endsWith('/unsized.jpg')) return new Response(new Uint8Array(5 * 1024 * 1024 + 1), { headers: { 'content-type': 'image/jpeg' } })
+      return new Response(new Uint8Array([0xff, 0xd8, 0xff]), { headers: { 'content-type': 'image/jpeg' } })
+    }))
+
+    expect(await fetchRemoteImage('https://cdn.example.com/jane.jpg')).toEqual({ data: new Uint8Array([0xff, 0xd8, 0xff]), contentType: 'image/jpeg' })
+    await expect(fetchRemoteImage('http://cdn.example.com/jane.jpg')).rejects.toThrow('only https image URLs are allowed')
+    for (const url of ['https://localhost/a.jpg', 'https://127.0.0.1/a.jpg', 'https://10.0.0.7/a.jpg', 'https://[::1]/a.jpg', 'https://printer.local/a.jpg']) {
+      await expect(fetchRemoteImage(url)).rejects.toThrow('image host is not public')
+    }
+    await expect(fetchRemoteImage('https://cdn.example.com/moved.jpg')).rejects.toThrow('image host is not public')
+    await expect(fetchRemoteImage('https://cdn.example.com/huge.jpg')).rejects.toThrow('larger than 5MB')
+    await expect(fetchRemoteImage('https://cdn.example.com/unsized.jpg')).rejects.toThrow('larger than 5MB')
+    expect(requested).toEqual([
+      'https://cdn.example.com/jane.jpg',
+      'https://cdn.example.com/moved.jpg',
+      'https://cdn.example.com/huge.jpg',
+      'https://cdn.example.com/unsized.jpg',
+    ])
+  })
+
+  it('keeps the AppVantix credit unless the plan allows removing it', async () => {
+    const tiers: Record<string, string> = { free: 'free', pro: 'pro' }
+    const exporter = new StaticSiteExporter(
+      {
+        async select(userId, templateId) {
+          return templateId === 'modern' && tiers[userId] === 'free'
+            ? { allowed: false, reason: 'Professional plan required for Modern' }
+            : { allowed: true, template: getTemplate(templateId) }
+        },
+      },
+      {
+        async can(userId, entitlement) {
+          return { allowed: entitlement !== 'remove_branding' || tiers[userId] !== 'free', source: 'plan' }
+        },
+      },
+    )
+
+    const free = await exporter.export('free', profile(), 'professional', { removeBranding: true })
+    expect(free.branding).toBe(true)
+    expect(unzip(free.zip)['index.html']).toContain('Built with <a href="https://appvantix.com" rel="noopener">AppVantix</a>')
+
+    const pro = await exporter.export('pro', profile(), 'professional', { removeBranding: true })
+    expect(pro.branding).toBe(false)
+    expect(unzip(pro.zip)['index.html']).not.toContain('AppVantix')
+    expect((await exporter.export('pro', profile(), 'professional')).branding).toBe(true)
+
+    await expect(exporter.export('free', profile(), 'modern')).rejects.toThrow('Professional plan required for Modern')
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import { checkEntitlement, type Entitlement } from '../lib/paywall/entitlements'
+import { getTemplateAccess, SUBSCRIPTION_TIERS, type SubscriptionTier } from '../lib/paywall/service'
+import { AVAILABLE_TEMPLATES, getTemplate } from '../lib/templates'
+import { OutputSanitizer } from '../lib/security/output-sanitizer'
+import { TemplateRegistry, type CustomTemplateStore } from '../lib/templates/registry'
+import type { PortfolioTemplate } from '../lib/templates/types'
+
+const tier = (id: string) => SUBSCRIPTION_TIERS.find(t => t.id === id) as SubscriptionTier
+
+function memoryStore(): CustomTemplateStore {
+  const saved: PortfolioTemplate[] = []
+  return {
+    async list(ownerId) { return saved.filter(t => t.ownerId === ownerId) },
+    async save(template) { saved.push(template) },
+  }
+}
+
+const cssSanitizer = new OutputSanitizer({ logSecurityEvent: () => {} })
+
+// Stands in for PaywallService with a fixed tier per user
+function paywallFor(tiers: Record<string, string>) {
+  return {
+    async can(userId: string, entitlement: Entitlement) {
+      return checkEntitlement(tier(tiers[userId]), entitlement, SUBSCRIPTION_TIERS)
+    },
+    async checkTemplateAccess(userId: string, templates: PortfolioTemplate[]) {
+      return templates.map(template => getTemplateAccess(tier(tiers[userId]), template, userId))
+    },
+  }
+}
+
+const brand: PortfolioTemplate = {
+  id: 'acme-brand',
+  name: 'Acme Brand',
+  industry: 'business',
+  preview: '/templates/acme.jpg',
+  requiredTier: 'free',
+  sections: ['about', 'experience', 'contact'],
+  css: '.page { max-width: 50rem; }',
+  customization: { colors: ['#ff0000'], fonts: ['Inter'] },
+}
+
+describe('template access', () => {
+  const modern = getTemplate('modern') as PortfolioTemplate
+
+  it('keeps premium templates for paying tiers', () => {
+    expect(getTemplateAccess(tier('free'), getTemplate('minimal') as PortfolioTemplate, 'u1').allowed).toBe(true)
+    expect(getTemplateAccess(tier('free'), modern, 'u1')).toEqual({
+      allowed: false,
+      reason: 'Professional plan required for Modern',
+      requiredTier: 'pro',
+    })
+    expect(getTemplateAccess(tier('pro'), modern, 'u1').allowed).toBe(true)
+    expect(getTemplateAccess(tier('enterprise'), modern, 'u1').allowed).toBe(true)
+  })
+
+  it('limits custom templates to their Enterprise owner', () => {
+    const custom = { ...brand, requiredTier: 'enterprise', ownerId: 'u1' }
+
+    expect(getTemplateAccess(tier('enterprise'), custom, 'u1').allowed).toBe(true)
+    expect(getTemplateAccess(tier('enterprise'), custom, 'u2').reason).toBe('Template belongs to another account')
+    expect(getTemplateAccess(tier('pro'), custom, 'u1').reason).toBe('Custom templates require an Enterprise subscription')
+  })
+})
+
+describe('template registry', () => {
+  const tiers = { free: 'free', pro: 'pro', corp: 'enterprise', other: 'enterprise' }
+
+  it('lists every template with the reason it is locked', async () => {
+    const registry = new TemplateRegistry(paywallFor(tiers), memoryStore(), cssSanitizer)
+    const listing = await registry.list('free')
+
+    expect(listing.map(t => t.id)).toEqual(AVAILABLE_TEMPLATES.map(t => t.id))
+    expect(listing.find(t => t.id === 'modern')).toMatchObject({
+      industry: 'technology',
+      requiredTier: 'pro',
+      locked: true,
+      reason: 'Professional plan required for Modern',
+    })
+    expect(listing.find(t => t.id === 'professional')).not.toHaveProperty('reason')
+    expect((await registry.list('pro')).every(t => !t.locked)).toBe(true)
+  })
+
+  it('refuses to select locked or unknown templates', async () => {
+    const registry = new TemplateRegistry(paywallFor(tiers), memoryStore(), cssSanitizer)
+
+    expect(await registry.select('free', 'modern')).toEqual({ allowed: false, reason: 'Professional plan required for Modern' })
+    expect((await registry.select('pro', 'modern')).template?.id).toBe('modern')
+    expect(await registry.select('pro', 'nope')).toEqual({ allowed: false, reason: 'Unknown template: nope' })
+  })
+
+  it('registers custom templates for Enterprise users only', async () => {
+    const registry = new TemplateRegistry(paywallFor(tiers), memoryStore(), cssSanitizer)
+
+    await expect(registry.registerCustomTemplate('pro', brand)).rejects.toThrow('Custom templates require the Enterprise plan')
+
+    const saved = await registry.registerCustomTemplate('corp', brand)
+    expect(saved).toMatchObject({ ownerId: 'corp', requiredTier: 'enterprise' })
+    expect((await registry.list('corp')).find(t => t.custom)).toMatchObject({ id: 'acme-brand', custom: true, locked: false })
+    expect((await registry.select('corp', 'acme-brand')).template?.css).toBe(brand.css)
+    // Other accounts never see it
+    expect((await registry.list('other')).some(t => t.id === 'acme-brand')).toBe(false)
+    expect((await registry.select('other', 'acme-brand')).allowed).toBe(false)
+  })
+
+  it('validates custom templates before saving them', async () => {
+    const registry = new TemplateRegistry(paywallFor(tiers), memoryStore(), cssSanitizer)
+
+    await expect(registry.registerCustomTemplate('corp', { ...brand, id: 'modern' })).rejects.toThrow('Template id is reserved: modern')
+    await expect(registry.registerCustomTemplate('corp', { ...brand, id: 'Acme Brand' })).rejects.toThrow('lowercase')
+    await expect(registry.registerCustomTemplate('corp', { ...brand, css: 'a{}</style><script>' })).rejects.toThrow('disallowed')
+    await expect(registry.registerCustomTemplate('corp', { ...brand, css: '.page { background: url(https://track.example/pixel.gif?u=1); }' }))
+      .rejects.toThrow('Template CSS contains disallowed content: https://track.example/pixel.gif?u=1')
+    await expect(registry.registerCustomTemplate('corp', { ...brand, css: '@import url(https://cdn.example/x.css); .page {}' })).rejects.toThrow('disallowed')
+    await expect(registry.registerCustomTemplate('corp', { ...brand, css: '.hero { background: url(/img/hero.jpg); }' })).resolves.toMatchObject({ id: 'acme-brand' })
+    await expect(registry.registerCustomTemplate('corp', { ...brand, aside: ['skills'] })).rejects.toThrow('Aside sections')
+  })
+})
@@ -0,0 +1,263 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest'
+import { PaywallService, type PaywallConfig } from '../lib/paywall/service'
+import { action, loader } from '../routes/api.trial'
+import { getPortfolioGrace, getTrialStatus, trialFingerprint, trialHasLapsed, type TrialProfile } from '../lib/paywall/trial'
+
+// In-memory tables behind the Supabase clients, recording which key made each write
+const db = vi.hoisted(() => ({
+  tables: {} as Record<string, Record<string, unknown>[]>,
+  writes: [] as { key: string; table: string; op: string }[],
+  failWrites: undefined as string | undefined,
+  failReads: undefined as string | undefined,
+}))
+
+// The bearer token names the user: "u1" has a confirmed email, "unconfirmed" does not
+vi.mock('../lib/auth/session', () => ({
+  requireUser: async (request: Request) => {
+    const id = request.headers.get('Authorization')?.replace('Bearer ', '')
+    if (!id) throw new Response(null, { status: 401 })
+    return id === 'unconfirmed' ? { id, email: 'new@example.com' } : { id, email: `${id}@example.com`, emailConfirmedAt: '2026-01-01T00:00:00.000Z' }
+  },
+}))
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: (_url: string, key: string) => ({
+    from: (table: string) => query(key, table),
+    rpc: async (fn: string) => {
+      db.writes.push({ key, table: fn, op: 'rpc' })
+      return { data: fn === 'reserve_usage' ? 'res-1' : true, error: null }
+    },
+  }),
+}))
+
+function query(key: string, table: string) {
+  const filters: [string, unknown][] = []
+  let op = 'select'
+  let values: Record<string, unknown> = {}
+  let single = false
+  let maybe = false
+
+  const run = () => {
+    const rows = (db.tables[table] ??= [])
+    const matching = rows.filter(row => filters.every(([column, value]) => row[column] === value))
+    if (op === 'select') {
+      if (db.failReads === table) return { data: null, error: { code: 'XX000', message: `${table} read failed` } }
+      if (maybe) return { data: matching[0] ?? null, error: null }
+      return single ? { data: matching[0] ?? null, error: matching[0] ? null : { code: 'PGRST116' } } : { data: matching, error: null }
+    }
+
+    db.writes.push({ key, table, op })
+    if (db.failWrites === table) return { data: null, error: { code: 'XX000', message: `${table} write failed` } }
+    if (op === 'insert') {
+      if (table === 'trial_claims' && rows.some(row => row.fingerprint === values.fingerprint)) return { data: null, error: { code: '23505' } }
+      rows.push({ ...values })
+    } else if (op === 'update') {
+      matching.forEach(row => Object.assign(row, values))
+    } else if (op === 'delete') {
+      db.tables[table] = rows.filter(row => !matching.includes(row))
+    }
+    return { data: null, error: null }
+  }
+
+  const builder = {
+    select: () => builder,
+    insert: (row: Record<string, unknown>) => { op = 'insert'; values = row; return builder },
+    update: (row: Record<string, unknown>) => { op = 'update'; values = row; return builder },
+    delete: () => { op = 'delete'; return builder },
+    eq: (column: string, value: unknown) => { filters.push([column, value]); return builder },
+    single: () => { single = true; return builder },
+    maybeSingle: () => { maybe = true; return builder },
+    then: (resolve: (result: ReturnType<typeof run>) => unknown, reject?: (error: unknown) => unknown) => Promise.resolve().then(run).then(resolve, reject),
+  }
+  return builder
+}
+
+const ENDS = '2026-03-08T12:00:00.000Z'
+const at = (iso: string) => new Date(iso)
+
+const trialing: TrialProfile = { subscription_tier: 'pro', subscription_status: 'trialing', trial_ends_at: ENDS, portfolio_count: 3 }
+const expired: TrialProfile = { ...trialing, subscription_tier: 'free', subscription_status: 'trial_expired' }
+
+describe('trial status', () => {
+  it('counts down an active trial in whole days', () => {
+    expect(getTrialStatus(trialing, 14, at('2026-03-01T12:00:00.000Z'))).toEqual({
+      state: 'active',
+      endsAt: ENDS,
+      msRemaining: 7 * 24 * 60 * 60 * 1000,
+      daysRemaining: 7,
+    })
+    expect(getTrialStatus(trialing, 14, at('2026-03-08T11:00:00.000Z')).daysRemaining).toBe(1)
+  })
+
+  it('ends at the end date, even before the row is downgraded', () => {
+    const now = at('2026-03-08T12:00:00.000Z')
+
+    expect(trialHasLapsed(trialing, now)).toBe(true)
+    expect(trialHasLapsed(trialing, at('2026-03-08T11:59:59.000Z'))).toBe(false)
+    expect(getTrialStatus(trialing, 14, now)).toMatchObject({ state: 'ended', graceEndsAt: '2026-03-22T12:00:00.000Z' })
+    expect(getTrialStatus(expired, 14, now).state).toBe('ended')
+  })
+
+  it('tells apart users who never trialled and users who subscribed', () => {
+    expect(getTrialStatus({ subscription_tier: 'free', subscription_status: 'inactive' }, 14).state).toBe('none')
+    expect(getTrialStatus({ ...trialing, subscription_status: 'active' }, 14, at('2026-03-20T00:00:00.000Z')).state).toBe('converted')
+    // Stripe-run trials have no app end date and end by webhook
+    expect(trialHasLapsed({ subscription_tier: 'pro', subscription_status: 'trialing' })).toBe(false)
+  })
+})
+
+describe('portfolio grace period', () => {
+  it('keeps portfolios over the Free limit published until the grace period ends', () => {
+    expect(getPortfolioGrace(expired, 1, 14, at('2026-03-21T00:00:00.000Z'))).toEqual({
+      overLimit: 2,
+      graceEndsAt: '2026-03-22T12:00:00.000Z',
+      withinGrace: true,
+    })
+    expect(getPortfolioGrace(expired, 1, 14, at('2026-03-22T12:00:00.000Z')).withinGrace).toBe(false)
+  })
+
+  it('has nothing to cover within the limit or without a trial', () => {
+    expect(getPortfolioGrace({ ...expired, portfolio_count: 1 }, 1, 14)).toEqual({ overLimit: 0, withinGrace: true })
+    expect(getPortfolioGrace(expired, -1, 14)).toEqual({ overLimit: 0, withinGrace: true })
+    expect(getPortfolioGrace({ subscription_tier: 'free', subscription_status: 'inactive', portfolio_count: 2 }, 1, 14)).toEqual({ overLimit: 1, withinGrace: false })
+  })
+})
+
+describe('trial fingerprint', () => {
+  it('gives one key per mailbox', async () => {
+    const key = await trialFingerprint('janedoe@gmail.com')
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/)
+    expect(await trialFingerprint(' Jane.Doe+trial@GoogleMail.com ')).toBe(key)
+    expect(await trialFingerprint('jane.doe@example.com')).not.toBe(await trialFingerprint('janedoe@example.com'))
+    expect(await trialFingerprint('jane+x@example.com')).toBe(await trialFingerprint('jane@example.com'))
+  })
+})
+
+describe('PaywallService trials', () => {
+  const config: PaywallConfig = { enabled: true, requireSubscription: false, freeTierLimit: 1, trialDays: 7, trialGraceDays: 14 }
+  const paywall = (overrides: Partial<PaywallConfig> = {}) => new PaywallService('https://db.example', 'anon-key', 'service-key', { ...config, ...overrides })
+
+  beforeEach(() => {
+    db.tables = {
+      user_profiles: [{ id: 'u1', subscription_tier: 'free', subscription_status: 'inactive', portfolio_count: 1, created_at: '2026-01-01T00:00:00.000Z' }],
+      trial_claims: [],
+      entitlement_overrides: [],
+    }
+    db.writes = []
+    db.failWrites = undefined
+  })
+
+  it('starts trials with the service-role client', async () => {
+    const status = await paywall().startTrial('u1', 'jane@example.com', at('2026-03-01T12:00:00.000Z'))
+
+    expect(status).toMatchObject({ state: 'active', endsAt: ENDS })
+    expect(db.tables.user_profiles[0]).toMatchObject({ subscription_tier: 'pro', subscription_status: 'trialing', trial_ends_at: ENDS })
+    expect(db.writes).toEqual([
+      { key: 'service-key', table: 'trial_claims', op: 'insert' },
+      { key: 'service-key', table: 'user_profiles', op: 'update' },
+    ])
+  })
+
+  it('gives the claim back when the profile cannot be updated', async () => {
+    db.failWrites = 'user_profiles'
+    await expect(paywall().startTrial('u1', 'jane@example.com', at('2026-03-01T12:00:00.000Z'))).rejects.toMatchObject({ message: 'user_profiles write failed' })
+    expect(db.tables.trial_claims).toEqual([])
+
+    db.failWrites = undefined
+    expect((await paywall().startTrial('u1', 'jane@example.com', at('2026-03-01T12:00:00.000Z'))).state).toBe('active')
+  })
+
+  it('moves users to Free with a grace period when the trial ends, even when a subscription is required', async () => {
+    db.tables.user_profiles[0] = { ...db.tables.user_profiles[0], ...trialing }
+    const strict = paywall({ requireSubscription: true })
+
+    expect((await strict.getTier('u1')).id).toBe('free')
+    expect(db.tables.user_profiles[0]).toMatchObject({ subscription_tier: 'free', subscription_status: 'trial_expired' })
+    expect(await strict.canPublish('u1', at('2026-03-21T00:00:00.000Z'))).toEqual({ allowed: true, source: 'plan', limit: 1 })
+    expect((await strict.canPublish('u1', at('2026-03-22T12:00:00.000Z'))).allowed).toBe(false)
+    await expect(strict.requireSubscription('u1', new Request('https://app.example/dashboard'))).resolves.toBeUndefined()
+
+    db.tables.user_profiles[0].subscription_status = 'canceled'
+    expect(await strict.canPublish('u1')).toEqual({ allowed: false, reason: 'Active subscription required', source: 'plan' })
+  })
+})
+
+describe('PaywallService usage metering', () => {
+  const config: PaywallConfig = { enabled: true, requireSubscription: false, freeTierLimit: 3, trialDays: 7, trialGraceDays: 14 }
+
+  beforeEach(() => {
+    db.tables = {
+      user_profiles: [{ id: 'u1', subscription_tier: 'free', subscription_status: 'inactive', portfolio_count: 1, created_at: '2026-01-01T00:00:00.000Z' }],
+      entitlement_overrides: [],
+    }
+    db.writes = []
+  })
+
+  it('reserves, commits and releases usage with the service-role client', async () => {
+    const paywall = new PaywallService('https://db.example', 'anon-key', 'service-key', config)
+
+    const held = await paywall.reserve('u1', 'portfolio')
+    expect(held.allowed).toBe(true)
+    if (!held.allowed) return
+    await paywall.commit(held.reservation)
+    await paywall.release(held.reservation)
+
+    expect(db.writes).toEqual([
+      { key: 'service-key', table: 'reserve_usage', op: 'rpc' },
+      { key: 'service-key', table: 'commit_usage', op: 'rpc' },
+      { key: 'service-key', table: 'release_usage', op: 'rpc' },
+    ])
+  })
+
+  it('grants monthly AI credits with the service-role client', async () => {
+    const paywall = new PaywallService('https://db.example', 'anon-key', 'service-key', config)
+
+    await paywall.getCredits('u1', at('2026-03-01T12:00:00.000Z'))
+
+    expect(db.writes).toEqual([{ key: 'service-key', table: 'credit_ledger', op: 'insert' }])
+  })
+})
+
+describe('trial API', () => {
+  const env = { SUPABASE_URL: 'https://db.example', SUPABASE_ANON_KEY: 'anon-key', SUPABASE_SERVICE_ROLE_KEY: 'service-key', VITE_ENABLE_PAYWALL: 'true' }
+  const request = (user: string, method = 'GET') => new Request('https://app.test/api/trial', { method, headers: { Authorization: `Bearer ${user}` } })
+  const get = (user: string) => loader({ request: request(user), params: {}, context: { cloudflare: { env } } })
+  const post = (user: string) => action({ request: request(user, 'POST'), params: {}, context: { cloudflare: { env } } })
+
+  beforeEach(() => {
+    db.tables = {
+      user_profiles: [
+        { id: 'u1', subscription_tier: 'free', subscription_status: 'inactive', portfolio_count: 1, created_at: '2026-01-01T00:00:00.000Z' },
+        { id: 'unconfirmed', subscription_tier: 'free', subscription_status: 'inactive', portfolio_count: 0, created_at: '2026-01-01T00:00:00.000Z' },
+      ],
+      trial_claims: [],
+      entitlement_overrides: [],
+    }
+    db.writes = []
+    db.failWrites = undefined
+    db.failReads = undefined
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('starts a trial once, and only for a confirmed email address', async () => {
+    expect((await post('unconfirmed')).status).toBe(400)
+    expect((await post('u1')).status).toBe(200)
+
+    const again = await post('u1')
+    expect(again.status).toBe(409)
+    expect(await again.json()).toEqual({ error: 'You have already used your free trial' })
+  })
+
+  it('reports a missing profile as 404 and database failures as 500', async () => {
+    expect((await get('u1')).status).toBe(200)
+    expect((await get('nobody')).status).toBe(404)
+
+    db.failReads = 'entitlement_overrides'
+    expect(await (await get('u1')).json()).toEqual({ error: 'Could not load the trial' })
+    expect((await get('u1')).status).toBe(500)
+
+    db.failWrites = 'trial_claims'
+    expect((await post('u1')).status).toBe(500)
+  })
+})
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest'
+import type { LinkedInProfile } from '../lib/linkedin/import'
+import { SUBSCRIPTION_TIERS, type SubscriptionTier } from '../lib/paywall/service'
+import { getTemplate } from '../lib/templates'
+import { createPortfolioRenderer } from '../lib/templates/renderer'
+import { defaultTheme, setToken, type ThemeTokens } from '../lib/templates/theme'
+import { VersionHistory, type PortfolioSnapshot, type PortfolioVersion, type VersionStore } from '../lib/versions/history'
+
+const tier = (id: string) => SUBSCRIPTION_TIERS.find(t => t.id === id) as SubscriptionTier
+
+// `owners` maps each portfolio to the user who owns it
+function memoryStore(owners: Record<string, string> = { p1: 'u1' }): VersionStore {
+  const versions: PortfolioVersion[] = []
+  const summary = ({ snapshot: _snapshot, ...rest }: PortfolioVersion) => rest
+  return {
+    async list(_ownerId, portfolioId) {
+      return versions.filter(v => v.portfolioId === portfolioId).sort((a, b) => b.number - a.number).map(summary)
+    },
+    async get(_ownerId, portfolioId, number) {
+      return versions.find(v => v.portfolioId === portfolioId && v.number === number)
+    },
+    async insert(_ownerId, version) {
+      if (versions.some(v => v.portfolioId === version.portfolioId && v.number === version.number)) throw new Error('duplicate key')
+      versions.push(version)
+    },
+    async remove(_ownerId, portfolioId, numbers) {
+      for (const number of numbers) {
+        versions.splice(versions.findIndex(v => v.portfolioId === portfolioId && v.number === number), 1)
+      }
+    },
+    async ownsPortfolio(ownerId, portfolioId) {
+      return owners[portfolioId] === ownerId
+    },
+  }
+}
+
+const profile: LinkedInProfile = {
+  personal: { name: 'Jane Doe', headline: 'Engineer', location: 'Berlin', summary: 'I build developer tools.' },
+  contact: { email: 'jane@example.com', linkedin: 'https://www.linkedin.com/in/janedoe' },
+  experience: [
+    { id: 'exp_a', company: 'Acme', title: 'Engineer', startDate: '2021-01', current: true, description: 'Built the platform.', achievements: [], skills: [] },
+  ],
+  education: [],
+  skills: ['TypeScript', 'Go'],
+  certifications: [],
+  languages: [],
+  projects: [],
+  volunteer: [],
+}
+
+const renderer = createPortfolioRenderer()
+const template = getTemplate('professional')!
+
+function snapshot(data: LinkedInProfile, theme: ThemeTokens = defaultTheme(template)): PortfolioSnapshot {
+  const { html, css } = renderer.render(data, template, { theme })
+  return { templateId: template.id, theme, profile: data, html, css }
+}
+
+const edited: LinkedInProfile = {
+  ...profile,
+  personal: { ...profile.personal, headline: 'Staff Engineer' },
+  skills: ['TypeScript', 'Rust'],
+}
+
+const day = (n: number) => new Date(Date.UTC(2026, 0, n))
+
+describe('version history', () => {
+  it('records each save with who made it and skips unchanged saves', async () => {
+    const history = new VersionHistory({ getTier: async () => tier('pro') }, memoryStore())
+
+    await history.record('u1', 'p1', snapshot(profile), { source: 'import', author: 'u1' }, day(1))
+    const ai = await history.record('u1', 'p1', snapshot(edited), {
+      source: 'ai_edit',
+      author: 'u1',
+      model: 'gpt-4o',
+      prompt: { id: 'TEMPLATE_CUSTOMIZER', hash: 'sha256:template_customizer_v2.0', request: 'Sound more senior' },
+    }, day(2))
+    const unchanged = await history.record('u1', 'p1', snapshot(edited), { source: 'edit', author: 'u1' }, day(3))
+
+    expect(unchanged).toEqual(ai)
+    expect((await history.list('u1', 'p1')).map(v => [v.number, v.source, v.createdAt])).toEqual([
+      [2, 'ai_edit', '2026-01-02T00:00:00.000Z'],
+      [1, 'import', '2026-01-01T00:00:00.000Z'],
+    ])
+    expect(ai.prompt?.request).toBe('Sound more senior')
+
+    const stored = await history.get('u1', 'p1', 1)
+    expect(Object.isFrozen(stored.snapshot.profile.personal)).toBe(true)
+    await expect(history.get('u1', 'p1', 9)).rejects.toThrow('Version 9 not found')
+  })
+
+  it('diffs the structure and the rendered page', async () => {
+    const history = new VersionHistory({ getTier: async () => tier('pro') }, memoryStore())
+    const theme = setToken(defaultTheme(template), 'palette.accent', '#0b5394')
+
+    await history.record('u1', 'p1', snapshot(profile), { source: 'import', author: 'u1' }, day(1))
+    await history.record('u1', 'p1', snapshot(edited, theme), { source: 'edit', author: 'u1' }, day(2))
+    const { diff } = await history.compare('u1', 'p1', 1, 2)
+
+    expect(diff.template).toBeUndefined()
+    expect(diff.theme).toEqual([{ token: 'palette.accent', from: defaultTheme(template).palette.accent, to: '#0b5394' }])
+    expect(diff.profile).toEqual([
+      { path: 'personal.headline', kind: 'changed', before: 'Engineer', after: 'Staff Engineer' },
+      { path: 'skills', kind: 'removed', before: 'Go' },
+      { path: 'skills', kind: 'added', after: 'Rust' },
+    ])
+    expect(diff.stylesChanged).toBe(true)
+    expect(diff.regions.map(region => region.region)).toEqual(['header', 'skills'])
+    expect(diff.regions[0].text).toContainEqual({ kind: 'added', text: 'Staff' })
+    expect(diff.regions[1].text).toEqual([
+      { kind: 'same', text: 'Skills TypeScript' },
+      { kind: 'removed', text: 'Go' },
+      { kind: 'added', text: 'Rust' },
+    ])
+  })
+
+  it('rolls back by saving the old snapshot as a new version', async () => {
+    const history = new VersionHistory({ getTier: async () => tier('pro') }, memoryStore())
+
+    await history.record('u1', 'p1', snapshot(profile), { source: 'import', author: 'u1' }, day(1))
+    await history.record('u1', 'p1', snapshot(edited), { source: 'edit', author: 'u1' }, day(2))
+    const restored = await history.rollback('u1', 'p1', 1, day(3))
+
+    expect(restored).toMatchObject({ number: 3, source: 'rollback', restoredFrom: 1 })
+    expect(restored.snapshot.profile.personal.headline).toBe('Engineer')
+    expect((await history.list('u1', 'p1')).map(v => v.number)).toEqual([3, 2, 1])
+    await expect(history.rollback('u1', 'p1', 1)).rejects.toThrow('Version 1 is already the current content')
+  })
+
+  it('only writes versions of the user\'s own portfolios', async () => {
+    const store = memoryStore({ p1: 'u1', p2: 'u2' })
+    const history = new VersionHistory({ getTier: async () => tier('pro') }, store)
+    await history.record('u2', 'p2', snapshot(profile), { source: 'import', author: 'u2' }, day(1))
+    await history.record('u2', 'p2', snapshot(edited), { source: 'edit', author: 'u2' }, day(2))
+
+    await expect(history.record('u1', 'p2', snapshot(edited), { source: 'edit', author: 'u1' }, day(3))).rejects.toThrow('Portfolio not found')
+    await expect(history.rollback('u1', 'p2', 1, day(3))).rejects.toThrow('Portfolio not found')
+    expect((await store.list('u2', 'p2')).map(v => v.number)).toEqual([2, 1])
+  })
+
+  it('prunes by the tier\'s count and age limits, keeping the current version', async () => {
+    const history = new VersionHistory({ getTier: async () => tier('free') }, memoryStore())
+
+    for (let n = 1; n <= 12; n++) {
+      const data = { ...profile, personal: { ...profile.personal, headline: `Engineer ${n}` } }
+      await history.record('u1', 'p1', snapshot(data), { source: 'edit', author: 'u1' }, day(n))
+    }
+    expect((await history.list('u1', 'p1')).map(v => v.number)).toEqual([12, 11, 10, 9, 8, 7, 6, 5, 4, 3])
+
+    // Free plans keep versions for 30 days
+    await history.record('u1', 'p1', snapshot(edited), { source: 'edit', author: 'u1' }, day(40))
+    expect((await history.list('u1', 'p1')).map(v => v.number)).toEqual([13, 12, 11, 10])
+  })
+})